@@ -0,0 +1,37 @@
+import { test, expect } from "bun:test";
+import { mkdtempSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { authorizeRequest, loadHookSecret, HOOK_SECRET_HEADER } from "./auth";
+
+const auth = { apiToken: "api-token", hookSecret: "hook-secret" };
+
+test("hook events need the hook secret, everything else the API token", () => {
+  const hook = (headers: Record<string, string>) =>
+    authorizeRequest(new Request("http://localhost/api/hooks/stop", { method: "POST", headers }), auth);
+  expect(hook({ [HOOK_SECRET_HEADER]: "hook-secret" })).toBe(true);
+  expect(hook({ Authorization: "Bearer api-token" })).toBe(false);
+  expect(authorizeRequest(new Request("http://localhost/api/workers/api/hooks/tool", {
+    method: "POST",
+    headers: { [HOOK_SECRET_HEADER]: "hook-secret" },
+  }), auth)).toBe(true);
+
+  const inject = (init: RequestInit, query = "") =>
+    authorizeRequest(new Request(`http://localhost/api/control/inject${query}`, { method: "POST", ...init }), auth);
+  expect(inject({ headers: { Authorization: "Bearer api-token" } })).toBe(true);
+  expect(inject({}, "?token=api-token")).toBe(true);
+  expect(inject({ headers: { [HOOK_SECRET_HEADER]: "hook-secret" } })).toBe(false);
+  expect(inject({ headers: { Authorization: "Bearer api-toke" } })).toBe(false);
+
+  // Tool history is read by the UI, not posted by hooks
+  expect(authorizeRequest(new Request("http://localhost/api/hooks/tools?token=api-token"), auth)).toBe(true);
+});
+
+test("hook secret is created once, readable by the owner only", async () => {
+  const path = join(mkdtempSync(join(tmpdir(), "cco-auth-")), ".cco", "hook-secret");
+  const secret = await loadHookSecret(path);
+
+  expect(secret).toMatch(/^[A-Za-z0-9_-]{32}$/);
+  expect(statSync(path).mode & 0o777).toBe(0o600);
+  expect(await loadHookSecret(path)).toBe(secret);
+});
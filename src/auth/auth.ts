@@ -0,0 +1,99 @@
+/**
+ * API Authentication
+ *
+ * The control API and the WebSocket require a token generated at startup
+ * (printed with the monitor URL). Hook endpoints are called by curl from
+ * Claude Code hooks, which cannot know a per-run token, so they take a
+ * separate long-lived secret kept in a file that the installed hook commands
+ * read when they run and the server reads at startup.
+ */
+
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { existsSync } from "node:fs";
+import { chmod, mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+/** Hook secret file, next to the run history database */
+export const DEFAULT_HOOK_SECRET_PATH = ".cco/hook-secret";
+
+/** Header carrying the hook secret */
+export const HOOK_SECRET_HEADER = "X-CCO-Hook-Secret";
+
+/** Query parameter carrying the API token (the browser WebSocket API cannot set headers) */
+export const TOKEN_QUERY_PARAM = "token";
+
+/**
+ * Credentials the server checks
+ */
+export interface ServerAuth {
+  /** Token for /api/* and /ws */
+  apiToken: string;
+  /** Secret for the hook endpoints */
+  hookSecret: string;
+}
+
+/**
+ * Random URL- and shell-safe token
+ */
+export function generateToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/**
+ * Read the hook secret, creating it (readable by the owner only) if missing
+ * @throws Error if the file exists but is empty
+ */
+export async function loadHookSecret(path: string = DEFAULT_HOOK_SECRET_PATH): Promise<string> {
+  if (existsSync(path)) {
+    const secret = (await readFile(path, "utf8")).trim();
+    if (!secret) {
+      throw new Error(`Hook secret file is empty: ${path}`);
+    }
+    return secret;
+  }
+
+  const secret = generateToken();
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, secret + "\n", { mode: 0o600 });
+  await chmod(path, 0o600);
+  return secret;
+}
+
+/**
+ * Compare a presented credential with the expected one in constant time
+ */
+export function tokensMatch(presented: string | null | undefined, expected: string): boolean {
+  if (!presented) return false;
+  const a = Buffer.from(presented);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * API token presented by a request: "Authorization: Bearer <token>" or ?token=
+ */
+export function requestToken(req: Request): string | null {
+  const header = req.headers.get("authorization");
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim();
+  }
+  return new URL(req.url).searchParams.get(TOKEN_QUERY_PARAM);
+}
+
+/**
+ * Whether a request is a Claude Code hook event (authenticated by the hook secret)
+ */
+export function isHookRequest(method: string, pathname: string): boolean {
+  return method === "POST" && /^\/api\/(hooks\/|workers\/[^/]+\/hooks\/|supervisor\/stop$)/.test(pathname);
+}
+
+/**
+ * Check a request against the server credentials
+ */
+export function authorizeRequest(req: Request, auth: ServerAuth): boolean {
+  const { pathname } = new URL(req.url);
+  if (isHookRequest(req.method, pathname)) {
+    return tokensMatch(req.headers.get(HOOK_SECRET_HEADER), auth.hookSecret);
+  }
+  return tokensMatch(requestToken(req), auth.apiToken);
+}
@@ -0,0 +1,18 @@
+/**
+ * Auth Module
+ *
+ * API token and hook secret for the HTTP and WebSocket endpoints.
+ */
+
+export {
+  generateToken,
+  loadHookSecret,
+  tokensMatch,
+  requestToken,
+  isHookRequest,
+  authorizeRequest,
+  DEFAULT_HOOK_SECRET_PATH,
+  HOOK_SECRET_HEADER,
+  TOKEN_QUERY_PARAM,
+} from "./auth";
+export type { ServerAuth } from "./auth";
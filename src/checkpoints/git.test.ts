@@ -0,0 +1,122 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { $ } from "bun";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HooksController } from "../hooks";
+import { GitCheckpoints } from "./git";
+
+let repo: string;
+
+beforeEach(async () => {
+  repo = mkdtempSync(join(tmpdir(), "cco-checkpoints-"));
+  await $`git init -q`.cwd(repo);
+  writeFileSync(join(repo, "a.txt"), "one\n");
+  await $`git add a.txt && git -c user.name=t -c user.email=t@t commit -qm init`.cwd(repo);
+});
+
+afterEach(() => {
+  rmSync(repo, { recursive: true, force: true });
+});
+
+test("checkpoints snapshot the tree without touching HEAD or the index", async () => {
+  const store = new GitCheckpoints(repo);
+  const head = (await $`git rev-parse HEAD`.cwd(repo).text()).trim();
+
+  writeFileSync(join(repo, "a.txt"), "two\n");
+  writeFileSync(join(repo, "b.txt"), "new\n");
+  const first = await store.create({ iteration: 1, label: "iteration 1", sessionId: "s1" });
+
+  expect(first).toMatchObject({ iteration: 1, label: "iteration 1", sessionId: "s1" });
+  expect((await $`git rev-parse HEAD`.cwd(repo).text()).trim()).toBe(head);
+  expect((await $`git diff --cached --name-only`.cwd(repo).text()).trim()).toBe("");
+
+  const diff = await store.diff(first.id);
+  expect(diff).toContain("+two");
+  expect(diff).toContain("b.txt");
+
+  const second = await store.create({ iteration: 2, label: "iteration 2" });
+  expect((await store.list()).map((c) => c.id)).toEqual([second.id, first.id]);
+});
+
+test("diff only compares against checkpoints", async () => {
+  const store = new GitCheckpoints(repo);
+  const checkpoint = await store.create({ iteration: 1, label: "iteration 1" });
+  const output = join(repo, "overwritten.txt");
+
+  await expect(store.diff(checkpoint.id, `--output=${output}`)).rejects.toThrow("Unknown checkpoint");
+  await expect(store.diff(checkpoint.id, "HEAD")).rejects.toThrow("Unknown checkpoint: HEAD");
+  expect(await store.get(`--output=${output}`)).toBeNull();
+  expect(existsSync(output)).toBe(false);
+});
+
+test("restore brings back files and removes ones created later", async () => {
+  const store = new GitCheckpoints(repo);
+  const before = await store.create({ iteration: 0, label: "task start" });
+
+  writeFileSync(join(repo, "a.txt"), "broken\n");
+  writeFileSync(join(repo, "junk.txt"), "junk\n");
+
+  const safety = await store.restore(before.id);
+
+  expect(readFileSync(join(repo, "a.txt"), "utf8")).toBe("one\n");
+  expect(existsSync(join(repo, "junk.txt"))).toBe(false);
+  expect(safety.iteration).toBeNull();
+  expect(await store.diff(safety.id, before.id)).toContain("+broken");
+});
+
+test("restore works from a subdirectory of the repository", async () => {
+  const api = join(repo, "api");
+  mkdirSync(api);
+  writeFileSync(join(api, "server.ts"), "v1\n");
+  const store = new GitCheckpoints(api);
+  const before = await store.create({ iteration: 0, label: "task start" });
+
+  writeFileSync(join(api, "server.ts"), "broken\n");
+  writeFileSync(join(api, "junk.ts"), "junk\n");
+  writeFileSync(join(repo, "outside.txt"), "not the worker's\n");
+
+  await store.restore(before.id);
+
+  expect(readFileSync(join(api, "server.ts"), "utf8")).toBe("v1\n");
+  expect(existsSync(join(api, "junk.ts"))).toBe(false);
+  expect(existsSync(join(repo, "outside.txt"))).toBe(true);
+});
+
+test("excluded paths are neither snapshotted nor restored", async () => {
+  mkdirSync(join(repo, ".cco"));
+  writeFileSync(join(repo, ".cco", "cco.db"), "old\n");
+  // Taken before .cco was excluded
+  const legacy = await new GitCheckpoints(repo).create({ iteration: 0, label: "task start" });
+  const store = new GitCheckpoints(repo, { exclude: [join(repo, ".cco"), tmpdir()] });
+  const checkpoint = await store.create({ iteration: 1, label: "iteration 1" });
+
+  expect((await $`git ls-tree -r --name-only ${checkpoint.id}`.cwd(repo).text()).split("\n")).not.toContain(".cco/cco.db");
+
+  writeFileSync(join(repo, ".cco", "cco.db"), "live\n");
+  await store.restore(legacy.id);
+  expect(readFileSync(join(repo, ".cco", "cco.db"), "utf8")).toBe("live\n");
+});
+
+test("rollback decision restores the previous checkpoint and injects the command", async () => {
+  const injected: string[] = [];
+  const controller = new HooksController();
+  controller.setCheckpointer(new GitCheckpoints(repo));
+  controller.setSupervisor(async ({ checkpoints }) =>
+    checkpoints?.length === 2
+      ? { action: "rollback", command: "try again, smaller", reason: "broke a.txt", confidence: 0.9 }
+      : { action: "stop", reason: "done", confidence: 0.9 }
+  );
+  controller.setOnInject((command) => injected.push(command));
+  controller.start("task");
+  // The baseline is taken in the background; let it land before the worker "edits"
+  while (controller.getCheckpoints().length === 0) await Bun.sleep(10);
+
+  writeFileSync(join(repo, "a.txt"), "broken\n");
+  await controller.onStop({ session_id: "s1", transcript_path: "/dev/null", hook_event_name: "Stop" });
+
+  expect(injected).toEqual(["try again, smaller"]);
+  expect(readFileSync(join(repo, "a.txt"), "utf8")).toBe("one\n");
+  expect(controller.getCheckpoints().map((c) => c.label)).toEqual(["task start"]);
+  expect(controller.getState()).toBe("monitoring");
+});
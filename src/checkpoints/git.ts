@@ -0,0 +1,243 @@
+/**
+ * Git Checkpoints
+ *
+ * Snapshots the worker's working tree after every Stop event without
+ * touching HEAD, the branch or the user's index: files are staged into a
+ * temporary index, written as a tree and committed onto a shadow ref
+ * (refs/cco/checkpoints). Each checkpoint's parent is the previous one, so
+ * `git diff <checkpoint>^ <checkpoint>` shows what one iteration changed.
+ */
+
+import { $ } from "bun";
+import { rm } from "node:fs/promises";
+import { isAbsolute, join, relative, resolve } from "node:path";
+import type { Checkpoint, CheckpointInfo } from "../hooks/types";
+
+/** Shadow ref holding the checkpoint chain */
+export const CHECKPOINT_REF = "refs/cco/checkpoints";
+
+const SUBJECT_PREFIX = "cco checkpoint";
+const EMPTY_TREE = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+
+/** Identity for checkpoint commits (works without user.name/user.email) */
+const COMMIT_IDENTITY = {
+  GIT_AUTHOR_NAME: "cco",
+  GIT_AUTHOR_EMAIL: "cco@localhost",
+  GIT_COMMITTER_NAME: "cco",
+  GIT_COMMITTER_EMAIL: "cco@localhost",
+};
+
+export interface GitCheckpointsOptions {
+  /** Shadow ref holding the checkpoint chain (default: CHECKPOINT_REF) */
+  ref?: string;
+  /**
+   * Paths never snapshotted or restored, such as CCO's own state directory
+   * (the live database and hook secret). Paths outside cwd are ignored.
+   */
+  exclude?: string[];
+}
+
+export class GitCheckpoints {
+  readonly cwd: string;
+  private ref: string;
+  /** Excluded paths, relative to cwd */
+  private exclude: string[];
+
+  /**
+   * @param cwd - Working tree to checkpoint (must be inside a git repository)
+   */
+  constructor(cwd: string, options: GitCheckpointsOptions = {}) {
+    this.cwd = resolve(cwd);
+    this.ref = options.ref ?? CHECKPOINT_REF;
+    this.exclude = (options.exclude ?? [])
+      .map((path) => relative(this.cwd, resolve(path)))
+      .filter((path) => path && !path.startsWith("..") && !isAbsolute(path));
+  }
+
+  /**
+   * Whether a directory is inside a git work tree
+   */
+  static async isRepository(cwd: string): Promise<boolean> {
+    const result = await $`git rev-parse --is-inside-work-tree`.cwd(cwd).nothrow().quiet();
+    return result.exitCode === 0 && result.stdout.toString().trim() === "true";
+  }
+
+  /**
+   * Snapshot the working tree (tracked and untracked, minus ignored files)
+   */
+  async create(info: CheckpointInfo): Promise<Checkpoint> {
+    const tree = await this.snapshotTree();
+    const parent = (await this.resolve(this.ref)) ?? (await this.resolve("HEAD"));
+
+    const message = [
+      info.iteration === null ? `${SUBJECT_PREFIX}: ${info.label}` : `${SUBJECT_PREFIX}: iteration ${info.iteration}`,
+      "",
+      `iteration: ${info.iteration ?? ""}`,
+      `session: ${info.sessionId ?? ""}`,
+      `label: ${info.label}`,
+    ].join("\n");
+
+    const parentArgs = parent ? ["-p", parent] : [];
+    const id = (
+      await $`git commit-tree ${tree} ${parentArgs} -m ${message}`
+        .cwd(this.cwd)
+        .env({ ...process.env, ...COMMIT_IDENTITY })
+        .quiet()
+    ).stdout.toString().trim();
+
+    await $`git update-ref ${this.ref} ${id}`.cwd(this.cwd).quiet();
+    return (await this.get(id))!;
+  }
+
+  /**
+   * All checkpoints, newest first
+   */
+  async list(): Promise<Checkpoint[]> {
+    if (!(await this.resolve(this.ref))) return [];
+
+    const output = (
+      await $`git log --first-parent --format=%H%x1f%cI%x1f%B%x1e ${this.ref}`.cwd(this.cwd).quiet()
+    ).stdout.toString();
+
+    const checkpoints: Checkpoint[] = [];
+    for (const record of output.split("\x1e")) {
+      const checkpoint = parseCheckpoint(record);
+      // The chain starts on top of the user's HEAD; stop at the first real commit
+      if (!checkpoint) break;
+      checkpoints.push(checkpoint);
+    }
+    return checkpoints;
+  }
+
+  /**
+   * Get a checkpoint by (possibly abbreviated) id, or null if unknown
+   */
+  async get(id: string): Promise<Checkpoint | null> {
+    const sha = await this.resolve(`${id}^{commit}`);
+    if (!sha) return null;
+
+    const result = await $`git log -1 --format=%H%x1f%cI%x1f%B ${sha}`.cwd(this.cwd).nothrow().quiet();
+    return result.exitCode === 0 ? parseCheckpoint(result.stdout.toString()) : null;
+  }
+
+  /**
+   * Unified diff of a checkpoint
+   * @param id - Checkpoint to diff
+   * @param against - Another checkpoint id, "current" for the working tree,
+   *                  or omitted for the previous checkpoint (what the iteration changed)
+   * @throws Error if against is neither "current" nor a checkpoint
+   */
+  async diff(id: string, against?: string): Promise<string> {
+    if (against === "current") {
+      const tree = await this.snapshotTree();
+      return (await $`git diff --end-of-options ${id} ${tree}`.cwd(this.cwd).quiet()).stdout.toString();
+    }
+
+    let base: string;
+    if (against !== undefined) {
+      const checkpoint = await this.get(against);
+      if (!checkpoint) {
+        throw new Error(`Unknown checkpoint: ${against}`);
+      }
+      base = checkpoint.id;
+    } else {
+      base = (await this.resolve(`${id}^`)) ?? EMPTY_TREE;
+    }
+    return (await $`git diff --end-of-options ${base} ${id}`.cwd(this.cwd).quiet()).stdout.toString();
+  }
+
+  /**
+   * Restore the working tree to a checkpoint. The current state is saved
+   * as a safety checkpoint first; HEAD and the user's index are untouched.
+   * @returns The safety checkpoint taken before restoring
+   * @throws Error if the checkpoint does not exist
+   */
+  async restore(id: string): Promise<Checkpoint> {
+    const target = await this.get(id);
+    if (!target) {
+      throw new Error(`Unknown checkpoint: ${id}`);
+    }
+
+    const safety = await this.create({
+      iteration: null,
+      label: `before restoring ${target.id.slice(0, 12)}`,
+    });
+
+    // Files created after the checkpoint are removed (paths relative to cwd, which may be a subdirectory)
+    const added = (
+      await $`git diff --name-only --relative --no-renames --diff-filter=A -z ${target.id} ${safety.id} -- ${this.pathspec()}`.cwd(this.cwd).quiet()
+    ).stdout.toString().split("\0").filter(Boolean);
+    for (const file of added) {
+      await rm(join(this.cwd, file), { force: true });
+    }
+
+    // Everything else is written back from the checkpoint's tree
+    await this.withTempIndex(async (env) => {
+      await $`git read-tree ${target.id}`.cwd(this.cwd).env(env).quiet();
+      // Checkpoints taken before a path was excluded may still contain it
+      if (this.exclude.length > 0) {
+        await $`git rm -r -q -f --cached --ignore-unmatch -- ${this.exclude}`.cwd(this.cwd).env(env).quiet();
+      }
+      await $`git checkout-index -a -f`.cwd(this.cwd).env(env).quiet();
+    });
+
+    return safety;
+  }
+
+  private async snapshotTree(): Promise<string> {
+    return this.withTempIndex(async (env) => {
+      await $`git add -A -- ${this.pathspec()}`.cwd(this.cwd).env(env).quiet();
+      return (await $`git write-tree`.cwd(this.cwd).env(env).quiet()).stdout.toString().trim();
+    });
+  }
+
+  /**
+   * Pathspec for everything under cwd except the excluded paths
+   */
+  private pathspec(): string[] {
+    return [".", ...this.exclude.map((path) => `:(exclude)${path}`)];
+  }
+
+  /**
+   * Run git commands against a throwaway index so the user's staging area is untouched
+   */
+  private async withTempIndex<T>(fn: (env: Record<string, string | undefined>) => Promise<T>): Promise<T> {
+    const gitDir = (await $`git rev-parse --absolute-git-dir`.cwd(this.cwd).quiet()).stdout.toString().trim();
+    const indexFile = join(gitDir, `cco-index-${process.pid}-${crypto.randomUUID()}`);
+    try {
+      return await fn({ ...process.env, GIT_INDEX_FILE: indexFile });
+    } finally {
+      await rm(indexFile, { force: true });
+    }
+  }
+
+  private async resolve(rev: string): Promise<string | null> {
+    const result = await $`git rev-parse --verify --quiet --end-of-options ${rev}`.cwd(this.cwd).nothrow().quiet();
+    return result.exitCode === 0 ? result.stdout.toString().trim() : null;
+  }
+}
+
+/**
+ * Parse a `%H%x1f%cI%x1f%B` log record; null if it is not a checkpoint commit
+ */
+function parseCheckpoint(record: string): Checkpoint | null {
+  const [id, createdAt, body] = record.trim().split("\x1f");
+  if (!id || !createdAt || !body?.startsWith(SUBJECT_PREFIX)) return null;
+
+  const fields = new Map<string, string>();
+  for (const line of body.split("\n").slice(1)) {
+    const separator = line.indexOf(":");
+    if (separator > 0) {
+      fields.set(line.slice(0, separator), line.slice(separator + 1).trim());
+    }
+  }
+
+  const iteration = fields.get("iteration");
+  return {
+    id,
+    iteration: iteration ? parseInt(iteration, 10) : null,
+    label: fields.get("label") ?? "",
+    sessionId: fields.get("session") || null,
+    createdAt,
+  };
+}
@@ -0,0 +1,9 @@
+/**
+ * Checkpoints Module
+ *
+ * Git snapshots of the worker's working tree taken after every Stop event
+ */
+
+export { GitCheckpoints, CHECKPOINT_REF } from "./git";
+export type { GitCheckpointsOptions } from "./git";
+export type { Checkpoint, CheckpointInfo } from "../hooks/types";
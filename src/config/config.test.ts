@@ -0,0 +1,62 @@
+import { test, expect } from "bun:test";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DEFAULT_CONFIG, findConfigFile, loadConfig, settingsFromFlags } from "./config";
+
+function tempDir(): string {
+  return mkdtempSync(join(tmpdir(), "cco-config-"));
+}
+
+test("profiles override the file, flags override the profile", async () => {
+  const project = tempDir();
+  writeFileSync(join(project, ".ccorc.json"), JSON.stringify({
+    maxIterations: 20,
+    verify: ["bun test"],
+    profiles: {
+      cheap: { supervisor: "api", apiModel: "claude-haiku-4-5", maxCost: 1 },
+      overnight: { maxIterations: 500, approve: false },
+    },
+    defaultProfile: "cheap",
+  }));
+
+  const resolved = await loadConfig({
+    cwd: project,
+    home: tempDir(),
+    overrides: settingsFromFlags({ "max-cost": "2.5", "max-iterations": undefined, checkpoints: false }),
+  });
+
+  expect(resolved.path).toBe(join(project, ".ccorc.json"));
+  expect(resolved.profile).toBe("cheap");
+  expect(resolved.config).toEqual({
+    ...DEFAULT_CONFIG,
+    maxIterations: 20,
+    verify: ["bun test"],
+    supervisor: "api",
+    apiModel: "claude-haiku-4-5",
+    maxCost: 2.5,
+  });
+
+  const overnight = await loadConfig({ cwd: project, home: tempDir(), profile: "overnight" });
+  expect(overnight.config.maxIterations).toBe(500);
+  expect(overnight.config.supervisor).toBe("interactive");
+  await expect(loadConfig({ cwd: project, home: tempDir(), profile: "careful" })).rejects.toThrow(
+    'Unknown profile "careful" (available: cheap, overnight)'
+  );
+});
+
+test("config files are looked up in the project, then the home directory", async () => {
+  const project = tempDir();
+  const home = tempDir();
+  expect(findConfigFile(project, home)).toBeNull();
+
+  writeFileSync(join(home, "cco.config.ts"), `export default { claudeBin: "/opt/claude", profiles: { careful: { approveBelow: 0.8 } } };`);
+  const resolved = await loadConfig({ cwd: project, home, profile: "careful" });
+  expect(resolved.config).toMatchObject({ claudeBin: "/opt/claude", approveBelow: 0.8 });
+
+  writeFileSync(join(project, ".ccorc.json"), JSON.stringify({ port: "4000" }));
+  expect(findConfigFile(project, home)).toBe(join(project, ".ccorc.json"));
+  await expect(loadConfig({ cwd: project, home })).rejects.toThrow('"port" must be a number');
+  await expect(loadConfig({ cwd: project, home, overrides: settingsFromFlags({ "approve-below": "2" }) }))
+    .rejects.toThrow();
+});
@@ -0,0 +1,414 @@
+/**
+ * CCO Configuration
+ *
+ * Typed settings loaded from cco.config.ts or .ccorc.json in the project
+ * directory, falling back to the home directory. Settings resolve in order:
+ * built-in defaults, the file's top level, the selected profile, CLI flags.
+ * Durations are in seconds, like the matching CLI flags.
+ */
+
+import { existsSync } from "node:fs";
+import { homedir } from "node:os";
+import { extname, join, resolve } from "node:path";
+import type { DecisionFormat } from "../supervisor/decision";
+import { DEFAULT_DB_PATH } from "../history/store";
+import { WATCHDOG_ACTIONS, type WatchdogAction } from "../watchdog/watchdog";
+
+/**
+ * Which supervisor decides for the primary worker
+ */
+export type SupervisorKind =
+  | 'interactive'  // Persistent Claude PTY in supervisorCwd
+  | 'spawn'        // Fresh `claude -p` per decision
+  | 'api'          // Messages API, no claude binary
+  | 'mock';        // Canned decisions, for testing
+
+/**
+ * Fully resolved settings for a run
+ */
+export interface CcoConfig {
+  /** Claude Code binary for the workers and the supervisor */
+  claudeBin: string;
+  port: number;
+  /** Run history database */
+  db: string;
+  supervisor: SupervisorKind;
+  /** Working directory of the interactive supervisor */
+  supervisorCwd: string;
+  maxIterations: number;
+  decisionFormat: DecisionFormat;
+  maxCorrections: number;
+  /** Per-decision timeout of the spawn and API supervisors (null = their defaults, 30/60) */
+  supervisorTimeout: number | null;
+  /** How long the interactive supervisor may take to reply */
+  responseTimeout: number;
+  /** How long the interactive supervisor may take to show its prompt */
+  startupTimeout: number;
+  /** Interactive supervisor output meaning Claude is ready for input */
+  readyIndicators: string[];
+  apiBaseUrl: string | null;
+  apiModel: string | null;
+  /** Supervisor rules file (.json or .ts) */
+  rules: string | null;
+  /** Supervisor prompt template file */
+  promptTemplate: string | null;
+  /** Project rules of engagement for the supervisor */
+  instructions: string | null;
+  /** Token budget for the worker transcript digest in supervisor prompts */
+  transcriptBudget: number;
+  /** Recent worker messages kept in the transcript digest */
+  transcriptExchanges: number;
+  /** Tool policy file (.json or .ts) */
+  policy: string | null;
+  /** Verification gate commands */
+  verify: string[];
+  verifyTimeout: number;
+  checkpoints: boolean;
+  /** Hold every supervisor decision for approval */
+  approve: boolean;
+  /** Hold decisions below this confidence for approval */
+  approveBelow: number | null;
+  /** Apply a held decision unchanged after this long */
+  approveTimeout: number | null;
+  /** Cost budget in USD */
+  maxCost: number | null;
+  /** Price table file merged over the built-in prices */
+  priceTable: string | null;
+  stopHookTimeout: number;
+  /** What to do when the worker stalls or loops */
+  watchdog: WatchdogAction;
+  /** Quiet period, or single tool call duration, that counts as a stall */
+  stallTimeout: number;
+  /** Identical tool calls that count as a loop */
+  loopThreshold: number;
+}
+
+/**
+ * Settings as written in a config file or profile (all optional)
+ */
+export type CcoSettings = Partial<CcoConfig>;
+
+/**
+ * Config file contents: top-level settings plus named profiles
+ */
+export interface CcoConfigFile extends CcoSettings {
+  /** Setting sets selected with --profile, e.g. "cheap", "careful", "overnight" */
+  profiles?: Record<string, CcoSettings>;
+  /** Profile used when --profile is not given */
+  defaultProfile?: string;
+}
+
+/**
+ * Settings a run used, and where they came from
+ */
+export interface ResolvedConfig {
+  config: CcoConfig;
+  /** Config file that was loaded (null = defaults and flags only) */
+  path: string | null;
+  profile: string | null;
+}
+
+/** File names looked up in the project, then the home directory */
+export const CONFIG_FILE_NAMES = ["cco.config.ts", ".ccorc.json"];
+
+export const DEFAULT_CLAUDE_BIN = join(homedir(), ".claude", "local", "claude");
+
+/** Patterns indicating Claude is waiting for input (for startup detection) */
+export const DEFAULT_READY_INDICATORS = [
+  "bypass permissions on",      // Always shown when ready
+  "Claude Code",                // Banner
+  "shift+tab to cycle",         // Permission prompt
+];
+
+export const DEFAULT_CONFIG: CcoConfig = {
+  claudeBin: DEFAULT_CLAUDE_BIN,
+  port: 13013,
+  db: DEFAULT_DB_PATH,
+  supervisor: 'interactive',
+  supervisorCwd: "./master",
+  maxIterations: 50,
+  decisionFormat: 'markers',
+  maxCorrections: 2,
+  supervisorTimeout: null,
+  responseTimeout: 60,
+  startupTimeout: 30,
+  readyIndicators: DEFAULT_READY_INDICATORS,
+  apiBaseUrl: null,
+  apiModel: null,
+  rules: null,
+  promptTemplate: null,
+  instructions: null,
+  transcriptBudget: 6000,
+  transcriptExchanges: 8,
+  policy: null,
+  verify: [],
+  verifyTimeout: 300,
+  checkpoints: false,
+  approve: false,
+  approveBelow: null,
+  approveTimeout: null,
+  maxCost: null,
+  priceTable: null,
+  stopHookTimeout: 300,
+  watchdog: 'escalate',
+  stallTimeout: 300,
+  loopThreshold: 3,
+};
+
+type SettingKind = 'string' | 'number' | 'boolean' | 'string[]';
+
+/** Expected type per setting; nullable settings also accept null */
+const SETTING_KINDS: Record<keyof CcoConfig, SettingKind> = {
+  claudeBin: 'string',
+  port: 'number',
+  db: 'string',
+  supervisor: 'string',
+  supervisorCwd: 'string',
+  maxIterations: 'number',
+  decisionFormat: 'string',
+  maxCorrections: 'number',
+  supervisorTimeout: 'number',
+  responseTimeout: 'number',
+  startupTimeout: 'number',
+  readyIndicators: 'string[]',
+  apiBaseUrl: 'string',
+  apiModel: 'string',
+  rules: 'string',
+  promptTemplate: 'string',
+  instructions: 'string',
+  transcriptBudget: 'number',
+  transcriptExchanges: 'number',
+  policy: 'string',
+  verify: 'string[]',
+  verifyTimeout: 'number',
+  checkpoints: 'boolean',
+  approve: 'boolean',
+  approveBelow: 'number',
+  approveTimeout: 'number',
+  maxCost: 'number',
+  priceTable: 'string',
+  stopHookTimeout: 'number',
+  watchdog: 'string',
+  stallTimeout: 'number',
+  loopThreshold: 'number',
+};
+
+const SUPERVISOR_KINDS: SupervisorKind[] = ['interactive', 'spawn', 'api', 'mock'];
+
+/**
+ * CLI flag → setting, for flags that override the config file
+ */
+const FLAG_SETTINGS: Record<string, keyof CcoConfig> = {
+  "claude-bin": "claudeBin",
+  port: "port",
+  db: "db",
+  "supervisor-cwd": "supervisorCwd",
+  "max-iterations": "maxIterations",
+  "decision-format": "decisionFormat",
+  "max-corrections": "maxCorrections",
+  "api-base-url": "apiBaseUrl",
+  "api-model": "apiModel",
+  rules: "rules",
+  "prompt-template": "promptTemplate",
+  instructions: "instructions",
+  "transcript-budget": "transcriptBudget",
+  policy: "policy",
+  verify: "verify",
+  "verify-timeout": "verifyTimeout",
+  checkpoints: "checkpoints",
+  approve: "approve",
+  "approve-below": "approveBelow",
+  "approve-timeout": "approveTimeout",
+  "max-cost": "maxCost",
+  "price-table": "priceTable",
+  "stop-hook-timeout": "stopHookTimeout",
+  watchdog: "watchdog",
+  "stall-timeout": "stallTimeout",
+  "loop-threshold": "loopThreshold",
+};
+
+/**
+ * Find the config file: the project directory first, then the home directory
+ */
+export function findConfigFile(cwd: string = process.cwd(), home: string = homedir()): string | null {
+  for (const dir of [resolve(cwd), home]) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const path = join(dir, name);
+      if (existsSync(path)) return path;
+    }
+  }
+  return null;
+}
+
+/**
+ * Load a .json config file or a TypeScript/JavaScript module whose default
+ * export is a CcoConfigFile
+ * @throws Error if the file is missing or has invalid settings
+ */
+export async function loadConfigFile(path: string): Promise<CcoConfigFile> {
+  const fullPath = resolve(path);
+  if (!existsSync(fullPath)) {
+    throw new Error(`Config file not found: ${path}`);
+  }
+
+  const loaded: unknown = extname(fullPath) === '.json'
+    ? await Bun.file(fullPath).json()
+    : (await import(fullPath)).default;
+
+  if (!isObject(loaded)) {
+    throw new Error(`${path}: expected a config object`);
+  }
+
+  const { profiles, defaultProfile, ...settings } = loaded;
+  validateSettings(settings, path);
+  if (profiles !== undefined) {
+    if (!isObject(profiles)) {
+      throw new Error(`${path}: "profiles" must be an object of named settings`);
+    }
+    for (const [name, profile] of Object.entries(profiles)) {
+      if (!isObject(profile)) {
+        throw new Error(`${path}: profile "${name}" must be an object`);
+      }
+      validateSettings(profile, `${path} (profile "${name}")`);
+    }
+  }
+  if (defaultProfile !== undefined && (typeof defaultProfile !== "string" || !isObject(profiles) || !(defaultProfile in profiles))) {
+    throw new Error(`${path}: "defaultProfile" must name one of the profiles`);
+  }
+  return loaded as CcoConfigFile;
+}
+
+/**
+ * Merge defaults, file settings, the selected profile and overrides
+ * @throws Error on an unknown profile or invalid overrides
+ */
+export function resolveConfig(
+  file: CcoConfigFile | null,
+  options: { profile?: string; overrides?: CcoSettings } = {}
+): { config: CcoConfig; profile: string | null } {
+  const { profiles = {}, defaultProfile, ...base } = file ?? {};
+  const profile = options.profile ?? defaultProfile ?? null;
+  if (profile !== null && !(profile in profiles)) {
+    const known = Object.keys(profiles);
+    throw new Error(`Unknown profile "${profile}"${known.length > 0 ? ` (available: ${known.join(", ")})` : " (no profiles configured)"}`);
+  }
+
+  const overrides = options.overrides ?? {};
+  validateSettings(overrides, "command line");
+
+  const config: CcoConfig = {
+    ...DEFAULT_CONFIG,
+    ...base,
+    ...(profile !== null ? profiles[profile] : {}),
+    ...overrides,
+  };
+  return { config, profile };
+}
+
+/**
+ * Find, load and resolve the configuration for this run
+ * @param options.path - Config file (default: found with findConfigFile())
+ * @param options.profile - Profile name (default: the file's defaultProfile)
+ * @param options.overrides - Settings from CLI flags (see settingsFromFlags())
+ */
+export async function loadConfig(options: {
+  path?: string;
+  profile?: string;
+  overrides?: CcoSettings;
+  cwd?: string;
+  home?: string;
+} = {}): Promise<ResolvedConfig> {
+  const path = options.path ?? findConfigFile(options.cwd, options.home);
+  const file = path ? await loadConfigFile(path) : null;
+  const { config, profile } = resolveConfig(file, options);
+  return { config, path: path ? resolve(path) : null, profile };
+}
+
+/**
+ * Settings given as CLI flags (parseArgs values); absent flags are left out
+ * so they do not override the config file
+ */
+export function settingsFromFlags(values: Record<string, string | boolean | string[] | undefined>): CcoSettings {
+  const settings: Record<string, unknown> = {};
+
+  for (const [flag, key] of Object.entries(FLAG_SETTINGS)) {
+    const value = values[flag];
+    if (value === undefined || value === false) continue;
+    if (Array.isArray(value) && value.length === 0) continue;
+    settings[key] = SETTING_KINDS[key] === 'number' && typeof value === "string" ? Number(value) : value;
+  }
+
+  if (values["mock-supervisor"]) {
+    settings.supervisor = 'mock';
+  } else if (values["api-supervisor"]) {
+    settings.supervisor = 'api';
+  } else if (values["interactive-supervisor"]) {
+    settings.supervisor = 'interactive';
+  }
+  return settings as CcoSettings;
+}
+
+/**
+ * Check setting names, types and ranges
+ * @throws Error naming the first invalid setting
+ */
+export function validateSettings(settings: Record<string, unknown>, source: string): void {
+  for (const [key, value] of Object.entries(settings)) {
+    if (!(key in SETTING_KINDS)) {
+      throw new Error(`${source}: unknown setting "${key}"`);
+    }
+    const name = key as keyof CcoConfig;
+    if (value === null && DEFAULT_CONFIG[name] === null) continue;
+
+    const kind = SETTING_KINDS[name];
+    const valid = kind === 'string[]'
+      ? Array.isArray(value) && value.every((v) => typeof v === "string")
+      : kind === 'number'
+        ? typeof value === "number" && Number.isFinite(value)
+        : typeof value === kind;
+    if (!valid) {
+      throw new Error(`${source}: "${key}" must be ${kind === 'string[]' ? "a list of strings" : `a ${kind}`}`);
+    }
+  }
+
+  const problem = rangeProblem(settings as CcoSettings);
+  if (problem) {
+    throw new Error(`${source}: ${problem}`);
+  }
+}
+
+function rangeProblem(settings: CcoSettings): string | null {
+  const { port, supervisor, decisionFormat, approveBelow, watchdog, loopThreshold } = settings;
+  if (port !== undefined && !(Number.isInteger(port) && port > 0 && port < 65536)) {
+    return `"port" must be a port number`;
+  }
+  if (supervisor !== undefined && !SUPERVISOR_KINDS.includes(supervisor)) {
+    return `"supervisor" must be one of ${SUPERVISOR_KINDS.join(", ")}`;
+  }
+  if (decisionFormat !== undefined && decisionFormat !== 'markers' && decisionFormat !== 'json') {
+    return `"decisionFormat" must be markers or json`;
+  }
+  if (watchdog !== undefined && !WATCHDOG_ACTIONS.includes(watchdog)) {
+    return `"watchdog" must be one of ${WATCHDOG_ACTIONS.join(", ")}`;
+  }
+  if (loopThreshold !== undefined && !(Number.isInteger(loopThreshold) && loopThreshold >= 2)) {
+    return `"loopThreshold" must be a whole number of 2 or more`;
+  }
+  if (approveBelow !== undefined && approveBelow !== null && !(approveBelow >= 0 && approveBelow <= 1)) {
+    return `"approveBelow" must be a confidence between 0 and 1`;
+  }
+  for (const key of ['maxIterations', 'verifyTimeout', 'responseTimeout', 'startupTimeout', 'stopHookTimeout', 'supervisorTimeout', 'approveTimeout', 'maxCost', 'transcriptBudget', 'transcriptExchanges', 'stallTimeout'] as const) {
+    const value = settings[key];
+    if (value !== undefined && value !== null && !(value > 0)) {
+      return `"${key}" must be greater than 0`;
+    }
+  }
+  if (settings.maxCorrections !== undefined && !(settings.maxCorrections >= 0)) {
+    return `"maxCorrections" must be 0 or more`;
+  }
+  return null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
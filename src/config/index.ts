@@ -0,0 +1,20 @@
+/**
+ * Config Module
+ *
+ * Config file (cco.config.ts / .ccorc.json) with named profiles, merged
+ * under the CLI flags.
+ */
+
+export {
+  loadConfig,
+  loadConfigFile,
+  findConfigFile,
+  resolveConfig,
+  settingsFromFlags,
+  validateSettings,
+  DEFAULT_CONFIG,
+  DEFAULT_CLAUDE_BIN,
+  DEFAULT_READY_INDICATORS,
+  CONFIG_FILE_NAMES,
+} from "./config";
+export type { CcoConfig, CcoSettings, CcoConfigFile, ResolvedConfig, SupervisorKind } from "./config";
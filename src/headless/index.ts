@@ -0,0 +1,8 @@
+/**
+ * Headless Module
+ *
+ * JSONL event stream and exit codes for CI runs (--headless).
+ */
+
+export { JsonlEventStream, HEADLESS_EXIT_CODES, classifyOutcome } from "./stream";
+export type { HeadlessOutcome, HeadlessSummary } from "./stream";
@@ -0,0 +1,47 @@
+import { test, expect } from "bun:test";
+import { mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { EventBroadcaster } from "../websocket";
+import { JsonlEventStream, classifyOutcome } from "./stream";
+
+test("streams broadcaster events as JSON lines, ending with the summary", () => {
+  const path = join(mkdtempSync(join(tmpdir(), "cco-headless-")), "events.jsonl");
+  const broadcaster = new EventBroadcaster();
+  const stream = new JsonlEventStream(path);
+  stream.attach(broadcaster);
+
+  broadcaster.broadcastPTYOutput(new TextEncoder().encode("terminal noise"));
+  broadcaster.broadcastCommandInject("run the tests");
+  broadcaster.forWorker("api").broadcastIterationUpdate({ current: 1, max: 5, percentage: 20, consecutiveFailures: 0 });
+  stream.writeSummary({
+    outcome: "completed",
+    exitCode: 0,
+    reason: "done",
+    runId: "r1",
+    task: "task",
+    stats: null,
+    usage: null,
+    durationMs: 10,
+  });
+  stream.close();
+  broadcaster.broadcastCommandInject("after close");
+
+  const records = readFileSync(path, "utf8").trim().split("\n").map((line) => JSON.parse(line));
+  expect(records.map((r) => [r.type, r.workerId])).toEqual([
+    ["command_inject", undefined],
+    ["iteration_update", "api"],
+    ["summary", undefined],
+  ]);
+  expect(records[2].data).toMatchObject({ outcome: "completed", exitCode: 0, runId: "r1" });
+});
+
+test("outcomes distinguish budget aborts and crashed workers", () => {
+  const abort = { action: "abort" as const, reason: "x", confidence: 1 };
+
+  expect(classifyOutcome("completed", "Supervisor: done", null)).toBe("completed");
+  expect(classifyOutcome("aborted", "Aborted: x", abort)).toBe("aborted");
+  expect(classifyOutcome("aborted", "Aborted: budget", { ...abort, budgetExhausted: true })).toBe("budget_exhausted");
+  expect(classifyOutcome("stopped", "PTY exited with code 1", null)).toBe("crashed");
+  expect(classifyOutcome("stopped", "Received SIGTERM", null)).toBe("stopped");
+});
@@ -0,0 +1,127 @@
+/**
+ * Headless Event Stream
+ *
+ * Writes broadcaster events as JSON Lines for CI pipelines (--headless).
+ * Every record has the WSMessage shape ({ type, timestamp, data, workerId? });
+ * the run ends with a "summary" record whose outcome maps to the exit code.
+ */
+
+import { closeSync, openSync, writeSync } from "node:fs";
+import type { HooksStats, RunUsage, SupervisorDecision } from "../hooks/types";
+import type { EventBroadcaster, WSMessage, WSMessageType } from "../websocket";
+
+/**
+ * How a headless run ended
+ */
+export type HeadlessOutcome =
+  | 'completed'         // Supervisor decided the work is done
+  | 'aborted'           // Supervisor or user aborted the run
+  | 'budget_exhausted'  // Cost or iteration budget ran out
+  | 'crashed'           // Worker exited or CCO failed before a decision
+  | 'stopped';          // Interrupted by a signal or stopped from the API
+
+/** Process exit code per outcome */
+export const HEADLESS_EXIT_CODES: Record<HeadlessOutcome, number> = {
+  completed: 0,
+  crashed: 1,
+  aborted: 2,
+  budget_exhausted: 3,
+  stopped: 4,
+};
+
+/**
+ * Data of the final "summary" record
+ */
+export interface HeadlessSummary {
+  outcome: HeadlessOutcome;
+  exitCode: number;
+  reason: string;
+  runId: string | null;
+  task: string | null;
+  stats: HooksStats | null;
+  usage: RunUsage | null;
+  durationMs: number;
+}
+
+/** Terminal output and the periodic state poll are left out of the stream */
+const SKIPPED_TYPES = new Set<WSMessageType>(["pty_output", "supervisor_pty_output", "terminal_snapshot", "session_state", "connected"]);
+
+/**
+ * Map how the controller stopped onto a headless outcome
+ *
+ * @param status - Run status recorded in the history database
+ * @param reason - Controller stop reason
+ * @param lastDecision - Last supervisor decision of the run, if any
+ */
+export function classifyOutcome(
+  status: 'completed' | 'aborted' | 'stopped',
+  reason: string,
+  lastDecision: SupervisorDecision | null
+): HeadlessOutcome {
+  if (status === 'completed') return 'completed';
+  if (status === 'aborted') {
+    return lastDecision?.action === 'abort' && lastDecision.budgetExhausted ? 'budget_exhausted' : 'aborted';
+  }
+  // The worker went away without a supervisor decision ending the run
+  if (reason.startsWith("PTY exited") || reason.startsWith("Session ended")) {
+    return 'crashed';
+  }
+  return 'stopped';
+}
+
+/**
+ * JSONL writer for stdout or a file.
+ * Writes are synchronous so records are complete when the process exits.
+ */
+export class JsonlEventStream {
+  private fd: number;
+  private readonly ownsFd: boolean;
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * @param path - File to append to (default: stdout)
+   */
+  constructor(path?: string) {
+    this.ownsFd = path !== undefined;
+    this.fd = path !== undefined ? openSync(path, "a") : 1;
+  }
+
+  /**
+   * Stream every broadcaster event (including pool workers) until close()
+   */
+  attach(broadcaster: EventBroadcaster): void {
+    this.unsubscribe?.();
+    this.unsubscribe = broadcaster.subscribe((message) => {
+      if (!SKIPPED_TYPES.has(message.type)) {
+        this.write(message);
+      }
+    });
+  }
+
+  /**
+   * Write one record as a line
+   */
+  write(record: WSMessage | { type: string; timestamp: string; data: unknown }): void {
+    if (this.fd < 0) return;
+    writeSync(this.fd, JSON.stringify(record) + "\n");
+  }
+
+  /**
+   * Write the final summary record
+   */
+  writeSummary(summary: HeadlessSummary): void {
+    this.write({ type: "summary", timestamp: new Date().toISOString(), data: summary });
+  }
+
+  /**
+   * Stop streaming and close the file (stdout stays open)
+   */
+  close(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.ownsFd && this.fd >= 0) {
+      closeSync(this.fd);
+    }
+    this.fd = -1;
+  }
+}
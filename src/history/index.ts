@@ -0,0 +1,14 @@
+/**
+ * History Module
+ *
+ * Persistent run history backed by SQLite.
+ */
+
+export { RunHistoryStore, DEFAULT_DB_PATH } from "./store";
+export type {
+  RunStatus,
+  RunEventKind,
+  RunRecord,
+  RunEventRecord,
+  RunDetail,
+} from "./types";
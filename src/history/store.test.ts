@@ -0,0 +1,93 @@
+import { test, expect, beforeEach } from "bun:test";
+import { HooksController } from "../hooks";
+import { RunHistoryStore } from "./store";
+
+let store: RunHistoryStore;
+
+beforeEach(() => {
+  store = new RunHistoryStore(":memory:");
+});
+
+test("startRun creates a running run", () => {
+  const id = store.startRun("build a feature");
+
+  const run = store.getRun(id);
+  expect(run).not.toBeNull();
+  expect(run?.task).toBe("build a feature");
+  expect(run?.status).toBe("running");
+  expect(run?.endedAt).toBeNull();
+  expect(run?.events).toEqual([]);
+});
+
+test("events are recorded in order and replayable", () => {
+  const id = store.startRun("task");
+
+  store.recordHookEvent(id, {
+    session_id: "abc",
+    transcript_path: "/tmp/t.jsonl",
+    hook_event_name: "Stop",
+  });
+  store.recordSupervisorPrompt(id, "What next?");
+  store.recordDecision(id, {
+    action: "inject",
+    command: "write tests",
+    reason: "more work",
+    confidence: 0.8,
+  });
+  store.recordInject(id, "write tests");
+
+  const run = store.getRun(id);
+  expect(run?.sessionId).toBe("abc");
+  expect(run?.eventCount).toBe(4);
+  expect(run?.events.map((e) => e.kind)).toEqual([
+    "hook",
+    "supervisor_prompt",
+    "supervisor_decision",
+    "inject",
+  ]);
+  expect(run?.events[0]?.name).toBe("Stop");
+  expect(run?.events[2]?.name).toBe("inject");
+  expect(run?.events[3]?.payload).toEqual({ command: "write tests" });
+});
+
+test("finishRun closes the run only once", () => {
+  const id = store.startRun("task");
+
+  store.finishRun(id, "completed", "All done");
+  store.finishRun(id, "stopped", "Received SIGINT");
+
+  const run = store.getRun(id);
+  expect(run?.status).toBe("completed");
+  expect(run?.stopReason).toBe("All done");
+  expect(run?.endedAt).not.toBeNull();
+});
+
+test("listRuns returns most recent first", async () => {
+  const first = store.startRun("first");
+  await Bun.sleep(2);
+  const second = store.startRun("second");
+
+  const runs = store.listRuns();
+  expect(runs.map((r) => r.id)).toEqual([second, first]);
+});
+
+test("getRun returns null for unknown id", () => {
+  expect(store.getRun("missing")).toBeNull();
+});
+
+test("run state survives a restart and the run can be reopened", () => {
+  const id = store.startRun("task");
+  const controller = new HooksController();
+  controller.setStatePersister((snapshot) => store.saveRunState(id, snapshot));
+  controller.start("task");
+  store.finishRun(id, "stopped", "Received SIGTERM");
+
+  expect(store.getRunState(id)?.taskDescription).toBe("task");
+  expect(store.getRunState("missing")).toBeNull();
+
+  expect(store.reopenRun(id, "abc")).toBe(true);
+  const run = store.getRun(id);
+  expect(run?.status).toBe("running");
+  expect(run?.endedAt).toBeNull();
+  expect(run?.events.at(-1)).toMatchObject({ kind: "resume", payload: { sessionId: "abc" } });
+});
@@ -0,0 +1,358 @@
+/**
+ * Run History Store
+ *
+ * SQLite-backed (bun:sqlite) persistence for orchestration runs. Every run
+ * records its task, hook events, supervisor prompts and decisions, injected
+ * commands and the final stop reason so past runs can be replayed.
+ */
+
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type {
+  HookEvent,
+  SourcedTask,
+  SupervisorDecision,
+  TaskOutcome,
+  VerificationResult,
+  Checkpoint,
+  PolicyVerdict,
+  PreToolUseEvent,
+  PendingDecision,
+  ApprovalOutcome,
+  ControllerSnapshot,
+  WatchdogAlert,
+  SteeringOp,
+} from "../hooks/types";
+import type { ResolvedConfig } from "../config";
+import type {
+  RunStatus,
+  RunEventKind,
+  RunRecord,
+  RunEventRecord,
+  RunDetail,
+} from "./types";
+
+/** Default database location, relative to the worker cwd */
+export const DEFAULT_DB_PATH = ".cco/cco.db";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS runs (
+    id TEXT PRIMARY KEY,
+    task TEXT NOT NULL,
+    status TEXT NOT NULL,
+    session_id TEXT,
+    started_at TEXT NOT NULL,
+    ended_at TEXT,
+    stop_reason TEXT
+  );
+  CREATE TABLE IF NOT EXISTS run_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id TEXT NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL,
+    name TEXT,
+    timestamp TEXT NOT NULL,
+    payload TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_run_events_run_id ON run_events(run_id);
+  CREATE TABLE IF NOT EXISTS run_state (
+    run_id TEXT PRIMARY KEY REFERENCES runs(id) ON DELETE CASCADE,
+    snapshot TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+`;
+
+interface RunRow {
+  id: string;
+  task: string;
+  status: RunStatus;
+  session_id: string | null;
+  started_at: string;
+  ended_at: string | null;
+  stop_reason: string | null;
+  event_count: number;
+}
+
+interface RunEventRow {
+  id: number;
+  run_id: string;
+  kind: RunEventKind;
+  name: string | null;
+  timestamp: string;
+  payload: string;
+}
+
+export class RunHistoryStore {
+  private db: Database;
+
+  /**
+   * Open (or create) the history database
+   * @param path - Database file path, or ":memory:" for an in-memory store
+   */
+  constructor(path: string = DEFAULT_DB_PATH) {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    this.db.exec("PRAGMA foreign_keys = ON;");
+    this.db.exec(SCHEMA);
+  }
+
+  /**
+   * Start a new run and return its id
+   */
+  startRun(task: string): string {
+    const id = crypto.randomUUID();
+    this.db
+      .query(
+        `INSERT INTO runs (id, task, status, started_at) VALUES ($id, $task, 'running', $startedAt)`
+      )
+      .run({ $id: id, $task: task, $startedAt: new Date().toISOString() });
+    return id;
+  }
+
+  /**
+   * Record a hook event received from the worker
+   */
+  recordHookEvent(runId: string, event: HookEvent): void {
+    if (event.session_id) {
+      this.db
+        .query(`UPDATE runs SET session_id = $sessionId WHERE id = $id`)
+        .run({ $id: runId, $sessionId: event.session_id });
+    }
+    this.recordEvent(runId, "hook", event.hook_event_name, event);
+  }
+
+  /**
+   * Record the settings a run was started or resumed with
+   */
+  recordConfig(runId: string, resolved: ResolvedConfig): void {
+    this.recordEvent(runId, "config", resolved.profile, resolved);
+  }
+
+  /**
+   * Record a prompt sent to the supervisor and the template version it came from
+   */
+  recordSupervisorPrompt(runId: string, prompt: string, templateVersion?: string): void {
+    this.recordEvent(runId, "supervisor_prompt", null, { prompt, ...(templateVersion && { templateVersion }) });
+  }
+
+  /**
+   * Record a decision returned by the supervisor
+   */
+  recordDecision(runId: string, decision: SupervisorDecision): void {
+    this.recordEvent(runId, "supervisor_decision", decision.action, decision);
+  }
+
+  /**
+   * Record a command injected into the worker
+   */
+  recordInject(runId: string, command: string): void {
+    this.recordEvent(runId, "inject", null, { command });
+  }
+
+  /**
+   * Record a queued task starting ("started") or finishing (its outcome)
+   */
+  recordTaskEvent(
+    runId: string,
+    task: SourcedTask,
+    event: "started" | TaskOutcome,
+    reason?: string
+  ): void {
+    this.recordEvent(runId, "task", event, { ...task, reason });
+  }
+
+  /**
+   * Record the verification gates run on a stop decision
+   */
+  recordVerification(runId: string, result: VerificationResult): void {
+    this.recordEvent(runId, "verification", result.passed ? "passed" : "failed", result);
+  }
+
+  /**
+   * Record a checkpoint being taken ("created") or rolled back to ("restored")
+   */
+  recordCheckpoint(
+    runId: string,
+    event: "created" | "restored",
+    checkpoint: Checkpoint,
+    safety?: Checkpoint
+  ): void {
+    this.recordEvent(runId, "checkpoint", event, { ...checkpoint, safety });
+  }
+
+  /**
+   * Record a tool policy verdict ("allow" or "deny") for a tool call
+   */
+  recordPolicyVerdict(runId: string, event: PreToolUseEvent, verdict: PolicyVerdict): void {
+    this.recordEvent(runId, "policy", verdict.decision, {
+      toolName: event.tool_name,
+      input: event.tool_input,
+      ...verdict,
+    });
+  }
+
+  /**
+   * Record a steering operation applied to the worker (named by its op)
+   */
+  recordSteer(runId: string, op: SteeringOp): void {
+    this.recordEvent(runId, "steer", op.op, op);
+  }
+
+  /**
+   * Record a stall or loop raised by the watchdog ("stall" or "loop")
+   */
+  recordWatchdog(runId: string, alert: WatchdogAlert): void {
+    this.recordEvent(runId, "watchdog", alert.kind, alert);
+  }
+
+  /**
+   * Record a decision parked for approval ("pending") or how it was resolved
+   */
+  recordApproval(
+    runId: string,
+    event: "pending" | ApprovalOutcome,
+    pending: PendingDecision,
+    applied?: SupervisorDecision | null
+  ): void {
+    this.recordEvent(runId, "approval", event, { ...pending, applied });
+  }
+
+  /**
+   * Close a run with its final status and stop reason
+   */
+  finishRun(runId: string, status: Exclude<RunStatus, "running">, reason: string): void {
+    const { changes } = this.db
+      .query(
+        `UPDATE runs SET status = $status, ended_at = $endedAt, stop_reason = $reason
+         WHERE id = $id AND status = 'running'`
+      )
+      .run({ $id: runId, $status: status, $endedAt: new Date().toISOString(), $reason: reason });
+
+    // Runs are closed only once; later stops (e.g. shutdown after completion) are ignored
+    if (changes > 0) {
+      this.recordEvent(runId, "stop", status, { reason });
+    }
+  }
+
+  /**
+   * Save the latest controller snapshot of a run (replaces the previous one)
+   */
+  saveRunState(runId: string, snapshot: ControllerSnapshot): void {
+    this.db
+      .query(
+        `INSERT INTO run_state (run_id, snapshot, updated_at) VALUES ($runId, $snapshot, $updatedAt)
+         ON CONFLICT(run_id) DO UPDATE SET snapshot = excluded.snapshot, updated_at = excluded.updated_at`
+      )
+      .run({ $runId: runId, $snapshot: JSON.stringify(snapshot), $updatedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Get the latest controller snapshot of a run, or null if none was saved
+   */
+  getRunState(runId: string): ControllerSnapshot | null {
+    const row = this.db
+      .query<{ snapshot: string }, { $id: string }>(`SELECT snapshot FROM run_state WHERE run_id = $id`)
+      .get({ $id: runId });
+    return row ? JSON.parse(row.snapshot) : null;
+  }
+
+  /**
+   * Mark a closed (or abandoned) run as running again
+   * @returns false if the run does not exist
+   */
+  reopenRun(runId: string, sessionId: string): boolean {
+    const { changes } = this.db
+      .query(
+        `UPDATE runs SET status = 'running', ended_at = NULL, stop_reason = NULL WHERE id = $id`
+      )
+      .run({ $id: runId });
+    if (changes > 0) {
+      this.recordEvent(runId, "resume", null, { sessionId });
+    }
+    return changes > 0;
+  }
+
+  /**
+   * List runs, most recent first
+   */
+  listRuns(limit = 50, offset = 0): RunRecord[] {
+    const rows = this.db
+      .query<RunRow, { $limit: number; $offset: number }>(
+        `SELECT runs.*, (SELECT COUNT(*) FROM run_events WHERE run_id = runs.id) AS event_count
+         FROM runs ORDER BY started_at DESC LIMIT $limit OFFSET $offset`
+      )
+      .all({ $limit: limit, $offset: offset });
+    return rows.map(toRunRecord);
+  }
+
+  /**
+   * Get a run with its full event log, or null if unknown
+   */
+  getRun(runId: string): RunDetail | null {
+    const row = this.db
+      .query<RunRow, { $id: string }>(
+        `SELECT runs.*, (SELECT COUNT(*) FROM run_events WHERE run_id = runs.id) AS event_count
+         FROM runs WHERE id = $id`
+      )
+      .get({ $id: runId });
+    if (!row) return null;
+
+    const events = this.db
+      .query<RunEventRow, { $id: string }>(
+        `SELECT * FROM run_events WHERE run_id = $id ORDER BY id ASC`
+      )
+      .all({ $id: runId })
+      .map(toRunEventRecord);
+
+    return { ...toRunRecord(row), events };
+  }
+
+  /**
+   * Close the underlying database
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  private recordEvent(runId: string, kind: RunEventKind, name: string | null, payload: unknown): void {
+    this.db
+      .query(
+        `INSERT INTO run_events (run_id, kind, name, timestamp, payload)
+         VALUES ($runId, $kind, $name, $timestamp, $payload)`
+      )
+      .run({
+        $runId: runId,
+        $kind: kind,
+        $name: name,
+        $timestamp: new Date().toISOString(),
+        $payload: JSON.stringify(payload),
+      });
+  }
+}
+
+function toRunRecord(row: RunRow): RunRecord {
+  return {
+    id: row.id,
+    task: row.task,
+    status: row.status,
+    sessionId: row.session_id,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    stopReason: row.stop_reason,
+    eventCount: row.event_count,
+  };
+}
+
+function toRunEventRecord(row: RunEventRow): RunEventRecord {
+  return {
+    id: row.id,
+    runId: row.run_id,
+    kind: row.kind,
+    name: row.name,
+    timestamp: row.timestamp,
+    payload: JSON.parse(row.payload),
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Run History Types
+ *
+ * Type definitions for persisted orchestration runs and their events.
+ */
+
+/**
+ * Final (or current) status of a run
+ */
+export type RunStatus =
+  | 'running'    // Run in progress (or CCO exited without closing it)
+  | 'completed'  // Supervisor decided the work is done
+  | 'aborted'    // Supervisor aborted the run
+  | 'stopped';   // Stopped for any other reason (manual, PTY exit, session end)
+
+/**
+ * Kind of event recorded against a run
+ */
+export type RunEventKind =
+  | 'hook'                 // Hook event received from the worker
+  | 'supervisor_prompt'    // Prompt sent to the supervisor
+  | 'supervisor_decision'  // Decision returned by the supervisor
+  | 'inject'               // Command injected into the worker
+  | 'steer'                // Interrupt, keys or paste sent to the worker from the API
+  | 'task'                 // Queued task started or finished
+  | 'verification'         // Verification gates ran on a stop decision
+  | 'checkpoint'           // Working tree checkpoint taken or restored
+  | 'policy'               // Tool policy allowed or denied a tool call
+  | 'approval'             // Supervisor decision parked for or resolved by a human
+  | 'watchdog'             // Worker stall or loop detected
+  | 'resume'               // Run resumed after a CCO restart
+  | 'config'               // Settings the run was started or resumed with
+  | 'stop';                // Controller stopped
+
+/**
+ * A persisted orchestration run
+ */
+export interface RunRecord {
+  id: string;
+  /** Task description the run was started with */
+  task: string;
+  status: RunStatus;
+  /** Worker session id (last one seen) */
+  sessionId: string | null;
+  startedAt: string;
+  endedAt: string | null;
+  /** Reason passed to HooksController.stop() */
+  stopReason: string | null;
+  /** Number of recorded events */
+  eventCount: number;
+}
+
+/**
+ * A single event recorded during a run
+ */
+export interface RunEventRecord {
+  id: number;
+  runId: string;
+  kind: RunEventKind;
+  /** Sub-type, e.g. the hook event name or decision action */
+  name: string | null;
+  timestamp: string;
+  payload: unknown;
+}
+
+/**
+ * Run with its full event log, for replay
+ */
+export interface RunDetail extends RunRecord {
+  events: RunEventRecord[];
+}
@@ -0,0 +1,97 @@
+/**
+ * Hooks CLI
+ *
+ * `cco hooks install|verify|uninstall` - manage the hook entries for the
+ * worker and supervisor directories from the command line.
+ */
+
+import { relative } from "node:path";
+import { installHooks, uninstallHooks, verifyHooks, type HookTarget } from "./installer";
+
+export const HOOKS_COMMANDS = ["install", "verify", "uninstall"] as const;
+export type HooksCommand = (typeof HOOKS_COMMANDS)[number];
+
+export function isHooksCommand(value: string | undefined): value is HooksCommand {
+  return HOOKS_COMMANDS.includes(value as HooksCommand);
+}
+
+/**
+ * Run a hooks subcommand against every target
+ * @returns Process exit code (non-zero if verification failed)
+ */
+export async function runHooksCommand(
+  command: HooksCommand,
+  targets: HookTarget[],
+  port: number,
+  secretPath: string
+): Promise<number> {
+  let failed = false;
+
+  for (const target of targets) {
+    const label = describeTarget(target);
+    try {
+      if (command === "verify") {
+        const result = await verifyHooks(target, port, secretPath);
+        if (result.ok) {
+          console.log(`[CCO] ${label}: hooks OK`);
+        } else {
+          failed = true;
+          console.error(`[CCO] ${label}: hooks not configured for port ${port}`);
+          for (const problem of result.problems) {
+            console.error(`  - ${problem}`);
+          }
+        }
+        continue;
+      }
+
+      const result = command === "install"
+        ? await installHooks(target, port, secretPath)
+        : await uninstallHooks(target);
+      const path = relative(process.cwd(), result.settingsPath) || result.settingsPath;
+      if (!result.changed) {
+        console.log(`[CCO] ${label}: ${path} already up to date`);
+      } else {
+        const verb = command === "install" ? "Installed hooks in" : "Removed hooks from";
+        const backup = result.backupPath ? ` (backup: ${relative(process.cwd(), result.backupPath)})` : "";
+        console.log(`[CCO] ${label}: ${verb} ${path}${backup}`);
+      }
+    } catch (error) {
+      failed = true;
+      console.error(`[CCO] ${label}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (command === "verify" && failed) {
+    console.error(`[CCO] Run "cco hooks install" to write the missing hooks`);
+  }
+  return failed ? 1 : 0;
+}
+
+/**
+ * Print a warning for each target whose hooks are missing or stale
+ * @returns Whether every target is configured
+ */
+export async function checkHooksAtStartup(targets: HookTarget[], port: number, secretPath: string): Promise<boolean> {
+  let ok = true;
+  for (const target of targets) {
+    const result = await verifyHooks(target, port, secretPath);
+    if (result.ok) continue;
+
+    ok = false;
+    console.error(`[CCO] Warning: ${describeTarget(target)} hooks are not configured for port ${port} and this hook secret file:`);
+    for (const problem of result.problems) {
+      console.error(`  - ${problem}`);
+    }
+  }
+  if (!ok) {
+    console.error(`[CCO] Hook events will not reach the orchestrator. Run "cco hooks install${port === 13013 ? "" : ` --port ${port}`}" to fix.`);
+  }
+  return ok;
+}
+
+function describeTarget(target: HookTarget): string {
+  const name = target.role === "supervisor"
+    ? "supervisor"
+    : target.workerId ? `worker ${target.workerId}` : "worker";
+  return `${name} (${target.cwd})`;
+}
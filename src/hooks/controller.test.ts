@@ -0,0 +1,213 @@
+import { test, expect } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HooksController } from "./controller";
+import { createContextSnapshotter } from "./snapshot";
+import type { ControllerSnapshot } from "./types";
+
+test("notifications block the worker until the next tool or prompt", async () => {
+  const controller = new HooksController();
+  controller.start("task");
+
+  await controller.onNotification({
+    session_id: "s1",
+    message: "Claude needs your permission to use Bash",
+    hook_event_name: "Notification",
+  });
+  expect(controller.getBlock()).toMatchObject({ reason: "permission" });
+
+  await controller.onPreToolUse({ session_id: "s1", tool_name: "Bash", tool_input: {}, hook_event_name: "PreToolUse" });
+  expect(controller.getBlock()).toBeNull();
+
+  await controller.onNotification({
+    session_id: "s1",
+    message: "Claude is waiting for your input",
+    hook_event_name: "Notification",
+  });
+  expect(controller.getBlock()?.reason).toBe("idle");
+});
+
+test("a session's transcript is known from its first hook event", async () => {
+  const controller = new HooksController();
+  controller.start("task");
+
+  await controller.onSessionStart({
+    session_id: "s1",
+    transcript_path: "/tmp/s1.jsonl",
+    cwd: "/tmp",
+    source: "startup",
+    hook_event_name: "SessionStart",
+  });
+  await controller.onUserPromptSubmit({ session_id: "s2", transcript_path: "/tmp/s2.jsonl", prompt: "hi", hook_event_name: "UserPromptSubmit" });
+
+  expect(controller.getTranscriptPath("s1")).toBe("/tmp/s1.jsonl");
+  expect(controller.getTranscriptPath("s2")).toBe("/tmp/s2.jsonl");
+});
+
+test("an unknown supervisor action stops the controller", async () => {
+  const errors: string[] = [];
+  const controller = new HooksController({ onError: (error) => errors.push(error.message) });
+  controller.setSupervisor(async () => ({ action: "done" as never, reason: "finished", confidence: 1 }));
+  controller.start("task");
+
+  await controller.onStop({ session_id: "s1", transcript_path: "/dev/null", hook_event_name: "Stop" });
+
+  expect(errors).toEqual(["Unknown supervisor action: done"]);
+  expect(controller.getState()).toBe("stopped");
+});
+
+test("subagent stops never call the supervisor", async () => {
+  let calls = 0;
+  const controller = new HooksController();
+  controller.setSupervisor(async () => {
+    calls++;
+    return { action: "stop", reason: "done", confidence: 1 };
+  });
+  controller.start("task");
+
+  await controller.onSubagentStop({ session_id: "s1", transcript_path: "/dev/null", hook_event_name: "SubagentStop" });
+
+  expect(calls).toBe(0);
+  expect(controller.getState()).toBe("monitoring");
+  expect(controller.getStats().stopEvents).toBe(0);
+});
+
+test("pre-compact snapshots the transcript before responding", async () => {
+  const dir = mkdtempSync(join(tmpdir(), "cco-compact-"));
+  try {
+    const transcript = join(dir, "session.jsonl");
+    writeFileSync(transcript, `{"type":"user"}\n`);
+
+    const snapshots: (string | null)[] = [];
+    const controller = new HooksController({ onPreCompact: (_event, path) => snapshots.push(path) });
+    controller.setContextSnapshotter(createContextSnapshotter(join(dir, "compactions")));
+    controller.start("task");
+
+    await controller.onPreCompact({
+      session_id: "s1",
+      transcript_path: transcript,
+      trigger: "auto",
+      hook_event_name: "PreCompact",
+    });
+
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0]).toContain("s1-");
+    expect(readFileSync(snapshots[0]!, "utf8")).toBe(`{"type":"user"}\n`);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("low-confidence decisions wait for approval before being applied", async () => {
+  const injected: string[] = [];
+  const outcomes: string[] = [];
+  const controller = new HooksController({ onDecisionResolved: (_pending, outcome) => outcomes.push(outcome) });
+  let confidence = 0.4;
+  controller.setSupervisor(async () => ({ action: "inject", command: "run the tests", reason: "next step", confidence }));
+  controller.setApproval({ minConfidence: 0.7 });
+  controller.setOnInject((command) => injected.push(command));
+  controller.start("task");
+
+  await controller.onStop({ session_id: "s1", transcript_path: "/dev/null", hook_event_name: "Stop" });
+  const pending = controller.getPendingDecision();
+  expect(controller.getState()).toBe("awaiting_approval");
+  expect(pending?.trigger).toBe("low_confidence");
+  expect(injected).toEqual([]);
+
+  await controller.editDecision(pending!.id, { command: "run only the unit tests" });
+  expect(injected).toEqual(["run only the unit tests"]);
+  expect(controller.getState()).toBe("monitoring");
+  expect(controller.getPendingDecision()).toBeNull();
+
+  // Confident decisions skip the approval step
+  confidence = 0.9;
+  await controller.onStop({ session_id: "s1", transcript_path: "/dev/null", hook_event_name: "Stop" });
+  expect(injected).toEqual(["run only the unit tests", "run the tests"]);
+  expect(outcomes).toEqual(["edited"]);
+});
+
+test("pending decisions can be rejected or auto-approved", async () => {
+  const injected: string[] = [];
+  const controller = new HooksController();
+  controller.setSupervisor(async () => ({ action: "inject", command: "keep going", reason: "more work", confidence: 1 }));
+  controller.setApproval({ always: true, autoApproveMs: 50 });
+  controller.setOnInject((command) => injected.push(command));
+  controller.start("task");
+
+  await controller.onStop({ session_id: "s1", transcript_path: "/dev/null", hook_event_name: "Stop" });
+  await controller.rejectDecision(controller.getPendingDecision()!.id);
+  expect(controller.getState()).toBe("monitoring");
+  await Bun.sleep(80);
+  expect(injected).toEqual([]);
+
+  await controller.onStop({ session_id: "s1", transcript_path: "/dev/null", hook_event_name: "Stop" });
+  expect(controller.getPendingDecision()?.autoApproveAt).toBeInstanceOf(Date);
+  await Bun.sleep(80);
+  expect(injected).toEqual(["keep going"]);
+  expect(controller.getState()).toBe("monitoring");
+  await expect(controller.approveDecision("stale")).rejects.toThrow("No pending decision");
+});
+
+test("a resumed controller restores the run and the supervisor iteration count", async () => {
+  let saved: ControllerSnapshot | null = null;
+  const first = new HooksController();
+  first.setStatePersister((snapshot) => (saved = snapshot));
+  first.setSupervisor(async () => ({ action: "inject", command: "next", reason: "more", confidence: 1 }));
+  first.setOnInject(() => {});
+  first.start("long task");
+  await first.onStop({ session_id: "s1", transcript_path: "/tmp/s1.jsonl", hook_event_name: "Stop" });
+  await first.onStop({ session_id: "s1", transcript_path: "/tmp/s1.jsonl", hook_event_name: "Stop" });
+
+  // A new process: fresh controller and supervisor
+  const restored: number[] = [];
+  const supervisor = Object.assign(
+    async () => ({ action: "stop" as const, reason: "done", confidence: 1 }),
+    { restore: (iterations: number) => restored.push(iterations) }
+  );
+  const second = new HooksController();
+  second.setSupervisor(supervisor);
+  second.resumeRun(JSON.parse(JSON.stringify(saved)));
+
+  expect(second.getState()).toBe("monitoring");
+  expect(second.getSessionId()).toBe("s1");
+  expect(second.getStats()).toMatchObject({ stopEvents: 2, supervisorCalls: 2, commandsInjected: 2 });
+  expect(restored).toEqual([2]);
+});
+
+test("steering types into the worker only while the controller is not busy", async () => {
+  const written: string[] = [];
+  const terminal = {
+    isRunning: true,
+    write: (data: string) => written.push(data),
+    interrupt: () => written.push("<esc>"),
+    cancel: () => written.push("<ctrl-c>"),
+    paste: (text: string) => written.push(`<paste>${text}`),
+    resize: (cols: number, rows: number) => written.push(`<${cols}x${rows}>`),
+  };
+  let decide: () => void = () => {};
+  const controller = new HooksController();
+  controller.setTerminal(terminal);
+  controller.setOnInject((command) => written.push(command));
+  controller.setSupervisor(() => new Promise((resolve) => {
+    decide = () => resolve({ action: "inject", command: "next", reason: "more", confidence: 1 });
+  }));
+  controller.start("task");
+
+  await controller.steer({ op: "paste", text: "line 1\nline 2" });
+  const stop = controller.onStop({ session_id: "s1", transcript_path: "/dev/null", hook_event_name: "Stop" });
+  await Bun.sleep(0);
+  expect(controller.getState()).toBe("calling_supervisor");
+
+  await expect(controller.steer({ op: "inject", command: "manual" })).rejects.toMatchObject({ reason: "busy" });
+  await controller.steer({ op: "interrupt" });
+  await controller.steer({ op: "resize", cols: 120, rows: 40 });
+
+  decide();
+  await stop;
+  await controller.steer({ op: "inject", command: "manual" });
+  expect(written).toEqual(["<paste>line 1\nline 2", "<esc>", "<120x40>", "next", "manual"]);
+
+  terminal.isRunning = false;
+  await expect(controller.steer({ op: "cancel" })).rejects.toMatchObject({ reason: "not_running" });
+});
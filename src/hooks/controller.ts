@@ -11,40 +11,171 @@ import type {
   ToolEvent,
   SessionStartEvent,
   SessionEndEvent,
+  PreToolUseEvent,
+  PreToolUseResponse,
+  PolicyVerdict,
+  UserPromptSubmitEvent,
+  NotificationEvent,
+  SubagentStopEvent,
+  PreCompactEvent,
+  WorkerBlock,
+  WorkerBlockReason,
   HooksControllerState,
   HooksStats,
   HooksEventHandler,
   ToolHistoryEntry,
   SupervisorDecision,
+  SourcedTask,
+  TaskOutcome,
+  TaskSource,
+  VerificationResult,
+  Checkpoint,
+  Checkpointer,
+  RunUsage,
+  UsageMeter,
+  ApprovalConfig,
+  PendingDecision,
+  ApprovalOutcome,
+  ControllerSnapshot,
+  WatchdogAlert,
+  SteeringOp,
+  WorkerTerminal,
 } from './types';
 
 /**
  * Supervisor function type - injected dependency
+ *
+ * Supervisors that keep per-task state (iteration counters) expose `reset`,
+ * which the controller calls when it moves on to the next queued task, and
+ * `restore`, which sets the iteration count when a run is resumed.
  */
-export type SupervisorFn = (context: {
+export type SupervisorFn = ((context: {
   taskDescription: string;
   /** Path to worker's session transcript JSONL */
   transcriptPath: string;
   sessionId: string;
-}) => Promise<SupervisorDecision>;
+  /** Tools used since the last injected command */
+  toolHistory?: ToolHistoryEntry[];
+  /** Controller statistics for the current run */
+  stats?: HooksStats;
+  /** Checkpoints taken during this run, newest first (when checkpointing is on) */
+  checkpoints?: Checkpoint[];
+  /** Latest verification gate results for the current task, if gates ran */
+  verification?: VerificationResult;
+  /** Stall or loop that made the controller call the supervisor before a Stop event */
+  watchdog?: WatchdogAlert;
+}) => Promise<SupervisorDecision>) & {
+  reset?: () => void;
+  restore?: (iterations: number) => void;
+};
+
+/**
+ * Verifier function type - injected dependency
+ *
+ * Runs the project's verification gates when the supervisor decides to stop.
+ * If they fail, overrideCommand is injected instead of stopping.
+ */
+export type VerifierFn = (context: {
+  taskDescription: string;
+  decision: SupervisorDecision;
+}) => Promise<Omit<VerificationResult, 'decision'>>;
+
+/**
+ * Tool policy function type - injected dependency
+ *
+ * Decides whether a tool call may run before the worker executes it.
+ */
+export type ToolPolicyFn = (event: PreToolUseEvent) => PolicyVerdict | Promise<PolicyVerdict>;
+
+/**
+ * Context snapshot function type - injected dependency
+ *
+ * Saves the worker's context before Claude Code compacts it and returns
+ * where the snapshot was written.
+ */
+export type ContextSnapshotFn = (event: PreCompactEvent) => Promise<string>;
+
+/**
+ * State persister function type - injected dependency
+ *
+ * Called whenever durable controller state changes (see snapshot()).
+ */
+export type StatePersisterFn = (snapshot: ControllerSnapshot) => void;
+
+/** Delay between /clear and the next queued task, so the clear completes first */
+const TASK_SWITCH_DELAY = 2000;
+
+/** Delay after an Esc interrupt before typing into the worker, so it is back at its prompt */
+const INTERRUPT_SETTLE_MS = 1000;
+
+/** States in which the controller may write to the worker itself */
+const BUSY_STATES: HooksControllerState[] = ['processing', 'calling_supervisor', 'verifying', 'injecting'];
+
+/**
+ * Error raised when a steering operation cannot be applied right now
+ */
+export class SteeringError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: 'busy' | 'not_running'
+  ) {
+    super(message);
+    this.name = 'SteeringError';
+  }
+}
 
 export class HooksController {
-  private state: HooksControllerState = 'idle';
+  private _state: HooksControllerState = 'idle';
   private stats: HooksStats;
   private eventHandler: HooksEventHandler;
   private supervisorFn: SupervisorFn | null = null;
+  private verifierFn: VerifierFn | null = null;
+  private checkpointer: Checkpointer | null = null;
+  /** Checkpoints taken during this run, newest first */
+  private checkpoints: Checkpoint[] = [];
+  private pendingCheckpoint: Promise<void> | null = null;
+  /** Latest verification result for the current task */
+  private lastVerification: VerificationResult | null = null;
+  private usageMeter: UsageMeter | null = null;
+  private contextSnapshotFn: ContextSnapshotFn | null = null;
+  private toolPolicyFn: ToolPolicyFn | null = null;
+  private statePersisterFn: StatePersisterFn | null = null;
+  /** Supervisor calls for the current task (mirrors the supervisor's iteration counter) */
+  private supervisorIterations = 0;
+  /** Allow verdicts awaiting their PostToolUse event, by call key */
+  private pendingVerdicts = new Map<string, PolicyVerdict>();
+  private block: WorkerBlock | null = null;
+  private approval: ApprovalConfig | null = null;
+  private pendingDecision: PendingDecision | null = null;
+  private approvalTimer: ReturnType<typeof setTimeout> | null = null;
   private taskDescription: string = '';
   private sessionId: string = '';
   private transcriptPath: string = '';
+  /** Transcripts seen in hook events, by session id (for /api/transcript) */
+  private transcripts = new Map<string, string>();
   private toolHistory: ToolHistoryEntry[] = [];
   private onInjectFn: ((command: string) => void) | null = null;
+  private terminal: WorkerTerminal | null = null;
   private paused: boolean = false;
+  private taskSource: TaskSource | null = null;
+  private currentTask: SourcedTask | null = null;
 
   constructor(eventHandler: HooksEventHandler = {}) {
     this.eventHandler = eventHandler;
     this.stats = this.initStats();
   }
 
+  private get state(): HooksControllerState {
+    return this._state;
+  }
+
+  /** Every transition is reported, so the UI is pushed state on change */
+  private set state(state: HooksControllerState) {
+    if (state === this._state) return;
+    this._state = state;
+    this.eventHandler.onStateChange?.(state);
+  }
+
   /**
    * Set the supervisor function (dependency injection)
    */
@@ -52,6 +183,57 @@ export class HooksController {
     this.supervisorFn = fn;
   }
 
+  /**
+   * Set the verifier run before accepting a stop decision (dependency injection)
+   */
+  setVerifier(fn: VerifierFn | null): void {
+    this.verifierFn = fn;
+  }
+
+  /**
+   * Set the checkpoint store; the working tree is snapshotted at start and
+   * after every Stop event, enabling the rollback action (dependency injection)
+   */
+  setCheckpointer(checkpointer: Checkpointer | null): void {
+    this.checkpointer = checkpointer;
+  }
+
+  /**
+   * Set the token and cost meter; a run over its budget is aborted
+   * (dependency injection)
+   */
+  setUsageMeter(meter: UsageMeter | null): void {
+    this.usageMeter = meter;
+  }
+
+  /**
+   * Set where durable state is saved for crash recovery (dependency injection)
+   */
+  setStatePersister(fn: StatePersisterFn | null): void {
+    this.statePersisterFn = fn;
+  }
+
+  /**
+   * Set when supervisor decisions wait for human approval (null = never)
+   */
+  setApproval(config: ApprovalConfig | null): void {
+    this.approval = config;
+  }
+
+  /**
+   * Set the tool policy consulted on every PreToolUse event (dependency injection)
+   */
+  setToolPolicy(fn: ToolPolicyFn | null): void {
+    this.toolPolicyFn = fn;
+  }
+
+  /**
+   * Set the function that snapshots context before compaction (dependency injection)
+   */
+  setContextSnapshotter(fn: ContextSnapshotFn | null): void {
+    this.contextSnapshotFn = fn;
+  }
+
   /**
    * Set the inject callback for PTY writes
    */
@@ -59,19 +241,118 @@ export class HooksController {
     this.onInjectFn = fn;
   }
 
+  /**
+   * Set the worker's terminal for interrupts and steering (dependency injection)
+   */
+  setTerminal(terminal: WorkerTerminal | null): void {
+    this.terminal = terminal;
+  }
+
+  /**
+   * Set the source of follow-up tasks (e.g. TaskQueue)
+   * When set, a stop decision completes the current task and starts the next.
+   */
+  setTaskSource(source: TaskSource | null): void {
+    this.taskSource = source;
+  }
+
   /**
    * Start the hooks controller
+   * @param taskDescription - Task the worker was launched with
+   * @param task - Queued task being started, if it came from the task source
    */
-  start(taskDescription: string): void {
+  start(taskDescription: string, task?: SourcedTask): void {
     if (this.state !== 'idle' && this.state !== 'stopped') {
       throw new Error(`Cannot start controller from state: ${this.state}`);
     }
 
     this.taskDescription = taskDescription;
+    this.currentTask = task ?? null;
     this.state = 'monitoring';
     this.stats = this.initStats();
     this.toolHistory = [];
     this.sessionId = '';
+    this.block = null;
+    this.pendingVerdicts.clear();
+    this.clearPendingDecision();
+    this.checkpoints = [];
+    this.lastVerification = null;
+    this.supervisorIterations = 0;
+    this.usageMeter?.reset();
+
+    // Baseline to roll back to if the first iteration goes wrong
+    this.pendingCheckpoint = this.checkpoint(0, 'task start');
+    this.persist();
+  }
+
+  /**
+   * Continue a run from a saved snapshot (after a CCO restart).
+   * The controller goes straight to monitoring; the supervisor's iteration
+   * counters and the usage so far are restored so the iteration and cost
+   * budgets carry over.
+   */
+  resumeRun(snapshot: ControllerSnapshot): void {
+    if (this.state !== 'idle' && this.state !== 'stopped') {
+      throw new Error(`Cannot resume controller from state: ${this.state}`);
+    }
+
+    this.taskDescription = snapshot.taskDescription;
+    this.currentTask = snapshot.currentTask;
+    if (this.currentTask) {
+      this.taskSource?.reclaim(this.currentTask.id);
+    }
+    this.sessionId = snapshot.sessionId;
+    this.transcriptPath = snapshot.transcriptPath;
+    this.rememberTranscript(snapshot.sessionId, snapshot.transcriptPath);
+    this.stats = { ...snapshot.stats, startTime: new Date(snapshot.stats.startTime), endTime: null };
+    this.checkpoints = [...snapshot.checkpoints];
+    this.paused = snapshot.paused;
+    this.supervisorIterations = snapshot.supervisorIterations;
+    this.supervisorFn?.restore?.(snapshot.supervisorIterations);
+    this.toolHistory = [];
+    this.lastVerification = null;
+    this.block = null;
+    this.pendingVerdicts.clear();
+    this.clearPendingDecision();
+    this.pendingCheckpoint = null;
+    if (snapshot.usage) {
+      this.usageMeter?.restoreState(snapshot.usage);
+    } else {
+      this.usageMeter?.reset();
+    }
+    this.state = 'monitoring';
+    this.persist();
+  }
+
+  /**
+   * Durable state needed to resume this run
+   */
+  snapshot(): ControllerSnapshot {
+    const { startTime, endTime: _endTime, ...counters } = this.stats;
+    return {
+      taskDescription: this.taskDescription,
+      sessionId: this.sessionId,
+      transcriptPath: this.transcriptPath,
+      supervisorIterations: this.supervisorIterations,
+      stats: { ...counters, startTime: startTime.toISOString() },
+      currentTask: this.currentTask,
+      checkpoints: [...this.checkpoints],
+      ...(this.usageMeter && { usage: this.usageMeter.saveState() }),
+      paused: this.paused,
+      savedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Save the snapshot. Failures are reported but never block the run.
+   */
+  private persist(): void {
+    if (!this.statePersisterFn) return;
+    try {
+      this.statePersisterFn(this.snapshot());
+    } catch (error) {
+      this.eventHandler.onError?.(error as Error);
+    }
   }
 
   /**
@@ -79,19 +360,26 @@ export class HooksController {
    * This is the primary completion signal.
    */
   async onStop(event: StopEvent): Promise<{ continue: boolean }> {
+    this.rememberTranscript(event.session_id, event.transcript_path);
     if (this.state !== 'monitoring') {
       return { continue: true };
     }
 
     this.state = 'processing';
+    this.block = null;
     this.stats.stopEvents++;
     this.sessionId = event.session_id;
     this.transcriptPath = event.transcript_path;
 
     this.eventHandler.onStop?.(event);
 
+    await this.pendingCheckpoint;
+    await this.checkpoint(this.stats.stopEvents, `iteration ${this.stats.stopEvents}`);
+    await this.meter(() => this.usageMeter!.recordWorker(this.transcriptPath, this.stats.stopEvents));
+
     // Call supervisor for decision with transcript path
     await this.callSupervisor();
+    this.persist();
 
     return { continue: true };
   }
@@ -100,16 +388,22 @@ export class HooksController {
    * Handle Tool event - record tool usage, detect errors
    */
   async onTool(event: ToolEvent): Promise<{ continue: boolean }> {
+    this.rememberTranscript(event.session_id, event.transcript_path);
     this.stats.toolCalls++;
     this.sessionId = event.session_id;
+    this.block = null;
 
-    // Record tool in history
+    // Record tool in history, with the policy verdict that let it run
+    const key = toolCallKey(event);
+    const verdict = this.pendingVerdicts.get(key);
+    this.pendingVerdicts.delete(key);
     const entry: ToolHistoryEntry = {
       timestamp: new Date(),
       toolName: event.tool_name,
       input: event.tool_input,
       output: event.tool_response.output,
       error: event.tool_response.error,
+      ...(verdict && { verdict }),
     };
     this.toolHistory.push(entry);
 
@@ -127,8 +421,10 @@ export class HooksController {
    * Handle SessionStart event
    */
   async onSessionStart(event: SessionStartEvent): Promise<{ continue: boolean }> {
+    this.rememberTranscript(event.session_id, event.transcript_path);
     this.sessionId = event.session_id;
     this.eventHandler.onSessionStart?.(event);
+    this.persist();
     return { continue: true };
   }
 
@@ -136,21 +432,146 @@ export class HooksController {
    * Handle SessionEnd event
    */
   async onSessionEnd(event: SessionEndEvent): Promise<{ continue: boolean }> {
+    this.rememberTranscript(event.session_id, event.transcript_path);
     this.eventHandler.onSessionEnd?.(event);
     this.stop(`Session ended: ${event.reason}`);
     return { continue: true };
   }
 
+  /**
+   * Handle PreToolUse event - a tool is about to run.
+   * With a tool policy configured, the response carries its verdict; denied
+   * calls never run and are recorded in the tool history right away.
+   */
+  async onPreToolUse(event: PreToolUseEvent): Promise<PreToolUseResponse> {
+    this.rememberTranscript(event.session_id, event.transcript_path);
+    this.sessionId = event.session_id;
+    this.block = null;
+    this.eventHandler.onPreToolUse?.(event);
+
+    if (!this.toolPolicyFn) {
+      return { continue: true };
+    }
+
+    let verdict: PolicyVerdict;
+    try {
+      verdict = await this.toolPolicyFn(event);
+    } catch (error) {
+      // Fail closed: a broken policy must not wave tools through
+      this.eventHandler.onError?.(error as Error);
+      verdict = { decision: 'deny', reason: `Tool policy failed: ${(error as Error).message}`, rule: null };
+    }
+    this.eventHandler.onPolicyVerdict?.(event, verdict);
+
+    if (verdict.decision === 'deny') {
+      this.stats.toolsBlocked++;
+      this.toolHistory.push({
+        timestamp: new Date(),
+        toolName: event.tool_name,
+        input: event.tool_input,
+        output: '',
+        error: `Blocked by policy: ${verdict.reason}`,
+        verdict,
+      });
+    } else {
+      this.pendingVerdicts.set(
+        toolCallKey({ ...event, tool_input: verdict.updatedInput ?? event.tool_input }),
+        verdict
+      );
+    }
+
+    // Plain allows defer to Claude Code's own permission handling
+    if (verdict.decision === 'allow' && !verdict.updatedInput) {
+      return { continue: true };
+    }
+    return {
+      continue: true,
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        permissionDecision: verdict.decision,
+        permissionDecisionReason: verdict.reason,
+        ...(verdict.updatedInput && { updatedInput: verdict.updatedInput }),
+      },
+    };
+  }
+
+  /**
+   * Handle UserPromptSubmit event - a prompt reached the worker
+   */
+  async onUserPromptSubmit(event: UserPromptSubmitEvent): Promise<{ continue: boolean }> {
+    this.rememberTranscript(event.session_id, event.transcript_path);
+    this.sessionId = event.session_id;
+    this.block = null;
+    this.eventHandler.onUserPromptSubmit?.(event);
+    return { continue: true };
+  }
+
+  /**
+   * Handle Notification event - the worker is waiting on a permission
+   * decision or for input
+   */
+  async onNotification(event: NotificationEvent): Promise<{ continue: boolean }> {
+    this.rememberTranscript(event.session_id, event.transcript_path);
+    this.sessionId = event.session_id;
+    this.block = {
+      reason: classifyNotification(event),
+      message: event.message,
+      since: new Date(),
+    };
+    this.eventHandler.onNotification?.(event, { ...this.block });
+    return { continue: true };
+  }
+
+  /**
+   * Handle SubagentStop event. Only the main agent's Stop ends an
+   * iteration, so this never calls the supervisor.
+   */
+  async onSubagentStop(event: SubagentStopEvent): Promise<{ continue: boolean }> {
+    this.rememberTranscript(event.session_id, event.transcript_path);
+    this.eventHandler.onSubagentStop?.(event);
+    return { continue: true };
+  }
+
+  /**
+   * Handle PreCompact event - snapshot the context before it is compacted.
+   * The hook waits for this response, so the snapshot completes first.
+   */
+  async onPreCompact(event: PreCompactEvent): Promise<{ continue: boolean }> {
+    this.rememberTranscript(event.session_id, event.transcript_path);
+    this.sessionId = event.session_id;
+
+    let snapshotPath: string | null = null;
+    if (this.contextSnapshotFn) {
+      try {
+        snapshotPath = await this.contextSnapshotFn(event);
+      } catch (error) {
+        this.eventHandler.onError?.(error as Error);
+      }
+    }
+
+    this.eventHandler.onPreCompact?.(event, snapshotPath);
+    return { continue: true };
+  }
+
   /**
    * Call the supervisor and handle the decision
    */
-  private async callSupervisor(): Promise<void> {
+  private async callSupervisor(watchdog?: WatchdogAlert): Promise<void> {
     // Skip supervisor call if paused - stay in monitoring state
     if (this.paused) {
       this.state = 'monitoring';
       return;
     }
 
+    // Over budget: abort without spending more on the supervisor
+    const overBudget = this.usageMeter?.budgetExceeded();
+    if (overBudget) {
+      const decision = this.budgetAbort(overBudget);
+      this.eventHandler.onSupervisorDecision?.(decision);
+      await this.handleDecision(decision);
+      return;
+    }
+
     if (!this.supervisorFn) {
       // No supervisor configured - default to stop
       const defaultDecision: SupervisorDecision = {
@@ -164,17 +585,39 @@ export class HooksController {
 
     this.state = 'calling_supervisor';
     this.stats.supervisorCalls++;
+    this.supervisorIterations++;
 
     this.eventHandler.onSupervisorCall?.({ toolHistory: this.toolHistory });
 
     try {
-      const decision = await this.supervisorFn({
+      let decision = await this.supervisorFn({
         taskDescription: this.taskDescription,
         transcriptPath: this.transcriptPath,
         sessionId: this.sessionId,
+        toolHistory: [...this.toolHistory],
+        stats: this.getStats(),
+        ...(this.checkpointer && { checkpoints: [...this.checkpoints] }),
+        ...(this.lastVerification && { verification: this.lastVerification }),
+        ...(watchdog && { watchdog }),
       });
 
+      // The supervisor's own tokens can push the run over budget; a finished task still stops
+      const iteration = this.stats.stopEvents;
+      await this.meter(() => this.usageMeter!.recordSupervisor(decision, iteration));
+      const exceeded = this.usageMeter?.budgetExceeded();
+      const forced = exceeded && decision.action !== 'stop' && decision.action !== 'abort';
+      if (forced) {
+        decision = this.budgetAbort(exceeded);
+      }
+
       this.eventHandler.onSupervisorDecision?.(decision);
+
+      // Budget aborts are never held back for approval
+      const trigger = forced ? null : this.approvalTrigger(decision);
+      if (trigger) {
+        this.parkDecision(decision, trigger);
+        return;
+      }
       await this.handleDecision(decision);
     } catch (error) {
       this.eventHandler.onError?.(error as Error);
@@ -182,6 +625,31 @@ export class HooksController {
     }
   }
 
+  /**
+   * Call the supervisor about a stalled or looping worker without waiting for
+   * a Stop event. With interrupt, the worker is sent Esc first so an injected
+   * command lands at its prompt rather than being queued behind the stuck turn.
+   * @returns false if the controller is not monitoring (busy, paused or stopped)
+   */
+  async escalate(alert: WatchdogAlert, options: { interrupt?: boolean } = {}): Promise<boolean> {
+    if (this.state !== 'monitoring' || this.paused) {
+      return false;
+    }
+
+    this.state = 'processing';
+    this.block = null;
+    if (options.interrupt && this.terminal?.isRunning) {
+      this.terminal.interrupt();
+      alert = { ...alert, interrupted: true };
+      await new Promise((resolve) => setTimeout(resolve, INTERRUPT_SETTLE_MS));
+    }
+    this.transcriptPath ||= this.transcripts.get(this.sessionId) ?? '';
+
+    await this.callSupervisor(alert);
+    this.persist();
+    return true;
+  }
+
   /**
    * Handle supervisor decision
    */
@@ -192,13 +660,7 @@ export class HooksController {
           throw new Error('inject action requires command');
         }
         this.state = 'injecting';
-        this.stats.commandsInjected++;
-
-        // Call the inject callback
-        if (this.onInjectFn) {
-          this.onInjectFn(decision.command);
-        }
-        this.eventHandler.onInject?.(decision.command);
+        this.inject(decision.command);
 
         // Clear tool history after injection for fresh context
         this.toolHistory = [];
@@ -206,21 +668,36 @@ export class HooksController {
         break;
 
       case 'stop':
+        // Failing gates turn the stop into an inject with the failing output
+        if (await this.verify(decision)) {
+          break;
+        }
+
+        // Chain into the next queued task, if there is one
+        if (await this.advanceTask(decision.reason)) {
+          break;
+        }
         this.stop(decision.reason);
         break;
 
+      case 'rollback':
+        await this.rollback(decision);
+        break;
+
       case 'abort':
+        this.finishCurrentTask('aborted', decision.reason);
         this.stop(`Aborted: ${decision.reason}`);
         break;
 
       case 'continue':
+        // No valid decision: keep the worker's context and wait for its next event
+        if (decision.formatError) {
+          this.state = 'monitoring';
+          break;
+        }
         // Inject /clear to close the loop — clears context and keeps Claude going
         this.state = 'injecting';
-        this.stats.commandsInjected++;
-        if (this.onInjectFn) {
-          this.onInjectFn('/clear');
-        }
-        this.eventHandler.onInject?.('/clear');
+        this.inject('/clear');
         this.toolHistory = [];
         this.state = 'monitoring';
         break;
@@ -230,13 +707,271 @@ export class HooksController {
         // Return to monitoring
         this.state = 'monitoring';
         break;
+
+      default: {
+        // A supervisor (e.g. a TypeScript rule) produced an action nothing applies
+        const reason = `Unknown supervisor action: ${String((decision as { action: unknown }).action)}`;
+        this.eventHandler.onError?.(new Error(reason));
+        this.stop(reason);
+        break;
+      }
     }
   }
 
+  /**
+   * Why a decision needs human approval (null = apply it right away)
+   */
+  private approvalTrigger(decision: SupervisorDecision): PendingDecision['trigger'] | null {
+    if (!this.approval) return null;
+    if (this.approval.always) return 'always';
+    if (this.approval.minConfidence !== undefined && decision.confidence < this.approval.minConfidence) {
+      return 'low_confidence';
+    }
+    return null;
+  }
+
+  /**
+   * Hold a decision until approveDecision/editDecision/rejectDecision
+   * (or the auto-approve timeout) resolves it
+   */
+  private parkDecision(decision: SupervisorDecision, trigger: PendingDecision['trigger']): void {
+    const autoApproveMs = this.approval?.autoApproveMs;
+    const pending: PendingDecision = {
+      id: crypto.randomUUID(),
+      decision,
+      trigger,
+      createdAt: new Date(),
+      autoApproveAt: autoApproveMs ? new Date(Date.now() + autoApproveMs) : null,
+    };
+    this.pendingDecision = pending;
+    this.state = 'awaiting_approval';
+
+    if (autoApproveMs) {
+      this.approvalTimer = setTimeout(() => {
+        this.resolveDecision(pending.id, 'auto_approved', decision).catch((error) => {
+          this.eventHandler.onError?.(error as Error);
+        });
+      }, autoApproveMs);
+    }
+    this.eventHandler.onDecisionPending?.({ ...pending });
+  }
+
+  /**
+   * Apply (or drop) the pending decision and return to monitoring
+   * @throws Error if id is not the pending decision
+   */
+  private async resolveDecision(
+    id: string,
+    outcome: ApprovalOutcome,
+    applied: SupervisorDecision | null
+  ): Promise<void> {
+    const pending = this.pendingDecision;
+    if (!pending || pending.id !== id) {
+      throw new Error(`No pending decision: ${id}`);
+    }
+    this.clearPendingDecision();
+    this.eventHandler.onDecisionResolved?.(pending, outcome, applied);
+
+    if (!applied) {
+      this.state = 'monitoring';
+      return;
+    }
+
+    this.state = 'processing';
+    try {
+      await this.handleDecision(applied);
+    } catch (error) {
+      this.eventHandler.onError?.(error as Error);
+      this.state = 'monitoring';
+    }
+    this.persist();
+  }
+
+  private clearPendingDecision(): void {
+    if (this.approvalTimer) {
+      clearTimeout(this.approvalTimer);
+      this.approvalTimer = null;
+    }
+    this.pendingDecision = null;
+  }
+
+  /**
+   * Run a usage meter update. Failures are reported but never block the run.
+   */
+  private async meter(fn: () => Promise<void>): Promise<void> {
+    if (!this.usageMeter) return;
+    try {
+      await fn();
+    } catch (error) {
+      this.eventHandler.onError?.(error as Error);
+    }
+  }
+
+  private budgetAbort(reason: string): SupervisorDecision {
+    return { action: 'abort', command: '/clear', reason, confidence: 1.0, budgetExhausted: true };
+  }
+
+  /**
+   * Snapshot the worker's working tree. Failures are reported but never
+   * block the run.
+   */
+  private async checkpoint(iteration: number, label: string): Promise<void> {
+    if (!this.checkpointer) return;
+
+    try {
+      const checkpoint = await this.checkpointer.create({
+        iteration,
+        label,
+        sessionId: this.sessionId || undefined,
+      });
+      this.checkpoints.unshift(checkpoint);
+      this.eventHandler.onCheckpoint?.(checkpoint);
+    } catch (error) {
+      this.eventHandler.onError?.(error as Error);
+    }
+  }
+
+  /**
+   * Restore a checkpoint and inject the corrected instruction.
+   * Defaults to the checkpoint before the latest, undoing the last iteration.
+   */
+  private async rollback(decision: SupervisorDecision): Promise<void> {
+    if (!decision.command) {
+      throw new Error('rollback action requires command');
+    }
+    if (!this.checkpointer) {
+      throw new Error('rollback action requires checkpoints');
+    }
+
+    const target = decision.checkpointId
+      ? this.checkpoints.find((c) => c.id.startsWith(decision.checkpointId!))
+      : this.checkpoints[1];
+    if (!target) {
+      throw new Error(`No checkpoint to roll back to${decision.checkpointId ? `: ${decision.checkpointId}` : ''}`);
+    }
+
+    this.state = 'injecting';
+    await this.restoreCheckpoint(target);
+
+    this.inject(decision.command);
+    this.toolHistory = [];
+    this.state = 'monitoring';
+  }
+
+  /**
+   * Restore the worker's working tree to a checkpoint (rollback action or manual
+   * restore from the UI). Checkpoints taken after it are dropped from the run.
+   * @returns The safety snapshot taken just before restoring
+   * @throws Error if no checkpoint store is configured
+   */
+  async restoreCheckpoint(target: Checkpoint): Promise<Checkpoint> {
+    if (!this.checkpointer) {
+      throw new Error('Checkpoints are not enabled');
+    }
+
+    const safety = await this.checkpointer.restore(target.id);
+    const index = this.checkpoints.findIndex((c) => c.id === target.id);
+    this.checkpoints = index === -1 ? [target, ...this.checkpoints] : this.checkpoints.slice(index);
+    this.eventHandler.onRollback?.(target, safety);
+    return safety;
+  }
+
+  /**
+   * Run the verification gates on a stop decision
+   * @returns true if a gate failed and its output was injected instead
+   */
+  private async verify(decision: SupervisorDecision): Promise<boolean> {
+    if (!this.verifierFn) {
+      return false;
+    }
+
+    this.state = 'verifying';
+    const result: VerificationResult = {
+      ...(await this.verifierFn({ taskDescription: this.taskDescription, decision })),
+      decision,
+    };
+    this.lastVerification = result;
+    this.eventHandler.onVerification?.(result);
+
+    // Stopped while the gates were running
+    if (this.state !== 'verifying') {
+      return true;
+    }
+
+    if (result.passed || !result.overrideCommand) {
+      return false;
+    }
+
+    this.state = 'injecting';
+    this.inject(result.overrideCommand);
+    this.toolHistory = [];
+    this.state = 'monitoring';
+    return true;
+  }
+
+  /**
+   * Complete the current queued task and start the next one, if any.
+   * Clears the worker context, resets the supervisor's iteration counters
+   * and injects the next task description.
+   * @returns true if a next task was started
+   */
+  private async advanceTask(reason: string): Promise<boolean> {
+    this.finishCurrentTask('completed', reason);
+
+    const next = this.taskSource?.next();
+    if (!next) {
+      return false;
+    }
+
+    this.state = 'injecting';
+    this.currentTask = next;
+    this.inject('/clear');
+    await new Promise((resolve) => setTimeout(resolve, TASK_SWITCH_DELAY));
+
+    // Stopped while waiting for /clear - stop() already recorded the outcome
+    if (this.state !== 'injecting') {
+      return true;
+    }
+
+    this.taskDescription = next.description;
+    this.toolHistory = [];
+    this.lastVerification = null;
+    this.supervisorIterations = 0;
+    this.supervisorFn?.reset?.();
+    this.eventHandler.onTaskStart?.(next);
+    this.inject(next.description);
+    this.state = 'monitoring';
+    return true;
+  }
+
+  /**
+   * Record the outcome of the current queued task
+   */
+  private finishCurrentTask(outcome: TaskOutcome, reason: string): void {
+    if (!this.currentTask) return;
+    const task = this.currentTask;
+    this.currentTask = null;
+    this.taskSource?.complete(task.id, outcome, reason);
+    this.eventHandler.onTaskComplete?.(task, outcome, reason);
+  }
+
+  /**
+   * Write a command to the PTY and notify listeners
+   */
+  private inject(command: string): void {
+    this.stats.commandsInjected++;
+    if (this.onInjectFn) {
+      this.onInjectFn(command);
+    }
+    this.eventHandler.onInject?.(command);
+  }
+
   /**
    * Request graceful stop
    */
   stop(reason: string): void {
+    this.clearPendingDecision();
+    this.finishCurrentTask('stopped', reason);
     this.state = 'stopped';
     this.stats.endTime = new Date();
     this.eventHandler.onControllerStop?.(reason);
@@ -247,6 +982,8 @@ export class HooksController {
    */
   pause(): void {
     this.paused = true;
+    this.persist();
+    this.eventHandler.onStateChange?.(this.state);
   }
 
   /**
@@ -254,6 +991,8 @@ export class HooksController {
    */
   resume(): void {
     this.paused = false;
+    this.persist();
+    this.eventHandler.onStateChange?.(this.state);
   }
 
   /**
@@ -264,15 +1003,115 @@ export class HooksController {
   }
 
   /**
-   * Inject a command directly (for manual control from UI)
+   * Apply the pending decision as the supervisor made it
+   * @throws Error if id is not the pending decision
+   */
+  async approveDecision(id: string): Promise<SupervisorDecision> {
+    const decision = this.requirePending(id).decision;
+    await this.resolveDecision(id, 'approved', decision);
+    return decision;
+  }
+
+  /**
+   * Apply the pending decision with a human's changes (e.g. a rewritten command)
+   * @throws Error if id is not the pending decision or the result is invalid
    */
-  injectCommand(command: string): void {
-    if (!this.onInjectFn) {
-      throw new Error('No inject handler configured');
+  async editDecision(
+    id: string,
+    changes: Partial<Pick<SupervisorDecision, 'action' | 'command' | 'checkpointId' | 'reason'>>
+  ): Promise<SupervisorDecision> {
+    const decision: SupervisorDecision = { ...this.requirePending(id).decision, ...changes, confidence: 1.0 };
+    if ((decision.action === 'inject' || decision.action === 'rollback') && !decision.command?.trim()) {
+      throw new Error(`${decision.action} action requires command`);
+    }
+    await this.resolveDecision(id, 'edited', decision);
+    return decision;
+  }
+
+  /**
+   * Drop the pending decision. The worker stays idle at its prompt until a
+   * command is injected manually or the next Stop event.
+   * @throws Error if id is not the pending decision
+   */
+  async rejectDecision(id: string): Promise<void> {
+    this.requirePending(id);
+    await this.resolveDecision(id, 'rejected', null);
+  }
+
+  /**
+   * Get the decision awaiting approval (null if none)
+   */
+  getPendingDecision(): PendingDecision | null {
+    return this.pendingDecision ? { ...this.pendingDecision } : null;
+  }
+
+  private requirePending(id: string): PendingDecision {
+    if (!this.pendingDecision || this.pendingDecision.id !== id) {
+      throw new Error(`No pending decision: ${id}`);
+    }
+    return this.pendingDecision;
+  }
+
+  /**
+   * Steer the worker from the API or the UI. Text (keys, paste, inject) is
+   * refused while the controller is writing to the worker itself: handling a
+   * Stop, calling the supervisor, verifying or injecting. Esc, Ctrl-C and
+   * resizes are always allowed. Every operation but a plain inject (reported
+   * through onInject) and a resize is reported through onSteer.
+   * @throws SteeringError if the worker is not running or the controller is busy
+   */
+  async steer(op: SteeringOp): Promise<void> {
+    const terminal = this.terminal;
+    if (!terminal?.isRunning) {
+      throw new SteeringError('Worker is not running', 'not_running');
+    }
+    if (op.op !== 'interrupt' && op.op !== 'cancel' && op.op !== 'resize') {
+      this.assertNotBusy();
+    }
+
+    switch (op.op) {
+      case 'interrupt':
+        terminal.interrupt();
+        break;
+      case 'cancel':
+        terminal.cancel();
+        break;
+      case 'keys':
+        terminal.write(op.data);
+        break;
+      case 'paste':
+        terminal.paste(op.text, op.submit);
+        break;
+      case 'inject':
+        this.inject(op.command);
+        return;
+      case 'resize':
+        terminal.resize(op.cols, op.rows);
+        return;
+      case 'interrupt_inject':
+        terminal.interrupt();
+        await new Promise((resolve) => setTimeout(resolve, INTERRUPT_SETTLE_MS));
+        // A Stop may have reached the supervisor while the worker settled
+        this.assertNotBusy();
+        this.inject(op.command);
+        break;
+    }
+    this.eventHandler.onSteer?.(op);
+  }
+
+  private assertNotBusy(): void {
+    if (BUSY_STATES.includes(this.state)) {
+      throw new SteeringError(`Controller is ${this.state.replace('_', ' ')}; try again once it is monitoring`, 'busy');
+    }
+  }
+
+  /**
+   * Record which transcript a session writes to (every hook event carries it)
+   */
+  private rememberTranscript(sessionId: string, transcriptPath: string | undefined): void {
+    if (sessionId && transcriptPath) {
+      this.transcripts.set(sessionId, transcriptPath);
     }
-    this.stats.commandsInjected++;
-    this.onInjectFn(command);
-    this.eventHandler.onInject?.(command);
   }
 
   /**
@@ -282,6 +1121,43 @@ export class HooksController {
     return this.state;
   }
 
+  /**
+   * Get the queued task currently being worked on (null if not from the queue)
+   */
+  getCurrentTask(): SourcedTask | null {
+    return this.currentTask;
+  }
+
+  /**
+   * Whether a hook event of this controller's worker wrote to the transcript
+   */
+  ownsTranscript(transcriptPath: string): boolean {
+    return transcriptPath !== '' &&
+      (this.transcriptPath === transcriptPath || [...this.transcripts.values()].includes(transcriptPath));
+  }
+
+  /**
+   * Get the worker session id (last one seen in a hook event)
+   */
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
+  /**
+   * Get the transcript of a session seen in this controller's hook events
+   * @returns null for unknown session ids
+   */
+  getTranscriptPath(sessionId: string): string | null {
+    return this.transcripts.get(sessionId) ?? null;
+  }
+
+  /**
+   * Get what the worker is blocked on (null if it is not waiting on a prompt)
+   */
+  getBlock(): WorkerBlock | null {
+    return this.block ? { ...this.block } : null;
+  }
+
   /**
    * Get controller statistics
    */
@@ -289,6 +1165,20 @@ export class HooksController {
     return { ...this.stats };
   }
 
+  /**
+   * Get checkpoints taken during this run, newest first
+   */
+  getCheckpoints(): Checkpoint[] {
+    return [...this.checkpoints];
+  }
+
+  /**
+   * Get worker and supervisor token usage for this run (null without a meter)
+   */
+  getUsage(): RunUsage | null {
+    return this.usageMeter?.getUsage() ?? null;
+  }
+
   /**
    * Get tool history
    */
@@ -313,8 +1203,30 @@ export class HooksController {
       supervisorCalls: 0,
       commandsInjected: 0,
       errorsDetected: 0,
+      toolsBlocked: 0,
       startTime: new Date(),
       endTime: null,
     };
   }
 }
+
+/**
+ * Derive why a notification blocks the worker
+ */
+export function classifyNotification(event: NotificationEvent): WorkerBlockReason {
+  const type = event.notification_type ?? '';
+  if (type.startsWith('permission') || /permission/i.test(event.message)) {
+    return 'permission';
+  }
+  if (type.startsWith('idle') || /waiting for your input/i.test(event.message)) {
+    return 'idle';
+  }
+  return 'other';
+}
+
+/**
+ * Key that pairs a PreToolUse event with the PostToolUse event of the same call
+ */
+function toolCallKey(event: { tool_name: string; tool_use_id?: string; tool_input: Record<string, unknown> }): string {
+  return event.tool_use_id ?? `${event.tool_name}:${JSON.stringify(event.tool_input)}`;
+}
@@ -0,0 +1,72 @@
+/**
+ * Hook Health Monitor
+ *
+ * Detects hook configurations that only partially work. Once the first tool
+ * event arrives, a Stop event is expected within the timeout; if none comes,
+ * the Stop hook is most likely missing and the controller would wait forever.
+ */
+
+import type { HookEvent } from "./types";
+
+export interface HookHealthOptions {
+  /** How long to wait for a Stop event after the first tool event */
+  stopTimeoutMs: number;
+  /** Called once per run when the Stop event is overdue */
+  onMissingStop: (message: string) => void;
+}
+
+export class HookHealthMonitor {
+  private options: HookHealthOptions;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private stopSeen = false;
+
+  constructor(options: HookHealthOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Feed every hook event received for the monitored session
+   */
+  recordEvent(event: HookEvent): void {
+    if (this.stopSeen) return;
+
+    if (event.hook_event_name === "Stop") {
+      this.stopSeen = true;
+      this.clearTimer();
+      return;
+    }
+
+    if (event.hook_event_name === "PostToolUse" && !this.timer) {
+      this.timer = setTimeout(() => {
+        const seconds = Math.round(this.options.stopTimeoutMs / 1000);
+        this.options.onMissingStop(
+          `No Stop hook event received within ${seconds}s of the first tool event. ` +
+            `The Stop hook is probably not configured: run "cco hooks verify" to check, ` +
+            `or "cco hooks install" to fix.`
+        );
+      }, this.options.stopTimeoutMs);
+    }
+  }
+
+  /**
+   * Start watching a new run
+   */
+  reset(): void {
+    this.clearTimer();
+    this.stopSeen = false;
+  }
+
+  /**
+   * Stop watching (e.g. on shutdown)
+   */
+  dispose(): void {
+    this.clearTimer();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -4,18 +4,62 @@
  * Event-driven orchestration using Claude Code's native hooks system.
  */
 
-export { HooksController } from './controller';
-export type { SupervisorFn } from './controller';
+export { HooksController, SteeringError, classifyNotification } from './controller';
+export type { SupervisorFn, VerifierFn, ContextSnapshotFn, ToolPolicyFn } from './controller';
+export { createContextSnapshotter, DEFAULT_SNAPSHOT_DIR } from './snapshot';
+export { HookHealthMonitor } from './health';
+export type { HookHealthOptions } from './health';
+export {
+  installHooks,
+  uninstallHooks,
+  verifyHooks,
+  expectedHooks,
+  buildHookCommand,
+  HOOKS_SETTINGS_FILE,
+} from './installer';
+export type { HookTarget, HookCheckResult, HookWriteResult } from './installer';
+export { runHooksCommand, checkHooksAtStartup, isHooksCommand, HOOKS_COMMANDS } from './cli';
+export type { HooksCommand } from './cli';
 export type {
   StopEvent,
   ToolEvent,
   SessionStartEvent,
   SessionEndEvent,
+  PreToolUseEvent,
+  PreToolUseResponse,
+  PolicyVerdict,
+  UserPromptSubmitEvent,
+  NotificationEvent,
+  SubagentStopEvent,
+  PreCompactEvent,
+  WorkerBlock,
+  WorkerBlockReason,
   HookEvent,
   HooksControllerState,
   HooksStats,
   HooksEventHandler,
   ToolHistoryEntry,
+  WatchdogAlert,
+  SteeringOp,
+  WorkerTerminal,
   SupervisorAction,
   SupervisorDecision,
+  TokenUsage,
+  UsageTotals,
+  IterationUsage,
+  RunUsage,
+  UsageMeter,
+  UsageState,
+  GateResult,
+  VerificationResult,
+  Checkpoint,
+  CheckpointInfo,
+  Checkpointer,
+  ApprovalConfig,
+  PendingDecision,
+  ApprovalOutcome,
+  ControllerSnapshot,
+  TaskOutcome,
+  SourcedTask,
+  TaskSource,
 } from './types';
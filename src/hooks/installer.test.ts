@@ -0,0 +1,117 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync, readFileSync, existsSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { installHooks, uninstallHooks, verifyHooks, buildHookCommand } from "./installer";
+
+const SECRET_PATH = "/tmp/cco/hook-secret";
+
+let cwd: string;
+let settingsPath: string;
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "cco-hooks-"));
+  settingsPath = join(cwd, ".claude", "settings.local.json");
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+function readSettings() {
+  return JSON.parse(readFileSync(settingsPath, "utf8"));
+}
+
+test("install writes worker hooks for the port", async () => {
+  const result = await installHooks({ role: "worker", cwd }, 4000, SECRET_PATH);
+
+  expect(result.changed).toBe(true);
+  expect(result.backupPath).toBeNull();
+  const { hooks } = readSettings();
+  expect(Object.keys(hooks).sort()).toEqual([
+    "Notification",
+    "PostToolUse",
+    "PreCompact",
+    "PreToolUse",
+    "SessionEnd",
+    "SessionStart",
+    "Stop",
+    "SubagentStop",
+    "UserPromptSubmit",
+  ]);
+  expect(hooks.PostToolUse[0].matcher).toBe("*");
+  expect(hooks.PreToolUse[0].matcher).toBe("*");
+  expect(hooks.Stop[0].hooks[0].command).toBe(
+    buildHookCommand("http://localhost:4000/api/hooks/stop", SECRET_PATH)
+  );
+  expect((await verifyHooks({ role: "worker", cwd }, 4000, SECRET_PATH)).ok).toBe(true);
+});
+
+test("install merges with existing settings and backs them up", async () => {
+  mkdirSync(join(cwd, ".claude"));
+  const userHook = { type: "command", command: "echo done" };
+  writeFileSync(settingsPath, JSON.stringify({
+    permissions: { allow: ["Bash"] },
+    hooks: {
+      Stop: [
+        { hooks: [userHook] },
+        { hooks: [{ type: "command", command: buildHookCommand("http://localhost:13013/api/supervisor/stop", SECRET_PATH) }] },
+      ],
+    },
+  }));
+
+  const result = await installHooks({ role: "supervisor", cwd }, 5000, SECRET_PATH);
+
+  expect(result.backupPath).toBe(`${settingsPath}.bak`);
+  expect(existsSync(`${settingsPath}.bak`)).toBe(true);
+  const settings = readSettings();
+  expect(settings.permissions).toEqual({ allow: ["Bash"] });
+  expect(settings.hooks.Stop).toEqual([
+    { hooks: [userHook] },
+    { hooks: [{ type: "command", command: buildHookCommand("http://localhost:5000/api/supervisor/stop", SECRET_PATH) }] },
+  ]);
+
+  expect((await installHooks({ role: "supervisor", cwd }, 5000, SECRET_PATH)).changed).toBe(false);
+});
+
+test("verify reports missing hooks and wrong ports", async () => {
+  await installHooks({ role: "worker", cwd }, 13013, SECRET_PATH);
+
+  const result = await verifyHooks({ role: "worker", cwd }, 4000, SECRET_PATH);
+  expect(result.ok).toBe(false);
+  expect(result.problems).toHaveLength(9);
+  expect(result.problems[0]).toContain("wrong URL");
+  expect((await verifyHooks({ role: "worker", cwd }, 13013, "/elsewhere/hook-secret")).problems[0]).toBe(
+    "Stop hook does not read the secret from /elsewhere/hook-secret"
+  );
+
+  const supervisor = await verifyHooks({ role: "supervisor", cwd: join(cwd, "master") }, 13013, SECRET_PATH);
+  expect(supervisor.problems).toEqual(["Stop hook is missing"]);
+});
+
+test("uninstall removes only CCO hooks", async () => {
+  mkdirSync(join(cwd, ".claude"));
+  writeFileSync(settingsPath, JSON.stringify({
+    hooks: { Stop: [{ hooks: [{ type: "command", command: "echo done" }] }] },
+  }));
+  await installHooks({ role: "worker", cwd }, 13013, SECRET_PATH);
+
+  await uninstallHooks({ role: "worker", cwd });
+
+  expect(readSettings()).toEqual({
+    hooks: { Stop: [{ hooks: [{ type: "command", command: "echo done" }] }] },
+  });
+});
+
+test("hook commands read the secret file when they run", async () => {
+  const secretPath = join(cwd, "it's", "hook-secret");
+  mkdirSync(join(cwd, "it's"));
+  writeFileSync(secretPath, "hook-secret-1\n");
+  await installHooks({ role: "worker", cwd }, 13013, secretPath);
+
+  expect(readFileSync(settingsPath, "utf8")).not.toContain("hook-secret-1");
+  const command: string = readSettings().hooks.Stop[0].hooks[0].command;
+  const header = command.match(/-H ("X-CCO-Hook-Secret: [^"]*")/)![1];
+  const echoed = Bun.spawnSync(["sh", "-c", `echo ${header}`], { cwd: tmpdir() });
+  expect(echoed.stdout.toString().trim()).toBe("X-CCO-Hook-Secret: hook-secret-1");
+});
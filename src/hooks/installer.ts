@@ -0,0 +1,267 @@
+/**
+ * Hooks Installer
+ *
+ * Writes, verifies and removes the Claude Code hook entries CCO relies on.
+ * Worker directories POST every hook event to /api/hooks/*; the supervisor
+ * directory POSTs its Stop event to /api/supervisor/stop. Every command reads
+ * the hook secret from its file when it runs and sends it, so the secret itself
+ * never ends up in a settings file. Entries are merged into
+ * .claude/settings.local.json alongside any hooks the user already has.
+ */
+
+import { existsSync } from "node:fs";
+import { copyFile, mkdir, readFile, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { HOOK_SECRET_HEADER } from "../auth";
+
+/** Settings file the installer writes, relative to the target cwd */
+export const HOOKS_SETTINGS_FILE = join(".claude", "settings.local.json");
+
+/**
+ * Where hooks are installed and which events they report
+ */
+export interface HookTarget {
+  role: "worker" | "supervisor";
+  cwd: string;
+  /** Pool worker id, for reporting (events are routed by session id and cwd) */
+  workerId?: string;
+}
+
+/**
+ * Outcome of verifying one target
+ */
+export interface HookCheckResult {
+  target: HookTarget;
+  settingsPath: string;
+  ok: boolean;
+  /** One human-readable line per missing or misconfigured hook */
+  problems: string[];
+}
+
+/**
+ * Outcome of installing or uninstalling hooks for one target
+ */
+export interface HookWriteResult {
+  target: HookTarget;
+  settingsPath: string;
+  changed: boolean;
+  /** Copy of the previous settings file, if one existed and was changed */
+  backupPath: string | null;
+}
+
+interface HookCommand {
+  type: "command";
+  command: string;
+  [key: string]: unknown;
+}
+
+interface HookMatcherGroup {
+  matcher?: string;
+  hooks: HookCommand[];
+  [key: string]: unknown;
+}
+
+type HooksSettings = Record<string, HookMatcherGroup[]>;
+
+/** Worker hook event name → CCO route */
+const WORKER_ROUTES: Record<string, string> = {
+  Stop: "stop",
+  PostToolUse: "tool",
+  SessionStart: "session-start",
+  SessionEnd: "session-end",
+  PreToolUse: "pre-tool",
+  UserPromptSubmit: "prompt-submit",
+  Notification: "notification",
+  SubagentStop: "subagent-stop",
+  PreCompact: "pre-compact",
+};
+
+/** Tool events need a matcher; "*" matches every tool */
+const TOOL_EVENTS = new Set(["PreToolUse", "PostToolUse"]);
+
+/** Matches any command CCO installed, regardless of port or worker id */
+const CCO_COMMAND_PATTERN = /http:\/\/localhost:\d+\/api\/(hooks\/|workers\/[^/]+\/hooks\/|supervisor\/stop)/;
+
+/**
+ * Build the curl command a hook runs to POST its event to the server
+ * @param secretPath - Hook secret file, read by the command each time it runs
+ */
+export function buildHookCommand(url: string, secretPath: string): string {
+  return `curl -s -X POST ${url} -H 'Content-Type: application/json' -H "${HOOK_SECRET_HEADER}: $(cat ${secretFileArg(secretPath)})" -d @- || true`;
+}
+
+/**
+ * Expected hook commands for a target, keyed by hook event name
+ */
+export function expectedHooks(target: HookTarget, port: number, secretPath: string): Record<string, string> {
+  const base = `http://localhost:${port}/api`;
+  if (target.role === "supervisor") {
+    return { Stop: buildHookCommand(`${base}/supervisor/stop`, secretPath) };
+  }
+
+  const hooks: Record<string, string> = {};
+  for (const [event, route] of Object.entries(WORKER_ROUTES)) {
+    hooks[event] = buildHookCommand(`${base}/hooks/${route}`, secretPath);
+  }
+  return hooks;
+}
+
+/**
+ * Write (or merge) the CCO hook entries into the target's settings file.
+ * Existing CCO entries are replaced; all other hooks and settings are kept.
+ */
+export async function installHooks(target: HookTarget, port: number, secretPath: string): Promise<HookWriteResult> {
+  const settingsPath = settingsPathFor(target);
+  const settings = await readSettings(settingsPath);
+  const hooks = removeCcoHooks(getHooks(settings));
+
+  for (const [event, command] of Object.entries(expectedHooks(target, port, secretPath))) {
+    const group: HookMatcherGroup = { hooks: [{ type: "command", command }] };
+    if (TOOL_EVENTS.has(event)) group.matcher = "*";
+    hooks[event] = [...(hooks[event] ?? []), group];
+  }
+
+  return writeSettings(target, settingsPath, { ...settings, hooks });
+}
+
+/**
+ * Remove every CCO hook entry from the target's settings file
+ */
+export async function uninstallHooks(target: HookTarget): Promise<HookWriteResult> {
+  const settingsPath = settingsPathFor(target);
+  if (!existsSync(settingsPath)) {
+    return { target, settingsPath, changed: false, backupPath: null };
+  }
+
+  const settings = await readSettings(settingsPath);
+  const hooks = removeCcoHooks(getHooks(settings));
+  const { hooks: _previous, ...rest } = settings;
+
+  return writeSettings(
+    target,
+    settingsPath,
+    Object.keys(hooks).length > 0 ? { ...rest, hooks } : rest
+  );
+}
+
+/**
+ * Check that every expected hook is configured for this port and secret file.
+ * Looks at both .claude/settings.json and .claude/settings.local.json.
+ */
+export async function verifyHooks(target: HookTarget, port: number, secretPath: string): Promise<HookCheckResult> {
+  const settingsPath = settingsPathFor(target);
+  const configured: HooksSettings = {};
+
+  for (const file of ["settings.json", "settings.local.json"]) {
+    const path = join(resolve(target.cwd), ".claude", file);
+    if (!existsSync(path)) continue;
+    try {
+      for (const [event, groups] of Object.entries(getHooks(await readSettings(path)))) {
+        configured[event] = [...(configured[event] ?? []), ...groups];
+      }
+    } catch (error) {
+      return {
+        target,
+        settingsPath,
+        ok: false,
+        problems: [error instanceof Error ? error.message : String(error)],
+      };
+    }
+  }
+
+  const problems: string[] = [];
+  const secretHeader = `${HOOK_SECRET_HEADER}: $(cat ${secretFileArg(secretPath)})"`;
+  for (const [event, command] of Object.entries(expectedHooks(target, port, secretPath))) {
+    const commands = (configured[event] ?? []).flatMap((g) => g.hooks ?? []).map((h) => h.command);
+    if (commands.includes(command)) continue;
+
+    const stale = commands.find((c) => typeof c === "string" && CCO_COMMAND_PATTERN.test(c));
+    problems.push(
+      !stale
+        ? `${event} hook is missing`
+        : stale.includes(secretHeader)
+          ? `${event} hook points to the wrong URL: ${stale}`
+          : `${event} hook does not read the secret from ${resolve(secretPath)}`
+    );
+  }
+
+  return { target, settingsPath, ok: problems.length === 0, problems };
+}
+
+/**
+ * Absolute secret path quoted for the shell (hooks run in the target's cwd)
+ */
+function secretFileArg(secretPath: string): string {
+  return `'${resolve(secretPath).replaceAll("'", `'\\''`)}'`;
+}
+
+function settingsPathFor(target: HookTarget): string {
+  return join(resolve(target.cwd), HOOKS_SETTINGS_FILE);
+}
+
+async function readSettings(path: string): Promise<Record<string, unknown>> {
+  if (!existsSync(path)) return {};
+
+  const text = await readFile(path, "utf8");
+  if (text.trim() === "") return {};
+  try {
+    const parsed = JSON.parse(text);
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      throw new Error("expected a JSON object");
+    }
+    return parsed;
+  } catch (error) {
+    throw new Error(`Invalid settings file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+async function writeSettings(
+  target: HookTarget,
+  settingsPath: string,
+  settings: Record<string, unknown>
+): Promise<HookWriteResult> {
+  const content = JSON.stringify(settings, null, 2) + "\n";
+  const previous = existsSync(settingsPath) ? await readFile(settingsPath, "utf8") : null;
+  if (previous === content) {
+    return { target, settingsPath, changed: false, backupPath: null };
+  }
+
+  let backupPath: string | null = null;
+  if (previous !== null) {
+    backupPath = `${settingsPath}.bak`;
+    await copyFile(settingsPath, backupPath);
+  }
+
+  await mkdir(join(resolve(target.cwd), ".claude"), { recursive: true });
+  await writeFile(settingsPath, content);
+  return { target, settingsPath, changed: true, backupPath };
+}
+
+function getHooks(settings: Record<string, unknown>): HooksSettings {
+  const hooks = settings.hooks;
+  if (typeof hooks !== "object" || hooks === null || Array.isArray(hooks)) {
+    return {};
+  }
+  return hooks as HooksSettings;
+}
+
+/**
+ * Drop CCO commands, then any matcher groups and events left empty
+ */
+function removeCcoHooks(hooks: HooksSettings): HooksSettings {
+  const result: HooksSettings = {};
+  for (const [event, groups] of Object.entries(hooks)) {
+    const kept = groups
+      .map((group) => ({
+        ...group,
+        hooks: (group.hooks ?? []).filter(
+          (h) => typeof h.command !== "string" || !CCO_COMMAND_PATTERN.test(h.command)
+        ),
+      }))
+      .filter((group) => group.hooks.length > 0);
+    if (kept.length > 0) {
+      result[event] = kept;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,33 @@
+/**
+ * Context Snapshots
+ *
+ * Copies the worker's transcript before Claude Code compacts the
+ * conversation, so the full pre-compaction context can still be inspected
+ * (or fed to the supervisor) afterwards.
+ */
+
+import { copyFile, mkdir } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import type { ContextSnapshotFn } from "./controller";
+
+/** Default snapshot directory, relative to the worker cwd */
+export const DEFAULT_SNAPSHOT_DIR = ".cco/compactions";
+
+/**
+ * Create a snapshot function that copies the transcript into a directory
+ * as <session id>-<timestamp>-<trigger>.jsonl
+ *
+ * @param dir - Snapshot directory (default: .cco/compactions)
+ * @returns ContextSnapshotFn compatible with HooksController.setContextSnapshotter()
+ */
+export function createContextSnapshotter(dir: string = DEFAULT_SNAPSHOT_DIR): ContextSnapshotFn {
+  return async (event) => {
+    const target = resolve(dir);
+    await mkdir(target, { recursive: true });
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const path = join(target, `${event.session_id}-${timestamp}-${event.trigger}.jsonl`);
+    await copyFile(event.transcript_path, path);
+    return path;
+  };
+}
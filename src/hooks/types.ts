@@ -19,7 +19,11 @@ export interface StopEvent {
  */
 export interface ToolEvent {
   session_id: string;
+  transcript_path?: string;
+  cwd?: string;
   tool_name: string;
+  /** Matches the PreToolUse event of the same call (newer Claude Code versions) */
+  tool_use_id?: string;
   tool_input: Record<string, unknown>;
   tool_response: {
     output: string;
@@ -33,6 +37,7 @@ export interface ToolEvent {
  */
 export interface SessionStartEvent {
   session_id: string;
+  transcript_path?: string;
   cwd: string;
   source: 'startup' | 'resume' | 'clear' | 'compact';
   hook_event_name: 'SessionStart';
@@ -43,14 +48,126 @@ export interface SessionStartEvent {
  */
 export interface SessionEndEvent {
   session_id: string;
+  transcript_path?: string;
   reason: string;
   hook_event_name: 'SessionEnd';
 }
 
+/**
+ * Pre-tool event - fired before a tool call runs
+ */
+export interface PreToolUseEvent {
+  session_id: string;
+  transcript_path?: string;
+  cwd?: string;
+  tool_name: string;
+  tool_use_id?: string;
+  tool_input: Record<string, unknown>;
+  hook_event_name: 'PreToolUse';
+}
+
+/**
+ * Verdict of the tool policy on a PreToolUse event
+ */
+export interface PolicyVerdict {
+  decision: 'allow' | 'deny';
+  reason: string;
+  /** Rule that decided (null when no rule matched) */
+  rule: string | null;
+  /** Replacement tool input (allow only) */
+  updatedInput?: Record<string, unknown>;
+}
+
+/**
+ * Response to a PreToolUse hook, in the shape Claude Code reads from stdout
+ */
+export interface PreToolUseResponse {
+  continue: boolean;
+  hookSpecificOutput?: {
+    hookEventName: 'PreToolUse';
+    permissionDecision: 'allow' | 'deny';
+    permissionDecisionReason: string;
+    updatedInput?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Prompt submit event - fired when a prompt is submitted to the worker
+ * (typed by a user or injected by CCO)
+ */
+export interface UserPromptSubmitEvent {
+  session_id: string;
+  transcript_path?: string;
+  cwd?: string;
+  prompt: string;
+  hook_event_name: 'UserPromptSubmit';
+}
+
+/**
+ * Notification event - fired when Claude Code shows a notification, e.g.
+ * when it needs permission for a tool or has been idle waiting for input
+ */
+export interface NotificationEvent {
+  session_id: string;
+  transcript_path?: string;
+  cwd?: string;
+  message: string;
+  /** Reported by newer Claude Code versions (e.g. "permission_prompt", "idle_prompt") */
+  notification_type?: string;
+  hook_event_name: 'Notification';
+}
+
+/**
+ * Subagent stop event - fired when a Task subagent finishes
+ */
+export interface SubagentStopEvent {
+  session_id: string;
+  transcript_path: string;
+  stop_hook_active?: boolean;
+  hook_event_name: 'SubagentStop';
+}
+
+/**
+ * Pre-compact event - fired before the conversation is compacted
+ */
+export interface PreCompactEvent {
+  session_id: string;
+  transcript_path: string;
+  trigger: 'manual' | 'auto';
+  custom_instructions?: string;
+  hook_event_name: 'PreCompact';
+}
+
 /**
  * Union of all hook events
  */
-export type HookEvent = StopEvent | ToolEvent | SessionStartEvent | SessionEndEvent;
+export type HookEvent =
+  | StopEvent
+  | ToolEvent
+  | SessionStartEvent
+  | SessionEndEvent
+  | PreToolUseEvent
+  | UserPromptSubmitEvent
+  | NotificationEvent
+  | SubagentStopEvent
+  | PreCompactEvent;
+
+/**
+ * Why the worker is waiting on a human, derived from a Notification event
+ */
+export type WorkerBlockReason =
+  | 'permission'  // Waiting for a tool permission decision
+  | 'idle'        // Waiting for input
+  | 'other';      // Any other notification
+
+/**
+ * Worker blocked on a prompt (cleared by the next tool, prompt or Stop event)
+ */
+export interface WorkerBlock {
+  reason: WorkerBlockReason;
+  message: string;
+  since: Date;
+}
 
 /**
  * Controller state
@@ -60,6 +177,8 @@ export type HooksControllerState =
   | 'monitoring'        // Waiting for hook events
   | 'processing'        // Handling an event
   | 'calling_supervisor' // Awaiting supervisor decision
+  | 'verifying'         // Running verification gates on a stop decision
+  | 'awaiting_approval' // Supervisor decision parked until a human approves it
   | 'injecting'         // Writing command to PTY
   | 'stopped';          // Gracefully stopped
 
@@ -72,6 +191,8 @@ export interface ToolHistoryEntry {
   input: Record<string, unknown>;
   output: string;
   error?: string;
+  /** Tool policy verdict for this call (when a policy is configured) */
+  verdict?: PolicyVerdict;
 }
 
 /**
@@ -88,12 +209,59 @@ export interface HooksStats {
   commandsInjected: number;
   /** Number of errors detected */
   errorsDetected: number;
+  /** Number of tool calls denied by the tool policy */
+  toolsBlocked: number;
   /** Start time */
   startTime: Date;
   /** End time (null if still running) */
   endTime: Date | null;
 }
 
+/**
+ * Stall or loop raised by the watchdog (see src/watchdog)
+ */
+export interface WatchdogAlert {
+  /** stall = no progress for too long, loop = the worker repeats itself */
+  kind: 'stall' | 'loop';
+  /** What was detected, e.g. "Bash has been running for 312s (npm run dev)" */
+  reason: string;
+  /** Tool involved, if any */
+  toolName?: string;
+  /** File edited back and forth (edit/revert loops) */
+  filePath?: string;
+  /** Seconds since the last hook event */
+  idleSeconds: number;
+  /** Seconds since the worker last printed anything */
+  outputIdleSeconds: number;
+  /** Set when the worker was sent Esc before the supervisor was called */
+  interrupted?: boolean;
+  timestamp: string;
+}
+
+/**
+ * Steering operation on the worker's terminal, from the API or the UI
+ */
+export type SteeringOp =
+  | { op: 'interrupt' }                               // Esc: stop the current turn
+  | { op: 'cancel' }                                  // Ctrl-C
+  | { op: 'keys'; data: string }                      // Raw bytes, passed through as typed
+  | { op: 'paste'; text: string; submit?: boolean }   // Bracketed paste (multi-line text)
+  | { op: 'inject'; command: string }                 // Type and submit a command
+  | { op: 'interrupt_inject'; command: string }      // Esc, then submit a command at the prompt
+  | { op: 'resize'; cols: number; rows: number };     // Resize the worker's terminal
+
+/**
+ * Keystroke-level access to the worker's terminal (PTYManager implements it)
+ */
+export interface WorkerTerminal {
+  readonly isRunning: boolean;
+  write(data: string): void;
+  interrupt(): void;
+  cancel(): void;
+  paste(text: string, submit?: boolean): void;
+  resize(cols: number, rows: number): void;
+}
+
 /**
  * Event handler callbacks for hooks controller
  */
@@ -106,18 +274,76 @@ export interface HooksEventHandler {
   onSessionStart?: (event: SessionStartEvent) => void;
   /** Called when session ends */
   onSessionEnd?: (event: SessionEndEvent) => void;
+  /** Called before a tool runs */
+  onPreToolUse?: (event: PreToolUseEvent) => void;
+  /** Called with the tool policy's verdict on a tool call */
+  onPolicyVerdict?: (event: PreToolUseEvent, verdict: PolicyVerdict) => void;
+  /** Called when a prompt is submitted to the worker */
+  onUserPromptSubmit?: (event: UserPromptSubmitEvent) => void;
+  /** Called on a notification, with the block it puts the worker in */
+  onNotification?: (event: NotificationEvent, block: WorkerBlock) => void;
+  /** Called when a subagent finishes (never triggers a supervisor call) */
+  onSubagentStop?: (event: SubagentStopEvent) => void;
+  /** Called before compaction, with the path of the context snapshot (if taken) */
+  onPreCompact?: (event: PreCompactEvent, snapshotPath: string | null) => void;
   /** Called when supervisor is invoked */
   onSupervisorCall?: (context: { toolHistory: ToolHistoryEntry[] }) => void;
   /** Called when supervisor returns decision */
   onSupervisorDecision?: (decision: SupervisorDecision) => void;
   /** Called when command is injected */
   onInject?: (command: string) => void;
+  /** Called after a steering operation was applied to the worker's terminal */
+  onSteer?: (op: SteeringOp) => void;
+  /** Called after a checkpoint of the worker's tree was taken */
+  onCheckpoint?: (checkpoint: Checkpoint) => void;
+  /** Called after a rollback restored a checkpoint (safety = snapshot taken just before) */
+  onRollback?: (checkpoint: Checkpoint, safety: Checkpoint) => void;
+  /** Called when a supervisor decision is parked for human approval */
+  onDecisionPending?: (pending: PendingDecision) => void;
+  /** Called when a pending decision is resolved (applied = null when rejected) */
+  onDecisionResolved?: (pending: PendingDecision, outcome: ApprovalOutcome, applied: SupervisorDecision | null) => void;
+  /** Called after verification gates ran on a stop decision */
+  onVerification?: (result: VerificationResult) => void;
+  /** Called when a queued task starts (after the previous one completed) */
+  onTaskStart?: (task: SourcedTask) => void;
+  /** Called when a queued task finishes */
+  onTaskComplete?: (task: SourcedTask, outcome: TaskOutcome, reason: string) => void;
+  /** Called when the controller state or the paused flag changes */
+  onStateChange?: (state: HooksControllerState) => void;
   /** Called when controller stops */
   onControllerStop?: (reason: string) => void;
   /** Called on controller error */
   onError?: (error: Error) => void;
 }
 
+/**
+ * Outcome of a task run by the controller
+ */
+export type TaskOutcome =
+  | 'completed'  // Supervisor decided the task is done
+  | 'aborted'    // Supervisor aborted the task
+  | 'stopped';   // Run ended before the task finished (manual stop, PTY exit)
+
+/**
+ * A task handed to the controller by a TaskSource
+ */
+export interface SourcedTask {
+  id: string;
+  description: string;
+}
+
+/**
+ * Source of follow-up tasks for back-to-back execution (e.g. TaskQueue)
+ */
+export interface TaskSource {
+  /** Claim the next pending task, or null when none is left */
+  next(): SourcedTask | null;
+  /** Claim a task again when its run is resumed after a restart */
+  reclaim(id: string): void;
+  /** Record the outcome of a claimed task */
+  complete(id: string, outcome: TaskOutcome, reason: string): void;
+}
+
 /**
  * Supervisor decision types
  */
@@ -127,6 +353,7 @@ export type SupervisorAction =
   | 'stop'        // Stop the loop (work complete)
   | 'clear'       // Clear terminal and continue
   | 'compact'     // Compact conversation and continue
+  | 'rollback'    // Restore a checkpoint, then inject a corrected command
   | 'abort';      // Abort due to error/issue
 
 /**
@@ -135,10 +362,210 @@ export type SupervisorAction =
 export interface SupervisorDecision {
   /** Action to take */
   action: SupervisorAction;
-  /** Command to inject (required if action === 'inject') */
+  /** Command to inject (required if action === 'inject' or 'rollback') */
   command?: string;
+  /** Checkpoint to restore (rollback only; default: the one before the latest) */
+  checkpointId?: string;
   /** Reasoning for the decision */
   reason: string;
   /** Supervisor's confidence in this decision */
   confidence: number;
+  /** Files the worker is expected to create or change (JSON decisions only) */
+  expectedFiles?: string[];
+  /** Check that proves the work is done (JSON decisions only) */
+  verification?: string;
+  /** Tokens the supervisor spent on this decision (API supervisor only) */
+  usage?: TokenUsage;
+  /** Set on aborts forced by an exhausted cost or iteration budget */
+  budgetExhausted?: boolean;
+  /** Set when the supervisor gave no valid decision; the worker is left as it is */
+  formatError?: boolean;
+  /** Version of the prompt template the supervisor was called with */
+  templateVersion?: string;
+}
+
+/**
+ * Token counts reported by a model API
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Prompt-cache writes, when reported */
+  cacheCreationTokens?: number;
+  /** Prompt-cache reads, when reported */
+  cacheReadTokens?: number;
+  /** Model that produced the tokens, for pricing */
+  model?: string;
+}
+
+/**
+ * Accumulated tokens and their price
+ */
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Worker and supervisor usage for one iteration (Stop event)
+ */
+export interface IterationUsage {
+  iteration: number;
+  worker: UsageTotals;
+  supervisor: UsageTotals;
+}
+
+/**
+ * Worker and supervisor usage for the whole run
+ */
+export interface RunUsage {
+  worker: UsageTotals;
+  supervisor: UsageTotals;
+  totalCostUsd: number;
+  /** Cost budget (--max-cost), null if unlimited */
+  maxCostUsd: number | null;
+  iterations: IterationUsage[];
+}
+
+/**
+ * Usage accounting saved with a run snapshot, so a resumed run keeps its
+ * spend and does not count transcripts it already read again
+ */
+export interface UsageState {
+  usage: RunUsage;
+  /** Last cumulative usage read from each transcript, per model */
+  transcripts: Record<string, TokenUsage[]>;
+}
+
+/**
+ * Token and cost accounting (e.g. UsageTracker)
+ */
+export interface UsageMeter {
+  /** Start a new run */
+  reset(): void;
+  /** State to save with the run */
+  saveState(): UsageState;
+  /** Continue a saved run (the budget stays the one configured now) */
+  restoreState(state: UsageState): void;
+  /** Account the worker's tokens up to this Stop from its transcript */
+  recordWorker(transcriptPath: string, iteration: number): Promise<void>;
+  /** Account the supervisor's tokens for a decision */
+  recordSupervisor(decision: SupervisorDecision, iteration: number): Promise<void>;
+  /** Why the run is over budget, or null */
+  budgetExceeded(): string | null;
+  getUsage(): RunUsage;
+}
+
+/**
+ * Result of one verification gate (a project check command)
+ */
+export interface GateResult {
+  command: string;
+  passed: boolean;
+  /** Exit code, or null if the command was killed (timeout) */
+  exitCode: number | null;
+  /** Combined stdout and stderr, truncated to the last few KB */
+  output: string;
+  durationMs: number;
+  timedOut: boolean;
+}
+
+/**
+ * Outcome of running the verification gates on a stop decision
+ */
+export interface VerificationResult {
+  passed: boolean;
+  /** Gates that ran, in order (stops at the first failure) */
+  gates: GateResult[];
+  /** The stop decision being verified */
+  decision: SupervisorDecision;
+  /** Command injected instead of stopping, if a gate failed */
+  overrideCommand?: string;
+}
+
+/**
+ * A snapshot of the worker's working tree (see src/checkpoints)
+ */
+export interface Checkpoint {
+  /** Commit id on the shadow ref */
+  id: string;
+  /** Stop event number it was taken after (0 = task start), null for safety snapshots */
+  iteration: number | null;
+  /** Why the checkpoint was taken */
+  label: string;
+  sessionId: string | null;
+  createdAt: string;
+}
+
+/**
+ * Metadata recorded with a new checkpoint
+ */
+export interface CheckpointInfo {
+  iteration: number | null;
+  label: string;
+  sessionId?: string;
+}
+
+/**
+ * Store of working tree checkpoints (e.g. GitCheckpoints)
+ */
+export interface Checkpointer {
+  /** Snapshot the working tree */
+  create(info: CheckpointInfo): Promise<Checkpoint>;
+  /** Restore a checkpoint; returns the safety snapshot taken just before */
+  restore(id: string): Promise<Checkpoint>;
+}
+
+/**
+ * When supervisor decisions wait for a human before being applied
+ */
+export interface ApprovalConfig {
+  /** Every decision needs approval */
+  always?: boolean;
+  /** Decisions with a lower confidence need approval (0..1) */
+  minConfidence?: number;
+  /** Apply a pending decision unchanged after this long (ms; default: never) */
+  autoApproveMs?: number;
+}
+
+/**
+ * A supervisor decision parked for human approval
+ */
+export interface PendingDecision {
+  id: string;
+  decision: SupervisorDecision;
+  /** Why approval is needed */
+  trigger: 'always' | 'low_confidence';
+  createdAt: Date;
+  /** When the decision is applied without a human (null = never) */
+  autoApproveAt: Date | null;
+}
+
+/**
+ * How a pending decision was resolved
+ */
+export type ApprovalOutcome = 'approved' | 'edited' | 'rejected' | 'auto_approved';
+
+/**
+ * Durable controller state, saved as a run progresses so it can be resumed
+ * after the CCO process restarts
+ */
+export interface ControllerSnapshot {
+  taskDescription: string;
+  /** Worker session to continue with `claude --resume` */
+  sessionId: string;
+  transcriptPath: string;
+  /** Supervisor calls for the current task (restores iteration counters) */
+  supervisorIterations: number;
+  stats: Omit<HooksStats, 'startTime' | 'endTime'> & { startTime: string };
+  currentTask: SourcedTask | null;
+  /** Checkpoints taken during the run, newest first */
+  checkpoints: Checkpoint[];
+  /** Spend so far (absent without a usage meter or in older snapshots) */
+  usage?: UsageState;
+  paused: boolean;
+  savedAt: string;
 }
@@ -9,33 +9,99 @@
 
 import { parseArgs } from "util";
 import { appendFileSync, writeFileSync } from "node:fs";
-import { PTYManager } from "./pty";
+import { dirname, resolve } from "node:path";
+import { PTYManager, DEFAULT_COLS, DEFAULT_ROWS } from "./pty";
 import { sessionManager } from "./session";
-import { createServer, setHooksController, setClaudeLauncher, setDecoupledMode, initializeBroadcaster } from "./server";
-import { HooksController } from "./hooks";
-import { eventBroadcaster } from "./websocket";
+import { createServer, setAuth, setHooksController, setClaudeLauncher, setDecoupledMode, setRunHistory, setWorkerPool, setTaskQueue, setCheckpoints, initializeBroadcaster } from "./server";
 import {
+  HooksController,
+  HookHealthMonitor,
+  createContextSnapshotter,
+  runHooksCommand,
+  checkHooksAtStartup,
+  isHooksCommand,
+  type HookTarget,
+  type SupervisorDecision,
+  type SupervisorFn,
+  type ApprovalConfig,
+} from "./hooks";
+import { RunHistoryStore, DEFAULT_DB_PATH } from "./history";
+import { loadConfig, settingsFromFlags, CONFIG_FILE_NAMES, type ResolvedConfig } from "./config";
+import { WorkerPool } from "./workers";
+import { TaskQueue, loadTasksFile } from "./queue";
+import { createVerifier } from "./verification";
+import { GitCheckpoints } from "./checkpoints";
+import { createToolPolicy, loadToolPolicy, type ToolPolicyConfig } from "./policy";
+import { UsageTracker, loadPriceTable, type PriceTable } from "./usage";
+import { eventBroadcaster, StatePublisher } from "./websocket";
+import { JsonlEventStream, HEADLESS_EXIT_CODES, classifyOutcome, type HeadlessOutcome } from "./headless";
+import { closeTranscriptWatchers } from "./transcript";
+import { Watchdog } from "./watchdog";
+import { generateToken, loadHookSecret, DEFAULT_HOOK_SECRET_PATH } from "./auth";
+import { log, logToStderr } from "./log";
+import {
+  createApiSupervisor,
   createClaudeSupervisor,
+  createRuleSupervisor,
+  loadRules,
   createMockSupervisor,
   createInteractiveSupervisor,
+  loadPromptTemplate,
   type InteractiveSupervisor,
+  type ApiSupervisorConfig,
+  type IterationInfo,
+  type SupervisorRule,
+  type PromptTemplate,
 } from "./supervisor";
 
+/** Sent to a resumed worker so it picks up where the interrupted run stopped */
+const DEFAULT_RESUME_PROMPT = "Continue the task where you left off.";
+
 // Parse CLI arguments
 const { values, positionals } = parseArgs({
   args: Bun.argv.slice(2),
   options: {
-    port: { type: "string", default: "13013" },
+    config: { type: "string" },
+    profile: { type: "string" },
+    port: { type: "string" },
     decouple: { type: "boolean", default: false },
+    headless: { type: "boolean", default: false },
+    "events-file": { type: "string" },
     help: { type: "boolean", short: "h" },
     verbose: { type: "boolean", short: "v", default: false },
     debug: { type: "boolean", short: "d", default: false },
     "debug-file": { type: "string" },
     "debug-file-only": { type: "boolean", default: false },
-    "mock-supervisor": { type: "boolean", default: false },
-    "interactive-supervisor": { type: "boolean", default: true },
-    "supervisor-cwd": { type: "string", default: "./master" },
-    "max-iterations": { type: "string", default: "50" },
+    "claude-bin": { type: "string" },
+    "mock-supervisor": { type: "boolean" },
+    "interactive-supervisor": { type: "boolean" },
+    "supervisor-cwd": { type: "string" },
+    "api-supervisor": { type: "boolean" },
+    "api-base-url": { type: "string" },
+    "api-model": { type: "string" },
+    "max-iterations": { type: "string" },
+    "decision-format": { type: "string" },
+    "max-corrections": { type: "string" },
+    rules: { type: "string" },
+    "prompt-template": { type: "string" },
+    instructions: { type: "string" },
+    "transcript-budget": { type: "string" },
+    policy: { type: "string" },
+    verify: { type: "string", multiple: true },
+    "verify-timeout": { type: "string" },
+    checkpoints: { type: "boolean" },
+    approve: { type: "boolean" },
+    "approve-below": { type: "string" },
+    "approve-timeout": { type: "string" },
+    "max-cost": { type: "string" },
+    "price-table": { type: "string" },
+    db: { type: "string" },
+    worker: { type: "string", multiple: true },
+    "tasks-file": { type: "string" },
+    "stop-hook-timeout": { type: "string" },
+    watchdog: { type: "string" },
+    "stall-timeout": { type: "string" },
+    "loop-threshold": { type: "string" },
   },
   strict: true,
   allowPositionals: true,
@@ -75,29 +141,117 @@ if (values.help) {
 Claude Code Orchestrator (CCO)
 
 Usage: cco [task description] [options]
+       cco hooks install|verify|uninstall [options]
+       cco resume <run-id> [prompt] [options]
 
 Options:
+  --config <path>       Config file (default: ${CONFIG_FILE_NAMES.join(" or ")} in the
+                        project, then the home directory)
+  --profile <name>      Use a named profile from the config file (e.g. cheap, careful)
   --port <number>       Server port (default: 13013)
   --decouple            Start server without launching Claude (launch from UI)
+  --headless            CI mode: no terminal output, events as JSONL on stdout, then a
+                        summary record. Exit codes: 0 completed, 1 crashed, 2 aborted,
+                        3 budget exhausted, 4 stopped
+  --events-file <path>  Append the JSONL event stream to <path> instead of stdout
   -v, --verbose         Show hook events as they arrive
   -d, --debug           Show ALL debug output (hooks, decisions)
   --debug-file <path>   Write debug output to file
   --debug-file-only     Only write to file, not stderr (use with --debug-file)
+  --claude-bin <path>         Claude Code binary (default: ~/.claude/local/claude)
   --mock-supervisor           Use mock supervisor (for testing)
   --interactive-supervisor    Use interactive PTY-based supervisor (default: true)
   --no-interactive-supervisor Use spawn-based supervisor (legacy)
   --supervisor-cwd <path>     Working directory for interactive supervisor (default: ./master)
+  --api-supervisor            Call a Messages API directly (key from ANTHROPIC_API_KEY)
+  --api-base-url <url>        Messages API base URL (default: ANTHROPIC_BASE_URL or Anthropic)
+  --api-model <name>          Model for the API supervisor
   --max-iterations <n>        Maximum supervisor iterations (default: 50)
+  --decision-format <fmt>     Supervisor reply format: markers or json (default: markers)
+  --max-corrections <n>       Re-prompts for an invalid JSON decision (default: 2)
+  --rules <path>              Deterministic rules (.json or .ts) checked before the supervisor
+  --prompt-template <path>    Supervisor prompt template with {{variables}}: task, iteration,
+                              maxIterations, transcript, toolSummary, gitDiff, testResults,
+                              checkpoints, watchdog, instructions, responseFormat (required), and
+                              {{#name}}...{{/name}} sections shown only when name is set
+  --instructions <path>       Project rules of engagement for the supervisor (coding
+                              standards, definition of done), filled into {{instructions}}
+  --transcript-budget <n>     Token budget for the worker transcript digest in {{transcript}}:
+                              task, plan, files, commands, open errors, recent messages
+                              (default: 6000)
+  --policy <path>             Tool policy (.json or .ts): Bash deny patterns, Write/Edit path
+                              allow-list, network host allow-list (a built-in deny-list of
+                              destructive commands always applies unless useDefaults is false)
+  --verify <command>          Check run before accepting completion, e.g. "bun test" (repeatable)
+  --verify-timeout <s>        Timeout per verification command (default: 300)
+  --checkpoints               Snapshot the worker tree to a shadow git ref after every Stop
+                              (enables the supervisor's rollback action)
+  --approve                   Hold every supervisor decision until approved in the UI
+  --approve-below <conf>      Hold decisions with confidence below <conf> (0..1) for approval
+  --approve-timeout <s>       Apply a held decision unchanged after <s> seconds (default: never)
+  --max-cost <usd>            Abort once worker + supervisor tokens cost this much
+  --price-table <path>        JSON of model prefix → { input, output, cacheWrite, cacheRead }
+                              in USD per million tokens, merged over the built-in prices
+  --db <path>                 Run history database (default: ${DEFAULT_DB_PATH})
+  --worker <id=cwd>           Add a pool worker running in <cwd> (repeatable)
+  --tasks-file <path>         Queue tasks from a JSON/YAML list, run back-to-back
+  --stop-hook-timeout <s>     Flag a missing Stop hook <s> seconds after the first tool (default: 300)
+  --watchdog <action>         When the worker stalls or loops without stopping: escalate (call
+                              the supervisor with the alert), interrupt (send Esc first), notify
+                              (UI only) or off (default: escalate)
+  --stall-timeout <s>         Stall after <s> seconds without hook events or output, or in one
+                              tool call (default: 300)
+  --loop-threshold <n>        Loop after <n> identical tool calls with identical results, or
+                              <n>-1 reverts of a file (default: 3)
   -h, --help                  Show this help message
 
+Hooks:
+  cco hooks install     Write hook entries for the worker cwd, --worker cwds and
+                        --supervisor-cwd (existing settings are backed up to .bak)
+  cco hooks verify      Check the hook entries match --port
+  cco hooks uninstall   Remove CCO hook entries, keeping all other settings
+
+Config file:
+  Every option below --decouple can also be set in the config file under its
+  camelCase name (e.g. maxIterations, verifyTimeout), alongside claudeBin,
+  supervisor (interactive, spawn, api or mock), supervisorTimeout, responseTimeout,
+  startupTimeout (seconds), readyIndicators and transcriptExchanges. "profiles"
+  holds named sets of settings applied over the top level; flags override both.
+  Each run records the settings it used (see /api/runs/<id>).
+
+Resume:
+  cco resume <run-id>   Continue a run after CCO was restarted: relaunches the worker
+                        with claude --resume <session>, restores the controller and
+                        supervisor iteration counts (run ids: /api/runs). The worker
+                        is sent [prompt] (default: "${DEFAULT_RESUME_PROMPT}")
+
 Monitor UI:
   http://localhost:<port>/monitor    Real-time monitoring dashboard
+  http://localhost:<port>/api/runs   Past runs (replay via /api/runs/<id>)
+  POST /api/control/<op>             Steer the worker: interrupt (Esc), cancel (Ctrl-C), keys,
+                                     paste, inject, interrupt-inject, resize
+  /ws                                Events, plus requests {"id": "1", "type": "<op>", ...}
+                                     for the ops above and pause, resume, stop, launch;
+                                     each is answered with {"type": "ack", "data": {"id": "1", ...}}.
+                                     Recent events are replayed on connect; ?since=<seq> replays
+                                     only those after the event numbered seq
+  /api/* and /ws need the token printed at startup with the monitor URL, as
+  "Authorization: Bearer <token>" or ?token=<token> (set CCO_API_TOKEN to fix it).
+  Hook events are authenticated by the secret in ${DEFAULT_HOOK_SECRET_PATH}, which
+  the hook commands written by "cco hooks install" read each time they run.
 
 Examples:
   cco                                                  # Start interactive mode
   cco "build a hello world app"
   cco "fix the bug in auth" --port 4000
   cco --decouple                                       # Server only, launch from UI
+  cco "add tests" --worker api=./api --worker web=./web  # Extra workers per package
+  cco --tasks-file tasks.yaml                          # Chain queued tasks
+  cco "refactor the parser" --profile careful          # Settings from a config profile
+  cco "fix lint errors" --headless --max-cost 2 > events.jsonl  # CI run
+  cco "fix the build" --verify "tsc --noEmit" --verify "bun test"  # Gate completion on checks
+  cco hooks install --port 4000                        # Configure hooks for port 4000
+  cco resume 3f2a... --api-supervisor                  # Continue an interrupted run
   cco "test task" --debug                              # Debug to stderr
   cco "test task" --debug --debug-file debug.log      # Debug to both
   cco "test task" --debug --debug-file debug.log --debug-file-only  # File only
@@ -105,25 +259,117 @@ Examples:
   process.exit(0);
 }
 
-const taskDescription = positionals.join(" ") || "";
-const port = parseInt(values.port ?? "13013", 10);
+// Resume subcommand: continue a run recorded in the history database
+const resumeRunId = positionals[0] === "resume" ? positionals[1] ?? "" : null;
+if (resumeRunId === "") {
+  console.error("[CCO] Usage: cco resume <run-id> [prompt]");
+  process.exit(1);
+}
+const resumePrompt = positionals.slice(2).join(" ") || DEFAULT_RESUME_PROMPT;
+
+// Settings: defaults < config file < --profile < CLI flags
+let resolvedConfig: ResolvedConfig;
+try {
+  resolvedConfig = await loadConfig({
+    path: values.config,
+    profile: values.profile,
+    overrides: settingsFromFlags(values),
+  });
+} catch (error) {
+  console.error(`[CCO] ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+const config = resolvedConfig.config;
+
+const taskDescription = resumeRunId ? "" : positionals.join(" ") || "";
+const port = config.port;
 const verbose = values.verbose ?? false;
 const decoupled = values.decouple ?? false;
 const isInteractive = taskDescription === "";
+const headless = values.headless ?? false;
+
+if (headless && (decoupled || (isInteractive && !values["tasks-file"] && !resumeRunId))) {
+  console.error("[CCO] --headless needs a task, --tasks-file or resume, and cannot be used with --decouple");
+  process.exit(1);
+}
+
+// JSONL event stream (--headless, --events-file); stdout is reserved for it,
+// so informational logging goes to stderr
+const eventStream = headless || values["events-file"] ? new JsonlEventStream(values["events-file"]) : null;
+eventStream?.attach(eventBroadcaster);
+logToStderr(headless);
+
+// Hook secret read by the installed hook commands, and this run's API token
+const hookSecretPath = resolve(DEFAULT_HOOK_SECRET_PATH);
+let hookSecret: string;
+try {
+  hookSecret = await loadHookSecret(hookSecretPath);
+} catch (error) {
+  console.error(`[CCO] ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+const apiToken = process.env.CCO_API_TOKEN || generateToken();
+const monitorUrl = `http://localhost:${port}/monitor?token=${encodeURIComponent(apiToken)}`;
+
+// Hooks subcommand: install/verify/uninstall hook configuration, then exit
+if (positionals[0] === "hooks" && isHooksCommand(positionals[1])) {
+  const includeSupervisor = config.supervisor === "interactive";
+  process.exit(await runHooksCommand(positionals[1], hookTargets(includeSupervisor), port, hookSecretPath));
+}
 
 // Log startup info in debug mode
 if (debugMode) {
   debugLog("=== CCO DEBUG MODE ENABLED ===");
   debugLog("Task", taskDescription || "(interactive mode)");
   debugLog("Config", { port, verbose, debugMode, debugFile, isInteractive, decoupled });
+  debugLog("Settings", { path: resolvedConfig.path, profile: resolvedConfig.profile, config });
 }
 
 // Create PTY manager
 const ptyManager = new PTYManager();
 
+// Persistent run history (every run, hook event, prompt, decision and inject)
+const runHistory = new RunHistoryStore(config.db);
+let currentRunId: string | null = null;
+let lastDecision: SupervisorDecision | null = null;
+
+// Durable task queue; completed tasks chain into the next one
+const taskQueue = new TaskQueue(config.db, (tasks) => {
+  eventBroadcaster.broadcastQueueUpdate(tasks);
+});
+
 // Text decoder for output
 const decoder = new TextDecoder();
 
+// Flags a missing Stop hook (tool events arriving but no Stop ever does)
+const stopHookTimeoutMs = config.stopHookTimeout * 1000;
+const hookHealth = new HookHealthMonitor({
+  stopTimeoutMs: stopHookTimeoutMs,
+  onMissingStop: (message) => {
+    debugLog("Hook health", message);
+    eventBroadcaster.broadcastError(new Error(message));
+  },
+});
+
+// Raises stalls and loops the controller would never see, since it only acts on Stop
+const watchdogAction = config.watchdog;
+const watchdog = watchdogAction === "off" ? null : new Watchdog({
+  stallTimeoutMs: config.stallTimeout * 1000,
+  loopThreshold: config.loopThreshold,
+  onAlert: (alert) => {
+    debugLog("Watchdog", { ...alert, action: watchdogAction });
+    if (currentRunId) runHistory.recordWatchdog(currentRunId, alert);
+    eventBroadcaster.broadcastWatchdog(alert, watchdogAction);
+    if (watchdogAction !== "notify") {
+      hooksController.escalate(alert, { interrupt: watchdogAction === "interrupt" })
+        .then((escalated) => {
+          if (!escalated) debugLog("Watchdog alert not escalated", { state: hooksController.getState() });
+        })
+        .catch((err) => eventBroadcaster.broadcastError(err));
+    }
+  },
+});
+
 // Create hooks controller with event handlers
 const hooksController = new HooksController({
   onStop: (event) => {
@@ -131,6 +377,9 @@ const hooksController = new HooksController({
       sessionId: event.session_id,
       transcriptPath: event.transcript_path,
     });
+    hookHealth.recordEvent(event);
+    watchdog?.recordEvent(event);
+    if (currentRunId) runHistory.recordHookEvent(currentRunId, event);
     eventBroadcaster.broadcastHookEvent("stop", event);
   },
   onTool: (event) => {
@@ -138,6 +387,9 @@ const hooksController = new HooksController({
       tool: event.tool_name,
       hasError: !!event.tool_response.error,
     });
+    hookHealth.recordEvent(event);
+    watchdog?.recordEvent(event);
+    if (currentRunId) runHistory.recordHookEvent(currentRunId, event);
     eventBroadcaster.broadcastHookEvent("tool", event);
   },
   onSessionStart: (event) => {
@@ -145,6 +397,7 @@ const hooksController = new HooksController({
       sessionId: event.session_id,
       source: event.source,
     });
+    if (currentRunId) runHistory.recordHookEvent(currentRunId, event);
     eventBroadcaster.broadcastHookEvent("session-start", event);
   },
   onSessionEnd: (event) => {
@@ -152,8 +405,43 @@ const hooksController = new HooksController({
       sessionId: event.session_id,
       reason: event.reason,
     });
+    watchdog?.recordEvent(event);
+    if (currentRunId) runHistory.recordHookEvent(currentRunId, event);
     eventBroadcaster.broadcastHookEvent("session-end", event);
   },
+  onPreToolUse: (event) => {
+    debugLog("Pre-tool", { tool: event.tool_name });
+    watchdog?.recordEvent(event);
+    if (currentRunId) runHistory.recordHookEvent(currentRunId, event);
+    eventBroadcaster.broadcastHookEvent("pre-tool", event);
+  },
+  onPolicyVerdict: (event, verdict) => {
+    debugLog("Policy verdict", { tool: event.tool_name, ...verdict });
+    if (currentRunId) runHistory.recordPolicyVerdict(currentRunId, event, verdict);
+    eventBroadcaster.broadcastPolicyVerdict(event.tool_name, event.tool_input, verdict);
+  },
+  onUserPromptSubmit: (event) => {
+    debugLog("Prompt submitted", { prompt: event.prompt.slice(0, 100) });
+    watchdog?.recordEvent(event);
+    if (currentRunId) runHistory.recordHookEvent(currentRunId, event);
+    eventBroadcaster.broadcastHookEvent("prompt-submit", event);
+  },
+  onNotification: (event, block) => {
+    debugLog("Notification", { message: event.message, blocked: block.reason });
+    watchdog?.recordEvent(event);
+    if (currentRunId) runHistory.recordHookEvent(currentRunId, event);
+    eventBroadcaster.broadcastHookEvent("notification", event, { block });
+  },
+  onSubagentStop: (event) => {
+    debugLog("Subagent stopped", { sessionId: event.session_id });
+    if (currentRunId) runHistory.recordHookEvent(currentRunId, event);
+    eventBroadcaster.broadcastHookEvent("subagent-stop", event);
+  },
+  onPreCompact: (event, snapshotPath) => {
+    debugLog("Pre-compact", { trigger: event.trigger, snapshotPath });
+    if (currentRunId) runHistory.recordHookEvent(currentRunId, event);
+    eventBroadcaster.broadcastHookEvent("pre-compact", event, { snapshotPath });
+  },
   onSupervisorCall: ({ toolHistory }) => {
     debugLog("Supervisor call", {
       toolCount: toolHistory.length,
@@ -163,14 +451,76 @@ const hooksController = new HooksController({
   },
   onSupervisorDecision: (decision) => {
     debugLog("Supervisor decision", decision);
+    lastDecision = decision;
+    if (currentRunId) runHistory.recordDecision(currentRunId, decision);
     eventBroadcaster.broadcastSupervisorDecision(decision);
   },
   onInject: (cmd) => {
     debugLog("Injecting command", cmd);
+    watchdog?.recordInput();
+    if (currentRunId) runHistory.recordInject(currentRunId, cmd);
     eventBroadcaster.broadcastCommandInject(cmd);
   },
+  onSteer: (op) => {
+    debugLog("Steering", op);
+    if (currentRunId) runHistory.recordSteer(currentRunId, op);
+    eventBroadcaster.broadcastSteer(op);
+  },
+  onDecisionPending: (pending) => {
+    debugLog("Decision awaiting approval", { id: pending.id, action: pending.decision.action, trigger: pending.trigger });
+    if (currentRunId) runHistory.recordApproval(currentRunId, "pending", pending);
+    eventBroadcaster.broadcastApproval("pending", pending);
+  },
+  onDecisionResolved: (pending, outcome, applied) => {
+    debugLog("Decision resolved", { id: pending.id, outcome, action: applied?.action ?? null });
+    if (currentRunId) runHistory.recordApproval(currentRunId, outcome, pending, applied);
+    eventBroadcaster.broadcastApproval(outcome, pending, applied);
+  },
+  onVerification: (result) => {
+    debugLog("Verification gates", {
+      passed: result.passed,
+      gates: result.gates.map((g) => ({ command: g.command, passed: g.passed, exitCode: g.exitCode })),
+    });
+    if (currentRunId) runHistory.recordVerification(currentRunId, result);
+    eventBroadcaster.broadcastVerificationResult(result);
+  },
+  onCheckpoint: (checkpoint) => {
+    debugLog("Checkpoint created", checkpoint);
+    if (currentRunId) runHistory.recordCheckpoint(currentRunId, "created", checkpoint);
+    eventBroadcaster.broadcastCheckpoint("created", checkpoint);
+  },
+  onRollback: (checkpoint, safety) => {
+    debugLog("Checkpoint restored", { checkpoint, safety: safety.id });
+    if (currentRunId) runHistory.recordCheckpoint(currentRunId, "restored", checkpoint, safety);
+    eventBroadcaster.broadcastCheckpoint("restored", checkpoint, safety);
+  },
+  onTaskStart: (task) => {
+    debugLog("Queued task started", task);
+    if (currentRunId) runHistory.recordTaskEvent(currentRunId, task, "started");
+  },
+  onTaskComplete: (task, outcome, reason) => {
+    debugLog("Queued task finished", { ...task, outcome, reason });
+    if (currentRunId) runHistory.recordTaskEvent(currentRunId, task, outcome, reason);
+  },
+  onStateChange: () => {
+    statePublisher.notify();
+  },
   onControllerStop: (reason) => {
     debugLog("Controller stopped", reason);
+    hookHealth.dispose();
+    watchdog?.dispose();
+    const status = reason.startsWith("Aborted:")
+      ? "aborted"
+      : lastDecision?.action === "stop" ? "completed" : "stopped";
+    const runId = currentRunId;
+    if (currentRunId) {
+      runHistory.finishRun(currentRunId, status, reason);
+      currentRunId = null;
+    }
+    // Headless runs end with the controller
+    if (headless) {
+      setTimeout(() => shutdown(reason, classifyOutcome(status, reason, lastDecision), runId));
+    }
   },
   onError: (err) => {
     debugLog("Controller error", { message: err.message, stack: err.stack });
@@ -178,42 +528,272 @@ const hooksController = new HooksController({
   },
 });
 
+// Save the worker's transcript before every compaction
+hooksController.setContextSnapshotter(createContextSnapshotter());
+
+// Completed tasks pull the next one from the queue
+hooksController.setTaskSource(taskQueue);
+
+// Tool policy (--policy) checked on every PreToolUse event
+let toolPolicy: ToolPolicyConfig = {};
+if (config.policy) {
+  try {
+    toolPolicy = await loadToolPolicy(config.policy);
+    debugLog("Loaded tool policy", { path: config.policy });
+  } catch (error) {
+    console.error(`[CCO] ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+hooksController.setToolPolicy(createToolPolicy(toolPolicy, { cwd: process.cwd() }));
+
+// Verification gates (--verify) run before a stop decision is accepted
+const verifyCommands = config.verify;
+const verifyTimeoutMs = config.verifyTimeout * 1000;
+if (verifyCommands.length > 0) {
+  hooksController.setVerifier(createVerifier({ commands: verifyCommands, timeout: verifyTimeoutMs }));
+}
+
+// Human approval of supervisor decisions (--approve, --approve-below)
+let approval: ApprovalConfig | null = null;
+if (config.approve || config.approveBelow !== null) {
+  approval = {
+    always: config.approve,
+    minConfidence: config.approveBelow ?? undefined,
+    autoApproveMs: config.approveTimeout !== null ? config.approveTimeout * 1000 : undefined,
+  };
+  hooksController.setApproval(approval);
+}
+
+// Git checkpoints (--checkpoints) after every Stop, for rollback.
+// CCO's state (the live database and the hook secret) is never snapshotted or restored.
+const useCheckpoints = config.checkpoints;
+const checkpointExclude = [...new Set([dirname(resolve(config.db)), dirname(hookSecretPath)])];
+let checkpointStore: GitCheckpoints | null = null;
+if (useCheckpoints) {
+  if (await GitCheckpoints.isRepository(process.cwd())) {
+    checkpointStore = new GitCheckpoints(process.cwd(), { exclude: checkpointExclude });
+    hooksController.setCheckpointer(checkpointStore);
+  } else {
+    console.error("[CCO] --checkpoints needs a git repository, checkpoints disabled");
+  }
+}
+
+// Token and cost accounting for the worker and supervisor (--max-cost budget)
+const maxCostUsd = config.maxCost;
+let prices: PriceTable | undefined;
+if (config.priceTable) {
+  try {
+    prices = await loadPriceTable(config.priceTable);
+  } catch (error) {
+    console.error(`[CCO] ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+hooksController.setUsageMeter(new UsageTracker({
+  prices,
+  maxCostUsd,
+  supervisorModel: config.apiModel ?? undefined,
+  // interactiveSupervisorInstance is assigned below when that supervisor is used
+  supervisorTranscript: () => interactiveSupervisorInstance?.getTranscriptPath() ?? null,
+}));
+
+// Save controller state after every change so `cco resume` can pick the run up
+hooksController.setStatePersister((snapshot) => {
+  if (currentRunId) runHistory.saveRunState(currentRunId, snapshot);
+});
+
 // Set up inject callback to write to PTY
 hooksController.setOnInject((cmd) => {
   if (ptyManager.isRunning) {
-    ptyManager.write(cmd + "\r");
-    // Second Enter after short delay to confirm autocomplete selection and execute
-    setTimeout(() => {
-      if (ptyManager.isRunning) {
-        ptyManager.write("\r");
-      }
-    }, 150);
+    ptyManager.submit(cmd);
   }
 });
 
+// Interrupts (--watchdog interrupt) and steering from the API write to the PTY directly
+hooksController.setTerminal(ptyManager);
+
 // Set up supervisor (interactive PTY, spawn-based, or mock)
-const useMockSupervisor = values["mock-supervisor"] ?? false;
-const useInteractiveSupervisor = values["interactive-supervisor"] ?? true;
-const supervisorCwd = values["supervisor-cwd"] ?? "./master";
-const maxIterations = parseInt(values["max-iterations"] ?? "50", 10);
+const useMockSupervisor = config.supervisor === "mock";
+const useApiSupervisor = config.supervisor === "api";
+const useInteractiveSupervisor = config.supervisor === "interactive";
+const supervisorCwd = config.supervisorCwd;
+const maxIterations = config.maxIterations;
+const decisionFormat = config.decisionFormat;
+const maxCorrections = config.maxCorrections;
+const supervisorTimeoutMs = config.supervisorTimeout !== null ? config.supervisorTimeout * 1000 : undefined;
+const claudeBin = config.claudeBin;
+
+// Deterministic rules evaluated before the supervisor (--rules)
+let supervisorRules: SupervisorRule[] = [];
+if (config.rules) {
+  try {
+    supervisorRules = await loadRules(config.rules);
+    debugLog("Loaded supervisor rules", supervisorRules.map((r) => r.name));
+  } catch (error) {
+    console.error(`[CCO] ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+// Supervisor prompt template and project instructions (--prompt-template, --instructions)
+let promptTemplate: PromptTemplate;
+try {
+  promptTemplate = await loadPromptTemplate({ path: config.promptTemplate, instructionsPath: config.instructions });
+  debugLog("Supervisor prompt template", { version: promptTemplate.version, variables: promptTemplate.variables });
+} catch (error) {
+  console.error(`[CCO] ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+
+// Put the rule engine in front of a supervisor; it escalates only when no rule matches
+function withRules(supervisor: SupervisorFn, cwd: string): SupervisorFn {
+  if (supervisorRules.length === 0) return supervisor;
+  return createRuleSupervisor(supervisorRules, supervisor, {
+    cwd,
+    maxIterations,
+    onMatch: (rule, decision) => debugLog("Rule matched", { rule: rule.name, action: decision.action }),
+  });
+}
+
+// Messages API supervisor settings (--api-supervisor)
+const apiSupervisorConfig: ApiSupervisorConfig = {
+  baseUrl: config.apiBaseUrl ?? undefined,
+  model: config.apiModel ?? undefined,
+  timeout: supervisorTimeoutMs,
+  template: promptTemplate,
+  transcriptBudget: config.transcriptBudget,
+  transcriptExchanges: config.transcriptExchanges,
+  onUsage: (usage, totals) => {
+    debugLog("Supervisor token usage", { usage, totals });
+  },
+};
+
+// Pool of additional named workers (each with its own PTY, controller and cwd).
+// Pool workers use spawn-based supervisors: the interactive supervisor PTY
+// is a single instance reserved for the primary worker.
+const workerPool = new WorkerPool({
+  command: [claudeBin, "--dangerously-skip-permissions"],
+  env: buildChildEnv(),
+  broadcaster: eventBroadcaster,
+  primaryCwd: process.cwd(),
+  history: runHistory,
+  stopHookTimeoutMs,
+  ...(watchdogAction !== "off" && {
+    watchdog: { action: watchdogAction, stallTimeoutMs: config.stallTimeout * 1000, loopThreshold: config.loopThreshold },
+  }),
+  verifyCommands,
+  verifyTimeoutMs,
+  checkpoints: useCheckpoints,
+  checkpointExclude,
+  toolPolicy,
+  approval,
+  prices,
+  maxCostUsd,
+  config: resolvedConfig,
+  createSupervisor: (workerId, cwd) => {
+    if (useMockSupervisor) {
+      return withRules(createMockSupervisor({ delay: 100 }), cwd);
+    }
+    const supervisorConfig = {
+      maxIterations,
+      decisionFormat,
+      maxCorrections,
+      template: promptTemplate,
+      workerCwd: cwd,
+      transcriptBudget: config.transcriptBudget,
+      transcriptExchanges: config.transcriptExchanges,
+      onIterationUpdate: (info: IterationInfo) => {
+        eventBroadcaster.forWorker(workerId).broadcastIterationUpdate(info);
+      },
+    };
+    return withRules(
+      useApiSupervisor
+        ? createApiSupervisor({ ...apiSupervisorConfig, ...supervisorConfig })
+        : createClaudeSupervisor({ ...supervisorConfig, claudeBin, timeout: supervisorTimeoutMs }),
+      cwd
+    );
+  },
+});
+
+for (const spec of values.worker ?? []) {
+  workerPool.add(parseWorkerSpec(spec));
+}
+
+// Parse a --worker <id>=<cwd> value, exiting on malformed input
+function parseWorkerSpec(spec: string): { id: string; cwd: string } {
+  const separator = spec.indexOf("=");
+  if (separator <= 0) {
+    console.error(`[CCO] Invalid --worker "${spec}" (expected <id>=<cwd>)`);
+    process.exit(1);
+  }
+  return { id: spec.slice(0, separator), cwd: spec.slice(separator + 1) };
+}
+
+// Directories whose Claude Code hooks must POST to this server
+function hookTargets(includeSupervisor: boolean): HookTarget[] {
+  const targets: HookTarget[] = [{ role: "worker", cwd: process.cwd() }];
+  for (const spec of values.worker ?? []) {
+    const { id, cwd } = parseWorkerSpec(spec);
+    targets.push({ role: "worker", cwd, workerId: id });
+  }
+  if (includeSupervisor) {
+    targets.push({ role: "supervisor", cwd: config.supervisorCwd });
+  }
+  return targets;
+}
+
+// Record every supervisor prompt against the active run
+function recordSupervisorPrompt(prompt: string, templateVersion: string): void {
+  if (currentRunId) runHistory.recordSupervisorPrompt(currentRunId, prompt, templateVersion);
+}
 
 // Track interactive supervisor instance for lifecycle management
 let interactiveSupervisorInstance: InteractiveSupervisor | null = null;
 
 if (useMockSupervisor) {
-  hooksController.setSupervisor(createMockSupervisor({ delay: 100 }));
+  hooksController.setSupervisor(withRules(createMockSupervisor({ delay: 100 }), process.cwd()));
   debugLog("Using mock supervisor");
+} else if (useApiSupervisor) {
+  // Direct Messages API calls (no supervisor PTY)
+  hooksController.setSupervisor(withRules(createApiSupervisor({
+    ...apiSupervisorConfig,
+    maxIterations,
+    decisionFormat,
+    maxCorrections,
+    onPrompt: recordSupervisorPrompt,
+    onIterationUpdate: (info) => {
+      debugLog("Iteration update", info);
+      eventBroadcaster.broadcastIterationUpdate(info);
+    },
+    onOutput: (text) => {
+      // Plain text, not terminal output: the supervisor screen needs CRLF line ends
+      eventBroadcaster.broadcastSupervisorPTYOutput(text.replace(/\r?\n/g, "\r\n"));
+    },
+  }), process.cwd()));
+  debugLog("Using Messages API supervisor", { baseUrl: apiSupervisorConfig.baseUrl, model: apiSupervisorConfig.model });
 } else if (useInteractiveSupervisor) {
   // Interactive PTY-based supervisor (recommended)
   const { supervisor, instance } = createInteractiveSupervisor({
     cwd: supervisorCwd,
+    claudeBin,
+    template: promptTemplate,
+    transcriptBudget: config.transcriptBudget,
+    transcriptExchanges: config.transcriptExchanges,
+    responseTimeout: config.responseTimeout * 1000,
+    startupTimeout: config.startupTimeout * 1000,
+    readyIndicators: config.readyIndicators,
     maxIterations,
+    decisionFormat,
+    maxCorrections,
+    onPrompt: recordSupervisorPrompt,
     onIterationUpdate: (info) => {
       debugLog("Iteration update", info);
       eventBroadcaster.broadcastIterationUpdate(info);
     },
     onStateChange: (state) => {
       debugLog("Supervisor state change", state);
+      if (state === "starting") eventBroadcaster.resetTerminal("supervisor", DEFAULT_COLS, DEFAULT_ROWS);
       eventBroadcaster.broadcastSupervisorState(state);
     },
     onOutput: (data) => {
@@ -225,25 +805,42 @@ if (useMockSupervisor) {
     },
   });
   interactiveSupervisorInstance = instance;
-  hooksController.setSupervisor(supervisor);
-  debugLog("Using interactive PTY supervisor", { cwd: supervisorCwd, maxIterations });
+  hooksController.setSupervisor(withRules(supervisor, process.cwd()));
+  debugLog("Using interactive PTY supervisor", { cwd: supervisorCwd, maxIterations, decisionFormat });
 } else {
   // Legacy spawn-based supervisor
-  hooksController.setSupervisor(createClaudeSupervisor({
+  hooksController.setSupervisor(withRules(createClaudeSupervisor({
+    claudeBin,
+    timeout: supervisorTimeoutMs,
+    template: promptTemplate,
+    transcriptBudget: config.transcriptBudget,
+    transcriptExchanges: config.transcriptExchanges,
     maxIterations,
+    decisionFormat,
+    maxCorrections,
+    onPrompt: recordSupervisorPrompt,
     onIterationUpdate: (info) => {
       debugLog("Iteration update", info);
       eventBroadcaster.broadcastIterationUpdate(info);
     },
-  }));
-  debugLog("Using spawn-based Claude supervisor", { maxIterations });
+  }), process.cwd()));
+  debugLog("Using spawn-based Claude supervisor", { maxIterations, decisionFormat });
 }
 
-// Register controller with server routes
+// Register credentials, controller, run history and worker pool with server routes
+setAuth({ apiToken, hookSecret });
 setHooksController(hooksController);
+setRunHistory(runHistory);
+setWorkerPool(workerPool);
+setTaskQueue(taskQueue);
+setCheckpoints(checkpointStore);
+
+// Graceful shutdown handler (headless runs exit with the outcome's code)
+let shuttingDown = false;
+async function shutdown(reason: string, outcome: HeadlessOutcome = "stopped", runId = currentRunId) {
+  if (shuttingDown) return;
+  shuttingDown = true;
 
-// Graceful shutdown handler
-async function shutdown(signal: string) {
   // Restore stdin to normal mode
   if (process.stdin.isTTY) {
     process.stdin.setRawMode(false);
@@ -251,7 +848,7 @@ async function shutdown(signal: string) {
 
   try {
     if (hooksController.isRunning()) {
-      hooksController.stop(`Received ${signal}`);
+      hooksController.stop(reason);
     }
 
     // Stop interactive supervisor if running
@@ -260,18 +857,46 @@ async function shutdown(signal: string) {
       await interactiveSupervisorInstance.stop();
     }
 
+    hookHealth.dispose();
+    watchdog?.dispose();
+    closeTranscriptWatchers();
+    await workerPool.stopAll(reason);
     await ptyManager.cleanup();
     sessionManager.setIdle();
+    statePublisher.dispose();
   } catch {
     // Ignore cleanup errors during shutdown
   }
 
-  process.exit(0);
+  if (eventStream) {
+    if (headless) {
+      eventStream.writeSummary({
+        outcome,
+        exitCode: HEADLESS_EXIT_CODES[outcome],
+        reason,
+        runId,
+        task: runId ? runHistory.getRun(runId)?.task ?? null : null,
+        stats: hooksController.getStats(),
+        usage: hooksController.getUsage(),
+        durationMs: Math.round(performance.now()),
+      });
+    }
+    eventStream.close();
+  }
+
+  process.exit(headless ? HEADLESS_EXIT_CODES[outcome] : 0);
+}
+
+// Exit after a startup failure (headless runs still end with a summary record)
+async function exitWithError(reason: string): Promise<never> {
+  console.error(`[CCO] ${reason}`);
+  if (headless) await shutdown(reason, "crashed");
+  process.exit(1);
 }
 
 // Register signal handlers
-process.on("SIGINT", () => shutdown("SIGINT"));
-process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("Received SIGINT"));
+process.on("SIGTERM", () => shutdown("Received SIGTERM"));
 
 // Get actual terminal dimensions
 function getTerminalSize() {
@@ -294,23 +919,22 @@ function buildChildEnv(): Record<string, string | undefined> {
   return childEnv;
 }
 
-// State broadcast interval reference
-let stateBroadcastInterval: ReturnType<typeof setInterval> | null = null;
-
-function startStateBroadcast() {
-  if (stateBroadcastInterval) return;
-  stateBroadcastInterval = setInterval(() => {
-    const sessionInfo = sessionManager.getInfo();
-    eventBroadcaster.broadcastSessionState({
-      sessionState: sessionInfo.state,
-      metadata: sessionInfo.metadata,
-      controllerState: hooksController.getState(),
-      stats: hooksController.getStats(),
-      decoupled,
-      claudeRunning: ptyManager.isRunning,
-    });
-  }, 1000);
-}
+// Session state is pushed to the UI when it changes
+const statePublisher = new StatePublisher(eventBroadcaster, () => {
+  const sessionInfo = sessionManager.getInfo();
+  return {
+    sessionState: sessionInfo.state,
+    metadata: sessionInfo.metadata,
+    controllerState: hooksController.getState(),
+    stats: hooksController.getStats(),
+    blocked: hooksController.getBlock(),
+    pendingDecision: hooksController.getPendingDecision(),
+    usage: hooksController.getUsage(),
+    decoupled,
+    claudeRunning: ptyManager.isRunning,
+    paused: hooksController.isPaused(),
+  };
+});
 
 /**
  * Spawn Claude Code as a PTY subprocess.
@@ -321,24 +945,90 @@ async function spawnClaude(task?: string): Promise<void> {
     throw new Error("Claude is already running");
   }
 
-  const { cols, rows } = getTerminalSize();
-  const claudeBin = `${process.env.HOME}/.claude/local/claude`;
+  // Without an explicit task, start with the next queued one
+  const queuedTask = task ? null : taskQueue.next();
+  if (queuedTask) {
+    task = queuedTask.description;
+  }
+
   const command = [claudeBin, "--dangerously-skip-permissions"];
   if (task) {
     command.push(task);
   }
 
-  sessionManager.startTask(task || "interactive session");
-  startStateBroadcast();
+  await startWorkerPty(command, task || "interactive session");
+
+  currentRunId = runHistory.startRun(task || "interactive session");
+  runHistory.recordConfig(currentRunId, resolvedConfig);
+  lastDecision = null;
+  hookHealth.reset();
+  watchdog?.reset();
+  watchdog?.start();
+  hooksController.start(task || "interactive session", queuedTask ?? undefined);
+  if (queuedTask) runHistory.recordTaskEvent(currentRunId, queuedTask, "started");
+  debugLog("Hooks controller started", { runId: currentRunId });
+}
+
+/**
+ * Continue a run after a CCO restart: relaunch the worker on its previous
+ * session and restore the controller from the last saved snapshot.
+ * @throws Error if the run is unknown, finished or has no worker session
+ */
+async function resumeClaude(runId: string, prompt: string): Promise<void> {
+  const run = runHistory.getRun(runId);
+  const snapshot = runHistory.getRunState(runId);
+  if (!run || !snapshot) {
+    throw new Error(`No saved state for run ${runId}`);
+  }
+  if (run.status === "completed" || run.status === "aborted") {
+    throw new Error(`Run ${runId} already ${run.status}: ${run.stopReason ?? ""}`);
+  }
+  if (!snapshot.sessionId) {
+    throw new Error(`Run ${runId} has no worker session to resume`);
+  }
+
+  await startWorkerPty(
+    [claudeBin, "--dangerously-skip-permissions", "--resume", snapshot.sessionId, prompt],
+    snapshot.taskDescription
+  );
+
+  currentRunId = runId;
+  runHistory.reopenRun(runId, snapshot.sessionId);
+  runHistory.recordConfig(runId, resolvedConfig);
+  lastDecision = null;
+  hookHealth.reset();
+  watchdog?.reset();
+  watchdog?.start();
+  hooksController.resumeRun(snapshot);
+  debugLog("Hooks controller resumed", {
+    runId,
+    sessionId: snapshot.sessionId,
+    supervisorIterations: snapshot.supervisorIterations,
+  });
+}
+
+/**
+ * Launch the worker PTY and wire its output, exit, stdin and resize handling
+ */
+async function startWorkerPty(command: string[], task: string): Promise<void> {
+  const { cols, rows } = getTerminalSize();
+
+  sessionManager.startTask(task);
+  statePublisher.notify();
+  eventBroadcaster.resetTerminal("worker", cols, rows);
 
   await ptyManager.spawn({
     command,
     cwd: process.cwd(),
     env: buildChildEnv(),
     onData: (data) => {
-      process.stdout.write(decoder.decode(data));
+      watchdog?.recordOutput();
+      if (!headless) process.stdout.write(decoder.decode(data));
       eventBroadcaster.broadcastPTYOutput(data);
     },
+    onResize: (cols, rows) => {
+      eventBroadcaster.resizeTerminal("worker", cols, rows);
+    },
     onExit: (exitCode, signalCode) => {
       if (!decoupled && process.stdin.isTTY) {
         process.stdin.setRawMode(false);
@@ -346,13 +1036,16 @@ async function spawnClaude(task?: string): Promise<void> {
 
       if (hooksController.isRunning()) {
         hooksController.stop(`PTY exited with code ${exitCode}`);
+      } else if (headless) {
+        setTimeout(() => shutdown(`PTY exited with code ${exitCode}`, "crashed"));
       }
 
       sessionManager.setIdle();
+      statePublisher.notify();
       debugLog("Claude Code exited", { exitCode, signalCode });
 
-      if (!decoupled) {
-        if (stateBroadcastInterval) clearInterval(stateBroadcastInterval);
+      // Headless runs exit through shutdown() with the run's outcome
+      if (!decoupled && !headless) {
         process.exit(exitCode ?? 0);
       }
     },
@@ -360,11 +1053,8 @@ async function spawnClaude(task?: string): Promise<void> {
     rows,
   });
 
-  hooksController.start(task || "interactive session");
-  debugLog("Hooks controller started");
-
-  // Forward stdin to PTY only in non-decoupled mode
-  if (!decoupled && process.stdin.isTTY) {
+  // Forward stdin to PTY only in attached (non-decoupled, non-headless) mode
+  if (!decoupled && !headless && process.stdin.isTTY) {
     process.stdin.setRawMode(true);
     process.stdin.resume();
     process.stdin.on("data", (data: Buffer) => {
@@ -385,31 +1075,59 @@ async function spawnClaude(task?: string): Promise<void> {
 async function main() {
   // Start HTTP server
   const server = Bun.serve(createServer(port));
-  debugLog("Server running", { port, monitor: `http://localhost:${port}/monitor` });
+  debugLog("Server running", { port });
+  log(`[CCO] Monitor: ${monitorUrl}`);
 
   // Initialize broadcaster with server reference
   initializeBroadcaster(server);
 
+  // Queue tasks from --tasks-file
+  if (values["tasks-file"]) {
+    try {
+      const tasks = await loadTasksFile(values["tasks-file"]);
+      taskQueue.addMany(tasks);
+      debugLog("Queued tasks from file", { file: values["tasks-file"], count: tasks.length });
+    } catch (error) {
+      await exitWithError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  // Warn about missing or stale hook configuration before anything runs
+  await checkHooksAtStartup(hookTargets(useInteractiveSupervisor && !useMockSupervisor), port, hookSecretPath);
+
   // Register decouple mode and launcher with routes
   setDecoupledMode(decoupled);
   setClaudeLauncher(spawnClaude);
 
+  // Resume mode: continue the interrupted run (pool workers are not relaunched)
+  if (resumeRunId) {
+    try {
+      await resumeClaude(resumeRunId, resumePrompt);
+    } catch (error) {
+      await exitWithError(error instanceof Error ? error.message : String(error));
+    }
+    return;
+  }
+
   if (decoupled) {
     // Decouple mode: server only, Claude launched from UI
-    console.log(`[CCO] Decoupled mode - server running at http://localhost:${port}/monitor`);
-    console.log(`[CCO] Launch Claude from the monitoring UI`);
-    startStateBroadcast();
+    log(`[CCO] Decoupled mode - server running on port ${port}`);
+    log(`[CCO] Launch Claude from the monitoring UI`);
+    statePublisher.publish();
     return; // Keep process alive via Bun.serve()
   }
 
-  // Normal mode: spawn Claude immediately
+  // Normal mode: spawn Claude immediately (pool workers get the same task)
   try {
     await spawnClaude(taskDescription || undefined);
+    for (const worker of workerPool.list()) {
+      await worker.launch(taskDescription || undefined);
+      debugLog("Worker launched", { id: worker.id, cwd: worker.cwd });
+    }
   } catch (error) {
-    if (stateBroadcastInterval) clearInterval(stateBroadcastInterval);
     debugLog("Failed to spawn Claude Code", { error: String(error) });
     sessionManager.setError(String(error));
-    process.exit(1);
+    await exitWithError(`Failed to spawn Claude Code: ${error}`);
   }
 }
 
@@ -428,7 +1146,6 @@ function formatRuntime(ms: number): string {
 }
 
 // Run
-main().catch((error) => {
-  console.error("[CCO] Fatal error:", error);
-  process.exit(1);
+main().catch(async (error) => {
+  await exitWithError(`Fatal error: ${error instanceof Error ? error.stack ?? error.message : error}`);
 });
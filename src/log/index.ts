@@ -0,0 +1,7 @@
+/**
+ * Log Module
+ *
+ * Informational logging that headless runs redirect to stderr, and error logging.
+ */
+
+export { log, logError, logToStderr } from "./logger";
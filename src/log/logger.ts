@@ -0,0 +1,35 @@
+/**
+ * Informational Logging
+ *
+ * Progress messages from the supervisor, policy, verification and server go
+ * through log() rather than console.log, so a run whose stdout carries data
+ * (the --headless JSONL stream) can send them to stderr instead. Errors go
+ * through logError(), which always writes to stderr.
+ */
+
+let toStderr = false;
+
+/**
+ * Send informational messages to stderr (stdout is reserved for data)
+ */
+export function logToStderr(enabled: boolean): void {
+  toStderr = enabled;
+}
+
+/**
+ * Log an informational message (same arguments as console.log)
+ */
+export function log(...args: unknown[]): void {
+  if (toStderr) {
+    console.error(...args);
+  } else {
+    console.log(...args);
+  }
+}
+
+/**
+ * Log an error (same arguments as console.error)
+ */
+export function logError(...args: unknown[]): void {
+  console.error(...args);
+}
@@ -0,0 +1,24 @@
+/**
+ * Policy Module
+ *
+ * Tool policies enforced on the worker through the PreToolUse hook.
+ */
+
+export {
+  createToolPolicy,
+  buildRules,
+  denyBash,
+  restrictNetwork,
+  restrictWrites,
+  loadToolPolicy,
+  DEFAULT_DENY_BASH,
+} from "./policy";
+export type {
+  ToolCall,
+  RuleVerdict,
+  ToolPolicyRule,
+  BashPattern,
+  ToolPolicyConfig,
+  ToolPolicyOptions,
+} from "./policy";
+export type { PolicyVerdict } from "../hooks/types";
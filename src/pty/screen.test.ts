@@ -0,0 +1,30 @@
+import { test, expect } from "bun:test";
+import { Terminal } from "@xterm/headless";
+import { TerminalScreen } from "./screen";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+/** Visible lines of a fresh terminal after writing a snapshot into it */
+async function render(snapshot: { cols: number; rows: number; data: string }): Promise<string[]> {
+  const terminal = new Terminal({ cols: snapshot.cols, rows: snapshot.rows, allowProposedApi: true });
+  await new Promise<void>((resolve) => terminal.write(snapshot.data, resolve));
+  const buffer = terminal.buffer.active;
+  return Array.from({ length: snapshot.rows }, (_, i) => buffer.getLine(buffer.viewportY + i)?.translateToString(true) ?? "");
+}
+
+test("a snapshot reproduces the screen, including output not parsed yet", async () => {
+  const screen = new TerminalScreen(20, 4);
+  screen.write(encode("\x1b[1mBuilding\x1b[0m...\r\n"));
+  screen.write(encode("step 1\rSTEP"));
+
+  // Taken before xterm has parsed anything
+  expect(await render(screen.snapshot())).toEqual(["Building...", "STEP 1", "", ""]);
+
+  await Bun.sleep(10);
+  screen.resize(30, 3);
+  const snapshot = screen.snapshot();
+  expect(snapshot).toMatchObject({ cols: 30, rows: 3 });
+  expect(snapshot.data).toContain("\x1b[1m");
+  expect(await render(snapshot)).toEqual(["Building...", "STEP 1", ""]);
+  screen.dispose();
+});
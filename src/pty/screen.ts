@@ -0,0 +1,70 @@
+/**
+ * Terminal Screen
+ *
+ * Headless terminal emulator fed with a PTY's raw output, so the monitor UI
+ * can be sent the current screen (with colours and cursor position) when it
+ * connects instead of replaying everything since spawn.
+ */
+
+import { Terminal } from "@xterm/headless";
+import { SerializeAddon } from "@xterm/addon-serialize";
+
+/** Lines kept above the visible screen */
+const SCROLLBACK = 1000;
+
+/**
+ * Screen contents as terminal input: writing data into a reset terminal of
+ * the same size reproduces the screen
+ */
+export interface TerminalSnapshot {
+  cols: number;
+  rows: number;
+  data: string;
+}
+
+export class TerminalScreen {
+  private terminal: Terminal;
+  private serializer = new SerializeAddon();
+  /** Output written but not parsed yet (xterm parses asynchronously) */
+  private pending: Uint8Array[] = [];
+
+  constructor(cols: number, rows: number) {
+    this.terminal = new Terminal({ cols, rows, scrollback: SCROLLBACK, allowProposedApi: true });
+    this.terminal.loadAddon(this.serializer);
+  }
+
+  /**
+   * Feed raw PTY output
+   */
+  write(data: Uint8Array): void {
+    this.pending.push(data);
+    this.terminal.write(data, () => {
+      this.pending.shift();
+    });
+  }
+
+  /**
+   * Follow a PTY resize
+   */
+  resize(cols: number, rows: number): void {
+    this.terminal.resize(cols, rows);
+  }
+
+  /**
+   * Current screen. Output that has not been parsed yet is appended as is,
+   * so the snapshot is up to date with everything written.
+   */
+  snapshot(): TerminalSnapshot {
+    const decoder = new TextDecoder();
+    const unparsed = this.pending.map((chunk) => decoder.decode(chunk, { stream: true })).join("") + decoder.decode();
+    return {
+      cols: this.terminal.cols,
+      rows: this.terminal.rows,
+      data: this.serializer.serialize({ scrollback: SCROLLBACK }) + unparsed,
+    };
+  }
+
+  dispose(): void {
+    this.terminal.dispose();
+  }
+}
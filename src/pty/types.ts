@@ -15,9 +15,11 @@ export interface PTYManagerOptions {
   onData: (data: Uint8Array) => void;
   /** Callback invoked when the process exits */
   onExit: (exitCode: number | null, signalCode: string | null) => void;
-  /** Terminal width in columns (default: 80) */
+  /** Callback invoked after the terminal is resized */
+  onResize?: (cols: number, rows: number) => void;
+  /** Terminal width in columns (default: DEFAULT_COLS) */
   cols?: number;
-  /** Terminal height in rows (default: 24) */
+  /** Terminal height in rows (default: DEFAULT_ROWS) */
   rows?: number;
   /** Environment variables to pass to the subprocess */
   env?: Record<string, string | undefined>;
@@ -46,6 +48,26 @@ export interface PTYManager {
    */
   write(data: string): void;
 
+  /**
+   * Type a command into the PTY and submit it (Enter, then a confirming Enter)
+   * @param command - Command text to submit
+   * @param confirmDelay - Delay before the confirming Enter in ms
+   */
+  submit(command: string, confirmDelay?: number): void;
+
+  /** Interrupt the current turn (Esc) */
+  interrupt(): void;
+
+  /** Send Ctrl-C */
+  cancel(): void;
+
+  /**
+   * Insert text with bracketed paste
+   * @param text - Text to paste (may span lines)
+   * @param submit - Press Enter after pasting
+   */
+  paste(text: string, submit?: boolean): void;
+
   /**
    * Clean up PTY resources and terminate the subprocess
    * Sends SIGTERM and waits for graceful exit
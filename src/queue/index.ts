@@ -0,0 +1,9 @@
+/**
+ * Queue Module
+ *
+ * Durable task queue for running several tasks back-to-back.
+ */
+
+export { TaskQueue } from "./queue";
+export { loadTasksFile, parseTaskList } from "./load";
+export type { QueuedTaskStatus, QueuedTask, QueuedTaskUpdate } from "./types";
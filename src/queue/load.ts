@@ -0,0 +1,50 @@
+/**
+ * Tasks File Loader
+ *
+ * Reads a list of task descriptions from a JSON or YAML file (--tasks-file).
+ *
+ * Accepted shapes:
+ * - ["task one", "task two"]
+ * - [{ task: "task one" }, { description: "task two" }]
+ * - { tasks: [...] } with either of the above
+ */
+
+/**
+ * Load task descriptions from a .json, .yaml or .yml file
+ * @throws Error if the file is missing, unparseable, or has an invalid shape
+ */
+export async function loadTasksFile(path: string): Promise<string[]> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    throw new Error(`Tasks file not found: ${path}`);
+  }
+
+  const text = await file.text();
+  const parsed: unknown = /\.ya?ml$/i.test(path) ? Bun.YAML.parse(text) : JSON.parse(text);
+  return parseTaskList(parsed, path);
+}
+
+/**
+ * Normalize a parsed tasks document into task descriptions
+ */
+export function parseTaskList(parsed: unknown, source = "tasks file"): string[] {
+  const list = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { tasks?: unknown } | null)?.tasks;
+
+  if (!Array.isArray(list)) {
+    throw new Error(`${source}: expected a list of tasks or { tasks: [...] }`);
+  }
+
+  return list.map((item, index) => {
+    const description = typeof item === "string"
+      ? item
+      : (item as { task?: unknown; description?: unknown } | null)?.task ??
+        (item as { description?: unknown } | null)?.description;
+
+    if (typeof description !== "string" || description.trim() === "") {
+      throw new Error(`${source}: task ${index + 1} has no description`);
+    }
+    return description.trim();
+  });
+}
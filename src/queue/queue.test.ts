@@ -0,0 +1,103 @@
+import { test, expect, beforeEach } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HooksController, type ControllerSnapshot } from "../hooks";
+import { TaskQueue } from "./queue";
+import { parseTaskList } from "./load";
+
+let queue: TaskQueue;
+
+beforeEach(() => {
+  queue = new TaskQueue(":memory:");
+});
+
+test("next claims pending tasks in order", () => {
+  queue.addMany(["first", "second"]);
+
+  const first = queue.next();
+  expect(first?.description).toBe("first");
+  expect(queue.get(first!.id)?.status).toBe("running");
+  expect(queue.pendingCount()).toBe(1);
+
+  queue.complete(first!.id, "completed", "done");
+  expect(queue.get(first!.id)?.status).toBe("completed");
+  expect(queue.get(first!.id)?.outcome).toBe("done");
+
+  expect(queue.next()?.description).toBe("second");
+  expect(queue.next()).toBeNull();
+});
+
+test("a resumed run keeps its queued task claimed and completes it once", async () => {
+  const dir = mkdtempSync(join(tmpdir(), "cco-queue-"));
+  try {
+    const path = join(dir, "cco.db");
+    const before = new TaskQueue(path);
+    before.add("only task");
+    const task = before.next()!;
+
+    let saved: ControllerSnapshot | null = null;
+    const first = new HooksController();
+    first.setTaskSource(before);
+    first.setStatePersister((snapshot) => (saved = snapshot));
+    first.setSupervisor(async () => ({ action: "inject", command: "next", reason: "more", confidence: 1 }));
+    first.setOnInject(() => {});
+    first.start(task.description, task);
+    await first.onStop({ session_id: "s1", transcript_path: "/tmp/s1.jsonl", hook_event_name: "Stop" });
+    before.close();
+
+    // A new process: the queue puts the interrupted task back to pending
+    const after = new TaskQueue(path);
+    expect(after.get(task.id)?.status).toBe("pending");
+    const second = new HooksController();
+    second.setTaskSource(after);
+    second.setSupervisor(async () => ({ action: "stop", reason: "done", confidence: 1 }));
+    second.resumeRun(JSON.parse(JSON.stringify(saved)));
+    expect(after.get(task.id)?.status).toBe("running");
+
+    await second.onStop({ session_id: "s1", transcript_path: "/tmp/s1.jsonl", hook_event_name: "Stop" });
+
+    expect(after.get(task.id)).toMatchObject({ status: "completed", outcome: "done" });
+    expect(after.next()).toBeNull();
+    after.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("update changes order of pending tasks", () => {
+  const [a, b] = queue.addMany(["a", "b"]);
+
+  queue.update(b!.id, { position: 0 });
+
+  expect(queue.next()?.id).toBe(b!.id);
+  expect(() => queue.update(b!.id, { description: "edited" })).toThrow(/Cannot edit/);
+  expect(queue.update(a!.id, { description: "edited" })?.description).toBe("edited");
+});
+
+test("running tasks cannot be removed", () => {
+  const [task] = queue.addMany(["only"]);
+  queue.next();
+
+  expect(queue.remove(task!.id)).toBe(false);
+  queue.complete(task!.id, "aborted", "stuck");
+  expect(queue.remove(task!.id)).toBe(true);
+  expect(queue.list()).toEqual([]);
+});
+
+test("onChange receives the task list after each change", () => {
+  const snapshots: number[] = [];
+  const observed = new TaskQueue(":memory:", (tasks) => snapshots.push(tasks.length));
+
+  observed.add("one");
+  observed.add("two");
+
+  expect(snapshots).toEqual([1, 2]);
+});
+
+test("parseTaskList accepts strings, objects and { tasks }", () => {
+  expect(parseTaskList(["a", { task: "b" }, { description: "c" }])).toEqual(["a", "b", "c"]);
+  expect(parseTaskList({ tasks: ["  x  "] })).toEqual(["x"]);
+  expect(() => parseTaskList({ nope: true })).toThrow(/expected a list/);
+  expect(() => parseTaskList([{ title: "x" }])).toThrow(/task 1 has no description/);
+});
@@ -0,0 +1,229 @@
+/**
+ * Task Queue
+ *
+ * Durable (bun:sqlite) queue of task descriptions run back-to-back by the
+ * hooks controller. Implements TaskSource: the controller claims the next
+ * pending task when the previous one completes and records each outcome.
+ */
+
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { SourcedTask, TaskOutcome, TaskSource } from "../hooks/types";
+import type { QueuedTask, QueuedTaskStatus, QueuedTaskUpdate } from "./types";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS queue_tasks (
+    id TEXT PRIMARY KEY,
+    description TEXT NOT NULL,
+    status TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    started_at TEXT,
+    ended_at TEXT,
+    outcome TEXT
+  );
+`;
+
+interface QueuedTaskRow {
+  id: string;
+  description: string;
+  status: QueuedTaskStatus;
+  position: number;
+  created_at: string;
+  started_at: string | null;
+  ended_at: string | null;
+  outcome: string | null;
+}
+
+export class TaskQueue implements TaskSource {
+  private db: Database;
+  private onChange: ((tasks: QueuedTask[]) => void) | null;
+
+  /**
+   * Open (or create) the queue database
+   * @param path - Database file path, or ":memory:" for an in-memory queue
+   * @param onChange - Called with the full task list after every change
+   */
+  constructor(path: string, onChange?: (tasks: QueuedTask[]) => void) {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    this.db.exec(SCHEMA);
+    this.onChange = onChange ?? null;
+
+    // Tasks left running by a previous process never finished; run them again
+    this.db.exec(`UPDATE queue_tasks SET status = 'pending', started_at = NULL WHERE status = 'running'`);
+  }
+
+  /**
+   * Append a task to the end of the queue
+   */
+  add(description: string): QueuedTask {
+    const id = crypto.randomUUID();
+    const { maxPosition } = this.db
+      .query<{ maxPosition: number | null }, []>(`SELECT MAX(position) AS maxPosition FROM queue_tasks`)
+      .get()!;
+
+    this.db
+      .query(
+        `INSERT INTO queue_tasks (id, description, status, position, created_at)
+         VALUES ($id, $description, 'pending', $position, $createdAt)`
+      )
+      .run({
+        $id: id,
+        $description: description,
+        $position: (maxPosition ?? 0) + 1,
+        $createdAt: new Date().toISOString(),
+      });
+
+    this.notify();
+    return this.get(id)!;
+  }
+
+  /**
+   * Append several tasks, in order
+   */
+  addMany(descriptions: string[]): QueuedTask[] {
+    return this.db.transaction(() => descriptions.map((d) => this.add(d)))();
+  }
+
+  /**
+   * All tasks: finished and running first (by start time), then pending by position
+   */
+  list(): QueuedTask[] {
+    return this.db
+      .query<QueuedTaskRow, []>(
+        `SELECT * FROM queue_tasks
+         ORDER BY CASE status WHEN 'pending' THEN 1 ELSE 0 END, started_at, position`
+      )
+      .all()
+      .map(toQueuedTask);
+  }
+
+  /**
+   * Get a task by id
+   */
+  get(id: string): QueuedTask | null {
+    const row = this.db
+      .query<QueuedTaskRow, { $id: string }>(`SELECT * FROM queue_tasks WHERE id = $id`)
+      .get({ $id: id });
+    return row ? toQueuedTask(row) : null;
+  }
+
+  /**
+   * Edit a pending task's description or position
+   * @throws Error if the task is not pending
+   */
+  update(id: string, changes: QueuedTaskUpdate): QueuedTask | null {
+    const task = this.get(id);
+    if (!task) return null;
+    if (task.status !== "pending") {
+      throw new Error(`Cannot edit task in status: ${task.status}`);
+    }
+
+    this.db
+      .query(`UPDATE queue_tasks SET description = $description, position = $position WHERE id = $id`)
+      .run({
+        $id: id,
+        $description: changes.description ?? task.description,
+        $position: changes.position ?? task.position,
+      });
+
+    this.notify();
+    return this.get(id);
+  }
+
+  /**
+   * Remove a task (running tasks cannot be removed)
+   */
+  remove(id: string): boolean {
+    const { changes } = this.db
+      .query(`DELETE FROM queue_tasks WHERE id = $id AND status != 'running'`)
+      .run({ $id: id });
+    if (changes > 0) this.notify();
+    return changes > 0;
+  }
+
+  /**
+   * Number of tasks waiting to run
+   */
+  pendingCount(): number {
+    return this.db
+      .query<{ count: number }, []>(`SELECT COUNT(*) AS count FROM queue_tasks WHERE status = 'pending'`)
+      .get()!.count;
+  }
+
+  /**
+   * Claim the next pending task (TaskSource)
+   */
+  next(): SourcedTask | null {
+    const row = this.db
+      .query<QueuedTaskRow, []>(
+        `SELECT * FROM queue_tasks WHERE status = 'pending' ORDER BY position LIMIT 1`
+      )
+      .get();
+    if (!row) return null;
+
+    this.db
+      .query(`UPDATE queue_tasks SET status = 'running', started_at = $startedAt WHERE id = $id`)
+      .run({ $id: row.id, $startedAt: new Date().toISOString() });
+
+    this.notify();
+    return { id: row.id, description: row.description };
+  }
+
+  /**
+   * Mark a task running again (TaskSource). The constructor puts tasks left
+   * running back to pending; the one a resumed run continues is claimed here
+   * so it is neither handed out again nor left unrecorded.
+   */
+  reclaim(id: string): void {
+    const { changes } = this.db
+      .query(
+        `UPDATE queue_tasks SET status = 'running', started_at = $startedAt
+         WHERE id = $id AND status = 'pending'`
+      )
+      .run({ $id: id, $startedAt: new Date().toISOString() });
+    if (changes > 0) this.notify();
+  }
+
+  /**
+   * Record the outcome of a claimed task (TaskSource)
+   */
+  complete(id: string, outcome: TaskOutcome, reason: string): void {
+    this.db
+      .query(
+        `UPDATE queue_tasks SET status = $status, ended_at = $endedAt, outcome = $outcome
+         WHERE id = $id AND status = 'running'`
+      )
+      .run({ $id: id, $status: outcome, $endedAt: new Date().toISOString(), $outcome: reason });
+    this.notify();
+  }
+
+  /**
+   * Close the underlying database
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  private notify(): void {
+    this.onChange?.(this.list());
+  }
+}
+
+function toQueuedTask(row: QueuedTaskRow): QueuedTask {
+  return {
+    id: row.id,
+    description: row.description,
+    status: row.status,
+    position: row.position,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    outcome: row.outcome,
+  };
+}
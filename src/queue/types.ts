@@ -0,0 +1,36 @@
+/**
+ * Task Queue Types
+ *
+ * Type definitions for chaining multiple tasks back-to-back.
+ */
+
+import type { TaskOutcome } from "../hooks/types";
+
+/**
+ * Queued task status: pending, running, or a final TaskOutcome
+ */
+export type QueuedTaskStatus = 'pending' | 'running' | TaskOutcome;
+
+/**
+ * A task in the queue
+ */
+export interface QueuedTask {
+  id: string;
+  description: string;
+  status: QueuedTaskStatus;
+  /** Sort key among pending tasks (lower runs first) */
+  position: number;
+  createdAt: string;
+  startedAt: string | null;
+  endedAt: string | null;
+  /** Reason recorded with the outcome */
+  outcome: string | null;
+}
+
+/**
+ * Editable task fields
+ */
+export interface QueuedTaskUpdate {
+  description?: string;
+  position?: number;
+}
@@ -5,13 +5,14 @@
  */
 
 import type { Server, ServerWebSocket } from "bun";
-import { app, setHooksController, setClaudeLauncher, setDecoupledMode } from "./routes";
-import { eventBroadcaster } from "../websocket";
+import { app, isAuthorized, handleRequest, setAuth, setHooksController, setClaudeLauncher, setDecoupledMode, setRunHistory, setWorkerPool, setTaskQueue, setCheckpoints } from "./routes";
+import { eventBroadcaster, parseRequest, type WSMessage, type AckData } from "../websocket";
 import monitorUI from "../ui/index.html";
 
 // WebSocket data type
 interface WSData {
   connectedAt: Date;
+  since: number | null;
 }
 
 /**
@@ -28,10 +29,14 @@ export function createServer(port: number = 3000) {
     fetch: (req: Request, server: Server<WSData>) => {
       const url = new URL(req.url);
 
-      // WebSocket upgrade for /ws
+      // WebSocket upgrade for /ws (API token in ?token=, last seq seen in ?since=)
       if (url.pathname === "/ws") {
+        if (!isAuthorized(req)) {
+          return new Response("Unauthorized", { status: 401 });
+        }
+        const since = Number(url.searchParams.get("since") ?? NaN);
         const upgraded = server.upgrade(req, {
-          data: { connectedAt: new Date() },
+          data: { connectedAt: new Date(), since: Number.isInteger(since) && since >= 0 ? since : null },
         });
         if (upgraded) {
           return undefined;
@@ -47,7 +52,9 @@ export function createServer(port: number = 3000) {
         eventBroadcaster.onOpen(ws);
       },
       message(ws: ServerWebSocket<WSData>, message: string | Buffer) {
-        eventBroadcaster.onMessage(ws, message);
+        if (!handleSocketRequest(ws, message)) {
+          eventBroadcaster.onMessage(ws, message);
+        }
       },
       close(ws: ServerWebSocket<WSData>) {
         eventBroadcaster.onClose(ws);
@@ -56,6 +63,33 @@ export function createServer(port: number = 3000) {
   };
 }
 
+/**
+ * Answer a protocol request with an ack to the sender (see websocket/protocol.ts)
+ * @returns false if the message is not a request
+ */
+function handleSocketRequest(ws: ServerWebSocket<WSData>, message: string | Buffer): boolean {
+  const request = parseRequest(message.toString());
+  if (!request) {
+    return false;
+  }
+
+  const send = (reply: WSMessage) => ws.send(JSON.stringify(reply));
+  const ack = (data: AckData) => send({ type: "ack", timestamp: new Date().toISOString(), data });
+
+  if ("error" in request) {
+    if (request.id === null) {
+      // Nothing to acknowledge without an id
+      send({ type: "error", timestamp: new Date().toISOString(), data: { message: request.error } });
+    } else {
+      ack({ id: request.id, ok: false, error: request.error, status: 400 });
+    }
+    return true;
+  }
+
+  handleRequest(request).then(ack);
+  return true;
+}
+
 /**
  * Initialize the broadcaster with the server reference
  */
@@ -63,4 +97,4 @@ export function initializeBroadcaster(server: Server<WSData>): void {
   eventBroadcaster.setServer(server);
 }
 
-export { app, setHooksController, setClaudeLauncher, setDecoupledMode };
+export { app, setAuth, setHooksController, setClaudeLauncher, setDecoupledMode, setRunHistory, setWorkerPool, setTaskQueue, setCheckpoints };
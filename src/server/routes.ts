@@ -9,20 +9,61 @@ import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { sessionManager } from "../session";
 import type { HooksController } from "../hooks";
+import type { RunHistoryStore } from "../history";
+import type { WorkerPool } from "../workers";
+import type { TaskQueue } from "../queue";
+import type { GitCheckpoints } from "../checkpoints";
+import { eventBroadcaster, type WSRequest, type WSRequestType, type AckData } from "../websocket";
+import { watchTranscript } from "../transcript";
+import { authorizeRequest, type ServerAuth } from "../auth";
+import { keySequence } from "../pty";
+import { SteeringError } from "../hooks";
 import type {
   StopEvent,
   ToolEvent,
   SessionStartEvent,
   SessionEndEvent,
+  PreToolUseEvent,
+  UserPromptSubmitEvent,
+  NotificationEvent,
+  SubagentStopEvent,
+  PreCompactEvent,
+  SupervisorAction,
+  SteeringOp,
 } from "../hooks";
+import { log, logError } from "../log";
+
+/** Status and JSON body of a control operation, shared by REST routes and WebSocket acks */
+type ControlResult = { status: 200 | 400 | 404 | 409 | 500 | 503; body: Record<string, unknown> };
+
+/** Actions a human may switch a pending decision to */
+const EDITABLE_ACTIONS: SupervisorAction[] = ["inject", "stop", "abort", "rollback", "continue"];
 
 // Hooks controller reference - set via setHooksController
 let hooksController: HooksController | null = null;
 
+// Run history store reference - set via setRunHistory
+let runHistory: RunHistoryStore | null = null;
+
+// Worker pool reference - set via setWorkerPool
+let workerPool: WorkerPool | null = null;
+
+// Task queue reference - set via setTaskQueue
+let taskQueue: TaskQueue | null = null;
+
+// Checkpoint store for the primary worker - set via setCheckpoints
+let checkpointStore: GitCheckpoints | null = null;
+
+// API token and hook secret - set via setAuth
+let serverAuth: ServerAuth | null = null;
+
 // Decouple mode state
 let isDecoupled = false;
 let claudeLauncher: ((task?: string) => Promise<void>) | null = null;
 
+// Transcripts opened through /api/transcript (by session id), streamed as transcript_entry messages
+const streamedTranscripts = new Set<string>();
+
 // Supervisor stop hook callback
 let supervisorStopCallback: ((event: { session_id: string; transcript_path: string }) => void) | null = null;
 
@@ -42,6 +83,65 @@ export function setHooksController(controller: HooksController): void {
   hooksController = controller;
 }
 
+/**
+ * Set the run history store for the /api/runs endpoints
+ */
+export function setRunHistory(store: RunHistoryStore): void {
+  runHistory = store;
+}
+
+/**
+ * Set the worker pool for multi-worker routing and /api/workers endpoints
+ */
+export function setWorkerPool(pool: WorkerPool): void {
+  workerPool = pool;
+}
+
+/**
+ * Set the task queue for the /api/queue endpoints
+ */
+export function setTaskQueue(queue: TaskQueue): void {
+  taskQueue = queue;
+}
+
+/**
+ * Set the primary worker's checkpoint store for the /api/checkpoints endpoints
+ */
+export function setCheckpoints(store: GitCheckpoints | null): void {
+  checkpointStore = store;
+}
+
+/**
+ * Resolve the controller a hook event belongs to.
+ * A worker id in the URL wins, then a pool lookup by session id, transcript
+ * path or cwd, then the primary controller.
+ */
+function resolveHookController(
+  workerId: string | undefined,
+  event: { session_id?: string; transcript_path?: string; cwd?: string }
+): HooksController | null {
+  if (workerId) {
+    return workerPool?.get(workerId)?.controller ?? null;
+  }
+  return workerPool?.resolve(event)?.controller ?? hooksController;
+}
+
+/**
+ * Set the credentials required by every /api/* route (and /ws)
+ */
+export function setAuth(auth: ServerAuth): void {
+  serverAuth = auth;
+}
+
+/**
+ * Whether a request carries valid credentials: the hook secret for hook
+ * events, the API token for everything else. Nothing is allowed until
+ * setAuth has been called.
+ */
+export function isAuthorized(req: Request): boolean {
+  return serverAuth !== null && authorizeRequest(req, serverAuth);
+}
+
 /**
  * Set the Claude launcher function (used in decouple mode)
  */
@@ -58,8 +158,24 @@ export function setDecoupledMode(decoupled: boolean): void {
 
 const app = new Hono();
 
-// Enable CORS for web UI (Phase 4)
-app.use("/api/*", cors());
+// CORS: only the monitor UI's own origin (the server's host)
+app.use("/api/*", cors({
+  origin: (origin, c) => {
+    try {
+      return new URL(origin).host === c.req.header("host") ? origin : null;
+    } catch {
+      return null;
+    }
+  },
+}));
+
+// Token auth for the control API, hook secret for hook events
+app.use("/api/*", async (c, next) => {
+  if (!isAuthorized(c.req.raw)) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+  await next();
+});
 
 // Health check
 app.get("/api/health", (c) => {
@@ -86,6 +202,7 @@ app.get("/api/session", (c) => {
       ? {
           state: hooksController?.getState(),
           stats: controllerStats,
+          usage: hooksController?.getUsage() ?? null,
         }
       : null,
   });
@@ -98,47 +215,46 @@ app.get("/api/session", (c) => {
  * Body: { task?: string }
  */
 app.post("/api/claude/launch", async (c) => {
+  const body = (await c.req.json().catch(() => ({}))) as Record<string, unknown>;
+  const result = await launchWorker(undefined, body?.task);
+  return c.json(result.body, result.status);
+});
+
+/**
+ * Launch Claude in the primary worker (decouple mode only) or a pool worker
+ * (shared by the REST routes and the WebSocket "launch" request)
+ */
+async function launchWorker(workerId: string | undefined, taskValue: unknown): Promise<ControlResult> {
+  const task = typeof taskValue === "string" && taskValue ? taskValue : undefined;
+  if (workerId) {
+    const worker = workerPool?.get(workerId);
+    if (!worker) {
+      return { status: 404, body: { error: "Worker not found" } };
+    }
+    try {
+      await worker.launch(task);
+      return { status: 200, body: { ok: true, worker: worker.getInfo() } };
+    } catch (error) {
+      return { status: 409, body: { error: String(error) } };
+    }
+  }
+
   if (!isDecoupled) {
-    return c.json({ error: "Not in decoupled mode" }, 400);
+    return { status: 400, body: { error: "Not in decoupled mode" } };
   }
   if (!claudeLauncher) {
-    return c.json({ error: "Launcher not initialized" }, 503);
+    return { status: 503, body: { error: "Launcher not initialized" } };
   }
-
   try {
-    const body = await c.req.json().catch(() => ({}));
-    const task = (body as { task?: string }).task || undefined;
     await claudeLauncher(task);
-    return c.json({ ok: true, task: task || "interactive session" });
+    return { status: 200, body: { ok: true, task: task || "interactive session" } };
   } catch (error) {
-    return c.json({ error: String(error) }, 409);
+    return { status: 409, body: { error: String(error) } };
   }
-});
+}
 
 // ============ Control Endpoints ============
 
-/**
- * POST /api/control/inject - Manually inject a command
- * Body: { command: string }
- */
-app.post("/api/control/inject", async (c) => {
-  if (!hooksController) {
-    return c.json({ error: "Hooks controller not initialized" }, 503);
-  }
-
-  try {
-    const body = await c.req.json().catch(() => ({}));
-    const command = (body as { command?: string }).command;
-    if (!command) {
-      return c.json({ error: "Command required" }, 400);
-    }
-    hooksController.injectCommand(command);
-    return c.json({ ok: true, command });
-  } catch (error) {
-    return c.json({ error: String(error) }, 500);
-  }
-});
-
 /**
  * POST /api/control/pause - Pause the monitoring loop
  */
@@ -182,91 +298,612 @@ app.get("/api/control/status", (c) => {
   return c.json({
     state: hooksController.getState(),
     paused: hooksController.isPaused(),
+    blocked: hooksController.getBlock(),
+    pendingDecision: hooksController.getPendingDecision(),
     stats: hooksController.getStats(),
+    usage: hooksController.getUsage(),
     toolHistory: hooksController.getToolHistory(),
   });
 });
 
-// ============ Hook Endpoints ============
+// ============ Steering ============
+// Also served under /api/workers/:workerId/control/* for pool workers
+
+/** Steering operations, as named in the URL and in WebSocket commands */
+export const STEERING_OPS = ["interrupt", "cancel", "keys", "paste", "inject", "interrupt-inject", "resize"] as const;
 
 /**
- * POST /api/hooks/stop - Claude finished responding
- * Primary completion signal from the Stop hook.
+ * Build a steering operation from a request body
+ * @returns The operation, or the reason the body is invalid
  */
-app.post("/api/hooks/stop", async (c) => {
-  if (!hooksController) {
-    return c.json({ error: "Hooks controller not initialized" }, 503);
+function parseSteeringOp(name: string, body: Record<string, unknown>): SteeringOp | string {
+  switch (name) {
+    case "interrupt":
+      return { op: "interrupt" };
+    case "cancel":
+      return { op: "cancel" };
+    case "keys":
+      if (typeof body.data === "string" && body.data) {
+        return { op: "keys", data: body.data };
+      }
+      if (Array.isArray(body.keys) && body.keys.length > 0 && body.keys.every((k) => typeof k === "string")) {
+        try {
+          return { op: "keys", data: keySequence(body.keys) };
+        } catch (error) {
+          return (error as Error).message;
+        }
+      }
+      return "keys (a list of key names) or data (raw input) required";
+    case "paste":
+      if (typeof body.text !== "string" || !body.text) {
+        return "Text required";
+      }
+      return { op: "paste", text: body.text, submit: body.submit === true };
+    case "inject":
+    case "interrupt-inject":
+      if (typeof body.command !== "string" || !body.command.trim()) {
+        return "Command required";
+      }
+      return { op: name === "inject" ? "inject" : "interrupt_inject", command: body.command };
+    case "resize":
+      if (!isTerminalSize(body.cols) || !isTerminalSize(body.rows)) {
+        return "cols and rows (positive integers) required";
+      }
+      return { op: "resize", cols: body.cols, rows: body.rows };
+  }
+  return `Unknown steering operation "${name}" (available: ${STEERING_OPS.join(", ")})`;
+}
+
+function isTerminalSize(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0 && (value as number) <= 1000;
+}
+
+/**
+ * Apply a steering operation to the primary or a pool worker
+ * (shared by the REST routes and WebSocket requests)
+ */
+export async function steerWorker(
+  workerId: string | undefined,
+  name: string,
+  body: Record<string, unknown>
+): Promise<ControlResult> {
+  const controller = resolveController(workerId);
+  if (!controller) {
+    return workerId
+      ? { status: 404, body: { error: `Unknown worker: ${workerId}` } }
+      : { status: 503, body: { error: "Hooks controller not initialized" } };
   }
 
+  const op = parseSteeringOp(name, body);
+  if (typeof op === "string") {
+    return { status: 400, body: { error: op } };
+  }
   try {
-    const event = (await c.req.json()) as StopEvent;
-    const response = await hooksController.onStop(event);
-    return c.json(response);
+    await controller.steer(op);
+    return { status: 200, body: { ok: true, ...op } };
   } catch (error) {
-    return c.json({ continue: true, error: String(error) });
+    if (error instanceof SteeringError) {
+      return { status: 409, body: { error: error.message, reason: error.reason } };
+    }
+    throw error;
   }
+}
+
+/**
+ * POST /api/control/:op - Steer the worker
+ *   interrupt          Esc: stop the current turn
+ *   cancel             Ctrl-C
+ *   keys               { keys: ["up", "enter"] } named keys, or { data } raw input
+ *   paste              { text, submit? } bracketed paste (multi-line)
+ *   inject             { command } type and submit a command
+ *   interrupt-inject   { command } Esc, then submit the command at the prompt
+ *   resize             { cols, rows } resize the worker's terminal
+ * Text is refused (409) while the controller is writing to the worker itself.
+ */
+app.on("POST", ["/api/control/:op{interrupt|cancel|keys|paste|inject|interrupt-inject|resize}", "/api/workers/:workerId/control/:op{interrupt|cancel|keys|paste|inject|interrupt-inject|resize}"], async (c) => {
+  const body = (await c.req.json().catch(() => ({}))) as Record<string, unknown>;
+  const result = await steerWorker(c.req.param("workerId"), c.req.param("op"), body ?? {});
+  return c.json(result.body, result.status);
 });
 
+// ============ WebSocket Requests ============
+
 /**
- * POST /api/hooks/tool - Tool completed
- * Tracks tool usage and detects errors.
+ * Answer a request sent over /ws (see websocket/protocol.ts). Each request
+ * type behaves like its REST route, and the ack carries that route's status
+ * and body.
  */
-app.post("/api/hooks/tool", async (c) => {
-  if (!hooksController) {
+export async function handleRequest(request: WSRequest): Promise<AckData> {
+  const { id, type, workerId, ...body } = request;
+  const result = await dispatchRequest(type, workerId, body)
+    .catch((error): ControlResult => ({ status: 500, body: { error: String(error) } }));
+  return result.status === 200
+    ? { id, ok: true, result: result.body }
+    : { id, ok: false, error: String(result.body.error), status: result.status };
+}
+
+async function dispatchRequest(
+  type: WSRequestType,
+  workerId: string | undefined,
+  body: Record<string, unknown>
+): Promise<ControlResult> {
+  switch (type) {
+    case "pause":
+    case "resume": {
+      const controller = resolveController(workerId);
+      if (!controller) {
+        return workerId
+          ? { status: 404, body: { error: `Unknown worker: ${workerId}` } }
+          : { status: 503, body: { error: "Hooks controller not initialized" } };
+      }
+      if (type === "pause") controller.pause(); else controller.resume();
+      return { status: 200, body: { ok: true, paused: controller.isPaused() } };
+    }
+    case "stop":
+      if (workerId) {
+        const worker = workerPool?.get(workerId);
+        if (!worker) {
+          return { status: 404, body: { error: "Worker not found" } };
+        }
+        await worker.stop("Manual stop from UI");
+      } else {
+        if (!hooksController) {
+          return { status: 503, body: { error: "Hooks controller not initialized" } };
+        }
+        hooksController.stop("Manual stop from UI");
+      }
+      return { status: 200, body: { ok: true } };
+    case "launch":
+      return launchWorker(workerId, body.task);
+    default:
+      return steerWorker(workerId, type, body);
+  }
+}
+
+// ============ Task Queue ============
+
+/**
+ * GET /api/queue - List queued tasks (finished, running, then pending)
+ */
+app.get("/api/queue", (c) => {
+  if (!taskQueue) {
+    return c.json({ error: "Task queue not initialized" }, 503);
+  }
+  return c.json({
+    tasks: taskQueue.list(),
+    pending: taskQueue.pendingCount(),
+    current: hooksController?.getCurrentTask() ?? null,
+  });
+});
+
+/**
+ * POST /api/queue - Append tasks to the queue
+ * Body: { description: string } or { tasks: string[] }
+ */
+app.post("/api/queue", async (c) => {
+  if (!taskQueue) {
+    return c.json({ error: "Task queue not initialized" }, 503);
+  }
+
+  const body = (await c.req.json().catch(() => ({}))) as {
+    description?: string;
+    tasks?: string[];
+  };
+  const descriptions = (body.tasks ?? (body.description ? [body.description] : []))
+    .filter((d) => typeof d === "string" && d.trim() !== "")
+    .map((d) => d.trim());
+  if (descriptions.length === 0) {
+    return c.json({ error: "description or tasks required" }, 400);
+  }
+
+  const tasks = taskQueue.addMany(descriptions);
+  return c.json({ ok: true, tasks });
+});
+
+/**
+ * GET /api/queue/:id - Get a queued task
+ */
+app.get("/api/queue/:id", (c) => {
+  const task = taskQueue?.get(c.req.param("id"));
+  if (!task) {
+    return c.json({ error: "Task not found" }, 404);
+  }
+  return c.json(task);
+});
+
+/**
+ * PATCH /api/queue/:id - Edit a pending task
+ * Body: { description?: string, position?: number }
+ */
+app.patch("/api/queue/:id", async (c) => {
+  if (!taskQueue) {
+    return c.json({ error: "Task queue not initialized" }, 503);
+  }
+
+  try {
+    const body = (await c.req.json().catch(() => ({}))) as {
+      description?: string;
+      position?: number;
+    };
+    const task = taskQueue.update(c.req.param("id"), {
+      description: body.description?.trim() || undefined,
+      position: typeof body.position === "number" ? body.position : undefined,
+    });
+    if (!task) {
+      return c.json({ error: "Task not found" }, 404);
+    }
+    return c.json({ ok: true, task });
+  } catch (error) {
+    return c.json({ error: String(error) }, 409);
+  }
+});
+
+/**
+ * DELETE /api/queue/:id - Remove a task that is not running
+ */
+app.delete("/api/queue/:id", (c) => {
+  if (!taskQueue) {
+    return c.json({ error: "Task queue not initialized" }, 503);
+  }
+  if (!taskQueue.remove(c.req.param("id"))) {
+    return c.json({ error: "Task not found or running" }, 404);
+  }
+  return c.json({ ok: true });
+});
+
+// ============ Checkpoints ============
+// Also served under /api/workers/:workerId/checkpoints for pool workers
+
+/**
+ * Resolve the checkpoint store and controller for the primary or a pool worker
+ */
+function resolveCheckpoints(
+  workerId: string | undefined
+): { store: GitCheckpoints; controller: HooksController } | null {
+  if (workerId) {
+    const worker = workerPool?.get(workerId);
+    return worker?.checkpoints ? { store: worker.checkpoints, controller: worker.controller } : null;
+  }
+  return checkpointStore && hooksController ? { store: checkpointStore, controller: hooksController } : null;
+}
+
+/**
+ * GET /api/checkpoints - List checkpoints (newest first)
+ */
+app.on("GET", ["/api/checkpoints", "/api/workers/:workerId/checkpoints"], async (c) => {
+  const resolved = resolveCheckpoints(c.req.param("workerId"));
+  if (!resolved) {
+    return c.json({ error: "Checkpoints not enabled" }, 503);
+  }
+  try {
+    const checkpoints = await resolved.store.list();
+    return c.json({ checkpoints, count: checkpoints.length });
+  } catch (error) {
+    return c.json({ error: String(error) }, 500);
+  }
+});
+
+/**
+ * GET /api/checkpoints/:id/diff - Unified diff of a checkpoint
+ * Query: against (checkpoint id or "current"; default: the previous checkpoint)
+ */
+app.on("GET", ["/api/checkpoints/:id/diff", "/api/workers/:workerId/checkpoints/:id/diff"], async (c) => {
+  const resolved = resolveCheckpoints(c.req.param("workerId"));
+  if (!resolved) {
+    return c.json({ error: "Checkpoints not enabled" }, 503);
+  }
+
+  const checkpoint = await resolved.store.get(c.req.param("id"));
+  if (!checkpoint) {
+    return c.json({ error: "Checkpoint not found" }, 404);
+  }
+  const against = c.req.query("against") || undefined;
+  if (against !== undefined && against !== "current" && !(await resolved.store.get(against))) {
+    return c.json({ error: `Checkpoint to diff against not found: ${against}` }, 404);
+  }
+  try {
+    const diff = await resolved.store.diff(checkpoint.id, against);
+    return c.json({ checkpoint, against: against ?? null, diff });
+  } catch (error) {
+    return c.json({ error: String(error) }, 400);
+  }
+});
+
+/**
+ * POST /api/checkpoints/:id/restore - Restore the working tree to a checkpoint
+ * The current state is saved as a safety checkpoint first.
+ */
+app.on("POST", ["/api/checkpoints/:id/restore", "/api/workers/:workerId/checkpoints/:id/restore"], async (c) => {
+  const resolved = resolveCheckpoints(c.req.param("workerId"));
+  if (!resolved) {
+    return c.json({ error: "Checkpoints not enabled" }, 503);
+  }
+
+  const checkpoint = await resolved.store.get(c.req.param("id"));
+  if (!checkpoint) {
+    return c.json({ error: "Checkpoint not found" }, 404);
+  }
+  try {
+    const safety = await resolved.controller.restoreCheckpoint(checkpoint);
+    return c.json({ ok: true, checkpoint, safety });
+  } catch (error) {
+    return c.json({ error: String(error) }, 500);
+  }
+});
+
+// ============ Decision Approval ============
+// Also served under /api/workers/:workerId/decisions/pending for pool workers
+
+/**
+ * Resolve the controller of the primary or a pool worker
+ */
+function resolveController(workerId: string | undefined): HooksController | null {
+  return workerId ? workerPool?.get(workerId)?.controller ?? null : hooksController;
+}
+
+/**
+ * GET /api/decisions/pending - Supervisor decision awaiting approval (null if none)
+ */
+app.on("GET", ["/api/decisions/pending", "/api/workers/:workerId/decisions/pending"], (c) => {
+  const controller = resolveController(c.req.param("workerId"));
+  if (!controller) {
     return c.json({ error: "Hooks controller not initialized" }, 503);
   }
+  return c.json({ pending: controller.getPendingDecision() });
+});
 
+/**
+ * POST /api/decisions/pending/:id/approve - Apply the decision as proposed
+ */
+app.on("POST", ["/api/decisions/pending/:id/approve", "/api/workers/:workerId/decisions/pending/:id/approve"], async (c) => {
+  const controller = resolveController(c.req.param("workerId"));
+  if (!controller) {
+    return c.json({ error: "Hooks controller not initialized" }, 503);
+  }
+  if (controller.getPendingDecision()?.id !== c.req.param("id")) {
+    return c.json({ error: "Pending decision not found" }, 404);
+  }
   try {
-    const event = (await c.req.json()) as ToolEvent;
-    const response = await hooksController.onTool(event);
-    return c.json(response);
+    const decision = await controller.approveDecision(c.req.param("id"));
+    return c.json({ ok: true, decision });
   } catch (error) {
-    return c.json({ continue: true, error: String(error) });
+    return c.json({ error: String(error) }, 409);
   }
 });
 
 /**
- * POST /api/hooks/session-start - Session begins
+ * POST /api/decisions/pending/:id/edit - Apply the decision with changes
+ * Body: { action?, command?, checkpointId?, reason? }
  */
-app.post("/api/hooks/session-start", async (c) => {
-  if (!hooksController) {
+app.on("POST", ["/api/decisions/pending/:id/edit", "/api/workers/:workerId/decisions/pending/:id/edit"], async (c) => {
+  const controller = resolveController(c.req.param("workerId"));
+  if (!controller) {
     return c.json({ error: "Hooks controller not initialized" }, 503);
   }
+  if (controller.getPendingDecision()?.id !== c.req.param("id")) {
+    return c.json({ error: "Pending decision not found" }, 404);
+  }
+
+  const body = (await c.req.json().catch(() => ({}))) as Partial<Record<"action" | "command" | "checkpointId" | "reason", unknown>>;
+  if (body.action !== undefined && !EDITABLE_ACTIONS.includes(body.action as SupervisorAction)) {
+    return c.json({ error: `action must be one of: ${EDITABLE_ACTIONS.join(", ")}` }, 400);
+  }
+  for (const key of ["command", "checkpointId", "reason"] as const) {
+    if (body[key] !== undefined && typeof body[key] !== "string") {
+      return c.json({ error: `${key} must be a string` }, 400);
+    }
+  }
 
   try {
-    const event = (await c.req.json()) as SessionStartEvent;
-    const response = await hooksController.onSessionStart(event);
-    return c.json(response);
+    const decision = await controller.editDecision(c.req.param("id"), {
+      ...(body.action !== undefined && { action: body.action as SupervisorAction }),
+      ...(body.command !== undefined && { command: (body.command as string).trim() }),
+      ...(body.checkpointId !== undefined && { checkpointId: body.checkpointId as string }),
+      ...(body.reason !== undefined && { reason: body.reason as string }),
+    });
+    return c.json({ ok: true, decision });
   } catch (error) {
-    return c.json({ continue: true, error: String(error) });
+    return c.json({ error: String(error) }, 400);
   }
 });
 
 /**
- * POST /api/hooks/session-end - Session terminates
+ * POST /api/decisions/pending/:id/reject - Drop the decision; the worker
+ * waits for a manual command
  */
-app.post("/api/hooks/session-end", async (c) => {
-  if (!hooksController) {
+app.on("POST", ["/api/decisions/pending/:id/reject", "/api/workers/:workerId/decisions/pending/:id/reject"], async (c) => {
+  const controller = resolveController(c.req.param("workerId"));
+  if (!controller) {
     return c.json({ error: "Hooks controller not initialized" }, 503);
   }
+  if (controller.getPendingDecision()?.id !== c.req.param("id")) {
+    return c.json({ error: "Pending decision not found" }, 404);
+  }
+  try {
+    await controller.rejectDecision(c.req.param("id"));
+    return c.json({ ok: true });
+  } catch (error) {
+    return c.json({ error: String(error) }, 409);
+  }
+});
+
+// ============ Worker Pool ============
+
+/**
+ * GET /api/workers - List pool workers
+ */
+app.get("/api/workers", (c) => {
+  if (!workerPool) {
+    return c.json({ error: "Worker pool not initialized" }, 503);
+  }
+  return c.json({ workers: workerPool.getInfo() });
+});
+
+/**
+ * POST /api/workers - Register a worker, optionally launching it
+ * Body: { id: string, cwd: string, task?: string, launch?: boolean }
+ */
+app.post("/api/workers", async (c) => {
+  if (!workerPool) {
+    return c.json({ error: "Worker pool not initialized" }, 503);
+  }
+
+  const body = (await c.req.json().catch(() => ({}))) as {
+    id?: string;
+    cwd?: string;
+    task?: string;
+    launch?: boolean;
+  };
+  if (!body.id || !body.cwd) {
+    return c.json({ error: "id and cwd required" }, 400);
+  }
 
   try {
-    const event = (await c.req.json()) as SessionEndEvent;
-    const response = await hooksController.onSessionEnd(event);
-    return c.json(response);
+    const worker = workerPool.add({ id: body.id, cwd: body.cwd });
+    if (body.launch) {
+      await worker.launch(body.task || undefined);
+    }
+    return c.json({ ok: true, worker: worker.getInfo() });
   } catch (error) {
-    return c.json({ continue: true, error: String(error) });
+    return c.json({ error: String(error) }, 409);
   }
 });
 
+/**
+ * GET /api/workers/:workerId - Worker details
+ */
+app.get("/api/workers/:workerId", (c) => {
+  const worker = workerPool?.get(c.req.param("workerId"));
+  if (!worker) {
+    return c.json({ error: "Worker not found" }, 404);
+  }
+  return c.json({
+    ...worker.getInfo(),
+    toolHistory: worker.controller.getToolHistory(),
+  });
+});
+
+/**
+ * POST /api/workers/:workerId/launch - Launch Claude in a registered worker
+ * Body: { task?: string }
+ */
+app.post("/api/workers/:workerId/launch", async (c) => {
+  const body = (await c.req.json().catch(() => ({}))) as Record<string, unknown>;
+  const result = await launchWorker(c.req.param("workerId"), body?.task);
+  return c.json(result.body, result.status);
+});
+
+/**
+ * POST /api/workers/:workerId/stop - Stop a worker's controller and PTY
+ */
+app.post("/api/workers/:workerId/stop", async (c) => {
+  const worker = workerPool?.get(c.req.param("workerId"));
+  if (!worker) {
+    return c.json({ error: "Worker not found" }, 404);
+  }
+  await worker.stop("Manual stop from UI");
+  return c.json({ ok: true });
+});
+
+/**
+ * DELETE /api/workers/:workerId - Stop and unregister a worker
+ */
+app.delete("/api/workers/:workerId", async (c) => {
+  if (!workerPool) {
+    return c.json({ error: "Worker pool not initialized" }, 503);
+  }
+  const removed = await workerPool.remove(c.req.param("workerId"));
+  if (!removed) {
+    return c.json({ error: "Worker not found" }, 404);
+  }
+  return c.json({ ok: true });
+});
+
+// ============ Hook Endpoints ============
+// Each hook is also served under /api/workers/:workerId/hooks/* for pool workers
+
+/**
+ * Register a hook endpoint and dispatch its event to the controller it belongs to
+ */
+function hookRoute<E extends { session_id?: string; cwd?: string }>(
+  route: string,
+  handle: (controller: HooksController, event: E) => Promise<{ continue: boolean }>
+): void {
+  app.on("POST", [`/api/hooks/${route}`, `/api/workers/:workerId/hooks/${route}`], async (c) => {
+    try {
+      const event = (await c.req.json()) as E;
+      const workerId = c.req.param("workerId");
+      const controller = resolveHookController(workerId, event);
+      if (!controller) {
+        return workerId
+          ? c.json({ error: `Unknown worker: ${workerId}` }, 404)
+          : c.json({ error: "Hooks controller not initialized" }, 503);
+      }
+      const response = await handle(controller, event);
+      return c.json(response);
+    } catch (error) {
+      return c.json({ continue: true, error: String(error) });
+    }
+  });
+}
+
+/**
+ * POST /api/hooks/stop - Claude finished responding
+ * Primary completion signal from the Stop hook.
+ */
+hookRoute<StopEvent>("stop", (controller, event) => controller.onStop(event));
+
+/**
+ * POST /api/hooks/tool - Tool completed
+ * Tracks tool usage and detects errors.
+ */
+hookRoute<ToolEvent>("tool", (controller, event) => controller.onTool(event));
+
+/**
+ * POST /api/hooks/session-start - Session begins
+ */
+hookRoute<SessionStartEvent>("session-start", (controller, event) => controller.onSessionStart(event));
+
+/**
+ * POST /api/hooks/session-end - Session terminates
+ */
+hookRoute<SessionEndEvent>("session-end", (controller, event) => controller.onSessionEnd(event));
+
+/**
+ * POST /api/hooks/pre-tool - Tool about to run
+ * Responds with the tool policy verdict (deny blocks the call, with its reason).
+ */
+hookRoute<PreToolUseEvent>("pre-tool", (controller, event) => controller.onPreToolUse(event));
+
+/**
+ * POST /api/hooks/prompt-submit - Prompt submitted to the worker
+ */
+hookRoute<UserPromptSubmitEvent>("prompt-submit", (controller, event) => controller.onUserPromptSubmit(event));
+
+/**
+ * POST /api/hooks/notification - Worker waiting on a permission prompt or input
+ */
+hookRoute<NotificationEvent>("notification", (controller, event) => controller.onNotification(event));
+
+/**
+ * POST /api/hooks/subagent-stop - Subagent finished (no supervisor call)
+ */
+hookRoute<SubagentStopEvent>("subagent-stop", (controller, event) => controller.onSubagentStop(event));
+
+/**
+ * POST /api/hooks/pre-compact - Conversation about to be compacted
+ * Responds after the context snapshot has been written.
+ */
+hookRoute<PreCompactEvent>("pre-compact", (controller, event) => controller.onPreCompact(event));
+
 /**
  * POST /api/supervisor/stop - Supervisor Claude finished responding
- * Called by the Stop hook in ./master/.claude/settings.local.json
+ * Called by the Stop hook in ./master/.claude/settings.local.json (hook secret required)
  */
 app.post("/api/supervisor/stop", async (c) => {
   try {
     const event = await c.req.json() as { session_id: string; transcript_path: string };
-    console.log(`[Supervisor] Stop hook received, transcript: ${event.transcript_path}`);
+    log(`[Supervisor] Stop hook received, transcript: ${event.transcript_path}`);
 
     if (supervisorStopCallback) {
       supervisorStopCallback(event);
@@ -274,7 +911,7 @@ app.post("/api/supervisor/stop", async (c) => {
 
     return c.json({ ok: true });
   } catch (error) {
-    console.error("[Supervisor] Error handling stop hook:", error);
+    logError("[Supervisor] Error handling stop hook:", error);
     return c.json({ error: String(error) }, 500);
   }
 });
@@ -293,41 +930,87 @@ app.get("/api/hooks/tools", (c) => {
   });
 });
 
+// ============ Run History ============
+
+/**
+ * GET /api/runs - List past orchestration runs (most recent first)
+ * Query: limit (default 50), offset (default 0)
+ */
+app.get("/api/runs", (c) => {
+  if (!runHistory) {
+    return c.json({ error: "Run history not initialized" }, 503);
+  }
+
+  const limit = parseInt(c.req.query("limit") ?? "50", 10) || 50;
+  const offset = parseInt(c.req.query("offset") ?? "0", 10) || 0;
+  const runs = runHistory.listRuns(limit, offset);
+  return c.json({ runs, count: runs.length });
+});
+
+/**
+ * GET /api/runs/:id - Get a run with its full event log for replay
+ */
+app.get("/api/runs/:id", (c) => {
+  if (!runHistory) {
+    return c.json({ error: "Run history not initialized" }, 503);
+  }
+
+  const run = runHistory.getRun(c.req.param("id"));
+  if (!run) {
+    return c.json({ error: "Run not found" }, 404);
+  }
+  return c.json(run);
+});
+
 /**
- * GET /api/transcript - Read a transcript JSONL file
+ * Transcript path of a session seen by the primary controller or a pool worker
+ */
+function resolveTranscriptPath(sessionId: string): string | null {
+  const controllers = [hooksController, ...(workerPool?.list() ?? []).map((w) => w.controller)];
+  for (const controller of controllers) {
+    const path = controller?.getTranscriptPath(sessionId);
+    if (path) return path;
+  }
+  return null;
+}
+
+/**
+ * GET /api/transcript - Read a worker session's transcript
+ * Query: session (id from a hook event), since (first line index to return, default 0)
+ * The file is then watched and new lines are pushed as transcript_entry messages.
  */
 app.get("/api/transcript", async (c) => {
-  const path = c.req.query("path");
-  if (!path) {
-    return c.json({ error: "Missing path parameter" }, 400);
+  const sessionId = c.req.query("session");
+  if (!sessionId) {
+    return c.json({ error: "Missing session parameter" }, 400);
   }
 
-  // Only allow .jsonl files
+  // Only transcripts reported by our own hooks can be read
+  const path = resolveTranscriptPath(sessionId);
+  if (!path) {
+    return c.json({ error: "Unknown session" }, 404);
+  }
   if (!path.endsWith(".jsonl")) {
     return c.json({ error: "Invalid file type" }, 400);
   }
 
   try {
-    const file = Bun.file(path);
-    const exists = await file.exists();
+    const exists = await Bun.file(path).exists();
     if (!exists) {
       return c.json({ error: "Transcript file not found" }, 404);
     }
 
-    const text = await file.text();
-    const lines = text
-      .trim()
-      .split("\n")
-      .filter((line) => line.length > 0)
-      .map((line) => {
-        try {
-          return JSON.parse(line);
-        } catch {
-          return { raw: line };
-        }
-      });
+    const watcher = watchTranscript(path);
+    await watcher.read();
+    if (!streamedTranscripts.has(path)) {
+      streamedTranscripts.add(path);
+      watcher.subscribe((entries) => eventBroadcaster.broadcastTranscriptEntries(sessionId, path, entries));
+      watcher.start();
+    }
 
-    return c.json({ lines });
+    const since = parseInt(c.req.query("since") ?? "0", 10) || 0;
+    const lines = watcher.entries.slice(since).map((entry) => entry.raw);
+    return c.json({ sessionId, path, lines, next: watcher.entries.length });
   } catch (error) {
     return c.json({ error: String(error) }, 500);
   }
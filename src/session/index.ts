@@ -8,5 +8,5 @@
  */
 
 export { SessionManager, sessionManager } from "./manager";
-export { sessionStore } from "./store";
+export { SessionStore, sessionStore } from "./store";
 export * from "./types";
@@ -1,6 +1,6 @@
 import { test, expect, beforeEach } from "bun:test";
 import { SessionManager } from "./manager";
-import { sessionStore } from "./store";
+import { SessionStore, sessionStore } from "./store";
 
 // Reset store before each test
 beforeEach(() => {
@@ -54,3 +54,13 @@ test("Metadata is set when task starts", () => {
   expect(metadata?.startTime).toBeInstanceOf(Date);
   expect(typeof metadata?.runtime).toBe("number");
 });
+
+test("Managers with their own store are isolated from the singleton", () => {
+  const shared = new SessionManager();
+  const isolated = new SessionManager(new SessionStore());
+
+  isolated.startTask("worker task");
+
+  expect(isolated.getState().status).toBe("task_running");
+  expect(shared.getState().status).toBe("idle");
+});
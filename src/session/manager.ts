@@ -8,15 +8,24 @@
 
 import type { SessionState, SessionMetadata } from "./types";
 import { VALID_TRANSITIONS } from "./types";
-import { sessionStore } from "./store";
+import { SessionStore, sessionStore } from "./store";
 
 export class SessionManager {
+  private store: SessionStore;
+
+  /**
+   * @param store - Backing store (default: the singleton store; workers pass their own)
+   */
+  constructor(store: SessionStore = sessionStore) {
+    this.store = store;
+  }
+
   /**
    * Transition to a new state with validation.
    * Throws descriptive error if transition is invalid.
    */
   transition(newState: SessionState): void {
-    const currentStatus = sessionStore.getState().status;
+    const currentStatus = this.store.getState().status;
     const validNextStates = VALID_TRANSITIONS[currentStatus];
 
     if (!validNextStates.includes(newState.status)) {
@@ -26,11 +35,11 @@ export class SessionManager {
       );
     }
 
-    sessionStore.setState(newState);
+    this.store.setState(newState);
 
     // Update metadata on task_running
     if (newState.status === "task_running") {
-      sessionStore.setMetadata({
+      this.store.setMetadata({
         taskDescription: newState.taskDescription,
         startTime: newState.startTime,
         runtime: 0,
@@ -75,8 +84,8 @@ export class SessionManager {
    * Captures the previous status for recovery.
    */
   setError(error: string): void {
-    const previousStatus = sessionStore.getState().status;
-    sessionStore.setState({
+    const previousStatus = this.store.getState().status;
+    this.store.setState({
       status: "error",
       error,
       previousStatus,
@@ -87,7 +96,7 @@ export class SessionManager {
    * Get current session state.
    */
   getState(): Readonly<SessionState> {
-    return sessionStore.getState();
+    return this.store.getState();
   }
 
   /**
@@ -95,11 +104,11 @@ export class SessionManager {
    * Returns null if no task has been started.
    */
   getMetadata(): Readonly<SessionMetadata> | null {
-    const meta = sessionStore.getMetadata();
+    const meta = this.store.getMetadata();
     if (!meta) return null;
     return {
       ...meta,
-      runtime: sessionStore.getRuntime(),
+      runtime: this.store.getRuntime(),
     };
   }
 
@@ -7,7 +7,7 @@
 
 import type { SessionState, SessionMetadata } from "./types";
 
-class SessionStore {
+export class SessionStore {
   private state: SessionState = { status: "idle" };
   private metadata: SessionMetadata | null = null;
 
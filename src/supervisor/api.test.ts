@@ -0,0 +1,136 @@
+import { test, expect, beforeAll, afterAll } from "bun:test";
+import { createApiSupervisor } from "./api";
+import { DEFAULT_PROMPT_TEMPLATE } from "./template";
+import { HooksController } from "../hooks";
+import type { TokenUsage } from "../hooks/types";
+
+// Local stand-in for the Messages API: replies with the queued texts in order
+let replies: string[] = [];
+let requests: { headers: Headers; body: { stream?: boolean; messages: unknown[] } }[] = [];
+let server: ReturnType<typeof Bun.serve>;
+
+function sse(text: string, newline = "\n", startUsage: object = {}): string {
+  const events = [
+    { type: "message_start", message: { usage: { input_tokens: 100, output_tokens: 1, ...startUsage } } },
+    { type: "content_block_delta", delta: { type: "text_delta", text: text.slice(0, 5) } },
+    { type: "content_block_delta", delta: { type: "text_delta", text: text.slice(5) } },
+    { type: "message_delta", usage: { output_tokens: 20 } },
+    { type: "message_stop" },
+  ];
+  return events.map((e) => `event: ${e.type}${newline}data: ${JSON.stringify(e)}${newline}${newline}`).join("");
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const body = await req.json();
+      requests.push({ headers: req.headers, body });
+      const text = replies.shift() ?? "";
+      if (text === "500") {
+        return new Response("overloaded", { status: 500 });
+      }
+      if (body.stream && text.startsWith("crlf:")) {
+        const cached = { cache_creation_input_tokens: 300, cache_read_input_tokens: 4000 };
+        return new Response(sse(text.slice(5), "\r\n", cached), { headers: { "content-type": "text/event-stream" } });
+      }
+      if (body.stream) {
+        return new Response(sse(text), { headers: { "content-type": "text/event-stream" } });
+      }
+      return Response.json({
+        content: [{ type: "text", text }],
+        usage: { input_tokens: 50, output_tokens: 10 },
+      });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+const context = { taskDescription: "build it", transcriptPath: "/nonexistent.jsonl", sessionId: "s1" };
+
+function supervisor(options: Parameters<typeof createApiSupervisor>[0] = {}) {
+  replies = [];
+  requests = [];
+  return createApiSupervisor({ baseUrl: server.url.origin, apiKey: "test-key", model: "test-model", ...options });
+}
+
+test("streams a marker reply and reports usage", async () => {
+  const usages: TokenUsage[] = [];
+  const chunks: string[] = [];
+  const fn = supervisor({ onUsage: (_usage, totals) => usages.push(totals), onOutput: (t) => chunks.push(t) });
+  replies = ["[CONTINUE] write tests"];
+
+  const decision = await fn(context);
+
+  expect(decision).toMatchObject({ action: "inject", command: "write tests" });
+  expect(decision.usage).toEqual({ inputTokens: 100, outputTokens: 20 });
+  expect(chunks.join("")).toBe("[CONTINUE] write tests");
+  expect(usages).toEqual([{ inputTokens: 100, outputTokens: 20 }]);
+  expect(requests[0]?.headers.get("x-api-key")).toBe("test-key");
+  expect(requests[0]?.body.stream).toBe(true);
+});
+
+test("parses CRLF event streams and counts cache tokens", async () => {
+  const usages: TokenUsage[] = [];
+  const fn = supervisor({ onUsage: (_usage, totals) => usages.push(totals) });
+  replies = ["crlf:[CONTINUE] write tests"];
+
+  const decision = await fn(context);
+
+  expect(decision).toMatchObject({ action: "inject", command: "write tests" });
+  const expected = { inputTokens: 100, outputTokens: 20, cacheCreationTokens: 300, cacheReadTokens: 4000 };
+  expect(decision.usage).toEqual(expected);
+  expect(usages).toEqual([expected]);
+});
+
+test("corrects an invalid JSON decision within the same conversation", async () => {
+  const fn = supervisor({ decisionFormat: "json", stream: false });
+  replies = [
+    `{"action": "continue"}`,
+    `{"action": "complete", "reason": "all done", "confidence": 0.92}`,
+  ];
+
+  const decision = await fn(context);
+
+  expect(decision).toEqual({
+    action: "stop",
+    reason: "all done",
+    confidence: 0.92,
+    usage: { inputTokens: 100, outputTokens: 20 },
+    templateVersion: DEFAULT_PROMPT_TEMPLATE.version,
+  });
+  expect(requests).toHaveLength(2);
+  expect(requests[1]?.body.messages).toHaveLength(3);
+});
+
+test("HTTP errors count as supervisor failures", async () => {
+  const fn = supervisor({ maxConsecutiveFailures: 2 });
+  replies = ["500", "500"];
+
+  expect((await fn(context)).action).toBe("continue");
+  expect((await fn(context)).action).toBe("abort");
+});
+
+test("an exhausted correction leaves the worker alone and counts as a failure", async () => {
+  const fn = supervisor({ decisionFormat: "json", stream: false, maxCorrections: 1, maxConsecutiveFailures: 2 });
+  replies = ["not json", "still not json", "nope", "nope again"];
+  const injected: string[] = [];
+  const reasons: string[] = [];
+  const controller = new HooksController({ onControllerStop: (reason) => reasons.push(reason) });
+  controller.setSupervisor(fn);
+  controller.setOnInject((command) => injected.push(command));
+  controller.start("build it");
+
+  await controller.onStop({ session_id: "s1", transcript_path: "/nonexistent.jsonl", hook_event_name: "Stop" });
+
+  expect(injected).toEqual([]);
+  expect(controller.getState()).toBe("monitoring");
+
+  await controller.onStop({ session_id: "s1", transcript_path: "/nonexistent.jsonl", hook_event_name: "Stop" });
+
+  expect(injected).toEqual([]);
+  expect(reasons).toEqual(["Aborted: Supervisor failed 2 times consecutively"]);
+});
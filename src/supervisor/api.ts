@@ -0,0 +1,263 @@
+/**
+ * Messages API Supervisor Factory
+ *
+ * Creates a supervisor function that calls an Anthropic-compatible Messages
+ * endpoint directly instead of shelling out to the claude binary. No PTY or
+ * hooks are involved, so it also works against a local stand-in server.
+ */
+import type { SupervisorFn } from "../hooks/controller";
+import type { SupervisorDecision, TokenUsage } from "../hooks/types";
+import type { ClaudeSupervisorConfig, SupervisorContext } from "./types";
+import { parseResponse } from "./parse";
+import { renderSupervisorPrompt } from "./prompt";
+import { DEFAULT_PROMPT_TEMPLATE } from "./template";
+import { TranscriptDigester } from "./digest";
+import { buildCorrectionPrompt, resolveDecision, DecisionFormatError } from "./decision";
+import { requestMessages, type MessageParam, type MessagesRequestOptions } from "./messages";
+import { log } from "../log";
+
+const DEFAULT_BASE_URL = "https://api.anthropic.com";
+const DEFAULT_MODEL = "claude-sonnet-4-5";
+const DEFAULT_MAX_TOKENS = 1024;
+const DEFAULT_MAX_ITERATIONS = 50;
+const DEFAULT_TIMEOUT = 60000;
+const DEFAULT_MAX_CONSECUTIVE_FAILURES = 3;
+const DEFAULT_MAX_CORRECTIONS = 2;
+
+export interface ApiSupervisorConfig extends ClaudeSupervisorConfig {
+  /** API base URL (default: ANTHROPIC_BASE_URL or https://api.anthropic.com) */
+  baseUrl?: string;
+  /** Model name (default: claude-sonnet-4-5) */
+  model?: string;
+  /** API key (default: ANTHROPIC_API_KEY) */
+  apiKey?: string;
+  /** Maximum tokens per reply (default: 1024) */
+  maxTokens?: number;
+  /** Stream replies as server-sent events (default: true) */
+  stream?: boolean;
+  /** Callback for streamed reply text (for debugging/UI) */
+  onOutput?: (text: string) => void;
+  /** Callback after each request with its usage and the running totals */
+  onUsage?: (usage: TokenUsage, totals: TokenUsage) => void;
+}
+
+/**
+ * Create a Messages API supervisor function
+ *
+ * Sends one stateless conversation per decision. JSON corrections are sent
+ * as follow-up turns of the same conversation. Tracks iteration count,
+ * failure count and token totals in closure.
+ *
+ * @param config - Endpoint, model and supervisor options
+ * @returns SupervisorFn compatible with HooksController.setSupervisor()
+ */
+export function createApiSupervisor(config: ApiSupervisorConfig = {}): SupervisorFn {
+  const {
+    baseUrl = process.env.ANTHROPIC_BASE_URL ?? DEFAULT_BASE_URL,
+    model = DEFAULT_MODEL,
+    apiKey = process.env.ANTHROPIC_API_KEY,
+    maxTokens = DEFAULT_MAX_TOKENS,
+    stream = true,
+    maxIterations = DEFAULT_MAX_ITERATIONS,
+    timeout = DEFAULT_TIMEOUT,
+    maxConsecutiveFailures = DEFAULT_MAX_CONSECUTIVE_FAILURES,
+    decisionFormat = 'markers',
+    maxCorrections = DEFAULT_MAX_CORRECTIONS,
+    onIterationUpdate,
+    onPrompt,
+    onOutput,
+    onUsage,
+    template = DEFAULT_PROMPT_TEMPLATE,
+    workerCwd,
+    transcriptBudget,
+    transcriptExchanges,
+  } = config;
+
+  const requestOptions: MessagesRequestOptions = {
+    baseUrl,
+    apiKey,
+    model,
+    maxTokens,
+    stream,
+    timeout,
+    onText: onOutput,
+  };
+
+  // Closure state for iteration, failure and token tracking
+  let iterationCount = 0;
+  let consecutiveFailures = 0;
+  const totals: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  const digester = new TranscriptDigester({ maxTokens: transcriptBudget, recentExchanges: transcriptExchanges });
+
+  // Record a supervisor failure; abort once too many happen in a row
+  function failure(reason: string, formatError = false): SupervisorDecision {
+    consecutiveFailures++;
+    console.error(`[ApiSupervisor] ${reason} (failure ${consecutiveFailures}/${maxConsecutiveFailures})`);
+
+    // Abort after too many consecutive failures
+    if (consecutiveFailures >= maxConsecutiveFailures) {
+      console.error(`[ApiSupervisor] Too many consecutive failures (${consecutiveFailures}), aborting`);
+      return {
+        action: 'abort',
+        command: '/clear',
+        reason: `Supervisor failed ${consecutiveFailures} times consecutively`,
+        confidence: 1.0,
+      };
+    }
+
+    // Continue monitoring on recoverable failure
+    return {
+      action: 'continue',
+      reason: `${reason}, resuming monitoring`,
+      confidence: 0.5,
+      ...(formatError && { formatError }),
+    };
+  }
+
+  const decide = async (context: SupervisorContext): Promise<SupervisorDecision> => {
+    iterationCount++;
+
+    // Notify UI of iteration progress
+    onIterationUpdate?.({
+      current: iterationCount,
+      max: maxIterations,
+      percentage: (iterationCount / maxIterations) * 100,
+      consecutiveFailures,
+    });
+
+    // Enforce iteration budget - hard stop at limit
+    if (iterationCount >= maxIterations) {
+      log(`[ApiSupervisor] Iteration budget exhausted (${iterationCount}/${maxIterations})`);
+      return {
+        action: 'abort',
+        command: '/clear',
+        reason: `Iteration budget exhausted (${iterationCount}/${maxIterations})`,
+        confidence: 1.0,
+        budgetExhausted: true,
+      };
+    }
+
+    // Render the prompt template (reads the worker's transcript)
+    const prompt = await renderSupervisorPrompt(template, {
+      context,
+      iteration: iterationCount,
+      maxIterations,
+      decisionFormat,
+      cwd: workerCwd,
+      digester,
+    });
+
+    // Tokens spent on this decision, including any corrections
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    const messages: MessageParam[] = [];
+
+    const send = async (content: string): Promise<string> => {
+      onPrompt?.(content, template.version);
+      messages.push({ role: 'user', content });
+
+      const result = await requestMessages(requestOptions, messages);
+      addUsage(usage, result.usage);
+      addUsage(totals, result.usage);
+      onUsage?.(result.usage, { ...totals });
+
+      if (result.status !== 200) {
+        throw new Error(`Messages API error (status ${result.status}): ${result.error?.slice(0, 200) ?? ''}`);
+      }
+      messages.push({ role: 'assistant', content: result.output });
+      return result.output;
+    };
+
+    try {
+      const output = await send(prompt);
+
+      if (decisionFormat === 'json') {
+        const decision = await resolveDecision(
+          output,
+          (errors) => send(buildCorrectionPrompt(errors)),
+          maxCorrections
+        );
+        consecutiveFailures = 0;
+        return { ...decision, usage };
+      }
+
+      // Success - reset consecutive failure counter
+      consecutiveFailures = 0;
+
+      // Parse response and map to SupervisorDecision
+      const parsed = parseResponse(output);
+
+      switch (parsed.action) {
+        case 'complete':
+          return {
+            action: 'stop',
+            reason: parsed.content || 'Work complete',
+            confidence: 0.9,
+            usage,
+          };
+
+        case 'abort':
+          return {
+            action: 'abort',
+            command: '/clear',  // Clean up inner Claude context
+            reason: parsed.content || 'Aborted by supervisor',
+            confidence: 0.9,
+            usage,
+          };
+
+        case 'continue':
+          return {
+            action: 'inject',
+            command: parsed.content,
+            reason: 'Supervisor continues work',
+            confidence: 0.8,
+            usage,
+          };
+
+        case 'rollback':
+          return {
+            action: 'rollback',
+            command: parsed.content,
+            ...(parsed.checkpointId && { checkpointId: parsed.checkpointId }),
+            reason: 'Supervisor rolled back the last iteration',
+            confidence: 0.8,
+            usage,
+          };
+      }
+    } catch (err) {
+      return { ...failure(err instanceof Error ? err.message : String(err), err instanceof DecisionFormatError), usage };
+    }
+  };
+
+  // Decisions that came from a prompt carry the template version
+  const supervisor: SupervisorFn = async (context) => {
+    const decision = await decide(context);
+    return decision.budgetExhausted ? decision : { ...decision, templateVersion: template.version };
+  };
+
+  // Reset counters when the controller moves on to the next queued task
+  supervisor.reset = () => {
+    iterationCount = 0;
+    consecutiveFailures = 0;
+  };
+
+  // Carry the iteration budget over when a run is resumed
+  supervisor.restore = (iterations) => {
+    iterationCount = iterations;
+  };
+
+  return supervisor;
+}
+
+/**
+ * Add one request's usage to a running sum; cache fields appear once reported
+ */
+function addUsage(target: TokenUsage, usage: TokenUsage): void {
+  target.inputTokens += usage.inputTokens;
+  target.outputTokens += usage.outputTokens;
+  if (usage.cacheCreationTokens !== undefined) {
+    target.cacheCreationTokens = (target.cacheCreationTokens ?? 0) + usage.cacheCreationTokens;
+  }
+  if (usage.cacheReadTokens !== undefined) {
+    target.cacheReadTokens = (target.cacheReadTokens ?? 0) + usage.cacheReadTokens;
+  }
+}
@@ -5,14 +5,19 @@
  */
 import type { SupervisorFn } from "../hooks/controller";
 import type { SupervisorDecision } from "../hooks/types";
-import type { ClaudeSupervisorConfig } from "./types";
+import type { ClaudeSupervisorConfig, SupervisorContext } from "./types";
 import { spawnSupervisor } from "./spawn";
 import { parseResponse } from "./parse";
-import { buildSupervisorPrompt, readTranscript } from "./prompt";
+import { renderSupervisorPrompt } from "./prompt";
+import { DEFAULT_PROMPT_TEMPLATE } from "./template";
+import { TranscriptDigester } from "./digest";
+import { buildCorrectionPrompt, resolveDecision, DecisionFormatError } from "./decision";
+import { log } from "../log";
 
 const DEFAULT_MAX_ITERATIONS = 50;
 const DEFAULT_TIMEOUT = 30000;
 const DEFAULT_MAX_CONSECUTIVE_FAILURES = 3;
+const DEFAULT_MAX_CORRECTIONS = 2;
 
 /**
  * Create a Claude Code CLI supervisor function
@@ -20,22 +25,56 @@ const DEFAULT_MAX_CONSECUTIVE_FAILURES = 3;
  * Spawns a fresh `claude -p` process for each decision.
  * Tracks iteration count and failure count in closure.
  *
- * @param config - Optional configuration (maxIterations, timeout, maxConsecutiveFailures)
+ * @param config - Optional configuration (maxIterations, timeout, maxConsecutiveFailures, decisionFormat)
  * @returns SupervisorFn compatible with HooksController.setSupervisor()
  */
 export function createClaudeSupervisor(config: ClaudeSupervisorConfig = {}): SupervisorFn {
   const {
     maxIterations = DEFAULT_MAX_ITERATIONS,
     timeout = DEFAULT_TIMEOUT,
+    claudeBin,
     maxConsecutiveFailures = DEFAULT_MAX_CONSECUTIVE_FAILURES,
     onIterationUpdate,
+    onPrompt,
+    decisionFormat = 'markers',
+    maxCorrections = DEFAULT_MAX_CORRECTIONS,
+    template = DEFAULT_PROMPT_TEMPLATE,
+    workerCwd,
+    transcriptBudget,
+    transcriptExchanges,
   } = config;
 
   // Closure state for iteration and failure tracking
   let iterationCount = 0;
   let consecutiveFailures = 0;
+  const digester = new TranscriptDigester({ maxTokens: transcriptBudget, recentExchanges: transcriptExchanges });
 
-  return async (context): Promise<SupervisorDecision> => {
+  // Record a supervisor failure; abort once too many happen in a row
+  function failure(reason: string, formatError = false): SupervisorDecision {
+    consecutiveFailures++;
+    console.error(`[Supervisor] ${reason} (failure ${consecutiveFailures}/${maxConsecutiveFailures})`);
+
+    // Abort after too many consecutive failures
+    if (consecutiveFailures >= maxConsecutiveFailures) {
+      console.error(`[Supervisor] Too many consecutive failures (${consecutiveFailures}), aborting`);
+      return {
+        action: 'abort',
+        command: '/clear',
+        reason: `Supervisor failed ${consecutiveFailures} times consecutively`,
+        confidence: 1.0,
+      };
+    }
+
+    // Continue monitoring on recoverable failure
+    return {
+      action: 'continue',
+      reason: `${reason}, resuming monitoring`,
+      confidence: 0.5,
+      ...(formatError && { formatError }),
+    };
+  }
+
+  const decide = async (context: SupervisorContext): Promise<SupervisorDecision> => {
     iterationCount++;
 
     // Notify UI of iteration progress
@@ -48,52 +87,55 @@ export function createClaudeSupervisor(config: ClaudeSupervisorConfig = {}): Sup
 
     // Enforce iteration budget - hard stop at limit
     if (iterationCount >= maxIterations) {
-      console.log(`[Supervisor] Iteration budget exhausted (${iterationCount}/${maxIterations})`);
+      log(`[Supervisor] Iteration budget exhausted (${iterationCount}/${maxIterations})`);
       return {
         action: 'abort',
         command: '/clear',
         reason: `Iteration budget exhausted (${iterationCount}/${maxIterations})`,
         confidence: 1.0,
+        budgetExhausted: true,
       };
     }
 
-    // Read the worker's transcript
-    const transcriptContent = await readTranscript(context.transcriptPath);
+    // Render the prompt template (reads the worker's transcript)
+    const prompt = await renderSupervisorPrompt(template, {
+      context,
+      iteration: iterationCount,
+      maxIterations,
+      decisionFormat,
+      cwd: workerCwd,
+      digester,
+    });
 
-    // Build prompt with transcript
-    const prompt = buildSupervisorPrompt(
-      transcriptContent,
-      context.taskDescription,
-      iterationCount,
-      maxIterations
-    );
+    onPrompt?.(prompt, template.version);
 
     // Spawn supervisor process
-    const result = await spawnSupervisor(prompt, timeout);
+    const result = await spawnSupervisor(prompt, timeout, claudeBin);
 
     // Handle spawn failures with consecutive failure tracking
     if (result.exitCode !== 0) {
-      consecutiveFailures++;
-      console.error(`[Supervisor] Process exited with code: ${result.exitCode} (failure ${consecutiveFailures}/${maxConsecutiveFailures})`);
       console.error('[Supervisor] Error:', result.error);
+      return failure(`Supervisor error (exit ${result.exitCode})`);
+    }
 
-      // Abort after too many consecutive failures
-      if (consecutiveFailures >= maxConsecutiveFailures) {
-        console.error(`[Supervisor] Too many consecutive failures (${consecutiveFailures}), aborting`);
-        return {
-          action: 'abort',
-          command: '/clear',
-          reason: `Supervisor failed ${consecutiveFailures} times consecutively`,
-          confidence: 1.0,
-        };
+    if (decisionFormat === 'json') {
+      try {
+        // Each claude -p is stateless, so corrections repeat the original prompt
+        const decision = await resolveDecision(result.output, async (errors, reply) => {
+          const correction = buildCorrectionPrompt(errors, { prompt, reply });
+          onPrompt?.(correction, template.version);
+          const retry = await spawnSupervisor(correction, timeout, claudeBin);
+          if (retry.exitCode !== 0) {
+            throw new Error(`Supervisor error (exit ${retry.exitCode})`);
+          }
+          return retry.output;
+        }, maxCorrections);
+
+        consecutiveFailures = 0;
+        return decision;
+      } catch (err) {
+        return failure(err instanceof Error ? err.message : String(err), err instanceof DecisionFormatError);
       }
-
-      // Continue monitoring on recoverable failure
-      return {
-        action: 'continue',
-        reason: `Supervisor error (exit ${result.exitCode}), resuming monitoring`,
-        confidence: 0.5,
-      };
     }
 
     // Success - reset consecutive failure counter
@@ -125,6 +167,34 @@ export function createClaudeSupervisor(config: ClaudeSupervisorConfig = {}): Sup
           reason: 'Supervisor continues work',
           confidence: 0.8,
         };
+
+      case 'rollback':
+        return {
+          action: 'rollback',
+          command: parsed.content,
+          ...(parsed.checkpointId && { checkpointId: parsed.checkpointId }),
+          reason: 'Supervisor rolled back the last iteration',
+          confidence: 0.8,
+        };
     }
   };
+
+  // Decisions that came from a prompt carry the template version
+  const supervisor: SupervisorFn = async (context) => {
+    const decision = await decide(context);
+    return decision.budgetExhausted ? decision : { ...decision, templateVersion: template.version };
+  };
+
+  // Reset counters when the controller moves on to the next queued task
+  supervisor.reset = () => {
+    iterationCount = 0;
+    consecutiveFailures = 0;
+  };
+
+  // Carry the iteration budget over when a run is resumed
+  supervisor.restore = (iterations) => {
+    iterationCount = iterations;
+  };
+
+  return supervisor;
 }
@@ -0,0 +1,85 @@
+import { test, expect } from "bun:test";
+import { parseDecision, resolveDecision, toSupervisorDecision, DecisionFormatError } from "./decision";
+
+test("parseDecision accepts a fenced JSON decision", () => {
+  const result = parseDecision(`Here is my decision:
+\`\`\`json
+{"action": "continue", "command": "add tests", "reason": "no tests", "confidence": 0.7, "expected_files": ["a.test.ts"]}
+\`\`\``);
+
+  expect(result).toEqual({
+    ok: true,
+    decision: {
+      action: "continue",
+      command: "add tests",
+      reason: "no tests",
+      confidence: 0.7,
+      expected_files: ["a.test.ts"],
+    },
+  });
+});
+
+test("parseDecision reports every schema violation", () => {
+  const result = parseDecision(`{"action": "continue", "confidence": 2, "extra": true}`);
+
+  expect(result.ok).toBe(false);
+  if (result.ok) return;
+  expect(result.errors).toEqual([
+    `unknown property "extra"`,
+    `"reason" must be a non-empty string`,
+    `"confidence" must be a number between 0 and 1`,
+    `"command" is required when action is "continue"`,
+  ]);
+});
+
+test("rollback decisions need a command and map the checkpoint id", () => {
+  const missing = parseDecision(`{"action": "rollback", "reason": "broke the build", "confidence": 0.8}`);
+  expect(missing).toEqual({ ok: false, errors: [`"command" is required when action is "rollback"`] });
+
+  const result = parseDecision(
+    `{"action": "rollback", "command": "redo it without touching a.ts", "checkpoint": "abc123", "reason": "broke the build", "confidence": 0.8}`
+  );
+  if (!result.ok) throw new Error(result.errors.join("; "));
+  expect(toSupervisorDecision(result.decision)).toEqual({
+    action: "rollback",
+    command: "redo it without touching a.ts",
+    checkpointId: "abc123",
+    reason: "broke the build",
+    confidence: 0.8,
+  });
+});
+
+test("parseDecision rejects replies without JSON", () => {
+  expect(parseDecision("[CONTINUE] do more")).toEqual({
+    ok: false,
+    errors: ["reply does not contain a JSON object"],
+  });
+});
+
+test("resolveDecision re-prompts until the reply is valid", async () => {
+  const corrections: string[][] = [];
+
+  const decision = await resolveDecision("not json", async (errors) => {
+    corrections.push(errors);
+    return `{"action": "complete", "reason": "done", "confidence": 0.95, "verification": "bun test"}`;
+  }, 2);
+
+  expect(corrections).toHaveLength(1);
+  expect(decision).toEqual({
+    action: "stop",
+    reason: "done",
+    confidence: 0.95,
+    verification: "bun test",
+  });
+});
+
+test("resolveDecision gives up after maxCorrections", async () => {
+  let calls = 0;
+  const pending = resolveDecision("garbage", async () => {
+    calls++;
+    return "still garbage";
+  }, 2);
+
+  await expect(pending).rejects.toBeInstanceOf(DecisionFormatError);
+  expect(calls).toBe(2);
+});
@@ -0,0 +1,244 @@
+/**
+ * Structured Decision Protocol
+ *
+ * JSON alternative to the bracketed markers in parse.ts. The supervisor
+ * replies with a single JSON object that is validated against
+ * DECISION_SCHEMA; malformed replies are answered with a corrective prompt
+ * instead of being injected into the worker.
+ */
+import type { SupervisorDecision } from "../hooks/types";
+
+/**
+ * Response format the supervisor is asked to use
+ */
+export type DecisionFormat = 'markers' | 'json';
+
+/**
+ * Decision object as written by the supervisor model
+ */
+export interface JsonDecision {
+  action: 'complete' | 'continue' | 'abort' | 'rollback';
+  /** Instruction for the worker (required for "continue" and "rollback") */
+  command?: string;
+  /** Checkpoint to restore before "rollback" (default: the previous one) */
+  checkpoint?: string;
+  reason: string;
+  /** Model-reported confidence, 0..1 */
+  confidence: number;
+  /** Files the worker is expected to create or change next */
+  expected_files?: string[];
+  /** Command or check that proves the work is done */
+  verification?: string;
+}
+
+/**
+ * Result of parsing a supervisor reply
+ */
+export type DecisionParseResult =
+  | { ok: true; decision: JsonDecision }
+  | { ok: false; errors: string[] };
+
+/**
+ * JSON Schema for the decision object (embedded in the supervisor prompt)
+ */
+export const DECISION_SCHEMA = {
+  type: "object",
+  required: ["action", "reason", "confidence"],
+  additionalProperties: false,
+  properties: {
+    action: { type: "string", enum: ["complete", "continue", "abort", "rollback"] },
+    command: { type: "string", description: "Exact instruction for the worker; required when action is \"continue\" or \"rollback\"" },
+    checkpoint: { type: "string", description: "Checkpoint id to restore when action is \"rollback\"" },
+    reason: { type: "string" },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+    expected_files: { type: "array", items: { type: "string" } },
+    verification: { type: "string" },
+  },
+} as const;
+
+const ACTIONS = DECISION_SCHEMA.properties.action.enum;
+
+/**
+ * Error raised when the supervisor keeps replying with invalid decisions
+ */
+export class DecisionFormatError extends Error {
+  constructor(
+    public readonly errors: string[],
+    public readonly raw: string
+  ) {
+    super(`Invalid supervisor decision: ${errors.join("; ")}`);
+    this.name = "DecisionFormatError";
+  }
+}
+
+/**
+ * Extract and validate the JSON decision in a supervisor reply.
+ * Accepts a bare object or one wrapped in a ```json fence.
+ */
+export function parseDecision(output: string): DecisionParseResult {
+  const json = extractJson(output);
+  if (json === null) {
+    return { ok: false, errors: ["reply does not contain a JSON object"] };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (err) {
+    return { ok: false, errors: [`reply is not valid JSON: ${err instanceof Error ? err.message : err}`] };
+  }
+
+  return validateDecision(value);
+}
+
+/**
+ * Validate a parsed value against DECISION_SCHEMA
+ */
+export function validateDecision(value: unknown): DecisionParseResult {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { ok: false, errors: ["decision must be a JSON object"] };
+  }
+
+  const obj = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const key of Object.keys(obj)) {
+    if (!(key in DECISION_SCHEMA.properties)) {
+      errors.push(`unknown property "${key}"`);
+    }
+  }
+
+  if (!ACTIONS.includes(obj.action as JsonDecision['action'])) {
+    errors.push(`"action" must be one of ${ACTIONS.map((a) => `"${a}"`).join(", ")}`);
+  }
+  if (typeof obj.reason !== "string" || obj.reason.trim() === "") {
+    errors.push(`"reason" must be a non-empty string`);
+  }
+  if (typeof obj.confidence !== "number" || obj.confidence < 0 || obj.confidence > 1) {
+    errors.push(`"confidence" must be a number between 0 and 1`);
+  }
+  if (obj.command !== undefined && typeof obj.command !== "string") {
+    errors.push(`"command" must be a string`);
+  }
+  if (
+    (obj.action === "continue" || obj.action === "rollback") &&
+    (typeof obj.command !== "string" || obj.command.trim() === "")
+  ) {
+    errors.push(`"command" is required when action is "${obj.action}"`);
+  }
+  if (obj.checkpoint !== undefined && typeof obj.checkpoint !== "string") {
+    errors.push(`"checkpoint" must be a string`);
+  }
+  if (
+    obj.expected_files !== undefined &&
+    (!Array.isArray(obj.expected_files) || !obj.expected_files.every((f) => typeof f === "string"))
+  ) {
+    errors.push(`"expected_files" must be an array of strings`);
+  }
+  if (obj.verification !== undefined && typeof obj.verification !== "string") {
+    errors.push(`"verification" must be a string`);
+  }
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, decision: obj as unknown as JsonDecision };
+}
+
+/**
+ * Map a validated JSON decision onto the controller's SupervisorDecision
+ */
+export function toSupervisorDecision(decision: JsonDecision): SupervisorDecision {
+  const details = {
+    confidence: decision.confidence,
+    ...(decision.expected_files && { expectedFiles: decision.expected_files }),
+    ...(decision.verification && { verification: decision.verification }),
+  };
+
+  switch (decision.action) {
+    case 'complete':
+      return { action: 'stop', reason: decision.reason, ...details };
+
+    case 'abort':
+      return { action: 'abort', command: '/clear', reason: decision.reason, ...details };
+
+    case 'continue':
+      return { action: 'inject', command: decision.command!.trim(), reason: decision.reason, ...details };
+
+    case 'rollback':
+      return {
+        action: 'rollback',
+        command: decision.command!.trim(),
+        reason: decision.reason,
+        ...(decision.checkpoint && { checkpointId: decision.checkpoint }),
+        ...details,
+      };
+  }
+}
+
+/**
+ * Prompt asking the supervisor to fix an invalid reply
+ *
+ * @param errors - Validation errors for the previous reply
+ * @param context - Original prompt and reply, for stateless supervisors that
+ *                  do not remember the previous turn
+ */
+export function buildCorrectionPrompt(
+  errors: string[],
+  context?: { prompt: string; reply: string }
+): string {
+  const correction = `Your reply was not a valid decision:
+${errors.map((e) => `- ${e}`).join("\n")}
+
+Reply again with ONLY a JSON object matching this schema, no other text:
+${JSON.stringify(DECISION_SCHEMA)}`;
+
+  if (!context) return correction;
+
+  return `${context.prompt}
+
+=== YOUR PREVIOUS REPLY ===
+${context.reply}
+=== END PREVIOUS REPLY ===
+
+${correction}`;
+}
+
+/**
+ * Parse a JSON decision, re-prompting with corrections until it validates
+ *
+ * @param output - First supervisor reply
+ * @param send - Asks the supervisor to correct the given errors in its
+ *               previous reply (see buildCorrectionPrompt) and returns the new reply
+ * @param maxCorrections - How many corrective re-prompts to attempt
+ * @returns The validated decision
+ * @throws DecisionFormatError if the reply is still invalid after maxCorrections
+ */
+export async function resolveDecision(
+  output: string,
+  send: (errors: string[], reply: string) => Promise<string>,
+  maxCorrections: number
+): Promise<SupervisorDecision> {
+  let reply = output;
+  for (let attempt = 0; ; attempt++) {
+    const parsed = parseDecision(reply);
+    if (parsed.ok) {
+      return toSupervisorDecision(parsed.decision);
+    }
+
+    console.warn(`[resolveDecision] Invalid decision (attempt ${attempt + 1}): ${parsed.errors.join("; ")}`);
+    if (attempt >= maxCorrections) {
+      throw new DecisionFormatError(parsed.errors, reply);
+    }
+    reply = await send(parsed.errors, reply);
+  }
+}
+
+function extractJson(output: string): string | null {
+  const fenced = output.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = (fenced?.[1] ?? output).trim();
+
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+  return text.slice(start, end + 1);
+}
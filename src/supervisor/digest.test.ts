@@ -0,0 +1,78 @@
+import { test, expect } from "bun:test";
+import { appendFileSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { TranscriptDigester, renderDigest, type TranscriptDigest } from "./digest";
+
+function line(type: "user" | "assistant", content: unknown): string {
+  return JSON.stringify({ type, message: { role: type, content } }) + "\n";
+}
+
+function toolUse(id: string, name: string, input: Record<string, unknown>): string {
+  return line("assistant", [{ type: "tool_use", id, name, input }]);
+}
+
+function toolResult(id: string, content: string, isError = false): string {
+  return line("user", [{ type: "tool_result", tool_use_id: id, content, is_error: isError }]);
+}
+
+test("digest is built incrementally from appended lines", async () => {
+  const path = join(mkdtempSync(join(tmpdir(), "cco-digest-")), "session.jsonl");
+  writeFileSync(path,
+    line("user", "Add a --dry-run flag") +
+    line("assistant", [{ type: "text", text: "Plan: parse the flag, then skip writes." }]) +
+    toolUse("t1", "Edit", { file_path: "src/cli.ts" }) +
+    toolResult("t1", "ok") +
+    toolUse("t2", "Bash", { command: "bun test" }) +
+    toolResult("t2", "Exit code 1\n1 fail", true) +
+    // Half-written line: read once it is complete
+    line("assistant", [{ type: "text", text: "Fixing the test" }]).slice(0, 20)
+  );
+
+  const digester = new TranscriptDigester({ recentExchanges: 2 });
+  const first = await digester.update(path);
+  expect(first.task).toBe("Add a --dry-run flag");
+  expect(first.plan).toBe("Plan: parse the flag, then skip writes.");
+  expect(first.filesTouched).toEqual(["src/cli.ts"]);
+  expect(first.commands).toEqual([{ command: "bun test", status: 'error', exitCode: 1 }]);
+  expect(first.unresolvedErrors).toEqual([{ toolName: "Bash", target: "bun test", message: "Exit code 1\n1 fail" }]);
+
+  appendFileSync(path,
+    line("assistant", [{ type: "text", text: "Fixing the test" }]).slice(20) +
+    toolUse("t3", "Bash", { command: "bun test" }) +
+    toolResult("t3", "3 pass") +
+    line("assistant", [{ type: "text", text: "Done." }])
+  );
+
+  const second = await digester.update(path);
+  expect(second.task).toBe("Add a --dry-run flag");
+  expect(second.commands.map((c) => c.exitCode)).toEqual([1, 0]);
+  expect(second.unresolvedErrors).toEqual([]);
+  expect(second.exchanges).toEqual([
+    { role: 'assistant', text: "Fixing the test" },
+    { role: 'assistant', text: "Done." },
+  ]);
+
+  // A rewritten (shorter) file starts over
+  writeFileSync(path, line("user", "New task"));
+  expect((await digester.update(path)).task).toBe("New task");
+});
+
+test("rendered digest keeps the task and newest exchanges within the budget", () => {
+  const digest: TranscriptDigest = {
+    task: "Migrate the store to SQLite",
+    plan: "[x] schema\n[~] queries\n[ ] tests",
+    filesTouched: ["src/store.ts"],
+    commands: [{ command: "bun test", status: 'ok', exitCode: 0 }],
+    unresolvedErrors: [],
+    exchanges: Array.from({ length: 40 }, (_, i) => ({ role: 'assistant' as const, text: `step ${i} `.repeat(30) })),
+  };
+
+  const text = renderDigest(digest, 500);
+  expect(text.length).toBeLessThanOrEqual(2000);
+  expect(text).toContain("ORIGINAL TASK:\nMigrate the store to SQLite");
+  expect(text).toContain("PLAN:\n[x] schema");
+  expect(text).toContain("[exit 0] bun test");
+  expect(text).toContain("step 39");
+  expect(text).not.toContain("step 30 ");
+});
@@ -0,0 +1,300 @@
+/**
+ * Transcript Digester
+ *
+ * Builds a structured summary of the worker's session transcript for the
+ * supervisor prompt: the original task, the worker's plan, files touched,
+ * commands run, errors not yet resolved and the latest exchanges. Only the
+ * records appended since the last Stop event are folded in (the shared
+ * TranscriptWatcher tails the JSONL by byte offset), and the rendered digest
+ * is trimmed to a token budget.
+ */
+
+import { watchTranscript, type TranscriptRecord } from "../transcript";
+
+export const DEFAULT_TRANSCRIPT_BUDGET = 6000;
+export const DEFAULT_TRANSCRIPT_EXCHANGES = 8;
+
+/** Rough characters per token for budgeting (no tokenizer needed) */
+const CHARS_PER_TOKEN = 4;
+
+/** Tools whose file_path (or notebook_path) input is a file the worker changed */
+const FILE_TOOLS = new Set(["Write", "Edit", "MultiEdit", "NotebookEdit"]);
+
+/**
+ * A command the worker ran through the Bash tool
+ */
+export interface CommandRun {
+  command: string;
+  status: 'ok' | 'error' | 'running';
+  /** Exit code reported in the tool result, when there is one */
+  exitCode: number | null;
+}
+
+/**
+ * A failed tool call with no later successful call on the same target
+ */
+export interface UnresolvedError {
+  toolName: string;
+  /** Command or file the call was about */
+  target: string;
+  message: string;
+}
+
+/**
+ * A user or assistant message
+ */
+export interface Exchange {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+/**
+ * Structured summary of a transcript
+ */
+export interface TranscriptDigest {
+  /** First user message of the session */
+  task: string | null;
+  /** Latest todo list, or the worker's first reply when it never wrote one */
+  plan: string | null;
+  /** Files written or edited, in first-touched order */
+  filesTouched: string[];
+  commands: CommandRun[];
+  unresolvedErrors: UnresolvedError[];
+  /** Most recent messages, oldest first */
+  exchanges: Exchange[];
+}
+
+export interface TranscriptDigesterOptions {
+  /** Token budget for the rendered digest (default: 6000) */
+  maxTokens?: number;
+  /** Recent messages kept for the digest (default: 8) */
+  recentExchanges?: number;
+}
+
+interface ToolCall {
+  name: string;
+  target: string;
+  /** Index into commands, for Bash calls */
+  command: number | null;
+}
+
+/**
+ * Digest state for one transcript file
+ */
+class DigestState {
+  /** Records of the watcher's entries folded in so far */
+  consumed = 0;
+  firstAssistantText: string | null = null;
+  todos: string | null = null;
+  files = new Set<string>();
+  pending = new Map<string, ToolCall>();
+  errors = new Map<string, UnresolvedError>();
+  digest: TranscriptDigest = {
+    task: null,
+    plan: null,
+    filesTouched: [],
+    commands: [],
+    unresolvedErrors: [],
+    exchanges: [],
+  };
+
+  constructor(private readonly recentExchanges: number) {}
+
+  add(record: TranscriptRecord): void {
+    if (record.isMeta || (record.type !== "user" && record.type !== "assistant")) return;
+
+    if (record.text) {
+      if (record.type === "user") {
+        this.digest.task ??= record.text;
+      } else {
+        this.firstAssistantText ??= record.text;
+      }
+      this.digest.exchanges.push({ role: record.type, text: record.text });
+      if (this.digest.exchanges.length > this.recentExchanges) {
+        this.digest.exchanges.shift();
+      }
+    }
+
+    for (const use of record.toolUses) {
+      this.toolUse(use.id, use.name, use.input);
+    }
+    for (const result of record.toolResults) {
+      this.toolResult(result.toolUseId, result.content, result.isError);
+    }
+  }
+
+  finish(): TranscriptDigest {
+    this.digest.plan = this.todos ?? this.firstAssistantText;
+    this.digest.filesTouched = [...this.files];
+    this.digest.unresolvedErrors = [...this.errors.values()];
+    return this.digest;
+  }
+
+  private toolUse(id: string, name: string, input: Record<string, unknown>): void {
+    let target = name;
+    let command: number | null = null;
+
+    if (name === "Bash" && typeof input.command === "string") {
+      target = input.command;
+      command = this.digest.commands.push({ command: input.command, status: 'running', exitCode: null }) - 1;
+    } else if (FILE_TOOLS.has(name)) {
+      const path = input.file_path ?? input.notebook_path;
+      if (typeof path === "string") {
+        target = path;
+        this.files.add(path);
+      }
+    } else if (name === "TodoWrite" && Array.isArray(input.todos)) {
+      this.todos = formatTodos(input.todos);
+    }
+    this.pending.set(id, { name, target, command });
+  }
+
+  private toolResult(id: string, output: string, isError: boolean): void {
+    const call = this.pending.get(id);
+    if (!call) return;
+    this.pending.delete(id);
+
+    const key = `${call.name}\0${call.target}`;
+    const exitCode = Number(output.match(/^Exit code (\d+)/)?.[1] ?? NaN);
+    const command = call.command !== null ? this.digest.commands[call.command] : undefined;
+    if (command) {
+      command.status = isError ? 'error' : 'ok';
+      command.exitCode = Number.isNaN(exitCode) ? (isError ? null : 0) : exitCode;
+    }
+
+    if (isError) {
+      // Re-inserted so the newest failure sorts last
+      this.errors.delete(key);
+      this.errors.set(key, { toolName: call.name, target: call.target, message: output.trim() });
+    } else {
+      this.errors.delete(key);
+    }
+  }
+}
+
+/**
+ * Incremental transcript digester. Keep one per supervisor: each call reads
+ * only what was appended to the transcript since the previous one.
+ */
+export class TranscriptDigester {
+  private readonly maxTokens: number;
+  private readonly recentExchanges: number;
+  private path: string | null = null;
+  private generation = 0;
+  private state: DigestState;
+
+  constructor(options: TranscriptDigesterOptions = {}) {
+    this.maxTokens = options.maxTokens ?? DEFAULT_TRANSCRIPT_BUDGET;
+    this.recentExchanges = options.recentExchanges ?? DEFAULT_TRANSCRIPT_EXCHANGES;
+    this.state = new DigestState(this.recentExchanges);
+  }
+
+  /**
+   * Read new transcript lines and return the updated digest.
+   * A different path (new session) or a rewritten file starts over.
+   */
+  async update(transcriptPath: string): Promise<TranscriptDigest> {
+    const watcher = watchTranscript(transcriptPath);
+    await watcher.read();
+
+    if (transcriptPath !== this.path || watcher.generation !== this.generation) {
+      this.path = transcriptPath;
+      this.generation = watcher.generation;
+      this.state = new DigestState(this.recentExchanges);
+    }
+
+    const records = watcher.entries;
+    for (; this.state.consumed < records.length; this.state.consumed++) {
+      this.state.add(records[this.state.consumed]!);
+    }
+    return this.state.finish();
+  }
+
+  /**
+   * Update from the transcript and render the digest for the supervisor prompt
+   */
+  async render(transcriptPath: string): Promise<string> {
+    try {
+      return renderDigest(await this.update(transcriptPath), this.maxTokens);
+    } catch (err) {
+      console.error(`[TranscriptDigester] Failed to read transcript: ${err}`);
+      return "(failed to read transcript)";
+    }
+  }
+}
+
+/**
+ * Render a digest as prompt text within a token budget. Task, plan, errors,
+ * files and commands get fixed shares; recent exchanges fill the rest,
+ * newest first.
+ */
+export function renderDigest(digest: TranscriptDigest, maxTokens: number = DEFAULT_TRANSCRIPT_BUDGET): string {
+  const budget = maxTokens * CHARS_PER_TOKEN;
+  const sections: string[] = [];
+
+  sections.push(`ORIGINAL TASK:\n${clip(digest.task ?? "(none yet)", budget * 0.15)}`);
+  if (digest.plan) {
+    sections.push(`PLAN:\n${clip(digest.plan, budget * 0.15)}`);
+  }
+  if (digest.unresolvedErrors.length > 0) {
+    const errors = digest.unresolvedErrors.map((e) =>
+      `- ${e.toolName}${e.target !== e.toolName ? ` ${clip(e.target, 200)}` : ""}: ${clip(e.message, 400)}`
+    );
+    sections.push(`UNRESOLVED ERRORS:\n${takeLast(errors, budget * 0.15).join("\n")}`);
+  }
+  if (digest.filesTouched.length > 0) {
+    const files = takeLast(digest.filesTouched, budget * 0.1);
+    const omitted = digest.filesTouched.length - files.length;
+    sections.push(`FILES TOUCHED (${digest.filesTouched.length}):\n${omitted > 0 ? `... ${omitted} more\n` : ""}${files.join("\n")}`);
+  }
+  if (digest.commands.length > 0) {
+    const commands = takeLast(digest.commands.map(formatCommand), budget * 0.15);
+    sections.push(`COMMANDS (last ${commands.length} of ${digest.commands.length}):\n${commands.join("\n")}`);
+  }
+
+  const used = sections.reduce((n, s) => n + s.length + 2, 0);
+  const exchanges = takeLast(
+    digest.exchanges.map((e) => `[${e.role.toUpperCase()}] ${clip(e.text, 1500)}`),
+    Math.max(budget - used - 20, 0),
+    "\n\n"
+  );
+  if (exchanges.length > 0) {
+    sections.push(`RECENT EXCHANGES:\n${exchanges.join("\n\n")}`);
+  }
+
+  return clip(sections.join("\n\n"), budget);
+}
+
+function formatCommand(run: CommandRun): string {
+  const status = run.status === 'running'
+    ? "[running]"
+    : run.exitCode !== null ? `[exit ${run.exitCode}]` : `[${run.status}]`;
+  return `${status} ${clip(run.command, 300)}`;
+}
+
+function formatTodos(todos: unknown[]): string {
+  return todos
+    .map((todo) => {
+      const { content, status } = (todo ?? {}) as { content?: unknown; status?: unknown };
+      const mark = status === "completed" ? "x" : status === "in_progress" ? "~" : " ";
+      return `[${mark}] ${String(content ?? "")}`;
+    })
+    .join("\n");
+}
+
+/** Newest items that fit in maxChars, oldest first */
+function takeLast(items: string[], maxChars: number, separator = "\n"): string[] {
+  const kept: string[] = [];
+  let size = 0;
+  for (let i = items.length - 1; i >= 0; i--) {
+    size += items[i]!.length + separator.length;
+    if (size > maxChars) break;
+    kept.unshift(items[i]!);
+  }
+  return kept;
+}
+
+function clip(text: string, maxChars: number): string {
+  const limit = Math.floor(maxChars);
+  return text.length > limit ? `${text.slice(0, Math.max(limit - 15, 0))}... (truncated)` : text;
+}
@@ -11,6 +11,35 @@ export type { MockSupervisorOptions } from "./mock";
 // Claude CLI supervisor (spawn-based, legacy)
 export { createClaudeSupervisor } from "./claude";
 
+// Messages API supervisor (no claude binary, works against a local stand-in)
+export { createApiSupervisor } from "./api";
+export type { ApiSupervisorConfig } from "./api";
+
+// Rule-based supervisor, composed in front of any other supervisor
+export {
+  createRuleSupervisor,
+  loadRules,
+  compileRule,
+  compileCondition,
+  toolErrorRepeated,
+  fileMatches,
+  commandSucceeds,
+  gitDiffNonEmpty,
+  transcriptMatches,
+  all,
+  any,
+  not,
+} from "./rules";
+export type {
+  SupervisorRule,
+  RuleContext,
+  RuleCondition,
+  RuleDecision,
+  ConditionSpec,
+  JsonRule,
+  RuleSupervisorOptions,
+} from "./rules";
+
 // Interactive PTY-based supervisor (recommended)
 export {
   InteractiveSupervisor,
@@ -27,9 +56,45 @@ export type {
   SpawnResult,
   ParsedResponse,
   ClaudeSupervisorConfig,
+  IterationInfo,
 } from "./types";
 
 // Internal utilities (exported for testing/advanced use)
 export { spawnSupervisor } from "./spawn";
+export { requestMessages } from "./messages";
+export type { MessageParam, MessagesRequestOptions, MessagesResult } from "./messages";
 export { parseResponse } from "./parse";
-export { buildSupervisorPrompt } from "./prompt";
+export {
+  parseDecision,
+  validateDecision,
+  resolveDecision,
+  buildCorrectionPrompt,
+  DecisionFormatError,
+  DECISION_SCHEMA,
+} from "./decision";
+export type { DecisionFormat, JsonDecision, DecisionParseResult } from "./decision";
+export { buildSupervisorPrompt, renderSupervisorPrompt } from "./prompt";
+export type { PromptInput } from "./prompt";
+export {
+  loadPromptTemplate,
+  createPromptTemplate,
+  validateTemplate,
+  renderTemplate,
+  PromptTemplateError,
+  DEFAULT_PROMPT_TEMPLATE,
+  TEMPLATE_VARIABLES,
+} from "./template";
+export type { PromptTemplate, TemplateVariable, TemplateValues } from "./template";
+export {
+  TranscriptDigester,
+  renderDigest,
+  DEFAULT_TRANSCRIPT_BUDGET,
+  DEFAULT_TRANSCRIPT_EXCHANGES,
+} from "./digest";
+export type {
+  TranscriptDigest,
+  TranscriptDigesterOptions,
+  CommandRun,
+  UnresolvedError,
+  Exchange,
+} from "./digest";
@@ -11,27 +11,33 @@ import type { SupervisorFn } from "../hooks/controller";
 import type { SupervisorDecision } from "../hooks/types";
 import type { ClaudeSupervisorConfig, IterationInfo, SupervisorContext } from "./types";
 import { parseResponse } from "./parse";
-import { buildSupervisorPrompt, readTranscript } from "./prompt";
+import { renderSupervisorPrompt } from "./prompt";
+import { DEFAULT_PROMPT_TEMPLATE } from "./template";
+import { DEFAULT_TRANSCRIPT_BUDGET, DEFAULT_TRANSCRIPT_EXCHANGES, TranscriptDigester } from "./digest";
+import { buildCorrectionPrompt, resolveDecision, DecisionFormatError } from "./decision";
 import { setSupervisorStopCallback } from "../server/routes";
+import { readTranscriptRecords } from "../transcript";
+import { DEFAULT_CLAUDE_BIN, DEFAULT_READY_INDICATORS } from "../config";
+import { DEFAULT_COLS, DEFAULT_ROWS } from "../pty";
 import { mkdir } from "node:fs/promises";
 import { existsSync } from "node:fs";
+import { log } from "../log";
 
 const DEFAULT_MAX_ITERATIONS = 50;
 const DEFAULT_RESPONSE_TIMEOUT = 60000; // 60s for interactive responses
 const DEFAULT_MAX_CONSECUTIVE_FAILURES = 3;
-
-/** Patterns indicating Claude is waiting for input (for startup detection) */
-const STARTUP_READY_INDICATORS = [
-  "bypass permissions on",      // Always shown when ready
-  "Claude Code",                // Banner
-  "shift+tab to cycle",         // Permission prompt
-];
+const DEFAULT_MAX_CORRECTIONS = 2;
+const DEFAULT_STARTUP_TIMEOUT = 30000;
 
 export interface InteractiveSupervisorConfig extends ClaudeSupervisorConfig {
   /** Working directory for supervisor Claude (default: ./master) */
   cwd?: string;
   /** Response timeout in ms (default: 60000) */
   responseTimeout?: number;
+  /** Startup timeout in ms (default: 30000) */
+  startupTimeout?: number;
+  /** Output meaning Claude is ready for input (default: DEFAULT_READY_INDICATORS) */
+  readyIndicators?: string[];
   /** Callback for supervisor output (for debugging/UI) */
   onOutput?: (data: string) => void;
   /** Callback when supervisor PTY state changes */
@@ -57,27 +63,45 @@ export class InteractiveSupervisor {
   private terminal: Terminal | null = null;
   private state: SupervisorPTYState = "stopped";
   private outputBuffer = "";
+  private transcriptPath: string | null = null;
   private responseResolver: ((transcriptPath: string) => void) | null = null;
   private responseRejecter: ((error: Error) => void) | null = null;
   private responseTimeout: ReturnType<typeof setTimeout> | null = null;
-  private config: Required<Omit<InteractiveSupervisorConfig, 'onIterationUpdate' | 'onOutput' | 'onStateChange'>> &
-                  Pick<InteractiveSupervisorConfig, 'onIterationUpdate' | 'onOutput' | 'onStateChange'>;
+  private config: Required<Omit<InteractiveSupervisorConfig, 'onIterationUpdate' | 'onPrompt' | 'onOutput' | 'onStateChange'>> &
+                  Pick<InteractiveSupervisorConfig, 'onIterationUpdate' | 'onPrompt' | 'onOutput' | 'onStateChange'>;
 
   // Iteration tracking
   private iterationCount = 0;
   private consecutiveFailures = 0;
 
+  // Worker transcript digest, kept across Stop events
+  private digester: TranscriptDigester;
+
   constructor(config: InteractiveSupervisorConfig = {}) {
     this.config = {
       maxIterations: config.maxIterations ?? DEFAULT_MAX_ITERATIONS,
       timeout: config.timeout ?? DEFAULT_RESPONSE_TIMEOUT,
       responseTimeout: config.responseTimeout ?? DEFAULT_RESPONSE_TIMEOUT,
+      startupTimeout: config.startupTimeout ?? DEFAULT_STARTUP_TIMEOUT,
+      readyIndicators: config.readyIndicators ?? DEFAULT_READY_INDICATORS,
+      claudeBin: config.claudeBin ?? DEFAULT_CLAUDE_BIN,
       maxConsecutiveFailures: config.maxConsecutiveFailures ?? DEFAULT_MAX_CONSECUTIVE_FAILURES,
       cwd: config.cwd ?? "./master",
+      decisionFormat: config.decisionFormat ?? "markers",
+      maxCorrections: config.maxCorrections ?? DEFAULT_MAX_CORRECTIONS,
       onIterationUpdate: config.onIterationUpdate,
+      template: config.template ?? DEFAULT_PROMPT_TEMPLATE,
+      workerCwd: config.workerCwd ?? process.cwd(),
+      transcriptBudget: config.transcriptBudget ?? DEFAULT_TRANSCRIPT_BUDGET,
+      transcriptExchanges: config.transcriptExchanges ?? DEFAULT_TRANSCRIPT_EXCHANGES,
+      onPrompt: config.onPrompt,
       onOutput: config.onOutput,
       onStateChange: config.onStateChange,
     };
+    this.digester = new TranscriptDigester({
+      maxTokens: this.config.transcriptBudget,
+      recentExchanges: this.config.transcriptExchanges,
+    });
   }
 
   /**
@@ -95,13 +119,15 @@ export class InteractiveSupervisor {
     const cwd = this.config.cwd;
     if (!existsSync(cwd)) {
       await mkdir(cwd, { recursive: true });
-      console.log(`[InteractiveSupervisor] Created working directory: ${cwd}`);
+      log(`[InteractiveSupervisor] Created working directory: ${cwd}`);
     }
 
     // Register callback for supervisor stop hook
-    // Hook is configured in ./master/.claude/settings.local.json to POST to /api/supervisor/stop
+    // Hook is written to ./master/.claude/settings.local.json by `cco hooks install`
+    // and POSTs to /api/supervisor/stop
     setSupervisorStopCallback((event) => {
-      console.log(`[InteractiveSupervisor] Stop hook received, transcript: ${event.transcript_path}`);
+      log(`[InteractiveSupervisor] Stop hook received, transcript: ${event.transcript_path}`);
+      this.transcriptPath = event.transcript_path;
       if (this.responseResolver) {
         this.responseResolver(event.transcript_path);
         this.responseResolver = null;
@@ -109,16 +135,14 @@ export class InteractiveSupervisor {
       }
     });
 
-    const claudeBin = `${process.env.HOME}/.claude/local/claude`;
-
     const decoder = new TextDecoder();
 
     // Spawn interactive Claude with PTY
-    this.proc = Bun.spawn([claudeBin, "--dangerously-skip-permissions"], {
+    this.proc = Bun.spawn([this.config.claudeBin, "--dangerously-skip-permissions"], {
       cwd,
       terminal: {
-        cols: 120,
-        rows: 40,
+        cols: DEFAULT_COLS,
+        rows: DEFAULT_ROWS,
         data: (_terminal, data) => {
           // Decode Uint8Array to string
           this.handleOutput(decoder.decode(data));
@@ -137,16 +161,16 @@ export class InteractiveSupervisor {
 
     // Handle process exit
     this.proc.exited.then((exitCode) => {
-      console.log(`[InteractiveSupervisor] Process exited with code: ${exitCode}`);
+      log(`[InteractiveSupervisor] Process exited with code: ${exitCode}`);
       this.setState("stopped");
       this.proc = null;
       this.terminal = null;
     });
 
     // Wait for Claude to be ready
-    await this.waitForReady();
+    await this.waitForReady(this.config.startupTimeout);
     this.setState("ready");
-    console.log("[InteractiveSupervisor] Claude is ready");
+    log("[InteractiveSupervisor] Claude is ready");
   }
 
   /**
@@ -253,44 +277,26 @@ export class InteractiveSupervisor {
     });
   }
 
+  /**
+   * Path of the supervisor session's transcript (known after its first reply)
+   */
+  getTranscriptPath(): string | null {
+    return this.transcriptPath;
+  }
+
   /**
    * Extract the last assistant response from a transcript JSONL file
    */
   private async extractResponseFromTranscript(transcriptPath: string): Promise<string> {
-    console.log(`[InteractiveSupervisor] Reading transcript: ${transcriptPath}`);
-    const file = Bun.file(transcriptPath);
-    const text = await file.text();
-    const lines = text.trim().split("\n").filter(line => line.length > 0);
-    console.log(`[InteractiveSupervisor] Transcript has ${lines.length} lines`);
+    log(`[InteractiveSupervisor] Reading transcript: ${transcriptPath}`);
+    const records = await readTranscriptRecords(transcriptPath);
+    log(`[InteractiveSupervisor] Transcript has ${records.length} lines`);
 
-    // Parse JSONL and find the last assistant message
-    let lastAssistantMessage = "";
+    // Find the last assistant message with text
+    const lastAssistant = records.findLast((record) => record.type === "assistant" && record.text);
+    const lastAssistantMessage = lastAssistant?.text ?? "";
 
-    for (const line of lines) {
-      try {
-        const entry = JSON.parse(line);
-        // Look for assistant messages
-        if (entry.type === "assistant" && entry.message?.content) {
-          // Content can be array of blocks or string
-          const content = entry.message.content;
-          if (typeof content === "string") {
-            lastAssistantMessage = content;
-          } else if (Array.isArray(content)) {
-            // Extract text from content blocks
-            const textBlocks = content
-              .filter((block: { type: string }) => block.type === "text")
-              .map((block: { text: string }) => block.text);
-            if (textBlocks.length > 0) {
-              lastAssistantMessage = textBlocks.join("\n");
-            }
-          }
-        }
-      } catch {
-        // Skip malformed lines
-      }
-    }
-
-    console.log(`[InteractiveSupervisor] Extracted assistant message (${lastAssistantMessage.length} chars): "${lastAssistantMessage.slice(0, 200)}"`);
+    log(`[InteractiveSupervisor] Extracted assistant message (${lastAssistantMessage.length} chars): "${lastAssistantMessage.slice(0, 200)}"`);
     return lastAssistantMessage;
   }
 
@@ -298,7 +304,9 @@ export class InteractiveSupervisor {
    * Create a supervisor function compatible with HooksController
    */
   createSupervisorFn(): SupervisorFn {
-    return async (context: SupervisorContext): Promise<SupervisorDecision> => {
+    const { template } = this.config;
+
+    const decide = async (context: SupervisorContext): Promise<SupervisorDecision> => {
       this.iterationCount++;
 
       // Notify UI of iteration progress
@@ -311,27 +319,27 @@ export class InteractiveSupervisor {
 
       // Enforce iteration budget
       if (this.iterationCount >= this.config.maxIterations) {
-        console.log(`[InteractiveSupervisor] Iteration budget exhausted (${this.iterationCount}/${this.config.maxIterations})`);
+        log(`[InteractiveSupervisor] Iteration budget exhausted (${this.iterationCount}/${this.config.maxIterations})`);
         return {
           action: 'abort',
           command: '/clear',
           reason: `Iteration budget exhausted (${this.iterationCount}/${this.config.maxIterations})`,
           confidence: 1.0,
+          budgetExhausted: true,
         };
       }
 
-      // Read the worker's transcript
-      console.log(`[InteractiveSupervisor] Reading worker transcript: ${context.transcriptPath}`);
-      const transcriptContent = await readTranscript(context.transcriptPath);
-      console.log(`[InteractiveSupervisor] Transcript content (${transcriptContent.length} chars)`);
-
-      // Build prompt with transcript
-      const prompt = buildSupervisorPrompt(
-        transcriptContent,
-        context.taskDescription,
-        this.iterationCount,
-        this.config.maxIterations
-      );
+      // Render the prompt template (reads the worker's transcript)
+      log(`[InteractiveSupervisor] Reading worker transcript: ${context.transcriptPath}`);
+      const prompt = await renderSupervisorPrompt(template, {
+        context,
+        iteration: this.iterationCount,
+        maxIterations: this.config.maxIterations,
+        decisionFormat: this.config.decisionFormat,
+        cwd: this.config.workerCwd,
+        digester: this.digester,
+      });
+      log(`[InteractiveSupervisor] Prompt ${template.version} (${prompt.length} chars)`);
 
       try {
         // Ensure supervisor is running
@@ -340,17 +348,30 @@ export class InteractiveSupervisor {
         }
 
         // Send prompt and get response
+        this.config.onPrompt?.(prompt, template.version);
         const output = await this.sendPrompt(prompt);
 
+        // Log raw response for debugging
+        log(`[InteractiveSupervisor] Raw response (${output.length} chars): ${output.slice(0, 500)}`);
+
+        if (this.config.decisionFormat === "json") {
+          // The supervisor session remembers its reply, so corrections only list the errors
+          const decision = await resolveDecision(output, (errors) => {
+            const correction = buildCorrectionPrompt(errors);
+            this.config.onPrompt?.(correction, template.version);
+            return this.sendPrompt(correction);
+          }, this.config.maxCorrections);
+          this.consecutiveFailures = 0;
+          log(`[InteractiveSupervisor] Decision: action=${decision.action}, confidence=${decision.confidence}`);
+          return decision;
+        }
+
         // Success - reset failure counter
         this.consecutiveFailures = 0;
 
-        // Log raw response for debugging
-        console.log(`[InteractiveSupervisor] Raw response (${output.length} chars): ${output.slice(0, 500)}`);
-
         // Parse response
         const parsed = parseResponse(output);
-        console.log(`[InteractiveSupervisor] Parsed: action=${parsed.action}, content="${parsed.content.slice(0, 100)}"`);
+        log(`[InteractiveSupervisor] Parsed: action=${parsed.action}, content="${parsed.content.slice(0, 100)}"`);
 
         switch (parsed.action) {
           case 'complete':
@@ -384,6 +405,15 @@ export class InteractiveSupervisor {
               reason: 'Supervisor continues work',
               confidence: 0.8,
             };
+
+          case 'rollback':
+            return {
+              action: 'rollback',
+              command: parsed.content,
+              ...(parsed.checkpointId && { checkpointId: parsed.checkpointId }),
+              reason: 'Supervisor rolled back the last iteration',
+              confidence: 0.8,
+            };
         }
       } catch (err) {
         this.consecutiveFailures++;
@@ -400,6 +430,16 @@ export class InteractiveSupervisor {
           };
         }
 
+        // An invalid decision is a reply problem, not a broken PTY
+        if (err instanceof DecisionFormatError) {
+          return {
+            action: 'continue',
+            reason: `${err.message}, resuming monitoring`,
+            confidence: 0.5,
+            formatError: true,
+          };
+        }
+
         // Try to restart on failure
         try {
           await this.stop();
@@ -415,6 +455,18 @@ export class InteractiveSupervisor {
         };
       }
     };
+
+    // Decisions that came from a prompt carry the template version
+    const supervisor: SupervisorFn = async (context) => {
+      const decision = await decide(context);
+      return decision.budgetExhausted ? decision : { ...decision, templateVersion: template.version };
+    };
+
+    supervisor.reset = () => this.resetIterations();
+    supervisor.restore = (iterations) => {
+      this.iterationCount = iterations;
+    };
+    return supervisor;
   }
 
   /** Reset iteration count (call when starting new task) */
@@ -491,7 +543,7 @@ export class InteractiveSupervisor {
     return responseLines.join("\n").trim();
   }
 
-  private async waitForReady(timeout = 30000): Promise<void> {
+  private async waitForReady(timeout: number): Promise<void> {
     return new Promise((resolve, reject) => {
       const timeoutId = setTimeout(() => {
         reject(new Error(`Supervisor startup timeout after ${timeout}ms`));
@@ -502,7 +554,7 @@ export class InteractiveSupervisor {
       const checkReady = () => {
         // Check if we have enough output and see ready indicators
         if (this.outputBuffer.length > originalBuffer.length + 100) {
-          for (const indicator of STARTUP_READY_INDICATORS) {
+          for (const indicator of this.config.readyIndicators) {
             if (this.outputBuffer.includes(indicator)) {
               clearTimeout(timeoutId);
               resolve();
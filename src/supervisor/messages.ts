@@ -0,0 +1,204 @@
+/**
+ * Messages API Client
+ *
+ * Minimal fetch-based client for an Anthropic-compatible Messages endpoint
+ * (POST {baseUrl}/v1/messages). Supports streaming (server-sent events) and
+ * reports token usage for every request.
+ */
+import type { TokenUsage } from "../hooks/types";
+
+const DEFAULT_TIMEOUT = 60000;
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/**
+ * A single conversation turn
+ */
+export interface MessageParam {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Connection and model settings for a Messages request
+ */
+export interface MessagesRequestOptions {
+  /** API base URL, without the /v1/messages path */
+  baseUrl: string;
+  /** API key sent as x-api-key (omitted if empty) */
+  apiKey?: string;
+  model: string;
+  maxTokens: number;
+  /** Optional system prompt */
+  system?: string;
+  /** Use server-sent events instead of a single JSON response */
+  stream?: boolean;
+  /** Request timeout in ms (default: 60000) */
+  timeout?: number;
+  /** Called with each text delta while streaming */
+  onText?: (text: string) => void;
+}
+
+/**
+ * Result of a Messages request
+ */
+export interface MessagesResult {
+  /** Concatenated text content of the reply */
+  output: string;
+  usage: TokenUsage;
+  /** HTTP status, or -1 if the request failed before a response */
+  status: number;
+  error?: string;
+}
+
+/**
+ * Send a Messages request and collect the reply text and usage.
+ * Never throws: failures are reported through status and error.
+ *
+ * @param options - Endpoint, model and streaming settings
+ * @param messages - Conversation so far (must end with a user turn)
+ * @returns MessagesResult with output, usage, status and optional error
+ */
+export async function requestMessages(
+  options: MessagesRequestOptions,
+  messages: MessageParam[]
+): Promise<MessagesResult> {
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  const url = `${options.baseUrl.replace(/\/+$/, "")}/v1/messages`;
+
+  const headers: Record<string, string> = {
+    "content-type": "application/json",
+    "anthropic-version": ANTHROPIC_VERSION,
+  };
+  if (options.apiKey) {
+    headers["x-api-key"] = options.apiKey;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: options.model,
+        max_tokens: options.maxTokens,
+        messages,
+        ...(options.system && { system: options.system }),
+        ...(options.stream && { stream: true }),
+      }),
+      signal: AbortSignal.timeout(options.timeout ?? DEFAULT_TIMEOUT),
+    });
+
+    if (!response.ok) {
+      return {
+        output: "",
+        usage,
+        status: response.status,
+        error: await response.text(),
+      };
+    }
+
+    const output = options.stream
+      ? await readStream(response, usage, options.onText)
+      : readBody(await response.json(), usage);
+
+    return { output, usage, status: response.status };
+  } catch (err) {
+    // Timeout, connection refused or malformed response
+    return {
+      output: "",
+      usage,
+      status: -1,
+      error: String(err),
+    };
+  }
+}
+
+/**
+ * Usage as reported by the API (cache fields only when prompt caching applies)
+ */
+interface ReportedUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+interface MessageBody {
+  content?: { type: string; text?: string }[];
+  usage?: ReportedUsage;
+}
+
+function readBody(body: MessageBody, usage: TokenUsage): string {
+  setUsage(usage, body.usage);
+  return (body.content ?? [])
+    .filter((block) => block.type === "text")
+    .map((block) => block.text ?? "")
+    .join("");
+}
+
+/**
+ * Read a server-sent event stream: message_start carries the initial usage,
+ * content_block_delta carries text, message_delta carries the final
+ * (cumulative) usage
+ */
+async function readStream(
+  response: Response,
+  usage: TokenUsage,
+  onText?: (text: string) => void
+): Promise<string> {
+  if (!response.body) return "";
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let output = "";
+
+  const handleEvent = (data: string) => {
+    const event = JSON.parse(data);
+    switch (event.type) {
+      case "message_start":
+        setUsage(usage, event.message?.usage);
+        break;
+      case "content_block_delta":
+        if (event.delta?.type === "text_delta" && event.delta.text) {
+          output += event.delta.text;
+          onText?.(event.delta.text);
+        }
+        break;
+      case "message_delta":
+        setUsage(usage, event.usage);
+        break;
+      case "error":
+        throw new Error(event.error?.message ?? "Stream error");
+    }
+  };
+
+  const reader = response.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    // Lines may end in \r\n or \r; a trailing \r waits for the next chunk in case \n follows
+    buffer = (buffer + decoder.decode(value, { stream: true })).replace(/\r\n|\r(?=[^\n])/g, "\n");
+
+    // Events are separated by a blank line; only "data:" lines matter
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      for (const line of block.split("\n")) {
+        if (line.startsWith("data:")) {
+          handleEvent(line.slice(5).trim());
+        }
+      }
+    }
+  }
+
+  return output;
+}
+
+function setUsage(usage: TokenUsage, reported?: ReportedUsage): void {
+  usage.inputTokens = reported?.input_tokens ?? usage.inputTokens;
+  usage.outputTokens = reported?.output_tokens ?? usage.outputTokens;
+  const cacheCreation = reported?.cache_creation_input_tokens ?? usage.cacheCreationTokens;
+  const cacheRead = reported?.cache_read_input_tokens ?? usage.cacheReadTokens;
+  if (cacheCreation !== undefined) usage.cacheCreationTokens = cacheCreation;
+  if (cacheRead !== undefined) usage.cacheReadTokens = cacheRead;
+}
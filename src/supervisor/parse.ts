@@ -4,6 +4,7 @@
  * Parses plain text responses with bracketed markers.
  */
 import type { ParsedResponse } from "./types";
+import { log } from "../log";
 
 /**
  * Parse supervisor response for action markers
@@ -12,6 +13,7 @@ import type { ParsedResponse } from "./types";
  * - [COMPLETE] followed by summary text
  * - [ABORT] followed by reason text
  * - [CONTINUE] followed by command to inject
+ * - [ROLLBACK] or [ROLLBACK <checkpoint>] followed by the corrected command
  *
  * If no marker found, defaults to 'continue' with warning.
  *
@@ -22,7 +24,7 @@ export function parseResponse(output: string): ParsedResponse {
   const trimmed = output.trim();
 
   // Log what we're parsing
-  console.log(`[parseResponse] Input (${trimmed.length} chars): "${trimmed.slice(0, 200)}"`);
+  log(`[parseResponse] Input (${trimmed.length} chars): "${trimmed.slice(0, 200)}"`);
 
   // Handle empty response
   if (!trimmed) {
@@ -38,7 +40,7 @@ export function parseResponse(output: string): ParsedResponse {
   // This handles cases where there might be leading whitespace or noise
   const completeMatch = trimmed.match(/\[COMPLETE\]\s*(.*)/s);
   if (completeMatch) {
-    console.log('[parseResponse] Found COMPLETE marker');
+    log('[parseResponse] Found COMPLETE marker');
     return {
       action: 'complete',
       content: completeMatch[1]?.trim() || '',
@@ -48,7 +50,7 @@ export function parseResponse(output: string): ParsedResponse {
 
   const abortMatch = trimmed.match(/\[ABORT\]\s*(.*)/s);
   if (abortMatch) {
-    console.log('[parseResponse] Found ABORT marker');
+    log('[parseResponse] Found ABORT marker');
     return {
       action: 'abort',
       content: abortMatch[1]?.trim() || '',
@@ -56,9 +58,20 @@ export function parseResponse(output: string): ParsedResponse {
     };
   }
 
+  const rollbackMatch = trimmed.match(/\[ROLLBACK(?:\s+([0-9a-f]{4,40}))?\]\s*(.*)/s);
+  if (rollbackMatch) {
+    log('[parseResponse] Found ROLLBACK marker');
+    return {
+      action: 'rollback',
+      content: rollbackMatch[2]?.trim() || '',
+      raw: output,
+      ...(rollbackMatch[1] && { checkpointId: rollbackMatch[1] }),
+    };
+  }
+
   const continueMatch = trimmed.match(/\[CONTINUE\]\s*(.*)/s);
   if (continueMatch) {
-    console.log('[parseResponse] Found CONTINUE marker');
+    log('[parseResponse] Found CONTINUE marker');
     return {
       action: 'continue',
       content: continueMatch[1]?.trim() || '',
@@ -1,65 +1,49 @@
 /**
  * Supervisor Prompt Builder
  *
- * Constructs context-rich prompts for supervisor decisions.
- * Reads the worker's transcript JSONL to provide full context.
+ * Constructs context-rich prompts for supervisor decisions from the built-in
+ * or a user-defined template (see template.ts). Reads the worker's
+ * transcript JSONL to provide full context, digested incrementally when the
+ * supervisor keeps a TranscriptDigester (see digest.ts).
  */
 
+import { $ } from "bun";
+import type { Checkpoint, ToolHistoryEntry, VerificationResult, WatchdogAlert } from "../hooks/types";
+import type { SupervisorContext } from "./types";
+import { DECISION_SCHEMA, type DecisionFormat } from "./decision";
+import { readTranscriptRecords } from "../transcript";
+import type { TranscriptDigester } from "./digest";
+import { DEFAULT_PROMPT_TEMPLATE, renderTemplate, type PromptTemplate, type TemplateValues } from "./template";
+
+/** Longest git diff included in a prompt */
+const MAX_DIFF_CHARS = 8000;
+
 /**
  * Read and format transcript content from JSONL file
  * Extracts the conversation flow: user messages, assistant responses, tool calls
  */
 export async function readTranscript(transcriptPath: string): Promise<string> {
   try {
-    const file = Bun.file(transcriptPath);
-    const text = await file.text();
-    const lines = text.trim().split("\n").filter(line => line.length > 0);
-
+    const records = await readTranscriptRecords(transcriptPath);
     const formatted: string[] = [];
 
-    for (const line of lines) {
-      try {
-        const entry = JSON.parse(line);
-
-        if (entry.type === "user" && entry.message?.content) {
-          const content = typeof entry.message.content === "string"
-            ? entry.message.content
-            : JSON.stringify(entry.message.content);
-          formatted.push(`[USER] ${content.slice(0, 500)}`);
-        }
-
-        if (entry.type === "assistant" && entry.message?.content) {
-          const content = entry.message.content;
-          let text = "";
-          if (typeof content === "string") {
-            text = content;
-          } else if (Array.isArray(content)) {
-            // Extract text blocks
-            const textBlocks = content
-              .filter((block: { type: string }) => block.type === "text")
-              .map((block: { text: string }) => block.text);
-            text = textBlocks.join("\n");
-          }
-          if (text) {
-            formatted.push(`[ASSISTANT] ${text.slice(0, 1000)}`);
-          }
-        }
-
-        // Tool calls
-        if (entry.type === "tool_use" || entry.tool_name) {
-          const toolName = entry.tool_name || entry.name || "unknown";
-          formatted.push(`[TOOL] ${toolName}`);
-        }
-
-        // Tool results
-        if (entry.type === "tool_result") {
-          const output = entry.content?.slice(0, 300) || "";
-          const hasError = entry.is_error;
-          formatted.push(`[TOOL_RESULT${hasError ? " ERROR" : ""}] ${output}`);
-        }
-
-      } catch {
-        // Skip malformed lines
+    for (const record of records) {
+      if (record.type !== "user" && record.type !== "assistant") continue;
+
+      if (record.text) {
+        formatted.push(record.type === "user"
+          ? `[USER] ${record.text.slice(0, 500)}`
+          : `[ASSISTANT] ${record.text.slice(0, 1000)}`);
+      }
+
+      // Tool calls
+      for (const use of record.toolUses) {
+        formatted.push(`[TOOL] ${use.name}`);
+      }
+
+      // Tool results
+      for (const result of record.toolResults) {
+        formatted.push(`[TOOL_RESULT${result.isError ? " ERROR" : ""}] ${result.content.slice(0, 300)}`);
       }
     }
 
@@ -78,32 +62,159 @@ export async function readTranscript(transcriptPath: string): Promise<string> {
  * - Task description
  * - Iteration count (N/M format)
  * - Full transcript from worker session
- * - Clear instructions for marker response format
+ * - Clear instructions for the marker or JSON response format
+ * - Checkpoints and rollback instructions, when there is one to roll back to
  *
  * @param transcriptContent - Pre-read transcript content
  * @param taskDescription - The original task
  * @param iterationCount - Current iteration number
  * @param maxIterations - Maximum allowed iterations
+ * @param decisionFormat - Response format to ask for (default: markers)
+ * @param checkpoints - Checkpoints taken during the run, newest first
  * @returns Formatted prompt string
  */
 export function buildSupervisorPrompt(
   transcriptContent: string,
   taskDescription: string,
   iterationCount: number,
-  maxIterations: number
+  maxIterations: number,
+  decisionFormat: DecisionFormat = "markers",
+  checkpoints: Checkpoint[] = []
 ): string {
-  return `You are supervising a Claude Code instance (the "worker") that is working on a task.
-Your job is to review what the worker has done and decide what happens next.
+  return renderTemplate(DEFAULT_PROMPT_TEMPLATE.text, {
+    task: taskDescription,
+    iteration: String(iterationCount),
+    maxIterations: String(maxIterations),
+    transcript: transcriptContent,
+    responseFormat: formatResponseInstructions(decisionFormat, checkpoints),
+  });
+}
 
-TASK: ${taskDescription}
+/**
+ * Inputs for rendering a prompt template
+ */
+export interface PromptInput {
+  context: SupervisorContext;
+  iteration: number;
+  maxIterations: number;
+  decisionFormat: DecisionFormat;
+  /** Worker directory for {{gitDiff}} (default: process.cwd()) */
+  cwd?: string;
+  /** Digester for {{transcript}} (default: the last 30 entries via readTranscript) */
+  digester?: TranscriptDigester;
+}
 
-ITERATION: ${iterationCount}/${maxIterations}
+/**
+ * Render a prompt template for one supervisor call.
+ * Only the variables the template uses are computed (the transcript is read,
+ * git is run), so cheap templates stay cheap.
+ */
+export async function renderSupervisorPrompt(template: PromptTemplate, input: PromptInput): Promise<string> {
+  const { context, decisionFormat } = input;
+  const uses = new Set(template.variables);
+  const checkpoints = context.checkpoints ?? [];
+
+  const values: TemplateValues = {
+    task: context.taskDescription,
+    iteration: String(input.iteration),
+    maxIterations: String(input.maxIterations),
+    instructions: template.instructions ?? "",
+    responseFormat: formatResponseInstructions(decisionFormat, checkpoints),
+  };
+  if (uses.has("transcript")) {
+    values.transcript = input.digester
+      ? await input.digester.render(context.transcriptPath)
+      : await readTranscript(context.transcriptPath);
+  }
+  if (uses.has("toolSummary")) {
+    values.toolSummary = formatToolSummary(context.toolHistory ?? []);
+  }
+  if (uses.has("gitDiff")) {
+    values.gitDiff = await readGitDiff(input.cwd ?? process.cwd());
+  }
+  if (uses.has("testResults") && context.verification) {
+    values.testResults = formatTestResults(context.verification);
+  }
+  if (uses.has("checkpoints") && checkpoints.length > 0) {
+    values.checkpoints = formatCheckpoints(checkpoints);
+  }
+  if (uses.has("watchdog") && context.watchdog) {
+    values.watchdog = formatWatchdogAlert(context.watchdog);
+  }
 
-=== WORKER SESSION TRANSCRIPT ===
-${transcriptContent}
-=== END TRANSCRIPT ===
+  return renderTemplate(template.text, values);
+}
 
-Based on this transcript, decide the next action:
+/**
+ * Reply format instructions, plus rollback instructions when there is a
+ * checkpoint to roll back to
+ */
+function formatResponseInstructions(decisionFormat: DecisionFormat, checkpoints: Checkpoint[]): string {
+  // The newest checkpoint is the current state; rolling back needs an older one
+  const rollback = checkpoints.length > 1
+    ? `\n\n${formatCheckpoints(checkpoints)}\n\n${decisionFormat === "json" ? JSON_ROLLBACK : MARKER_ROLLBACK}`
+    : "";
+  return `${decisionFormat === "json" ? JSON_INSTRUCTIONS : MARKER_INSTRUCTIONS}${rollback}`;
+}
+
+function formatToolSummary(toolHistory: ToolHistoryEntry[]): string {
+  if (toolHistory.length === 0) return "";
+
+  const counts = new Map<string, number>();
+  for (const entry of toolHistory) {
+    counts.set(entry.toolName, (counts.get(entry.toolName) ?? 0) + 1);
+  }
+  const lines = [
+    `${toolHistory.length} tool calls since the last instruction: ${[...counts].map(([name, n]) => `${name} x${n}`).join(", ")}`,
+  ];
+  for (const entry of toolHistory.filter((e) => e.error)) {
+    lines.push(`- ${entry.toolName} failed: ${entry.error!.split("\n")[0]?.slice(0, 200)}`);
+  }
+  return lines.join("\n");
+}
+
+async function readGitDiff(cwd: string): Promise<string> {
+  const stat = await $`git -C ${cwd} diff HEAD --stat`.nothrow().quiet();
+  if (stat.exitCode !== 0) return "";
+  const diff = await $`git -C ${cwd} diff HEAD`.nothrow().quiet();
+  const text = diff.stdout.toString();
+  const truncated = text.length > MAX_DIFF_CHARS
+    ? `${text.slice(0, MAX_DIFF_CHARS)}\n... (${text.length - MAX_DIFF_CHARS} more characters)`
+    : text;
+  return `${stat.stdout.toString().trim()}\n\n${truncated.trim()}`.trim();
+}
+
+function formatTestResults(result: VerificationResult): string {
+  const lines = result.gates.map((gate) =>
+    `${gate.passed ? "PASS" : "FAIL"} ${gate.command} (${gate.timedOut ? "timed out" : `exit ${gate.exitCode}`})`
+  );
+  const failed = result.gates.find((gate) => !gate.passed);
+  if (failed?.output.trim()) {
+    lines.push("", failed.output.trim().slice(-2000));
+  }
+  return lines.join("\n");
+}
+
+function formatWatchdogAlert(alert: WatchdogAlert): string {
+  const state = alert.interrupted
+    ? "The worker was interrupted (Esc) and is waiting at its prompt."
+    : "The worker has NOT stopped: it is still in the middle of its turn, and an instruction will be queued until it finishes.";
+  return `${alert.kind.toUpperCase()}: ${alert.reason}
+Last hook event ${alert.idleSeconds}s ago, last terminal output ${alert.outputIdleSeconds}s ago.
+${state}
+Decide whether to redirect the worker, or abort if it cannot make progress.`;
+}
+
+function formatCheckpoints(checkpoints: Checkpoint[]): string {
+  const lines = checkpoints.map((checkpoint, index) =>
+    `${checkpoint.id.slice(0, 12)}  ${checkpoint.label}${index === 0 ? "  (current state)" : ""}`
+  );
+  return `=== CHECKPOINTS (newest first) ===
+${lines.join("\n")}
+=== END CHECKPOINTS ===`;
+}
+
+const MARKER_INSTRUCTIONS = `Based on this transcript, decide the next action:
 
 - If the work is COMPLETE (task accomplished, no more work needed):
   Respond with [COMPLETE] followed by a brief summary.
@@ -121,4 +232,30 @@ Example responses:
 [COMPLETE] Successfully implemented the authentication flow with JWT tokens.
 [ABORT] Worker is stuck in a loop creating the same file repeatedly.
 [CONTINUE] Now write unit tests for the auth module in tests/auth.test.ts`;
-}
+
+const JSON_INSTRUCTIONS = `Based on this transcript, decide the next action:
+
+- "complete": the task is accomplished, no more work needed.
+- "abort": something is WRONG and we should STOP (errors, wrong direction, stuck in loop).
+- "continue": more steps are needed. Put the EXACT instruction for the worker in "command".
+  Be specific and actionable. The worker will receive your instruction verbatim.
+
+Set "confidence" to how sure you are of this decision (0 to 1). Optionally list the
+files the worker should create or change next in "expected_files", and a command
+that proves the work is done in "verification".
+
+Respond with ONLY a JSON object matching this schema. No additional explanation.
+${JSON.stringify(DECISION_SCHEMA)}
+
+Example response:
+{"action": "continue", "command": "Now write unit tests for the auth module in tests/auth.test.ts", "reason": "Auth module has no tests yet", "confidence": 0.85, "expected_files": ["tests/auth.test.ts"], "verification": "bun test tests/auth.test.ts"}`;
+
+const MARKER_ROLLBACK = `If the last iteration made things WORSE (broke working code, went in the wrong direction),
+you can roll it back: respond with [ROLLBACK] followed by the corrected instruction for the worker.
+The worker's files are restored to the previous checkpoint before the instruction is sent.
+To restore an older checkpoint, name it: [ROLLBACK <checkpoint id>] instruction.`;
+
+const JSON_ROLLBACK = `If the last iteration made things WORSE (broke working code, went in the wrong direction),
+you can roll it back: use action "rollback" with the corrected instruction in "command".
+The worker's files are restored to the previous checkpoint before the instruction is sent.
+To restore an older checkpoint, put its id in "checkpoint".`;
@@ -0,0 +1,134 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ToolHistoryEntry, SupervisorDecision } from "../hooks/types";
+import { createRuleSupervisor, compileRule, loadRules, type JsonRule } from "./rules";
+
+let cwd: string;
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "cco-rules-"));
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+function bash(command: string, error?: string): ToolHistoryEntry {
+  return { timestamp: new Date(), toolName: "Bash", input: { command }, output: "", error };
+}
+
+function context(toolHistory: ToolHistoryEntry[] = []) {
+  return { taskDescription: "task", transcriptPath: join(cwd, "t.jsonl"), sessionId: "s1", toolHistory };
+}
+
+const fallbackDecision: SupervisorDecision = { action: "inject", command: "llm says", reason: "llm", confidence: 0.6 };
+
+const RULES: JsonRule[] = [
+  {
+    name: "bash-loop",
+    when: { toolErrorRepeated: { tool: "Bash", count: 3 } },
+    then: { action: "abort", command: "/clear", reason: "Same Bash command failed 3 times" },
+  },
+  {
+    name: "todo-left",
+    when: { fileMatches: { path: "TODO.md", pattern: "^- \\[ \\]" } },
+    then: { action: "inject", command: "continue with next item", reason: "TODO.md has unchecked items" },
+  },
+];
+
+test("first matching rule decides without calling the fallback", async () => {
+  let fallbackCalls = 0;
+  const supervisor = createRuleSupervisor(RULES.map((r) => compileRule(r)), async () => {
+    fallbackCalls++;
+    return fallbackDecision;
+  }, { cwd });
+  writeFileSync(join(cwd, "TODO.md"), "- [x] one\n- [ ] two\n");
+
+  const decision = await supervisor(context([bash("make", "fail"), bash("make", "fail"), bash("make", "fail")]));
+
+  expect(decision).toEqual({
+    action: "abort",
+    command: "/clear",
+    reason: "[rule: bash-loop] Same Bash command failed 3 times",
+    confidence: 1.0,
+  });
+  expect(fallbackCalls).toBe(0);
+
+  const next = await supervisor(context([bash("make", "fail"), bash("make other", "fail"), bash("make", "fail")]));
+  expect(next.command).toBe("continue with next item");
+});
+
+test("escalates to the fallback when no rule matches", async () => {
+  const supervisor = createRuleSupervisor(RULES.map((r) => compileRule(r)), async () => fallbackDecision, { cwd });
+  writeFileSync(join(cwd, "TODO.md"), "- [x] done\n");
+
+  expect(await supervisor(context([bash("ls")]))).toEqual(fallbackDecision);
+});
+
+test("TypeScript rules can combine condition helpers and compute decisions", async () => {
+  const supervisor = createRuleSupervisor([
+    compileRule({
+      name: "busy",
+      when: ({ stats }) => (stats?.toolCalls ?? 0) > 5,
+      then: ({ stats }) => ({ action: "stop", reason: `${stats?.toolCalls} tools used`, confidence: 0.7 }),
+    }),
+  ], undefined, { cwd });
+
+  const stats = {
+    stopEvents: 1, toolCalls: 9, supervisorCalls: 1, commandsInjected: 0, errorsDetected: 0, toolsBlocked: 0,
+    startTime: new Date(), endTime: null,
+  };
+  const decision = await supervisor({ ...context(), stats });
+
+  expect(decision).toEqual({ action: "stop", reason: "[rule: busy] 9 tools used", confidence: 0.7 });
+});
+
+test("commandSucceeds runs in the worker cwd", async () => {
+  const supervisor = createRuleSupervisor([
+    compileRule({
+      name: "marker-exists",
+      when: { all: [{ commandSucceeds: { command: "test -f READY" } }, { not: { stat: { name: "errorsDetected", atLeast: 1 } } }] },
+      then: { action: "stop", reason: "ready" },
+    }),
+  ], async () => fallbackDecision, { cwd });
+
+  expect((await supervisor(context())).action).toBe("inject");
+  writeFileSync(join(cwd, "READY"), "");
+  expect((await supervisor(context())).action).toBe("stop");
+});
+
+test("loadRules rejects malformed rules with the rule name", async () => {
+  const path = join(cwd, "rules.json");
+  writeFileSync(path, JSON.stringify({ rules: [{ name: "bad", when: { nope: 1 }, then: { action: "stop", reason: "x" } }] }));
+
+  await expect(loadRules(path)).rejects.toThrow(`Rule "bad": unknown condition "nope"`);
+});
+
+test("rules must decide an action the controller can apply", async () => {
+  expect(() => compileRule({ name: "done", when: { gitDiffNonEmpty: true }, then: { action: "complete" as never, reason: "x" } }))
+    .toThrow(`Rule "done": "then" has an unknown action "complete"`);
+  expect(() => compileRule({ name: "undo", when: () => true, then: { action: "rollback", reason: "broke it" } }))
+    .toThrow(`Rule "undo": "then" needs a command for rollback`);
+
+  // Computed decisions are checked when the rule matches; a bad one falls through
+  const supervisor = createRuleSupervisor(
+    [compileRule({ name: "computed", when: () => true, then: () => ({ action: "done" as never, reason: "x" }) })],
+    async () => fallbackDecision,
+    { cwd }
+  );
+  expect((await supervisor(context())).reason).toBe("llm");
+});
+
+test("rule decisions count against the iteration budget", async () => {
+  writeFileSync(join(cwd, "TODO.md"), "- [ ] never done\n");
+  const supervisor = createRuleSupervisor(RULES.map((r) => compileRule(r)), undefined, { cwd, maxIterations: 3 });
+
+  expect((await supervisor(context())).action).toBe("inject");
+  expect((await supervisor(context())).action).toBe("inject");
+  expect(await supervisor(context())).toMatchObject({ action: "abort", budgetExhausted: true });
+
+  supervisor.reset?.();
+  expect((await supervisor(context())).action).toBe("inject");
+});
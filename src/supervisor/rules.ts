@@ -0,0 +1,366 @@
+/**
+ * Rule-based Supervisor
+ *
+ * Deterministic policy engine that runs in front of any other supervisor.
+ * Rules are evaluated in order against the tool history, the transcript
+ * and the controller stats; the first rule whose condition holds decides.
+ * Only when no rule matches is the decision escalated to the fallback
+ * (usually the LLM supervisor).
+ *
+ * Rules are written in TypeScript (`when` is a function) or JSON (`when`
+ * is a declarative ConditionSpec, see compileCondition).
+ */
+import { $ } from "bun";
+import { existsSync } from "node:fs";
+import { extname, isAbsolute, join, resolve } from "node:path";
+import type { SupervisorFn } from "../hooks/controller";
+import type { HooksStats, SupervisorAction, SupervisorDecision, ToolHistoryEntry } from "../hooks/types";
+import type { SupervisorContext } from "./types";
+import { readTranscript } from "./prompt";
+import { log } from "../log";
+
+const DEFAULT_COMMAND_TIMEOUT = 120000;
+const DEFAULT_MAX_ITERATIONS = 50;
+
+/** Actions the controller knows how to apply */
+const ACTIONS: SupervisorAction[] = ['continue', 'inject', 'stop', 'clear', 'compact', 'rollback', 'abort'];
+
+/**
+ * Everything a rule can inspect
+ */
+export interface RuleContext extends Omit<SupervisorContext, 'toolHistory' | 'stats'> {
+  /** Worker working directory (file and command conditions run here) */
+  cwd: string;
+  toolHistory: ToolHistoryEntry[];
+  stats: HooksStats | null;
+  /** Formatted worker transcript (read on first use) */
+  transcript: () => Promise<string>;
+}
+
+export type RuleCondition = (context: RuleContext) => boolean | Promise<boolean>;
+
+/**
+ * Decision a rule produces; confidence defaults to 1.0
+ */
+export type RuleDecision = Omit<SupervisorDecision, 'confidence'> & { confidence?: number };
+
+/**
+ * A compiled rule
+ */
+export interface SupervisorRule {
+  name: string;
+  when: RuleCondition;
+  then: RuleDecision | ((context: RuleContext) => RuleDecision | Promise<RuleDecision>);
+}
+
+/**
+ * Declarative condition (JSON rules)
+ */
+export type ConditionSpec =
+  | { toolErrorRepeated: { tool?: string; count: number } }
+  | { fileMatches: { path: string; pattern: string } }
+  | { commandSucceeds: { command: string; timeout?: number } }
+  | { gitDiffNonEmpty: true }
+  | { transcriptMatches: { pattern: string } }
+  | { stat: { name: Exclude<keyof HooksStats, 'startTime' | 'endTime'>; atLeast: number } }
+  | { all: ConditionSpec[] }
+  | { any: ConditionSpec[] }
+  | { not: ConditionSpec };
+
+/**
+ * Rule as written in a JSON rules file
+ */
+export interface JsonRule {
+  name: string;
+  when: ConditionSpec;
+  then: RuleDecision;
+}
+
+export interface RuleSupervisorOptions {
+  /** Worker working directory (default: process.cwd()) */
+  cwd?: string;
+  /** Supervisor calls before the run is aborted, whether a rule or the fallback decides (default: 50) */
+  maxIterations?: number;
+  /** Called when a rule decides instead of the fallback */
+  onMatch?: (rule: SupervisorRule, decision: SupervisorDecision) => void;
+}
+
+/**
+ * Compose a rule engine in front of a fallback supervisor
+ *
+ * @param rules - Rules in priority order
+ * @param fallback - Supervisor to escalate to when no rule matches
+ *                   (without one, an unmatched Stop ends the task)
+ * @returns SupervisorFn compatible with HooksController.setSupervisor()
+ */
+export function createRuleSupervisor(
+  rules: SupervisorRule[],
+  fallback?: SupervisorFn,
+  options: RuleSupervisorOptions = {}
+): SupervisorFn {
+  const cwd = options.cwd ?? process.cwd();
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  let iterationCount = 0;
+
+  const supervisor: SupervisorFn = async (context): Promise<SupervisorDecision> => {
+    // Enforce the iteration budget here too: a rule whose condition stays true never reaches the fallback
+    iterationCount++;
+    if (iterationCount >= maxIterations) {
+      log(`[RuleSupervisor] Iteration budget exhausted (${iterationCount}/${maxIterations})`);
+      return {
+        action: 'abort',
+        command: '/clear',
+        reason: `Iteration budget exhausted (${iterationCount}/${maxIterations})`,
+        confidence: 1.0,
+        budgetExhausted: true,
+      };
+    }
+
+    let transcript: Promise<string> | null = null;
+    const ruleContext: RuleContext = {
+      ...context,
+      cwd,
+      toolHistory: context.toolHistory ?? [],
+      stats: context.stats ?? null,
+      transcript: () => (transcript ??= readTranscript(context.transcriptPath)),
+    };
+
+    for (const rule of rules) {
+      let matched: boolean;
+      try {
+        matched = await rule.when(ruleContext);
+      } catch (err) {
+        // A broken rule must not block the others
+        log(`[RuleSupervisor] Rule "${rule.name}" failed:`, err);
+        continue;
+      }
+      if (!matched) continue;
+
+      const result = typeof rule.then === 'function' ? await rule.then(ruleContext) : rule.then;
+      const problem = decisionProblem(result);
+      if (problem) {
+        log(`[RuleSupervisor] Rule "${rule.name}" skipped: its decision ${problem}`);
+        continue;
+      }
+      const decision: SupervisorDecision = {
+        ...result,
+        reason: `[rule: ${rule.name}] ${result.reason}`,
+        confidence: result.confidence ?? 1.0,
+      };
+      log(`[RuleSupervisor] Rule "${rule.name}" matched: ${decision.action}`);
+      options.onMatch?.(rule, decision);
+      return decision;
+    }
+
+    if (fallback) {
+      return fallback(context);
+    }
+    return {
+      action: 'stop',
+      reason: 'No rule matched and no fallback supervisor configured',
+      confidence: 1.0,
+    };
+  };
+
+  supervisor.reset = () => {
+    iterationCount = 0;
+    fallback?.reset?.();
+  };
+  supervisor.restore = (iterations) => {
+    iterationCount = iterations;
+    fallback?.restore?.(iterations);
+  };
+  return supervisor;
+}
+
+/**
+ * What is wrong with a rule's decision ("... needs a reason"), or null if the controller can apply it
+ */
+function decisionProblem(decision: RuleDecision | null | undefined): string | null {
+  if (typeof decision !== 'object' || decision === null) {
+    return 'is not a decision object';
+  }
+  if (!ACTIONS.includes(decision.action)) {
+    return `has an unknown action "${String(decision.action)}" (expected one of ${ACTIONS.join(', ')})`;
+  }
+  if (typeof decision.reason !== 'string') {
+    return 'needs a reason';
+  }
+  if ((decision.action === 'inject' || decision.action === 'rollback') && !decision.command) {
+    return `needs a command for ${decision.action}`;
+  }
+  return null;
+}
+
+// === CONDITIONS (usable directly from TypeScript rules) ===
+
+/**
+ * The last `count` calls (of `tool`, if given) all errored with identical input
+ */
+export function toolErrorRepeated(count: number, tool?: string): RuleCondition {
+  return ({ toolHistory }) => {
+    const calls = tool ? toolHistory.filter((t) => t.toolName === tool) : toolHistory;
+    const recent = calls.slice(-count);
+    if (recent.length < count || !recent.every((t) => t.error)) return false;
+
+    const input = JSON.stringify(recent[0]?.input);
+    return recent.every((t) => JSON.stringify(t.input) === input);
+  };
+}
+
+/**
+ * A file in the worker cwd exists and matches the pattern
+ * (e.g. unchecked "- [ ]" items in TODO.md)
+ */
+export function fileMatches(path: string, pattern: string | RegExp): RuleCondition {
+  const regex = typeof pattern === 'string' ? new RegExp(pattern, 'm') : pattern;
+  return async ({ cwd }) => {
+    const file = Bun.file(isAbsolute(path) ? path : join(cwd, path));
+    return (await file.exists()) && regex.test(await file.text());
+  };
+}
+
+/**
+ * A shell command exits with status 0 in the worker cwd (e.g. "bun test")
+ */
+export function commandSucceeds(command: string, timeout = DEFAULT_COMMAND_TIMEOUT): RuleCondition {
+  return async ({ cwd }) => {
+    // Killed on timeout, which counts as failure
+    const proc = Bun.spawn(["sh", "-c", command], { cwd, stdout: "ignore", stderr: "ignore", timeout });
+    return (await proc.exited) === 0;
+  };
+}
+
+/**
+ * The worker cwd has uncommitted changes (tracked or untracked)
+ */
+export function gitDiffNonEmpty(): RuleCondition {
+  return async ({ cwd }) => {
+    const result = await $`git status --porcelain`.cwd(cwd).nothrow().quiet();
+    return result.exitCode === 0 && result.stdout.toString().trim() !== '';
+  };
+}
+
+/**
+ * The formatted transcript matches the pattern
+ */
+export function transcriptMatches(pattern: string | RegExp): RuleCondition {
+  const regex = typeof pattern === 'string' ? new RegExp(pattern, 'm') : pattern;
+  return async ({ transcript }) => regex.test(await transcript());
+}
+
+export function all(...conditions: RuleCondition[]): RuleCondition {
+  return async (context) => {
+    for (const condition of conditions) {
+      if (!(await condition(context))) return false;
+    }
+    return true;
+  };
+}
+
+export function any(...conditions: RuleCondition[]): RuleCondition {
+  return async (context) => {
+    for (const condition of conditions) {
+      if (await condition(context)) return true;
+    }
+    return false;
+  };
+}
+
+export function not(condition: RuleCondition): RuleCondition {
+  return async (context) => !(await condition(context));
+}
+
+// === JSON RULES ===
+
+/**
+ * Compile a declarative condition into a RuleCondition
+ * @throws Error on unknown or malformed conditions
+ */
+export function compileCondition(spec: ConditionSpec): RuleCondition {
+  if (typeof spec !== 'object' || spec === null) {
+    throw new Error(`condition must be an object`);
+  }
+  const keys = Object.keys(spec);
+  if (keys.length !== 1) {
+    throw new Error(`condition must have exactly one key, got: ${keys.join(', ') || 'none'}`);
+  }
+
+  if ('toolErrorRepeated' in spec) {
+    return toolErrorRepeated(spec.toolErrorRepeated.count, spec.toolErrorRepeated.tool);
+  }
+  if ('fileMatches' in spec) {
+    return fileMatches(spec.fileMatches.path, spec.fileMatches.pattern);
+  }
+  if ('commandSucceeds' in spec) {
+    return commandSucceeds(spec.commandSucceeds.command, spec.commandSucceeds.timeout);
+  }
+  if ('gitDiffNonEmpty' in spec) {
+    return spec.gitDiffNonEmpty ? gitDiffNonEmpty() : not(gitDiffNonEmpty());
+  }
+  if ('transcriptMatches' in spec) {
+    return transcriptMatches(spec.transcriptMatches.pattern);
+  }
+  if ('stat' in spec) {
+    const { name, atLeast } = spec.stat;
+    return ({ stats }) => (stats?.[name] ?? 0) >= atLeast;
+  }
+  if ('all' in spec) {
+    return all(...spec.all.map(compileCondition));
+  }
+  if ('any' in spec) {
+    return any(...spec.any.map(compileCondition));
+  }
+  if ('not' in spec) {
+    return not(compileCondition(spec.not));
+  }
+  throw new Error(`unknown condition "${keys[0]}"`);
+}
+
+/**
+ * Compile a JSON rule; TypeScript rules (function `when`) pass through
+ * @throws Error naming the rule if it is malformed
+ */
+export function compileRule(rule: JsonRule | SupervisorRule, index = 0): SupervisorRule {
+  const name = typeof rule?.name === 'string' ? rule.name : `rule ${index + 1}`;
+  if (typeof rule !== 'object' || rule === null || !rule.when || !rule.then) {
+    throw new Error(`Rule "${name}": expected { name, when, then }`);
+  }
+  // Decisions computed by a function are checked when the rule matches
+  const then = rule.then;
+  const problem = typeof then === 'function' ? null : decisionProblem(then);
+  if (problem) {
+    throw new Error(`Rule "${name}": "then" ${problem}`);
+  }
+  if (typeof rule.when === 'function') {
+    return { ...(rule as SupervisorRule), name };
+  }
+
+  try {
+    return { name, when: compileCondition(rule.when), then };
+  } catch (err) {
+    throw new Error(`Rule "${name}": ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/**
+ * Load rules from a .json file or a TypeScript/JavaScript module whose
+ * default export is a rule list (or { rules: [...] })
+ * @throws Error if the file is missing or any rule is malformed
+ */
+export async function loadRules(path: string): Promise<SupervisorRule[]> {
+  const fullPath = resolve(path);
+  if (!existsSync(fullPath)) {
+    throw new Error(`Rules file not found: ${path}`);
+  }
+
+  const loaded: unknown = extname(fullPath) === '.json'
+    ? await Bun.file(fullPath).json()
+    : (await import(fullPath)).default;
+
+  const list = Array.isArray(loaded) ? loaded : (loaded as { rules?: unknown } | null)?.rules;
+  if (!Array.isArray(list)) {
+    throw new Error(`${path}: expected a list of rules or { rules: [...] }`);
+  }
+  return list.map((rule, index) => compileRule(rule, index));
+}
@@ -5,6 +5,7 @@
  */
 import { $ } from "bun";
 import type { SpawnResult } from "./types";
+import { DEFAULT_CLAUDE_BIN } from "../config";
 
 const DEFAULT_TIMEOUT = 30000;
 
@@ -18,14 +19,14 @@ const DEFAULT_TIMEOUT = 30000;
  *
  * @param prompt - The full supervisor prompt text
  * @param timeout - Timeout in ms (default: 30000)
+ * @param claudeBin - Claude Code binary (default: ~/.claude/local/claude)
  * @returns SpawnResult with output, exitCode, and optional error
  */
 export async function spawnSupervisor(
   prompt: string,
-  timeout: number = DEFAULT_TIMEOUT
+  timeout: number = DEFAULT_TIMEOUT,
+  claudeBin: string = DEFAULT_CLAUDE_BIN
 ): Promise<SpawnResult> {
-  const claudeBin = `${process.env.HOME}/.claude/local/claude`;
-
   try {
     const result = await $`${claudeBin} -p ${prompt} --dangerously-skip-permissions`
       .nothrow()
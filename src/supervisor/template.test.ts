@@ -0,0 +1,54 @@
+import { test, expect } from "bun:test";
+import { buildSupervisorPrompt, renderSupervisorPrompt } from "./prompt";
+import { DEFAULT_PROMPT_TEMPLATE, PromptTemplateError, createPromptTemplate, validateTemplate } from "./template";
+
+test("template errors name the line and the problem", () => {
+  expect(validateTemplate("TASK: {{task}}\n{{#gitDiff}}\n{{diff}}\n")).toEqual([
+    "line 3: unknown variable {{diff}} (available: task, iteration, maxIterations, transcript, toolSummary, gitDiff, testResults, checkpoints, watchdog, instructions, responseFormat)",
+    "section {{#gitDiff}} is never closed",
+    "template must include {{responseFormat}} so the supervisor knows how to reply",
+  ]);
+  expect(validateTemplate("{{#task}}x{{/transcript}} {{responseFormat}}")).toContain(
+    "line 1: {{/transcript}} closes {{#task}}"
+  );
+  expect(() => createPromptTemplate("{{task}} {{responseFormat}}", { name: "t.md", instructions: "Use tabs" }))
+    .toThrow(PromptTemplateError);
+});
+
+test("custom templates render only the variables they use", async () => {
+  const template = createPromptTemplate(
+    "Task: {{task}} ({{iteration}}/{{maxIterations}})\n{{#instructions}}Rules:\n{{instructions}}\n{{/instructions}}" +
+    "{{#testResults}}Tests:\n{{testResults}}\n{{/testResults}}{{toolSummary}}\n{{responseFormat}}",
+    { name: "review.md", instructions: "Definition of done: tests pass." }
+  );
+  expect(template.version).toMatch(/^review\.md@[0-9a-f]{8}$/);
+  expect(template.variables).toEqual(["task", "iteration", "maxIterations", "toolSummary", "testResults", "instructions", "responseFormat"]);
+  expect(createPromptTemplate(template.text, { name: "review.md", instructions: "Other rules" }).version).not.toBe(template.version);
+
+  const prompt = await renderSupervisorPrompt(template, {
+    context: {
+      taskDescription: "fix {{instructions}}",
+      transcriptPath: "/nonexistent/transcript.jsonl",
+      sessionId: "s1",
+      toolHistory: [
+        { timestamp: new Date(), toolName: "Edit", input: {}, output: "" },
+        { timestamp: new Date(), toolName: "Bash", input: {}, output: "", error: "exit 1\nmore" },
+      ],
+    },
+    iteration: 2,
+    maxIterations: 10,
+    decisionFormat: "markers",
+  });
+
+  expect(prompt).toStartWith("Task: fix {{instructions}} (2/10)\nRules:\nDefinition of done: tests pass.\n2 tool calls");
+  expect(prompt).toContain("Edit x1, Bash x1\n- Bash failed: exit 1\n");
+  expect(prompt).not.toContain("Tests:");
+  expect(prompt).toContain("[CONTINUE]");
+});
+
+test("the default template renders the built-in prompt", () => {
+  const prompt = buildSupervisorPrompt("[USER] hi", "build it", 1, 50);
+  expect(DEFAULT_PROMPT_TEMPLATE.version).toStartWith("default@");
+  expect(prompt).toContain("TASK: build it\n\nITERATION: 1/50\n\n=== WORKER SESSION TRANSCRIPT ===\n[USER] hi\n");
+  expect(prompt).not.toContain("{{");
+});
@@ -0,0 +1,197 @@
+/**
+ * Supervisor Prompt Templates
+ *
+ * User-defined supervisor prompts with {{variable}} placeholders and
+ * {{#variable}}...{{/variable}} sections (kept only when the variable is not
+ * empty). Templates are validated when loaded so mistakes surface at startup,
+ * and each one carries a version (name + content hash) that is recorded with
+ * every supervisor call it produced.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { basename, resolve } from "node:path";
+
+/**
+ * Variables a template can use
+ */
+export const TEMPLATE_VARIABLES = [
+  "task",            // Task description
+  "iteration",       // Current supervisor iteration (1-indexed)
+  "maxIterations",   // Iteration budget
+  "transcript",      // Recent worker transcript entries
+  "toolSummary",     // Tools used since the last instruction, with errors
+  "gitDiff",         // Uncommitted changes in the worker directory
+  "testResults",     // Latest verification gate results
+  "checkpoints",     // Checkpoints taken during the run, newest first
+  "watchdog",        // Stall or loop that triggered the call (empty after a normal Stop)
+  "instructions",    // Project rules of engagement (coding standards, definition of done)
+  "responseFormat",  // How to reply (markers or JSON, rollback when possible)
+] as const;
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+
+export type TemplateValues = Partial<Record<TemplateVariable, string>>;
+
+/**
+ * A validated prompt template
+ */
+export interface PromptTemplate {
+  /** Template file name, or "default" */
+  name: string;
+  /** Name plus a hash of the template and instructions, e.g. "review.md@1a2b3c4d" */
+  version: string;
+  text: string;
+  /** Project rules of engagement filled into {{instructions}} */
+  instructions: string | null;
+  /** Variables the template uses (only these are computed) */
+  variables: TemplateVariable[];
+}
+
+/**
+ * Error raised when a template does not validate
+ */
+export class PromptTemplateError extends Error {
+  constructor(
+    public readonly errors: string[],
+    public readonly source: string
+  ) {
+    super(`Invalid prompt template ${source}:\n${errors.map((e) => `  - ${e}`).join("\n")}`);
+    this.name = "PromptTemplateError";
+  }
+}
+
+/** Built-in template (the prompt CCO has always sent, plus optional instructions) */
+export const DEFAULT_TEMPLATE_TEXT = `You are supervising a Claude Code instance (the "worker") that is working on a task.
+Your job is to review what the worker has done and decide what happens next.
+
+TASK: {{task}}
+
+ITERATION: {{iteration}}/{{maxIterations}}{{#instructions}}
+
+=== PROJECT RULES OF ENGAGEMENT ===
+{{instructions}}
+=== END RULES ==={{/instructions}}{{#watchdog}}
+
+=== WATCHDOG ALERT ===
+{{watchdog}}
+=== END ALERT ==={{/watchdog}}
+
+=== WORKER SESSION TRANSCRIPT ===
+{{transcript}}
+=== END TRANSCRIPT ===
+
+{{responseFormat}}`;
+
+const TAG_PATTERN = /\{\{([#/]?)([^{}]*)\}\}/g;
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+/**
+ * Check a template's tags and sections
+ * @returns One message per problem (empty when valid)
+ */
+export function validateTemplate(text: string, options: { instructions?: string | null } = {}): string[] {
+  const errors: string[] = [];
+  const used = new Set<string>();
+  const open: string[] = [];
+
+  if (text.trim() === "") {
+    return ["template is empty"];
+  }
+
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const [tag, kind, name = ""] = match;
+    const line = text.slice(0, match.index).split("\n").length;
+
+    if (!(TEMPLATE_VARIABLES as readonly string[]).includes(name)) {
+      errors.push(`line ${line}: unknown variable ${tag} (available: ${TEMPLATE_VARIABLES.join(", ")})`);
+      continue;
+    }
+    used.add(name);
+
+    if (kind === "#") {
+      if (open.includes(name)) {
+        errors.push(`line ${line}: section {{#${name}}} is already open`);
+      }
+      open.push(name);
+    } else if (kind === "/") {
+      const last = open.pop();
+      if (last !== name) {
+        errors.push(`line ${line}: ${tag} closes ${last ? `{{#${last}}}` : "no open section"}`);
+        if (last) open.push(last);
+      }
+    }
+  }
+
+  for (const name of open) {
+    errors.push(`section {{#${name}}} is never closed`);
+  }
+  if (!used.has("responseFormat")) {
+    errors.push("template must include {{responseFormat}} so the supervisor knows how to reply");
+  }
+  if (options.instructions && !used.has("instructions")) {
+    errors.push("an instructions file was given but the template does not use {{instructions}}");
+  }
+  return errors;
+}
+
+/**
+ * Validate a template and compute its version
+ * @throws PromptTemplateError if the template is invalid
+ */
+export function createPromptTemplate(
+  text: string,
+  options: { name?: string; instructions?: string | null } = {}
+): PromptTemplate {
+  const name = options.name ?? "default";
+  const instructions = options.instructions?.trim() || null;
+
+  const errors = validateTemplate(text, { instructions });
+  if (errors.length > 0) {
+    throw new PromptTemplateError(errors, name);
+  }
+
+  const hash = createHash("sha256").update(text).update("\0").update(instructions ?? "").digest("hex");
+  const variables = TEMPLATE_VARIABLES.filter((v) => text.includes(`{{${v}}}`) || text.includes(`{{#${v}}}`));
+  return { name, version: `${name}@${hash.slice(0, 8)}`, text, instructions, variables };
+}
+
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = createPromptTemplate(DEFAULT_TEMPLATE_TEXT);
+
+/**
+ * Load a template file and/or a rules-of-engagement file
+ * @param options.path - Template file (default: the built-in template)
+ * @param options.instructionsPath - Project instructions (Markdown or plain text)
+ * @throws Error if a file is missing, PromptTemplateError if the template is invalid
+ */
+export async function loadPromptTemplate(options: {
+  path?: string | null;
+  instructionsPath?: string | null;
+} = {}): Promise<PromptTemplate> {
+  const read = async (path: string, what: string) => {
+    const fullPath = resolve(path);
+    if (!existsSync(fullPath)) {
+      throw new Error(`${what} not found: ${path}`);
+    }
+    return Bun.file(fullPath).text();
+  };
+
+  const text = options.path ? await read(options.path, "Prompt template") : DEFAULT_TEMPLATE_TEXT;
+  const instructions = options.instructionsPath ? await read(options.instructionsPath, "Instructions file") : null;
+  return createPromptTemplate(text, {
+    name: options.path ? basename(options.path) : "default",
+    instructions,
+  });
+}
+
+/**
+ * Fill in a template. Sections are resolved first, then variables, in a
+ * single pass each, so values containing {{...}} are never expanded.
+ */
+export function renderTemplate(text: string, values: TemplateValues): string {
+  const value = (name: string) => values[name as TemplateVariable] ?? "";
+  return text
+    .replace(SECTION_PATTERN, (_match, name: string, body: string) => (value(name).trim() ? body : ""))
+    .replace(VARIABLE_PATTERN, (_match, name: string) => value(name));
+}
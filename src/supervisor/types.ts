@@ -4,6 +4,10 @@
  * Type definitions for Claude Code CLI supervisor spawning.
  */
 
+import type { Checkpoint, HooksStats, ToolHistoryEntry, VerificationResult, WatchdogAlert } from "../hooks/types";
+import type { DecisionFormat } from "./decision";
+import type { PromptTemplate } from "./template";
+
 /**
  * Context passed to supervisor for decision making.
  *
@@ -16,6 +20,16 @@ export interface SupervisorContext {
   /** Path to the worker's session transcript JSONL */
   transcriptPath: string;
   sessionId: string;
+  /** Tools used since the last injected command */
+  toolHistory?: ToolHistoryEntry[];
+  /** Controller statistics for the current run */
+  stats?: HooksStats;
+  /** Checkpoints taken during this run, newest first (when checkpointing is on) */
+  checkpoints?: Checkpoint[];
+  /** Latest verification gate results for the current task, if gates ran */
+  verification?: VerificationResult;
+  /** Stall or loop that triggered this call (the worker has not stopped) */
+  watchdog?: WatchdogAlert;
 }
 
 /**
@@ -31,8 +45,10 @@ export interface SpawnResult {
  * Parsed supervisor response
  */
 export interface ParsedResponse {
-  action: 'complete' | 'abort' | 'continue';
+  action: 'complete' | 'abort' | 'continue' | 'rollback';
   content: string;
+  /** Checkpoint named in a [ROLLBACK <id>] marker */
+  checkpointId?: string;
   raw: string;
 }
 
@@ -58,8 +74,24 @@ export interface ClaudeSupervisorConfig {
   maxIterations?: number;
   /** Timeout for supervisor spawn in ms (default: 30000) */
   timeout?: number;
+  /** Claude Code binary (default: ~/.claude/local/claude) */
+  claudeBin?: string;
   /** Maximum consecutive failures before abort (default: 3) */
   maxConsecutiveFailures?: number;
   /** Callback called after each iteration with progress info */
   onIterationUpdate?: (info: IterationInfo) => void;
+  /** Callback called with each prompt sent to the supervisor */
+  onPrompt?: (prompt: string, templateVersion: string) => void;
+  /** Prompt template (default: DEFAULT_PROMPT_TEMPLATE) */
+  template?: PromptTemplate;
+  /** Worker directory for template variables such as {{gitDiff}} (default: process.cwd()) */
+  workerCwd?: string;
+  /** Token budget for the transcript digest in {{transcript}} (default: 6000) */
+  transcriptBudget?: number;
+  /** Recent messages kept in the transcript digest (default: 8) */
+  transcriptExchanges?: number;
+  /** Reply format: bracketed markers (default) or validated JSON */
+  decisionFormat?: DecisionFormat;
+  /** Corrective re-prompts for an invalid JSON decision (default: 2) */
+  maxCorrections?: number;
 }
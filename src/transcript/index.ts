@@ -0,0 +1,14 @@
+/**
+ * Transcript Module
+ *
+ * Shared incremental reader for Claude Code session transcripts.
+ */
+
+export {
+  TranscriptWatcher,
+  watchTranscript,
+  readTranscriptRecords,
+  closeTranscriptWatchers,
+  parseTranscriptLine,
+} from "./watcher";
+export type { TranscriptRecord, TranscriptToolUse, TranscriptToolResult } from "./types";
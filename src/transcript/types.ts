@@ -0,0 +1,44 @@
+/**
+ * Transcript Types
+ *
+ * Typed view of the entries in a Claude Code session JSONL.
+ */
+
+/**
+ * A tool call made in an assistant entry
+ */
+export interface TranscriptToolUse {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * A tool result returned in a user entry
+ */
+export interface TranscriptToolResult {
+  toolUseId: string;
+  /** Result text (text blocks joined) */
+  content: string;
+  isError: boolean;
+}
+
+/**
+ * One line of a transcript JSONL
+ */
+export interface TranscriptRecord {
+  /** Position among the file's records (0-indexed) */
+  index: number;
+  /** Entry type: user, assistant, system, summary, ... ("invalid" for malformed lines) */
+  type: string;
+  uuid: string | null;
+  timestamp: string | null;
+  /** Injected by Claude Code rather than typed by the user */
+  isMeta: boolean;
+  /** Text content blocks joined */
+  text: string;
+  toolUses: TranscriptToolUse[];
+  toolResults: TranscriptToolResult[];
+  /** Parsed line as written ({ raw: line } when malformed) */
+  raw: Record<string, unknown>;
+}
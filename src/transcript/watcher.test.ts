@@ -0,0 +1,61 @@
+import { test, expect } from "bun:test";
+import { appendFileSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { TranscriptWatcher, type TranscriptRecord } from "./index";
+
+function tempTranscript(): string {
+  return join(mkdtempSync(join(tmpdir(), "cco-transcript-")), "session.jsonl");
+}
+
+const assistant = JSON.stringify({
+  type: "assistant",
+  uuid: "a1",
+  message: { content: [{ type: "text", text: "Running tests" }, { type: "tool_use", id: "t1", name: "Bash", input: { command: "bun test" } }] },
+}) + "\n";
+
+test("reads only appended lines and parses them into records", async () => {
+  const path = tempTranscript();
+  writeFileSync(path, JSON.stringify({ type: "user", message: { content: "Fix the build" } }) + "\n" + assistant.slice(0, 30));
+
+  const watcher = new TranscriptWatcher(path);
+  const first = await watcher.read();
+  expect(first.map((r) => [r.index, r.type, r.text])).toEqual([[0, "user", "Fix the build"]]);
+
+  appendFileSync(path, assistant.slice(30) + "not json\n");
+  const second = await watcher.read();
+  expect(second[0]).toMatchObject({
+    index: 1,
+    uuid: "a1",
+    text: "Running tests",
+    toolUses: [{ id: "t1", name: "Bash", input: { command: "bun test" } }],
+  });
+  expect(second[1]).toMatchObject({ index: 2, type: "invalid", raw: { raw: "not json" } });
+  expect(await watcher.read()).toEqual([]);
+  expect(watcher.entries).toHaveLength(3);
+
+  // A rewritten, shorter file is read again from the start
+  writeFileSync(path, assistant);
+  expect((await watcher.read()).map((r) => r.index)).toEqual([0]);
+  expect(watcher.generation).toBe(1);
+});
+
+test("a started watcher pushes new records to subscribers", async () => {
+  const path = tempTranscript();
+  writeFileSync(path, "");
+
+  const watcher = new TranscriptWatcher(path);
+  const received: TranscriptRecord[] = [];
+  watcher.subscribe((records) => received.push(...records));
+  watcher.start();
+
+  try {
+    appendFileSync(path, assistant);
+    for (let i = 0; i < 40 && received.length === 0; i++) {
+      await Bun.sleep(50);
+    }
+    expect(received.map((r) => r.uuid)).toEqual(["a1"]);
+  } finally {
+    watcher.stop();
+  }
+});
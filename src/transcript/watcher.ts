@@ -0,0 +1,268 @@
+/**
+ * Transcript Watcher
+ *
+ * Tails a Claude Code session JSONL by byte offset and parses each line into
+ * a typed record. Readers (prompt builder, digester, interactive supervisor,
+ * /api/transcript) share one watcher per file through watchTranscript(), so a
+ * long transcript is parsed once instead of on every read. Once start() is
+ * called the file is also watched and new records are pushed to subscribers.
+ */
+
+import { watch, type FSWatcher } from "node:fs";
+import type { TranscriptRecord, TranscriptToolResult, TranscriptToolUse } from "./types";
+import { logError } from "../log";
+
+/** Delay before reading after a change notification (writes come in bursts) */
+const WATCH_DEBOUNCE_MS = 50;
+
+/** How often a started watcher checks for the file when it does not exist yet */
+const MISSING_FILE_POLL_MS = 1000;
+
+type RawBlock = {
+  type?: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  content?: string | RawBlock[];
+  is_error?: boolean;
+};
+
+/**
+ * Parse one JSONL line into a record
+ * @param index - Position of the line among the file's records
+ */
+export function parseTranscriptLine(line: string, index: number): TranscriptRecord {
+  let raw: Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(line);
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      throw new Error("not an object");
+    }
+    raw = parsed;
+  } catch {
+    return {
+      index,
+      type: "invalid",
+      uuid: null,
+      timestamp: null,
+      isMeta: false,
+      text: "",
+      toolUses: [],
+      toolResults: [],
+      raw: { raw: line },
+    };
+  }
+
+  const message = raw.message as { content?: string | RawBlock[] } | undefined;
+  const content = message?.content;
+  const blocks: RawBlock[] = typeof content === "string"
+    ? [{ type: "text", text: content }]
+    : Array.isArray(content) ? content : [];
+
+  const toolUses: TranscriptToolUse[] = [];
+  const toolResults: TranscriptToolResult[] = [];
+  for (const block of blocks) {
+    if (block.type === "tool_use" && block.id && block.name) {
+      toolUses.push({ id: block.id, name: block.name, input: block.input ?? {} });
+    } else if (block.type === "tool_result" && block.tool_use_id) {
+      toolResults.push({
+        toolUseId: block.tool_use_id,
+        content: typeof block.content === "string"
+          ? block.content
+          : (block.content ?? []).filter((b) => b.type === "text" && b.text).map((b) => b.text!).join("\n"),
+        isError: block.is_error ?? false,
+      });
+    }
+  }
+
+  return {
+    index,
+    type: typeof raw.type === "string" ? raw.type : "unknown",
+    uuid: typeof raw.uuid === "string" ? raw.uuid : null,
+    timestamp: typeof raw.timestamp === "string" ? raw.timestamp : null,
+    isMeta: raw.isMeta === true,
+    text: blocks.filter((b) => b.type === "text" && b.text).map((b) => b.text!).join("\n").trim(),
+    toolUses,
+    toolResults,
+    raw,
+  };
+}
+
+/**
+ * Incremental reader for one transcript file
+ */
+export class TranscriptWatcher {
+  private offset = 0;
+  /** Bytes after the last complete line, carried to the next read */
+  private partial: Uint8Array = new Uint8Array(0);
+  private records: TranscriptRecord[] = [];
+  private listeners = new Set<(records: TranscriptRecord[]) => void>();
+  private queue: Promise<unknown> = Promise.resolve();
+  private fsWatcher: FSWatcher | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private _generation = 0;
+
+  constructor(readonly path: string) {}
+
+  /**
+   * Records read so far, in file order
+   */
+  get entries(): readonly TranscriptRecord[] {
+    return this.records;
+  }
+
+  /**
+   * Bumped whenever the file shrinks and is re-read from the start,
+   * so readers holding an index into entries know to start over
+   */
+  get generation(): number {
+    return this._generation;
+  }
+
+  /**
+   * Read lines appended since the last read.
+   * Reads are queued, so each one starts after the previous has finished.
+   * @returns The new records (subscribers receive them too)
+   */
+  read(): Promise<TranscriptRecord[]> {
+    const next = this.queue.then(() => this.readNew());
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  /**
+   * Call listener with new records as they are read
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (records: TranscriptRecord[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Watch the file and read on every change (idempotent).
+   * A file that does not exist yet is polled for until it appears.
+   */
+  start(): void {
+    if (this.fsWatcher || this.pollTimer) return;
+    try {
+      this.fsWatcher = watch(this.path, () => this.scheduleRead());
+      this.fsWatcher.on("error", () => this.stop());
+      this.scheduleRead();
+    } catch {
+      this.pollTimer = setInterval(() => {
+        if (Bun.file(this.path).size > 0) {
+          this.stopPolling();
+          this.start();
+        }
+      }, MISSING_FILE_POLL_MS);
+    }
+  }
+
+  /**
+   * Stop watching (records already read are kept)
+   */
+  stop(): void {
+    this.fsWatcher?.close();
+    this.fsWatcher = null;
+    this.stopPolling();
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private scheduleRead(): void {
+    if (this.debounceTimer) return;
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.read().catch((err) => {
+        logError(`[TranscriptWatcher] Failed to read ${this.path}: ${err}`);
+      });
+    }, WATCH_DEBOUNCE_MS);
+  }
+
+  private async readNew(): Promise<TranscriptRecord[]> {
+    const file = Bun.file(this.path);
+    const size = (await file.exists()) ? file.size : 0;
+
+    // Rewritten or truncated: start over
+    if (size < this.offset) {
+      this.offset = 0;
+      this.partial = new Uint8Array(0);
+      this.records = [];
+      this._generation++;
+    }
+    if (size === this.offset) return [];
+
+    const chunk = new Uint8Array(await file.slice(this.offset, size).arrayBuffer());
+    this.offset = size;
+
+    const bytes = new Uint8Array(this.partial.length + chunk.length);
+    bytes.set(this.partial);
+    bytes.set(chunk, this.partial.length);
+
+    // Only complete lines are parsed; the rest waits for the next read
+    const end = bytes.lastIndexOf(0x0a) + 1;
+    this.partial = bytes.slice(end);
+
+    const added: TranscriptRecord[] = [];
+    for (const line of new TextDecoder().decode(bytes.subarray(0, end)).split("\n")) {
+      if (!line.trim()) continue;
+      const record = parseTranscriptLine(line, this.records.length);
+      this.records.push(record);
+      added.push(record);
+    }
+
+    if (added.length > 0) {
+      for (const listener of this.listeners) {
+        listener(added);
+      }
+    }
+    return added;
+  }
+}
+
+const watchers = new Map<string, TranscriptWatcher>();
+
+/**
+ * Shared watcher for a transcript file (created on first use)
+ */
+export function watchTranscript(path: string): TranscriptWatcher {
+  let watcher = watchers.get(path);
+  if (!watcher) {
+    watcher = new TranscriptWatcher(path);
+    watchers.set(path, watcher);
+  }
+  return watcher;
+}
+
+/**
+ * Read a transcript through its shared watcher
+ * @returns Every record in the file so far
+ */
+export async function readTranscriptRecords(path: string): Promise<readonly TranscriptRecord[]> {
+  const watcher = watchTranscript(path);
+  await watcher.read();
+  return watcher.entries;
+}
+
+/**
+ * Stop and forget every shared watcher (on shutdown)
+ */
+export function closeTranscriptWatchers(): void {
+  for (const watcher of watchers.values()) {
+    watcher.stop();
+  }
+  watchers.clear();
+}
@@ -1,17 +1,47 @@
 import React, { useEffect, useRef, useState, useCallback } from "react";
 import { createRoot } from "react-dom/client";
+import { Terminal } from "@xterm/xterm";
+import "@xterm/xterm/css/xterm.css";
 import "./styles.css";
 
+// API token: passed as ?token= in the monitor URL printed at startup, kept
+// for the tab so reloads work after it is dropped from the address bar
+const API_TOKEN = (() => {
+  const params = new URLSearchParams(window.location.search);
+  const fromUrl = params.get("token");
+  if (fromUrl) {
+    sessionStorage.setItem("cco-token", fromUrl);
+    params.delete("token");
+    const query = params.toString();
+    window.history.replaceState(null, "", window.location.pathname + (query ? `?${query}` : ""));
+  }
+  return fromUrl ?? sessionStorage.getItem("cco-token") ?? "";
+})();
+
+// apiFetch() for /api routes, with the API token
+function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  headers.set("Authorization", `Bearer ${API_TOKEN}`);
+  return fetch(input, { ...init, headers });
+}
+
 // WebSocket message types matching the broadcaster
 interface WSMessage {
   type: string;
   timestamp: string;
   data: unknown;
+  workerId?: string; // Set for pool workers, absent for the primary worker
+  seq?: number; // Position in the broadcast stream (absent for replies and resent state)
+}
+
+interface ConnectedData {
+  seq: number;
+  resumed: boolean; // false: every kept message is replayed, start over
 }
 
 interface SessionStateData {
   sessionState: { status: string; taskDescription?: string };
-  metadata: { taskDescription: string; runtime: number } | null;
+  metadata: { taskDescription: string; startTime: string; runtime: number } | null;
   controllerState: string;
   stats: {
     stopEvents: number;
@@ -19,14 +49,56 @@ interface SessionStateData {
     supervisorCalls: number;
     commandsInjected: number;
     errorsDetected: number;
+    toolsBlocked?: number;
   };
+  blocked?: WorkerBlock | null;
+  pendingDecision?: PendingDecision | null;
+  usage?: RunUsage | null;
   decoupled?: boolean;
   claudeRunning?: boolean;
+  paused?: boolean;
+}
+
+interface WorkerBlock {
+  reason: "permission" | "idle" | "other";
+  message: string;
+  since: string;
+}
+
+interface PendingDecision {
+  id: string;
+  decision: { action: string; reason: string; confidence: number; command?: string };
+  trigger: "always" | "low_confidence";
+  createdAt: string;
+  autoApproveAt: string | null;
+}
+
+interface ApprovalData {
+  event: "pending" | "approved" | "edited" | "rejected" | "auto_approved";
+  pending: PendingDecision;
+  applied?: { action: string; command?: string } | null;
+}
+
+interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUsd: number;
+}
+
+interface RunUsage {
+  worker: UsageTotals;
+  supervisor: UsageTotals;
+  totalCostUsd: number;
+  maxCostUsd: number | null;
 }
 
 interface HookEventData {
   eventType: string;
   event: { tool_name?: string; session_id?: string; reason?: string };
+  block?: WorkerBlock;
+  snapshotPath?: string | null;
 }
 
 interface SupervisorCallData {
@@ -42,15 +114,65 @@ interface CommandInjectData {
   command: string;
 }
 
+interface VerificationResultData {
+  result: {
+    passed: boolean;
+    gates: { command: string; passed: boolean; exitCode: number | null; timedOut: boolean; durationMs: number }[];
+  };
+}
+
+interface CheckpointData {
+  event: "created" | "restored";
+  checkpoint: { id: string; iteration: number | null; label: string };
+  safety?: { id: string };
+}
+
+interface PolicyVerdictData {
+  toolName: string;
+  input: unknown;
+  verdict: { decision: "allow" | "deny"; reason: string; rule: string | null };
+}
+
+// Requests sent over the WebSocket, each answered by an ack with the same id
+type RequestType =
+  | "interrupt" | "cancel" | "keys" | "paste" | "inject" | "interrupt-inject" | "resize"
+  | "pause" | "resume" | "stop" | "launch";
+
+type SendRequest = (type: RequestType, body?: Record<string, unknown>, workerId?: string) => Promise<Record<string, unknown>>;
+
+type AckData =
+  | { id: string; ok: true; result: Record<string, unknown> }
+  | { id: string; ok: false; error: string; status: number };
+
+// Time to wait for an ack (launch spawns Claude, interrupt-inject waits for it to settle)
+const REQUEST_TIMEOUT_MS = 30000;
+
+interface SteerData {
+  op: { op: string; command?: string; text?: string };
+}
+
+interface WatchdogData {
+  alert: { kind: "stall" | "loop"; reason: string };
+  action: "escalate" | "interrupt" | "notify";
+}
+
 interface PTYOutputData {
-  output: string; // Clean text (ANSI stripped)
-  raw?: string; // Base64 raw output (for terminal rendering if needed)
+  output: string; // Clean text (ANSI stripped, empty for terminal noise)
+  raw: string; // Base64 raw output, rendered by the terminal panel
 }
 
-interface SupervisorPTYOutputData {
-  output: string; // Clean text from supervisor
+type TerminalChannel = "worker" | "supervisor";
+
+// Screen to reset a terminal to (on connect, respawn and resize)
+interface TerminalSnapshotData {
+  channel: TerminalChannel;
+  cols: number;
+  rows: number;
+  data: string;
 }
 
+type TerminalListener = (channel: TerminalChannel, update: { snapshot: TerminalSnapshotData } | { raw: Uint8Array }) => void;
+
 interface IterationUpdateData {
   current: number;
   max: number;
@@ -72,10 +194,11 @@ interface ToolHistoryEntry {
 interface EventLogEntry {
   id: number;
   timestamp: string;
-  type: "hook" | "supervisor" | "inject" | "error";
+  type: "hook" | "supervisor" | "inject" | "verification" | "checkpoint" | "notification" | "policy" | "approval" | "watchdog" | "error";
   title: string;
   detail: string;
-  transcriptPath?: string;
+  /** Session whose transcript can be opened (stop events) */
+  transcriptSession?: string;
 }
 
 // Decision history entry
@@ -92,33 +215,135 @@ interface TranscriptLine {
   [key: string]: unknown;
 }
 
+// Line appended to a watched transcript (transcript_entry messages)
+interface TranscriptEntryData {
+  sessionId: string;
+  path: string;
+  entry: { index: number; raw: TranscriptLine };
+}
+
+type TranscriptListener = (data: TranscriptEntryData) => void;
+
+// Queued task from /api/queue and queue_update messages
+interface QueuedTask {
+  id: string;
+  description: string;
+  status: string;
+  position: number;
+  outcome: string | null;
+}
+
+// Pool worker view, built from worker-tagged WS messages
+interface WorkerView {
+  id: string;
+  state: SessionStateData | null;
+  output: string;
+  lastDecision: SupervisorDecisionData["decision"] | null;
+  lastEvent: string | null;
+}
+
+// Persisted run from /api/runs
+interface RunRecord {
+  id: string;
+  task: string;
+  status: string;
+  sessionId: string | null;
+  startedAt: string;
+  endedAt: string | null;
+  stopReason: string | null;
+  eventCount: number;
+}
+
+// Persisted run event from /api/runs/:id
+interface RunEventRecord {
+  id: number;
+  kind: string;
+  name: string | null;
+  timestamp: string;
+  payload: unknown;
+}
+
 // Custom hook for WebSocket connection
 function useWebSocket(url: string) {
   const [isConnected, setIsConnected] = useState(false);
   const [sessionState, setSessionState] = useState<SessionStateData | null>(
     null
   );
-  const [terminalOutput, setTerminalOutput] = useState("");
-  const [supervisorOutput, setSupervisorOutput] = useState("");
   const [events, setEvents] = useState<EventLogEntry[]>([]);
   const [iterationData, setIterationData] = useState<IterationUpdateData | null>(null);
   const [decisionHistory, setDecisionHistory] = useState<DecisionHistoryEntry[]>([]);
   const [toolHistory, setToolHistory] = useState<ToolHistoryEntry[]>([]);
+  const [workers, setWorkers] = useState<Record<string, WorkerView>>({});
+  const [queue, setQueue] = useState<QueuedTask[]>([]);
   const wsRef = useRef<WebSocket | null>(null);
+  const lastSeqRef = useRef(0);
   const eventIdRef = useRef(0);
   const toolIdRef = useRef(0);
   const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const transcriptListenersRef = useRef(new Set<TranscriptListener>());
+  const terminalListenersRef = useRef(new Set<TerminalListener>());
+  const requestIdRef = useRef(0);
+  const pendingRequestsRef = useRef(new Map<string, {
+    resolve: (result: Record<string, unknown>) => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+  }>());
+
+  // Send a request over the socket; resolves with the ack's result, rejects with its error
+  const sendRequest = useCallback<SendRequest>((type, body = {}, workerId) => {
+    const ws = wsRef.current;
+    if (ws?.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error("Not connected"));
+    }
+    const id = String(++requestIdRef.current);
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pendingRequestsRef.current.delete(id);
+        reject(new Error(`No answer to ${type} after ${REQUEST_TIMEOUT_MS / 1000}s`));
+      }, REQUEST_TIMEOUT_MS);
+      pendingRequestsRef.current.set(id, { resolve, reject, timer });
+      ws.send(JSON.stringify({ ...body, id, type, ...(workerId && { workerId }) }));
+    });
+  }, []);
+
+  const settleRequest = useCallback((ack: AckData) => {
+    const pending = pendingRequestsRef.current.get(ack.id);
+    if (!pending) return;
+    pendingRequestsRef.current.delete(ack.id);
+    clearTimeout(pending.timer);
+    if (ack.ok) {
+      pending.resolve(ack.result);
+    } else {
+      pending.reject(new Error(ack.error));
+    }
+  }, []);
+
+  // Terminals render raw PTY output without going through React state
+  const subscribeTerminal = useCallback((listener: TerminalListener) => {
+    terminalListenersRef.current.add(listener);
+    return () => {
+      terminalListenersRef.current.delete(listener);
+    };
+  }, []);
+
+  // Let an open transcript view receive new lines as they are written
+  const subscribeTranscript = useCallback((listener: TranscriptListener) => {
+    transcriptListenersRef.current.add(listener);
+    return () => {
+      transcriptListenersRef.current.delete(listener);
+    };
+  }, []);
 
   const addEvent = useCallback(
-    (type: EventLogEntry["type"], title: string, detail: string, transcriptPath?: string) => {
+    (type: EventLogEntry["type"], title: string, detail: string, transcriptSession?: string, timestamp?: string) => {
       setEvents((prev) => {
         const newEvent: EventLogEntry = {
           id: eventIdRef.current++,
-          timestamp: new Date().toISOString(),
+          timestamp: timestamp ?? new Date().toISOString(),
           type,
           title,
           detail,
-          transcriptPath,
+          transcriptSession,
         };
         // Keep last 50 events
         return [newEvent, ...prev].slice(0, 50);
@@ -127,10 +352,78 @@ function useWebSocket(url: string) {
     []
   );
 
+  // Fold a pool worker's message into its grid card
+  const handleWorkerMessage = useCallback((workerId: string, msg: WSMessage) => {
+    setWorkers((prev) => {
+      const current: WorkerView = prev[workerId] ?? {
+        id: workerId,
+        state: null,
+        output: "",
+        lastDecision: null,
+        lastEvent: null,
+      };
+      const next = { ...current };
+
+      switch (msg.type) {
+        case "session_state":
+          next.state = msg.data as SessionStateData;
+          break;
+        case "pty_output": {
+          const { output } = msg.data as PTYOutputData;
+          if (!output) return prev;
+          // Keep last 4KB per worker card
+          next.output = (current.output + output + "\n").slice(-4000);
+          break;
+        }
+        case "supervisor_decision":
+          next.lastDecision = (msg.data as SupervisorDecisionData).decision;
+          break;
+        case "hook_event":
+          next.lastEvent = `${(msg.data as HookEventData).eventType} at ${formatTime(msg.timestamp)}`;
+          break;
+        case "command_inject":
+          next.lastEvent = `inject: ${(msg.data as CommandInjectData).command}`;
+          break;
+        case "verification_result":
+          next.lastEvent = `verification ${(msg.data as VerificationResultData).result.passed ? "passed" : "failed"}`;
+          break;
+        case "checkpoint": {
+          const { event, checkpoint } = msg.data as CheckpointData;
+          next.lastEvent = `checkpoint ${event}: ${checkpoint.label}`;
+          break;
+        }
+        case "policy_verdict": {
+          const { toolName, verdict } = msg.data as PolicyVerdictData;
+          if (verdict.decision === "deny") next.lastEvent = `blocked ${toolName}: ${verdict.reason}`;
+          break;
+        }
+        case "watchdog": {
+          const { alert } = msg.data as WatchdogData;
+          next.lastEvent = `${alert.kind}: ${alert.reason}`;
+          break;
+        }
+        case "approval": {
+          const { event, pending } = msg.data as ApprovalData;
+          next.lastEvent = `decision ${pending.decision.action} ${event.replace("_", "-")}`;
+          if (next.state) {
+            next.state = { ...next.state, pendingDecision: event === "pending" ? pending : null };
+          }
+          break;
+        }
+        case "error":
+          next.lastEvent = `error: ${(msg.data as { message: string }).message}`;
+          break;
+      }
+
+      return { ...prev, [workerId]: next };
+    });
+  }, []);
+
   const connect = useCallback(() => {
     if (wsRef.current?.readyState === WebSocket.OPEN) return;
 
-    const ws = new WebSocket(url);
+    // Reconnects resume after the last message seen
+    const ws = new WebSocket(lastSeqRef.current > 0 ? `${url}&since=${lastSeqRef.current}` : url);
     wsRef.current = ws;
 
     ws.onopen = () => {
@@ -140,6 +433,11 @@ function useWebSocket(url: string) {
 
     ws.onclose = () => {
       setIsConnected(false);
+      for (const { reject, timer } of pendingRequestsRef.current.values()) {
+        clearTimeout(timer);
+        reject(new Error("Connection closed"));
+      }
+      pendingRequestsRef.current.clear();
       console.log("[WS] Disconnected, reconnecting in 2s...");
       reconnectTimeoutRef.current = setTimeout(connect, 2000);
     };
@@ -152,36 +450,56 @@ function useWebSocket(url: string) {
       try {
         const msg = JSON.parse(event.data) as WSMessage;
 
+        if (msg.type === "ack") {
+          settleRequest(msg.data as AckData);
+          return;
+        }
+
+        if (msg.type === "connected") {
+          if (!(msg.data as ConnectedData).resumed) {
+            // Everything the server kept is replayed: start over rather than list it twice
+            lastSeqRef.current = 0;
+            setEvents([]);
+            setDecisionHistory([]);
+            setToolHistory([]);
+            setWorkers({});
+          }
+          return;
+        }
+
+        // Apply each broadcast message once, replayed or live
+        if (msg.seq !== undefined) {
+          if (msg.seq <= lastSeqRef.current) return;
+          lastSeqRef.current = msg.seq;
+        }
+
+        // Replayed messages are logged at the time they happened
+        const logEvent: typeof addEvent = (type, title, detail, transcriptSession) =>
+          addEvent(type, title, detail, transcriptSession, msg.timestamp);
+
+        // Pool worker messages feed the worker grid, not the primary panels
+        if (msg.workerId) {
+          handleWorkerMessage(msg.workerId, msg);
+          return;
+        }
+
         switch (msg.type) {
           case "session_state":
             setSessionState(msg.data as SessionStateData);
             break;
 
-          case "pty_output": {
-            // output is now clean text (ANSI stripped)
-            const { output } = msg.data as PTYOutputData;
-            setTerminalOutput((prev) => {
-              // Keep last 100KB of output
-              const combined = prev + output;
-              if (combined.length > 100000) {
-                return combined.slice(-100000);
-              }
-              return combined;
-            });
+          case "pty_output":
+          case "supervisor_pty_output": {
+            const { raw } = msg.data as PTYOutputData;
+            const bytes = Uint8Array.from(atob(raw), (c) => c.charCodeAt(0));
+            const channel = msg.type === "pty_output" ? "worker" : "supervisor";
+            for (const listener of terminalListenersRef.current) listener(channel, { raw: bytes });
             break;
           }
 
-          case "supervisor_pty_output": {
-            // Supervisor Claude output
-            const { output } = msg.data as SupervisorPTYOutputData;
-            setSupervisorOutput((prev) => {
-              // Keep last 100KB of output
-              const combined = prev + output + "\n";
-              if (combined.length > 100000) {
-                return combined.slice(-100000);
-              }
-              return combined;
-            });
+          case "terminal_snapshot": {
+            const snapshot = msg.data as TerminalSnapshotData;
+            for (const listener of terminalListenersRef.current) listener(snapshot.channel, { snapshot });
             break;
           }
 
@@ -189,11 +507,27 @@ function useWebSocket(url: string) {
             setIterationData(msg.data as IterationUpdateData);
             break;
 
+          case "queue_update":
+            setQueue((msg.data as { tasks: QueuedTask[] }).tasks);
+            break;
+
           case "hook_event": {
-            const { eventType, event } = msg.data as HookEventData;
+            const { eventType, event, block, snapshotPath } = msg.data as HookEventData;
             let detail = "";
             const evt = event as Record<string, unknown>;
 
+            // The worker is waiting on a human: make it stand out
+            if (eventType === "notification") {
+              logEvent(
+                "notification",
+                block?.reason === "permission" ? "Worker needs permission"
+                  : block?.reason === "idle" ? "Worker waiting for input"
+                  : "Notification",
+                String(evt.message ?? "")
+              );
+              break;
+            }
+
             switch (eventType) {
               case "stop":
                 detail = evt.transcript_path
@@ -209,7 +543,7 @@ function useWebSocket(url: string) {
                 const toolResp = evt.tool_response as Record<string, unknown> | undefined;
                 setToolHistory(prev => [{
                   id: toolIdRef.current++,
-                  timestamp: new Date().toISOString(),
+                  timestamp: msg.timestamp,
                   toolName: String(evt.tool_name || 'unknown'),
                   input: evt.tool_input,
                   output: toolResp?.output ? String(toolResp.output) : undefined,
@@ -223,21 +557,34 @@ function useWebSocket(url: string) {
               case "session-end":
                 detail = evt.reason ? String(evt.reason) : "Session ended";
                 break;
+              case "pre-tool":
+                detail = `About to run: ${evt.tool_name || "unknown"}`;
+                break;
+              case "prompt-submit":
+                detail = String(evt.prompt ?? "").slice(0, 200);
+                break;
+              case "subagent-stop":
+                detail = "Subagent finished (no supervisor call)";
+                break;
+              case "pre-compact":
+                detail = `${evt.trigger === "auto" ? "Auto" : "Manual"} compaction` +
+                  (snapshotPath ? `, context saved to ${snapshotPath.split("/").pop()}` : "");
+                break;
               default:
                 detail = evt.session_id
                   ? `Session: ${String(evt.session_id).slice(0, 8)}...`
                   : "";
             }
-            const transcriptPath = eventType === "stop" && evt.transcript_path
-              ? String(evt.transcript_path)
+            const transcriptSession = eventType === "stop" && evt.session_id
+              ? String(evt.session_id)
               : undefined;
-            addEvent("hook", `Hook: ${eventType}`, detail, transcriptPath);
+            logEvent("hook", `Hook: ${eventType}`, detail, transcriptSession);
             break;
           }
 
           case "supervisor_call": {
             const { toolCount, recentTools } = msg.data as SupervisorCallData;
-            addEvent(
+            logEvent(
               "supervisor",
               "Supervisor Called",
               `${toolCount} tools, recent: ${recentTools.join(", ")}`
@@ -247,15 +594,15 @@ function useWebSocket(url: string) {
 
           case "supervisor_decision": {
             const { decision } = msg.data as SupervisorDecisionData;
-            addEvent(
+            logEvent(
               "supervisor",
               `Decision: ${decision.action}`,
               `${decision.reason} (${(decision.confidence * 100).toFixed(0)}%)`
             );
             // Add to decision history
             setDecisionHistory(prev => [{
-              id: Date.now(),
-              timestamp: new Date().toISOString(),
+              id: msg.seq ?? Date.now(),
+              timestamp: msg.timestamp,
               action: decision.action,
               reason: decision.reason,
               confidence: decision.confidence,
@@ -265,13 +612,95 @@ function useWebSocket(url: string) {
 
           case "command_inject": {
             const { command } = msg.data as CommandInjectData;
-            addEvent("inject", "Command Injected", command);
+            logEvent("inject", "Command Injected", command);
             break;
           }
 
+          case "verification_result": {
+            const { result } = msg.data as VerificationResultData;
+            logEvent(
+              "verification",
+              `Verification ${result.passed ? "passed" : "failed"}`,
+              result.gates
+                .map((g) => `${g.passed ? "✓" : "✗"} ${g.command} (${g.timedOut ? "timed out" : `exit ${g.exitCode}`}, ${(g.durationMs / 1000).toFixed(1)}s)`)
+                .join("; ")
+            );
+            break;
+          }
+
+          case "checkpoint": {
+            const { event, checkpoint, safety } = msg.data as CheckpointData;
+            logEvent(
+              "checkpoint",
+              event === "created" ? "Checkpoint" : "Checkpoint Restored",
+              `${checkpoint.id.slice(0, 12)} ${checkpoint.label}${safety ? ` (previous state saved as ${safety.id.slice(0, 12)})` : ""}`
+            );
+            break;
+          }
+
+          case "approval": {
+            const { event, pending, applied } = msg.data as ApprovalData;
+            logEvent(
+              "approval",
+              event === "pending" ? `Approval needed: ${pending.decision.action}` : `Decision ${event.replace("_", "-")}`,
+              event === "pending"
+                ? `${pending.decision.reason} (${(pending.decision.confidence * 100).toFixed(0)}%)`
+                : applied ? `${applied.action}${applied.command ? `: ${applied.command}` : ""}` : "Dropped, worker waits for a command"
+            );
+            // Show or clear the approval card without waiting for the next state push
+            setSessionState((prev) => prev && { ...prev, pendingDecision: event === "pending" ? pending : null });
+            break;
+          }
+
+          case "steer": {
+            const { op } = msg.data as SteerData;
+            // Injected commands are logged by command_inject
+            if (op.op === "keys") break;
+            logEvent("inject", op.op === "interrupt_inject" ? "Interrupted" : `Steer: ${op.op}`, op.text ?? "");
+            break;
+          }
+
+          case "watchdog": {
+            const { alert, action } = msg.data as WatchdogData;
+            logEvent(
+              "watchdog",
+              alert.kind === "stall" ? "Worker Stalled" : "Worker Looping",
+              `${alert.reason}${action === "notify" ? "" : action === "interrupt" ? " (interrupting, asking supervisor)" : " (asking supervisor)"}`
+            );
+            break;
+          }
+
+          case "policy_verdict": {
+            const { toolName, input, verdict } = msg.data as PolicyVerdictData;
+            // Plain allows (no rule matched) would flood the log
+            if (verdict.decision === "allow" && !verdict.rule) break;
+            logEvent(
+              "policy",
+              verdict.decision === "deny" ? `Blocked: ${toolName}` : `Allowed: ${toolName}`,
+              `${verdict.reason}${verdict.rule ? ` [${verdict.rule}]` : ""}`
+            );
+            // Denied calls never reach PostToolUse, so list them here
+            if (verdict.decision === "deny") {
+              setToolHistory(prev => [{
+                id: toolIdRef.current++,
+                timestamp: msg.timestamp,
+                toolName,
+                input,
+                error: `Blocked by policy: ${verdict.reason}`,
+              }, ...prev].slice(0, 50));
+            }
+            break;
+          }
+
+          case "transcript_entry":
+            for (const listener of transcriptListenersRef.current) {
+              listener(msg.data as TranscriptEntryData);
+            }
+            break;
+
           case "error": {
             const { message } = msg.data as { message: string };
-            addEvent("error", "Error", message);
+            logEvent("error", "Error", message);
             break;
           }
         }
@@ -279,7 +708,7 @@ function useWebSocket(url: string) {
         console.error("[WS] Parse error:", err);
       }
     };
-  }, [url, addEvent]);
+  }, [url, addEvent, handleWorkerMessage, settleRequest]);
 
   useEffect(() => {
     connect();
@@ -291,6 +720,14 @@ function useWebSocket(url: string) {
     };
   }, [connect]);
 
+  // Initial queue snapshot (later changes arrive as queue_update messages)
+  useEffect(() => {
+    apiFetch("/api/queue")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setQueue(data.tasks))
+      .catch((err) => console.error("Failed to load queue:", err));
+  }, []);
+
   // Ping keepalive
   useEffect(() => {
     const interval = setInterval(() => {
@@ -301,7 +738,17 @@ function useWebSocket(url: string) {
     return () => clearInterval(interval);
   }, []);
 
-  return { isConnected, sessionState, terminalOutput, supervisorOutput, events, iterationData, decisionHistory, toolHistory };
+  return { isConnected, sessionState, subscribeTerminal, events, addEvent, sendRequest, iterationData, decisionHistory, toolHistory, workers, queue, subscribeTranscript };
+}
+
+// Runtime of a running task, ticking locally (state is only pushed on change)
+function LiveRuntime({ startTime }: { startTime: string }) {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+  return <>{formatRuntime(Math.max(0, now - Date.parse(startTime)))}</>;
 }
 
 // Format runtime
@@ -319,6 +766,23 @@ function formatRuntime(ms: number): string {
   return `${seconds}s`;
 }
 
+// Format token counts (1234567 → 1.2M)
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+// Format a cost (and budget, if any) in dollars
+function formatCost(usage: RunUsage): string {
+  const cost = `$${usage.totalCostUsd.toFixed(2)}`;
+  return usage.maxCostUsd !== null ? `${cost} / $${usage.maxCostUsd.toFixed(2)}` : cost;
+}
+
+function totalTokens(totals: UsageTotals): number {
+  return totals.inputTokens + totals.outputTokens + totals.cacheCreationTokens + totals.cacheReadTokens;
+}
+
 // Format timestamp
 function formatTime(iso: string): string {
   return new Date(iso).toLocaleTimeString();
@@ -356,22 +820,23 @@ function IterationProgress({ data }: { data: IterationUpdateData | null }) {
 // Control Panel Component
 function ControlPanel({
   isPaused,
-  onInject,
+  onSteer,
   onPause,
   onResume,
   onStop
 }: {
   isPaused: boolean;
-  onInject: (cmd: string) => void;
+  onSteer: (type: RequestType, body?: Record<string, unknown>) => void;
   onPause: () => void;
   onResume: () => void;
   onStop: () => void;
 }) {
   const [command, setCommand] = useState("");
 
-  const handleInject = () => {
+  // Plain inject queues behind the worker's turn; interrupt-inject stops the turn first
+  const handleInject = (op: "inject" | "interrupt-inject" = "inject") => {
     if (command.trim()) {
-      onInject(command);
+      onSteer(op, { command });
       setCommand("");
     }
   };
@@ -389,11 +854,17 @@ function ControlPanel({
             onChange={(e) => setCommand(e.target.value)}
             onKeyDown={(e) => e.key === "Enter" && handleInject()}
           />
-          <button className="inject-button" onClick={handleInject}>
+          <button className="inject-button" onClick={() => handleInject()}>
             Inject
           </button>
+          <button className="inject-button" onClick={() => handleInject("interrupt-inject")} title="Interrupt the current turn (Esc), then inject">
+            Steer
+          </button>
         </div>
         <div className="control-buttons">
+          <button className="control-btn interrupt" onClick={() => onSteer("interrupt")} title="Send Esc">
+            Interrupt
+          </button>
           {isPaused ? (
             <button className="control-btn resume" onClick={onResume}>
               Resume
@@ -412,15 +883,162 @@ function ControlPanel({
   );
 }
 
+// Pending decision with Approve/Edit/Reject (primary worker or a pool worker)
+function PendingDecisionCard({ pending, apiBase }: { pending: PendingDecision; apiBase: string }) {
+  const [editing, setEditing] = useState(false);
+  const [command, setCommand] = useState(pending.decision.command ?? "");
+  const [error, setError] = useState<string | null>(null);
+  const { decision } = pending;
+
+  const post = async (action: "approve" | "edit" | "reject", body?: unknown) => {
+    setError(null);
+    try {
+      const res = await apiFetch(`${apiBase}/decisions/pending/${pending.id}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body ?? {}),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || `HTTP ${res.status}`);
+      }
+      setEditing(false);
+    } catch (err) {
+      setError(String(err));
+    }
+  };
+
+  // An edited command always becomes an inject (unless the decision was a rollback)
+  const submitEdit = () => {
+    if (!command.trim()) return;
+    post("edit", { action: decision.action === "rollback" ? "rollback" : "inject", command });
+  };
+
+  return (
+    <div className={`pending-decision decision-item ${decision.action}`}>
+      <div className="decision-header">
+        <span className="decision-action">Approve {decision.action}?</span>
+        <span className="decision-time">
+          {pending.trigger === "low_confidence" ? "low confidence" : "approval mode"}
+        </span>
+      </div>
+      <div className="decision-reason">
+        {decision.reason} ({(decision.confidence * 100).toFixed(0)}%)
+      </div>
+      {editing ? (
+        <div className="inject-row">
+          <input
+            type="text"
+            className="inject-input"
+            value={command}
+            onChange={(e) => setCommand(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && submitEdit()}
+            autoFocus
+          />
+          <button className="inject-button" onClick={submitEdit}>
+            Send
+          </button>
+        </div>
+      ) : (
+        decision.command && <pre className="pending-command">{decision.command}</pre>
+      )}
+      <div className="control-buttons">
+        <button className="control-btn resume" onClick={() => post("approve")}>
+          Approve
+        </button>
+        <button className="control-btn pause" onClick={() => setEditing(!editing)}>
+          {editing ? "Cancel" : "Edit"}
+        </button>
+        <button className="control-btn stop" onClick={() => post("reject")}>
+          Reject
+        </button>
+      </div>
+      {pending.autoApproveAt && (
+        <div className="event-detail">Auto-approves at {formatTime(pending.autoApproveAt)}</div>
+      )}
+      {error && <div className="launch-error">{error}</div>}
+    </div>
+  );
+}
+
+// Task Queue Panel Component
+function QueuePanel({ tasks }: { tasks: QueuedTask[] }) {
+  const [description, setDescription] = useState("");
+
+  const handleAdd = async () => {
+    if (!description.trim()) return;
+    try {
+      await apiFetch("/api/queue", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ description }),
+      });
+      setDescription("");
+    } catch (err) {
+      console.error("Failed to queue task:", err);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      await apiFetch(`/api/queue/${encodeURIComponent(id)}`, { method: "DELETE" });
+    } catch (err) {
+      console.error("Failed to remove task:", err);
+    }
+  };
+
+  const pending = tasks.filter((t) => t.status === "pending").length;
+
+  return (
+    <div className="panel queue-panel">
+      <div className="panel-header">Task Queue ({pending} pending)</div>
+      <div className="panel-content">
+        <div className="inject-row">
+          <input
+            type="text"
+            className="inject-input"
+            placeholder="Queue a task..."
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+          />
+          <button className="inject-button" onClick={handleAdd}>
+            Add
+          </button>
+        </div>
+        {tasks.length === 0 ? (
+          <div className="empty-state small">Queue is empty</div>
+        ) : (
+          <div className="queue-list">
+            {tasks.map((task) => (
+              <div key={task.id} className={`queue-item ${task.status}`} title={task.outcome ?? undefined}>
+                <span className={`status-badge ${task.status}`}>{task.status}</span>
+                <span className="queue-description">{task.description}</span>
+                {task.status !== "running" && (
+                  <button className="queue-remove" onClick={() => handleRemove(task.id)}>
+                    &times;
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // Supervisor Panel Component
 function SupervisorPanel({
   iterationData,
   decisionHistory,
-  controllerState
+  controllerState,
+  pendingDecision
 }: {
   iterationData: IterationUpdateData | null;
   decisionHistory: DecisionHistoryEntry[];
   controllerState: string;
+  pendingDecision: PendingDecision | null;
 }) {
   return (
     <div className="panel supervisor-panel">
@@ -433,6 +1051,8 @@ function SupervisorPanel({
 
         <IterationProgress data={iterationData} />
 
+        {pendingDecision && <PendingDecisionCard key={pendingDecision.id} pending={pendingDecision} apiBase="/api" />}
+
         <div className="decision-history">
           <div className="history-title">Recent Decisions</div>
           {decisionHistory.length === 0 ? (
@@ -461,6 +1081,103 @@ function SupervisorPanel({
   );
 }
 
+// Worker Card Component (one pool worker)
+function WorkerCard({ worker, sendRequest }: { worker: WorkerView; sendRequest: SendRequest }) {
+  const [task, setTask] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const running = worker.state?.claudeRunning ?? false;
+  const controllerState = worker.state?.controllerState ?? "idle";
+  const stats = worker.state?.stats;
+
+  const post = async (action: "launch" | "stop", body?: Record<string, unknown>) => {
+    setError(null);
+    try {
+      await sendRequest(action, body, worker.id);
+      setTask("");
+    } catch (err) {
+      setError(String(err));
+    }
+  };
+
+  return (
+    <div className="worker-card">
+      <div className="worker-header">
+        <span className="worker-name">{worker.id}</span>
+        {worker.state?.blocked && (
+          <span
+            className={`status-badge ${worker.state.blocked.reason === "idle" ? "idle-prompt" : "permission"}`}
+            title={worker.state.blocked.message}
+          >
+            {worker.state.blocked.reason}
+          </span>
+        )}
+        <span className={`status-badge ${controllerState}`}>{controllerState}</span>
+      </div>
+      {worker.state?.metadata?.taskDescription && (
+        <div className="run-task">{worker.state.metadata.taskDescription}</div>
+      )}
+      {stats && (
+        <div className="worker-stats">
+          {stats.toolCalls} tools · {stats.supervisorCalls} sup · {stats.commandsInjected} inj · {stats.errorsDetected} err
+          {worker.state?.usage && <> · {formatCost(worker.state.usage)}</>}
+        </div>
+      )}
+      {worker.lastDecision && (
+        <div className={`decision-item ${worker.lastDecision.action}`}>
+          <span className="decision-action">{worker.lastDecision.action}</span>{" "}
+          <span className="decision-reason">{worker.lastDecision.reason}</span>
+        </div>
+      )}
+      {worker.state?.pendingDecision && (
+        <PendingDecisionCard
+          key={worker.state.pendingDecision.id}
+          pending={worker.state.pendingDecision}
+          apiBase={`/api/workers/${encodeURIComponent(worker.id)}`}
+        />
+      )}
+      {worker.lastEvent && <div className="event-detail">{worker.lastEvent}</div>}
+      <pre className="worker-output">{worker.output.split("\n").slice(-8).join("\n")}</pre>
+      {running ? (
+        <button className="control-btn stop" onClick={() => post("stop")}>
+          Stop
+        </button>
+      ) : (
+        <div className="inject-row">
+          <input
+            type="text"
+            className="inject-input"
+            placeholder="Task (optional)"
+            value={task}
+            onChange={(e) => setTask(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && post("launch", { task: task || undefined })}
+          />
+          <button className="inject-button" onClick={() => post("launch", { task: task || undefined })}>
+            Launch
+          </button>
+        </div>
+      )}
+      {error && <div className="launch-error">{error}</div>}
+    </div>
+  );
+}
+
+// Worker Grid Panel Component (pool workers)
+function WorkerGridPanel({ workers, sendRequest }: { workers: Record<string, WorkerView>; sendRequest: SendRequest }) {
+  const list = Object.values(workers);
+  if (list.length === 0) return null;
+
+  return (
+    <div className="panel worker-grid-panel">
+      <div className="panel-header">Workers ({list.length})</div>
+      <div className="panel-content worker-grid">
+        {list.map((worker) => (
+          <WorkerCard key={worker.id} worker={worker} sendRequest={sendRequest} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // Tool History Panel Component
 function ToolHistoryPanel({ tools }: { tools: ToolHistoryEntry[] }) {
   const [expandedId, setExpandedId] = useState<number | null>(null);
@@ -525,7 +1242,7 @@ function SessionPanel({ data }: { data: SessionStateData | null }) {
     );
   }
 
-  const { sessionState, metadata, controllerState, stats } = data;
+  const { sessionState, metadata, controllerState, stats, usage, blocked } = data;
 
   return (
     <div className="panel">
@@ -549,10 +1266,41 @@ function SessionPanel({ data }: { data: SessionStateData | null }) {
           {metadata && (
             <div className="info-row">
               <span className="info-label">Runtime</span>
-              <span className="info-value">{formatRuntime(metadata.runtime)}</span>
+              <span className="info-value">
+                {sessionState.status === "task_running"
+                  ? <LiveRuntime startTime={metadata.startTime} />
+                  : formatRuntime(metadata.runtime)}
+              </span>
             </div>
           )}
 
+          {blocked && (
+            <>
+              <div className="info-row">
+                <span className="info-label">Blocked</span>
+                <span className={`status-badge ${blocked.reason === "idle" ? "idle-prompt" : "permission"}`}>
+                  {blocked.reason}
+                </span>
+              </div>
+              <div className="blocked-message">{blocked.message}</div>
+            </>
+          )}
+
+          {usage && (
+            <>
+              <div className="info-row">
+                <span className="info-label">Cost</span>
+                <span className="info-value">{formatCost(usage)}</span>
+              </div>
+              <div className="info-row">
+                <span className="info-label">Tokens</span>
+                <span className="info-value">
+                  worker {formatTokens(totalTokens(usage.worker))} · supervisor {formatTokens(totalTokens(usage.supervisor))}
+                </span>
+              </div>
+            </>
+          )}
+
           {metadata?.taskDescription && (
             <div className="task-description">{metadata.taskDescription}</div>
           )}
@@ -574,6 +1322,10 @@ function SessionPanel({ data }: { data: SessionStateData | null }) {
               <div className="stat-value">{stats.errorsDetected}</div>
               <div className="stat-label">Errors</div>
             </div>
+            <div className="stat-item">
+              <div className="stat-value">{stats.toolsBlocked ?? 0}</div>
+              <div className="stat-label">Blocked</div>
+            </div>
           </div>
         </div>
       </div>
@@ -583,37 +1335,18 @@ function SessionPanel({ data }: { data: SessionStateData | null }) {
 
 // Terminal Panel Component
 function TerminalPanel({
-  workerOutput,
-  supervisorOutput,
+  subscribe,
+  onInput,
 }: {
-  workerOutput: string;
-  supervisorOutput: string;
+  subscribe: (listener: TerminalListener) => () => void;
+  onInput: (data: string) => void;
 }) {
-  const terminalRef = useRef<HTMLDivElement>(null);
-  const shouldScrollRef = useRef(true);
-  const [viewMode, setViewMode] = useState<"worker" | "supervisor">("supervisor");
-
-  const output = viewMode === "supervisor" ? supervisorOutput : workerOutput;
-
-  // Auto-scroll to bottom when new output arrives
-  useEffect(() => {
-    if (terminalRef.current && shouldScrollRef.current) {
-      terminalRef.current.scrollTop = terminalRef.current.scrollHeight;
-    }
-  }, [output]);
-
-  // Track if user has scrolled up
-  const handleScroll = () => {
-    if (terminalRef.current) {
-      const { scrollTop, scrollHeight, clientHeight } = terminalRef.current;
-      shouldScrollRef.current = scrollHeight - scrollTop - clientHeight < 50;
-    }
-  };
+  const [viewMode, setViewMode] = useState<TerminalChannel>("supervisor");
 
   return (
     <div className="panel terminal-panel">
       <div className="panel-header">
-        <span>Terminal Output</span>
+        <span>Terminal</span>
         <div className="terminal-toggle">
           <button
             className={`toggle-btn ${viewMode === "supervisor" ? "active" : ""}`}
@@ -629,41 +1362,110 @@ function TerminalPanel({
           </button>
         </div>
       </div>
-      <div
-        className="terminal panel-content"
-        ref={terminalRef}
-        onScroll={handleScroll}
-      >
-        {output || <span className="empty-state">No output yet...</span>}
-      </div>
+      {/* Both stay mounted so neither misses output while hidden */}
+      <TerminalScreen channel="supervisor" subscribe={subscribe} hidden={viewMode !== "supervisor"} />
+      <TerminalScreen channel="worker" subscribe={subscribe} onInput={onInput} hidden={viewMode !== "worker"} />
     </div>
   );
 }
 
+// Replies xterm sends to queries in the output (device attributes, cursor
+// position, colours): not typed by anyone, and every open monitor would send them
+function isTerminalReport(data: string): boolean {
+  return /^\x1b\[[?>]?[\d;]*[cnRy]$/.test(data) || /^\x1b\][\d;]+.*(\x07|\x1b\\)$/.test(data);
+}
+
+// xterm view of one PTY: reset by snapshots, fed raw output, typing goes to onInput
+function TerminalScreen({
+  channel,
+  subscribe,
+  onInput,
+  hidden,
+}: {
+  channel: TerminalChannel;
+  subscribe: (listener: TerminalListener) => () => void;
+  onInput?: (data: string) => void;
+  hidden: boolean;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onInputRef = useRef(onInput);
+  onInputRef.current = onInput;
+  const readOnly = !onInput;
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const term = new Terminal({
+      disableStdin: readOnly,
+      cursorBlink: !readOnly,
+      scrollback: 1000,
+      fontFamily: 'ui-monospace, SFMono-Regular, "SF Mono", Consolas, "Liberation Mono", Menlo, monospace',
+      fontSize: 13,
+      theme: { background: "#0d1117" },
+    });
+    term.open(containerRef.current);
+    const input = term.onData((data) => {
+      if (!isTerminalReport(data)) onInputRef.current?.(data);
+    });
+    const unsubscribe = subscribe((from, update) => {
+      if (from !== channel) return;
+      if ("snapshot" in update) {
+        term.reset();
+        term.resize(update.snapshot.cols, update.snapshot.rows);
+        term.write(update.snapshot.data);
+      } else {
+        term.write(update.raw);
+      }
+    });
+    return () => {
+      unsubscribe();
+      input.dispose();
+      term.dispose();
+    };
+  }, [channel, subscribe, readOnly]);
+
+  return <div className={`terminal-screen panel-content ${hidden ? "hidden" : ""}`} ref={containerRef} />;
+}
+
 // Transcript Modal Component
 function TranscriptModal({
-  path,
+  sessionId,
   onClose,
+  subscribe,
 }: {
-  path: string;
+  sessionId: string;
   onClose: () => void;
+  subscribe: (listener: TranscriptListener) => () => void;
 }) {
+  const [path, setPath] = useState<string | null>(null);
   const [lines, setLines] = useState<TranscriptLine[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    // Lines by index: the fetched file and live entries may overlap
+    const byIndex = new Map<number, TranscriptLine>();
+    const update = () => setLines([...byIndex.entries()].sort((a, b) => a[0] - b[0]).map(([, line]) => line));
+
+    // Subscribe before fetching so no line written in between is missed
+    const unsubscribe = subscribe((data) => {
+      if (data.sessionId !== sessionId) return;
+      byIndex.set(data.entry.index, data.entry.raw);
+      update();
+    });
+
     const fetchTranscript = async () => {
       try {
-        const res = await fetch(
-          `/api/transcript?path=${encodeURIComponent(path)}`
+        const res = await apiFetch(
+          `/api/transcript?session=${encodeURIComponent(sessionId)}`
         );
         if (!res.ok) {
           const body = await res.json();
           throw new Error(body.error || `HTTP ${res.status}`);
         }
         const data = await res.json();
-        setLines(data.lines);
+        setPath(data.path);
+        (data.lines as TranscriptLine[]).forEach((line, i) => byIndex.set(i, line));
+        update();
       } catch (err) {
         setError(String(err));
       } finally {
@@ -671,7 +1473,8 @@ function TranscriptModal({
       }
     };
     fetchTranscript();
-  }, [path]);
+    return unsubscribe;
+  }, [sessionId, subscribe]);
 
   // Close on Escape
   useEffect(() => {
@@ -682,7 +1485,7 @@ function TranscriptModal({
     return () => window.removeEventListener("keydown", handler);
   }, [onClose]);
 
-  const filename = path.split("/").pop() || path;
+  const filename = path?.split("/").pop() || `Session ${sessionId.slice(0, 8)}...`;
 
   return (
     <div className="modal-overlay" onClick={onClose}>
@@ -711,9 +1514,132 @@ function TranscriptModal({
   );
 }
 
+// Run History Modal Component
+function RunsModal({ onClose }: { onClose: () => void }) {
+  const [runs, setRuns] = useState<RunRecord[]>([]);
+  const [selected, setSelected] = useState<RunRecord | null>(null);
+  const [runEvents, setRunEvents] = useState<RunEventRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchRuns = async () => {
+      try {
+        const res = await apiFetch("/api/runs");
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || `HTTP ${res.status}`);
+        }
+        setRuns(data.runs);
+      } catch (err) {
+        setError(String(err));
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchRuns();
+  }, []);
+
+  const openRun = async (run: RunRecord) => {
+    setSelected(run);
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await apiFetch(`/api/runs/${encodeURIComponent(run.id)}`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || `HTTP ${res.status}`);
+      }
+      setRunEvents(data.events);
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Close on Escape
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [onClose]);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <span className="modal-title">
+            {selected ? `Run: ${selected.task}` : "Run History"}
+          </span>
+          <div className="modal-actions">
+            {selected && (
+              <button className="toggle-btn" onClick={() => setSelected(null)}>
+                Back
+              </button>
+            )}
+            <button className="modal-close" onClick={onClose}>
+              &times;
+            </button>
+          </div>
+        </div>
+        <div className="modal-body">
+          {loading && <div className="empty-state">Loading...</div>}
+          {error && <div className="modal-error">{error}</div>}
+          {!loading && !error && !selected && (
+            runs.length === 0 ? (
+              <div className="empty-state small">No runs recorded yet</div>
+            ) : (
+              <div className="run-list">
+                {runs.map((run) => (
+                  <div key={run.id} className="run-item" onClick={() => openRun(run)}>
+                    <div className="run-header">
+                      <span className={`status-badge ${run.status}`}>{run.status}</span>
+                      <span className="decision-time">
+                        {new Date(run.startedAt).toLocaleString()}
+                      </span>
+                    </div>
+                    <div className="run-task">{run.task}</div>
+                    <div className="event-detail">
+                      {run.eventCount} events{run.stopReason ? ` · ${run.stopReason}` : ""}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+          {!loading && !error && selected && (
+            <div className="transcript-lines">
+              {runEvents.map((event) => (
+                <div key={event.id} className={`event-item run-event ${event.kind}`}>
+                  <div className="event-time">{formatTime(event.timestamp)}</div>
+                  <div className="event-type">
+                    {event.kind}{event.name ? `: ${event.name}` : ""}
+                  </div>
+                  <pre className="transcript-line">
+                    {JSON.stringify(event.payload, null, 2)}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // Event Log Panel Component
-function EventLogPanel({ events }: { events: EventLogEntry[] }) {
-  const [transcriptPath, setTranscriptPath] = useState<string | null>(null);
+function EventLogPanel({
+  events,
+  subscribeTranscript,
+}: {
+  events: EventLogEntry[];
+  subscribeTranscript: (listener: TranscriptListener) => () => void;
+}) {
+  const [transcriptSession, setTranscriptSession] = useState<string | null>(null);
 
   return (
     <div className="panel event-log-panel">
@@ -726,10 +1652,10 @@ function EventLogPanel({ events }: { events: EventLogEntry[] }) {
             {events.map((event) => (
               <div
                 key={event.id}
-                className={`event-item ${event.type}${event.transcriptPath ? " clickable" : ""}`}
+                className={`event-item ${event.type}${event.transcriptSession ? " clickable" : ""}`}
                 onClick={
-                  event.transcriptPath
-                    ? () => setTranscriptPath(event.transcriptPath!)
+                  event.transcriptSession
+                    ? () => setTranscriptSession(event.transcriptSession!)
                     : undefined
                 }
               >
@@ -743,10 +1669,11 @@ function EventLogPanel({ events }: { events: EventLogEntry[] }) {
           </div>
         )}
       </div>
-      {transcriptPath && (
+      {transcriptSession && (
         <TranscriptModal
-          path={transcriptPath}
-          onClose={() => setTranscriptPath(null)}
+          sessionId={transcriptSession}
+          onClose={() => setTranscriptSession(null)}
+          subscribe={subscribeTranscript}
         />
       )}
     </div>
@@ -754,7 +1681,7 @@ function EventLogPanel({ events }: { events: EventLogEntry[] }) {
 }
 
 // Launch Panel Component (decouple mode)
-function LaunchPanel({ onLaunched }: { onLaunched: () => void }) {
+function LaunchPanel({ onLaunched, sendRequest }: { onLaunched: () => void; sendRequest: SendRequest }) {
   const [task, setTask] = useState("");
   const [launching, setLaunching] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -763,15 +1690,7 @@ function LaunchPanel({ onLaunched }: { onLaunched: () => void }) {
     setLaunching(true);
     setError(null);
     try {
-      const res = await fetch("/api/claude/launch", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ task: task || undefined }),
-      });
-      const data = await res.json();
-      if (!res.ok) {
-        throw new Error(data.error || `HTTP ${res.status}`);
-      }
+      await sendRequest("launch", task ? { task } : {});
       onLaunched();
     } catch (err) {
       setError(String(err));
@@ -812,52 +1731,29 @@ function LaunchPanel({ onLaunched }: { onLaunched: () => void }) {
 
 // Main App Component
 function App() {
-  const wsUrl = `ws://${window.location.host}/ws`;
-  const { isConnected, sessionState, terminalOutput, supervisorOutput, events, iterationData, decisionHistory, toolHistory } =
+  const wsUrl = `ws://${window.location.host}/ws?token=${encodeURIComponent(API_TOKEN)}`;
+  const { isConnected, sessionState, subscribeTerminal, events, addEvent, sendRequest, iterationData, decisionHistory, toolHistory, workers, queue, subscribeTranscript } =
     useWebSocket(wsUrl);
   const [launched, setLaunched] = useState(false);
-  const [isPaused, setIsPaused] = useState(false);
+  const [showRuns, setShowRuns] = useState(false);
+
+  const isPaused = sessionState?.paused ?? false;
 
   const isDecoupled = sessionState?.decoupled ?? false;
   const claudeRunning = sessionState?.claudeRunning ?? false;
   const showLaunchPanel = isDecoupled && !claudeRunning && !launched;
 
-  // Control handlers
-  const handleInject = async (cmd: string) => {
-    try {
-      await fetch("/api/control/inject", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ command: cmd }),
-      });
-    } catch (err) {
-      console.error("Failed to inject:", err);
-    }
-  };
+  // Keystrokes typed into the worker terminal
+  const handleTerminalInput = useCallback((data: string) => {
+    sendRequest("keys", { data }).catch((err) => addEvent("error", "Keystrokes not sent", (err as Error).message));
+  }, [sendRequest, addEvent]);
 
-  const handlePause = async () => {
+  // Control requests; the new state arrives as a session_state push
+  const handleRequest = async (type: RequestType, body: Record<string, unknown> = {}) => {
     try {
-      await fetch("/api/control/pause", { method: "POST" });
-      setIsPaused(true);
+      await sendRequest(type, body);
     } catch (err) {
-      console.error("Failed to pause:", err);
-    }
-  };
-
-  const handleResume = async () => {
-    try {
-      await fetch("/api/control/resume", { method: "POST" });
-      setIsPaused(false);
-    } catch (err) {
-      console.error("Failed to resume:", err);
-    }
-  };
-
-  const handleStop = async () => {
-    try {
-      await fetch("/api/control/stop", { method: "POST" });
-    } catch (err) {
-      console.error("Failed to stop:", err);
+      addEvent("error", `Could not ${type.replace("-", " then ")}`, (err as Error).message);
     }
   };
 
@@ -866,6 +1762,9 @@ function App() {
       <header className="header">
         <h1>CCO Monitor</h1>
         <div className="connection-indicator">
+          <button className="toggle-btn" onClick={() => setShowRuns(true)}>
+            Runs
+          </button>
           {isDecoupled && (
             <span className="mode-badge">DECOUPLED</span>
           )}
@@ -877,21 +1776,24 @@ function App() {
         </div>
       </header>
 
-      {showLaunchPanel && <LaunchPanel onLaunched={() => setLaunched(true)} />}
+      {showLaunchPanel && <LaunchPanel onLaunched={() => setLaunched(true)} sendRequest={sendRequest} />}
+      {showRuns && <RunsModal onClose={() => setShowRuns(false)} />}
 
       <div className="left-column">
         <SessionPanel data={sessionState} />
         <ControlPanel
           isPaused={isPaused}
-          onInject={handleInject}
-          onPause={handlePause}
-          onResume={handleResume}
-          onStop={handleStop}
+          onSteer={handleRequest}
+          onPause={() => handleRequest("pause")}
+          onResume={() => handleRequest("resume")}
+          onStop={() => handleRequest("stop")}
         />
+        <QueuePanel tasks={queue} />
       </div>
 
       <div className="center-column">
-        <TerminalPanel workerOutput={terminalOutput} supervisorOutput={supervisorOutput} />
+        <WorkerGridPanel workers={workers} sendRequest={sendRequest} />
+        <TerminalPanel subscribe={subscribeTerminal} onInput={handleTerminalInput} />
         <ToolHistoryPanel tools={toolHistory} />
       </div>
 
@@ -900,8 +1802,9 @@ function App() {
           iterationData={iterationData}
           decisionHistory={decisionHistory}
           controllerState={sessionState?.controllerState || 'idle'}
+          pendingDecision={sessionState?.pendingDecision ?? null}
         />
-        <EventLogPanel events={events} />
+        <EventLogPanel events={events} subscribeTranscript={subscribeTranscript} />
       </div>
     </div>
   );
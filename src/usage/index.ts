@@ -0,0 +1,11 @@
+/**
+ * Usage Module
+ *
+ * Token and cost accounting for the worker and the supervisor.
+ */
+
+export { UsageTracker } from "./tracker";
+export type { UsageTrackerOptions } from "./tracker";
+export { DEFAULT_PRICES, priceFor, costOf, loadPriceTable } from "./pricing";
+export type { ModelPrice, PriceTable } from "./pricing";
+export { readTranscriptUsage } from "./transcript";
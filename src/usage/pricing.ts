@@ -0,0 +1,91 @@
+/**
+ * Model Pricing
+ *
+ * Price table used to turn token counts into dollars. Models are matched by
+ * the longest key their name starts with, so "claude-sonnet-4" covers every
+ * dated Sonnet 4.x release; "default" prices anything unknown.
+ */
+
+import { existsSync } from "node:fs";
+import { resolve } from "node:path";
+import type { TokenUsage } from "../hooks/types";
+
+/**
+ * Price of one model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  /** Prompt-cache writes (default: input price) */
+  cacheWrite?: number;
+  /** Prompt-cache reads (default: input price) */
+  cacheRead?: number;
+}
+
+/**
+ * Model name prefix → price
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICES: PriceTable = {
+  "claude-opus-4-5": { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  "claude-opus-4": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-sonnet-4": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-3-7-sonnet": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-haiku-4-5": { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  default: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+};
+
+/**
+ * Find the price for a model (longest matching prefix, then "default")
+ */
+export function priceFor(model: string | undefined, table: PriceTable = DEFAULT_PRICES): ModelPrice {
+  let match: string | null = null;
+  for (const key of Object.keys(table)) {
+    if (key !== "default" && model?.startsWith(key) && key.length > (match?.length ?? 0)) {
+      match = key;
+    }
+  }
+  return table[match ?? "default"] ?? DEFAULT_PRICES.default!;
+}
+
+/**
+ * Price of a usage block in USD
+ */
+export function costOf(usage: TokenUsage, table: PriceTable = DEFAULT_PRICES): number {
+  const price = priceFor(usage.model, table);
+  return (
+    usage.inputTokens * price.input +
+    usage.outputTokens * price.output +
+    (usage.cacheCreationTokens ?? 0) * (price.cacheWrite ?? price.input) +
+    (usage.cacheReadTokens ?? 0) * (price.cacheRead ?? price.input)
+  ) / 1_000_000;
+}
+
+/**
+ * Load a JSON price table and merge it over the defaults
+ * @throws Error if the file is missing or an entry is malformed
+ */
+export async function loadPriceTable(path: string): Promise<PriceTable> {
+  const fullPath = resolve(path);
+  if (!existsSync(fullPath)) {
+    throw new Error(`Price table not found: ${path}`);
+  }
+
+  const loaded: unknown = await Bun.file(fullPath).json();
+  if (typeof loaded !== "object" || loaded === null || Array.isArray(loaded)) {
+    throw new Error(`${path}: expected an object of model → { input, output }`);
+  }
+
+  for (const [model, price] of Object.entries(loaded)) {
+    const fields = ["input", "output", "cacheWrite", "cacheRead"] as const;
+    const valid = typeof price === "object" && price !== null &&
+      typeof price.input === "number" && typeof price.output === "number" &&
+      fields.every((f) => price[f] === undefined || (typeof price[f] === "number" && price[f] >= 0));
+    if (!valid) {
+      throw new Error(`${path}: "${model}" needs numeric input and output prices (USD per million tokens)`);
+    }
+  }
+  return { ...DEFAULT_PRICES, ...(loaded as PriceTable) };
+}
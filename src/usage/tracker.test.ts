@@ -0,0 +1,123 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { appendFileSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HooksController, type ControllerSnapshot } from "../hooks";
+import { priceFor } from "./pricing";
+import { readTranscriptUsage } from "./transcript";
+import { UsageTracker } from "./tracker";
+
+let dir: string;
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "cco-usage-"));
+});
+afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+function assistant(id: string, model: string, input: number, output: number, cacheRead = 0): string {
+  return JSON.stringify({
+    type: "assistant",
+    message: {
+      id,
+      model,
+      content: [{ type: "text", text: "..." }],
+      usage: { input_tokens: input, output_tokens: output, cache_read_input_tokens: cacheRead },
+    },
+  }) + "\n";
+}
+
+test("prices match the longest model prefix, then default", () => {
+  expect(priceFor("claude-opus-4-5-20251101").input).toBe(5);
+  expect(priceFor("claude-opus-4-1-20250805").input).toBe(15);
+  expect(priceFor("some-local-model")).toEqual(priceFor(undefined));
+});
+
+test("transcript usage is de-duplicated by message id and grouped by model", async () => {
+  const path = join(dir, "worker.jsonl");
+  writeFileSync(path,
+    assistant("m1", "claude-sonnet-4-5", 100, 10) +
+    assistant("m1", "claude-sonnet-4-5", 100, 50) +  // same message, later block
+    assistant("m2", "claude-haiku-4-5", 20, 5) +
+    JSON.stringify({ type: "user", message: { content: "hi" } }) + "\n"
+  );
+
+  expect(await readTranscriptUsage(path)).toEqual([
+    { model: "claude-sonnet-4-5", inputTokens: 100, outputTokens: 50, cacheCreationTokens: 0, cacheReadTokens: 0 },
+    { model: "claude-haiku-4-5", inputTokens: 20, outputTokens: 5, cacheCreationTokens: 0, cacheReadTokens: 0 },
+  ]);
+});
+
+test("tracker accounts per iteration from cumulative transcripts", async () => {
+  const path = join(dir, "worker.jsonl");
+  const tracker = new UsageTracker();
+  writeFileSync(path, assistant("m1", "claude-sonnet-4-5", 1_000_000, 0));
+  await tracker.recordWorker(path, 1);
+
+  appendFileSync(path, assistant("m2", "claude-sonnet-4-5", 0, 100_000, 1_000_000));
+  await tracker.recordWorker(path, 2);
+  await tracker.recordSupervisor(
+    { action: "inject", command: "go on", reason: "", confidence: 1, usage: { inputTokens: 1000, outputTokens: 0 } },
+    2
+  );
+
+  const usage = tracker.getUsage();
+  expect(usage.iterations.map((i) => i.worker.costUsd)).toEqual([3, 1.5 + 0.3]);
+  expect(usage.worker.inputTokens).toBe(1_000_000);
+  expect(usage.supervisor.costUsd).toBeCloseTo(0.003);
+  expect(usage.totalCostUsd).toBeCloseTo(4.803);
+});
+
+test("controller aborts once the cost budget is exceeded", async () => {
+  const path = join(dir, "worker.jsonl");
+  writeFileSync(path, assistant("m1", "claude-opus-4-1", 100_000, 0));  // $1.50
+
+  let supervisorCalls = 0;
+  const reasons: string[] = [];
+  const controller = new HooksController({ onControllerStop: (reason) => reasons.push(reason) });
+  controller.setUsageMeter(new UsageTracker({ maxCostUsd: 1 }));
+  controller.setSupervisor(async () => {
+    supervisorCalls++;
+    return { action: "inject", command: "more", reason: "", confidence: 1 };
+  });
+  controller.setOnInject(() => {});
+  controller.start("task");
+
+  await controller.onStop({ session_id: "s1", transcript_path: path, hook_event_name: "Stop" });
+
+  expect(supervisorCalls).toBe(0);
+  expect(reasons).toEqual(["Aborted: Cost budget exceeded: $1.50 of $1.00"]);
+  expect(controller.getUsage()?.totalCostUsd).toBeCloseTo(1.5);
+});
+
+test("a resumed run keeps its spend and does not re-count transcripts", async () => {
+  const path = join(dir, "worker.jsonl");
+  writeFileSync(path, assistant("m1", "claude-sonnet-4-5", 100_000, 0));  // $0.30
+  const supervisor = async () => ({
+    action: "inject" as const, command: "more", reason: "", confidence: 1, usage: { inputTokens: 100_000, outputTokens: 0 },
+  });
+
+  let saved: ControllerSnapshot | null = null;
+  const first = new HooksController();
+  first.setUsageMeter(new UsageTracker({ supervisorModel: "claude-sonnet-4-5" }));
+  first.setStatePersister((snapshot) => (saved = snapshot));
+  first.setSupervisor(supervisor);
+  first.setOnInject(() => {});
+  first.start("task");
+  await first.onStop({ session_id: "s1", transcript_path: path, hook_event_name: "Stop" });
+
+  // A new process with a budget the first run already used most of
+  const second = new HooksController();
+  second.setUsageMeter(new UsageTracker({ supervisorModel: "claude-sonnet-4-5", maxCostUsd: 1 }));
+  second.setSupervisor(supervisor);
+  second.setOnInject(() => {});
+  second.resumeRun(JSON.parse(JSON.stringify(saved)));
+  expect(second.getUsage()).toMatchObject({ maxCostUsd: 1 });
+  expect(second.getUsage()?.totalCostUsd).toBeCloseTo(0.6);
+
+  appendFileSync(path, assistant("m2", "claude-sonnet-4-5", 100_000, 0));
+  await second.onStop({ session_id: "s1", transcript_path: path, hook_event_name: "Stop" });
+
+  const usage = second.getUsage()!;
+  expect(usage.worker.inputTokens).toBe(200_000);
+  expect(usage.totalCostUsd).toBeCloseTo(1.2);
+  expect(second.getState()).toBe("stopped");
+});
@@ -0,0 +1,152 @@
+/**
+ * Usage Tracker
+ *
+ * Per-iteration and per-run token and cost accounting for the worker and
+ * the supervisor. Transcripts are cumulative, so each read is diffed against
+ * the previous one of the same file. Decisions from the Messages API
+ * supervisor carry their own usage; the interactive supervisor's usage is
+ * read from its transcript. The spawn-based supervisor reports none.
+ */
+
+import type {
+  RunUsage,
+  SupervisorDecision,
+  TokenUsage,
+  UsageMeter,
+  UsageState,
+  UsageTotals,
+} from "../hooks/types";
+import { costOf, DEFAULT_PRICES, type PriceTable } from "./pricing";
+import { readTranscriptUsage } from "./transcript";
+
+export interface UsageTrackerOptions {
+  /** Price table (default: DEFAULT_PRICES) */
+  prices?: PriceTable;
+  /** Cost budget in USD; exceeding it forces an abort (default: unlimited) */
+  maxCostUsd?: number | null;
+  /** Model used to price supervisor usage that names none */
+  supervisorModel?: string;
+  /** Current supervisor transcript, for decisions that carry no usage */
+  supervisorTranscript?: () => string | null;
+}
+
+export class UsageTracker implements UsageMeter {
+  private prices: PriceTable;
+  private options: UsageTrackerOptions;
+  private usage: RunUsage;
+  /** Last cumulative usage per transcript, per model */
+  private seen = new Map<string, Map<string, TokenUsage>>();
+
+  constructor(options: UsageTrackerOptions = {}) {
+    this.options = options;
+    this.prices = options.prices ?? DEFAULT_PRICES;
+    this.usage = this.emptyRun();
+  }
+
+  /**
+   * Start a new run. Transcript positions are kept, so a session that
+   * continues into the next run is not counted twice.
+   */
+  reset(): void {
+    this.usage = this.emptyRun();
+  }
+
+  saveState(): UsageState {
+    const transcripts: Record<string, TokenUsage[]> = {};
+    for (const [path, usage] of this.seen) {
+      transcripts[path] = [...usage.values()];
+    }
+    return { usage: this.getUsage(), transcripts };
+  }
+
+  restoreState(state: UsageState): void {
+    this.usage = { ...structuredClone(state.usage), maxCostUsd: this.options.maxCostUsd ?? null };
+    this.seen = new Map(
+      Object.entries(state.transcripts).map(([path, usage]) => [path, new Map(usage.map((u) => [u.model ?? "", u]))])
+    );
+  }
+
+  async recordWorker(transcriptPath: string, iteration: number): Promise<void> {
+    for (const usage of await this.readDelta(transcriptPath)) {
+      this.add("worker", usage, iteration);
+    }
+  }
+
+  async recordSupervisor(decision: SupervisorDecision, iteration: number): Promise<void> {
+    if (decision.usage) {
+      this.add("supervisor", { model: this.options.supervisorModel, ...decision.usage }, iteration);
+      return;
+    }
+
+    const transcriptPath = this.options.supervisorTranscript?.();
+    if (!transcriptPath) return;
+    for (const usage of await this.readDelta(transcriptPath)) {
+      this.add("supervisor", usage, iteration);
+    }
+  }
+
+  budgetExceeded(): string | null {
+    const { totalCostUsd, maxCostUsd } = this.usage;
+    if (maxCostUsd === null || totalCostUsd < maxCostUsd) return null;
+    return `Cost budget exceeded: $${totalCostUsd.toFixed(2)} of $${maxCostUsd.toFixed(2)}`;
+  }
+
+  getUsage(): RunUsage {
+    return structuredClone(this.usage);
+  }
+
+  /**
+   * Usage added to a transcript since it was last read, per model
+   */
+  private async readDelta(transcriptPath: string): Promise<TokenUsage[]> {
+    const previous = this.seen.get(transcriptPath) ?? new Map<string, TokenUsage>();
+    const current = await readTranscriptUsage(transcriptPath);
+
+    const deltas: TokenUsage[] = [];
+    for (const usage of current) {
+      const before = previous.get(usage.model ?? "");
+      deltas.push({
+        model: usage.model,
+        inputTokens: usage.inputTokens - (before?.inputTokens ?? 0),
+        outputTokens: usage.outputTokens - (before?.outputTokens ?? 0),
+        cacheCreationTokens: (usage.cacheCreationTokens ?? 0) - (before?.cacheCreationTokens ?? 0),
+        cacheReadTokens: (usage.cacheReadTokens ?? 0) - (before?.cacheReadTokens ?? 0),
+      });
+    }
+
+    this.seen.set(transcriptPath, new Map(current.map((u) => [u.model ?? "", u])));
+    return deltas;
+  }
+
+  private add(role: "worker" | "supervisor", usage: TokenUsage, iteration: number): void {
+    const costUsd = costOf(usage, this.prices);
+    let entry = this.usage.iterations.find((i) => i.iteration === iteration);
+    if (!entry) {
+      entry = { iteration, worker: emptyTotals(), supervisor: emptyTotals() };
+      this.usage.iterations.push(entry);
+    }
+
+    for (const totals of [this.usage[role], entry[role]]) {
+      totals.inputTokens += usage.inputTokens;
+      totals.outputTokens += usage.outputTokens;
+      totals.cacheCreationTokens += usage.cacheCreationTokens ?? 0;
+      totals.cacheReadTokens += usage.cacheReadTokens ?? 0;
+      totals.costUsd += costUsd;
+    }
+    this.usage.totalCostUsd += costUsd;
+  }
+
+  private emptyRun(): RunUsage {
+    return {
+      worker: emptyTotals(),
+      supervisor: emptyTotals(),
+      totalCostUsd: 0,
+      maxCostUsd: this.options.maxCostUsd ?? null,
+      iterations: [],
+    };
+  }
+}
+
+function emptyTotals(): UsageTotals {
+  return { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0, costUsd: 0 };
+}
@@ -0,0 +1,69 @@
+/**
+ * Transcript Usage
+ *
+ * Reads the usage blocks Claude Code writes on assistant entries of a
+ * session transcript. A message split over several entries repeats the
+ * same usage, so entries are de-duplicated by message id.
+ */
+
+import type { TokenUsage } from "../hooks/types";
+import { readTranscriptRecords } from "../transcript";
+
+interface TranscriptEntry {
+  type?: string;
+  requestId?: string;
+  uuid?: string;
+  message?: {
+    id?: string;
+    model?: string;
+    usage?: {
+      input_tokens?: number;
+      output_tokens?: number;
+      cache_creation_input_tokens?: number;
+      cache_read_input_tokens?: number;
+    };
+  };
+}
+
+/**
+ * Total usage in a transcript, one entry per model
+ * @returns Empty list if the file is missing or has no usage blocks
+ */
+export async function readTranscriptUsage(transcriptPath: string): Promise<TokenUsage[]> {
+  // Last usage seen per message (streamed entries repeat or refine it)
+  const messages = new Map<string, TokenUsage>();
+  for (const record of await readTranscriptRecords(transcriptPath)) {
+    const entry = record.raw as TranscriptEntry;
+    const usage = entry.message?.usage;
+    if (entry.type !== "assistant" || !usage) continue;
+    // Synthetic entries (e.g. interrupted turns) carry no real usage
+    if (entry.message?.model === "<synthetic>") continue;
+
+    const id = entry.message?.id ?? entry.requestId ?? entry.uuid ?? `line-${messages.size}`;
+    messages.set(id, {
+      inputTokens: usage.input_tokens ?? 0,
+      outputTokens: usage.output_tokens ?? 0,
+      cacheCreationTokens: usage.cache_creation_input_tokens ?? 0,
+      cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+      model: entry.message?.model,
+    });
+  }
+
+  const byModel = new Map<string, TokenUsage>();
+  for (const usage of messages.values()) {
+    const key = usage.model ?? "";
+    const total = byModel.get(key) ?? {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+      model: usage.model,
+    };
+    total.inputTokens += usage.inputTokens;
+    total.outputTokens += usage.outputTokens;
+    total.cacheCreationTokens! += usage.cacheCreationTokens ?? 0;
+    total.cacheReadTokens! += usage.cacheReadTokens ?? 0;
+    byModel.set(key, total);
+  }
+  return [...byModel.values()];
+}
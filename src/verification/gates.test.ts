@@ -0,0 +1,53 @@
+import { test, expect } from "bun:test";
+import { HooksController } from "../hooks";
+import { createVerifier, runGate } from "./gates";
+
+const stopDecision = { action: "stop" as const, reason: "done", confidence: 0.9 };
+
+test("verifier stops at the first failing gate", async () => {
+  const verify = createVerifier({ commands: ["true", "echo boom >&2; exit 3", "echo never"] });
+
+  const result = await verify({ taskDescription: "task", decision: stopDecision });
+
+  expect(result.passed).toBe(false);
+  expect(result.gates.map((g) => [g.command, g.passed, g.exitCode])).toEqual([
+    ["true", true, 0],
+    ["echo boom >&2; exit 3", false, 3],
+  ]);
+  expect(result.gates[1]?.output.trim()).toBe("boom");
+  expect(result.overrideCommand).toContain("`echo boom >&2; exit 3` exited with code 3");
+  expect(result.overrideCommand).toContain("boom");
+});
+
+test("gates that exceed the timeout fail", async () => {
+  const gate = await runGate("sleep 5", process.cwd(), 100);
+
+  expect(gate.passed).toBe(false);
+  expect(gate.timedOut).toBe(true);
+  expect(gate.exitCode).toBeNull();
+});
+
+test("controller injects the failing output instead of stopping", async () => {
+  const injected: string[] = [];
+  const results: boolean[] = [];
+  const controller = new HooksController({
+    onVerification: (result) => results.push(result.passed),
+  });
+  controller.setSupervisor(async () => stopDecision);
+  controller.setVerifier(createVerifier({ commands: ["echo 1 failing test; exit 1"] }));
+  controller.setOnInject((command) => injected.push(command));
+  controller.start("task");
+
+  await controller.onStop({ session_id: "s1", transcript_path: "/tmp/t.jsonl", hook_event_name: "Stop" });
+
+  expect(results).toEqual([false]);
+  expect(controller.getState()).toBe("monitoring");
+  expect(injected).toHaveLength(1);
+  expect(injected[0]).toContain("1 failing test");
+
+  controller.setVerifier(createVerifier({ commands: ["true"] }));
+  await controller.onStop({ session_id: "s1", transcript_path: "/tmp/t.jsonl", hook_event_name: "Stop" });
+
+  expect(results).toEqual([false, true]);
+  expect(controller.getState()).toBe("stopped");
+});
@@ -0,0 +1,104 @@
+/**
+ * Verification Gates
+ *
+ * Runs project checks (e.g. `bun test`, `tsc --noEmit`, a custom script)
+ * when the supervisor decides the work is complete. The first failing gate
+ * turns the stop into an inject carrying the failing output.
+ */
+
+import stripAnsi from "strip-ansi";
+import type { VerifierFn } from "../hooks/controller";
+import type { GateResult } from "../hooks/types";
+import { log } from "../log";
+
+const DEFAULT_TIMEOUT = 300000;
+/** Characters of gate output kept (the tail, where failures are reported) */
+const MAX_OUTPUT = 4000;
+
+export interface VerifierConfig {
+  /** Shell commands run in order; the first failure stops the run */
+  commands: string[];
+  /** Working directory for the commands (default: process.cwd()) */
+  cwd?: string;
+  /** Per-command timeout in ms (default: 300000) */
+  timeout?: number;
+}
+
+/**
+ * Create a verifier for HooksController.setVerifier()
+ */
+export function createVerifier(config: VerifierConfig): VerifierFn {
+  const { commands, cwd = process.cwd(), timeout = DEFAULT_TIMEOUT } = config;
+
+  return async () => {
+    const gates: GateResult[] = [];
+    for (const command of commands) {
+      const gate = await runGate(command, cwd, timeout);
+      gates.push(gate);
+      log(`[Verification] ${command}: ${gate.passed ? "passed" : "failed"} (${gate.durationMs}ms)`);
+
+      if (!gate.passed) {
+        return { passed: false, gates, overrideCommand: buildFailureCommand(gate) };
+      }
+    }
+    return { passed: true, gates };
+  };
+}
+
+/**
+ * Run one gate command through the shell
+ */
+export async function runGate(command: string, cwd: string, timeout: number = DEFAULT_TIMEOUT): Promise<GateResult> {
+  const startedAt = Date.now();
+  // Own process group, so a timeout also kills the command's children
+  // (which would otherwise keep the output pipes open)
+  const proc = Bun.spawn(["sh", "-c", command], {
+    cwd,
+    stdout: "pipe",
+    stderr: "pipe",
+    detached: true,
+  });
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    try {
+      process.kill(-proc.pid, "SIGKILL");
+    } catch {
+      // Already exited
+    }
+  }, timeout);
+
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ]);
+  clearTimeout(timer);
+
+  return {
+    command,
+    passed: exitCode === 0 && !timedOut,
+    exitCode: timedOut ? null : exitCode,
+    output: truncateOutput(stripAnsi([stdout, stderr].filter(Boolean).join("\n"))),
+    durationMs: Date.now() - startedAt,
+    timedOut,
+  };
+}
+
+/**
+ * Instruction injected into the worker when a gate fails
+ */
+export function buildFailureCommand(gate: GateResult): string {
+  const status = gate.timedOut ? "timed out" : `exited with code ${gate.exitCode}`;
+  return `Verification failed, the task is not complete yet. \`${gate.command}\` ${status}:
+
+${gate.output.trim() || "(no output)"}
+
+Fix these failures, then finish the task.`;
+}
+
+function truncateOutput(output: string): string {
+  if (output.length <= MAX_OUTPUT) return output;
+  return `…(truncated)\n${output.slice(-MAX_OUTPUT)}`;
+}
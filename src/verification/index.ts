@@ -0,0 +1,8 @@
+/**
+ * Verification Module
+ *
+ * Project checks run before a stop decision is accepted.
+ */
+
+export { createVerifier, runGate, buildFailureCommand } from "./gates";
+export type { VerifierConfig } from "./gates";
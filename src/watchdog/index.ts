@@ -0,0 +1,9 @@
+/**
+ * Watchdog Module
+ *
+ * Stall and loop detection for workers that never reach a Stop event.
+ */
+
+export { Watchdog, WATCHDOG_ACTIONS } from "./watchdog";
+export type { WatchdogAction, WatchdogOptions } from "./watchdog";
+export type { WatchdogAlert } from "../hooks/types";
@@ -0,0 +1,72 @@
+import { test, expect } from "bun:test";
+import { Watchdog, type WatchdogAlert } from "./index";
+import type { HookEvent } from "../hooks/types";
+
+function setup(options: { stallTimeoutMs?: number; loopThreshold?: number } = {}) {
+  let now = 0;
+  const alerts: WatchdogAlert[] = [];
+  const watchdog = new Watchdog({
+    stallTimeoutMs: options.stallTimeoutMs ?? 60_000,
+    loopThreshold: options.loopThreshold ?? 3,
+    onAlert: (alert) => alerts.push(alert),
+    now: () => now,
+  });
+  return { watchdog, alerts, advance: (ms: number) => { now += ms; } };
+}
+
+const tool = (name: string, input: Record<string, unknown>, output = "", error?: string): HookEvent => ({
+  session_id: "s1",
+  hook_event_name: "PostToolUse",
+  tool_name: name,
+  tool_input: input,
+  tool_response: { output, error },
+});
+
+test("a tool call that never finishes, or a silent worker, is a stall once", () => {
+  const { watchdog, alerts, advance } = setup();
+
+  watchdog.recordEvent({ session_id: "s1", hook_event_name: "PreToolUse", tool_name: "Bash", tool_input: { command: "npm run dev" } });
+  advance(30_000);
+  watchdog.recordOutput();
+  watchdog.check();
+  expect(alerts).toEqual([]);
+
+  advance(30_000);
+  watchdog.recordOutput();
+  watchdog.check();
+  watchdog.check();
+  expect(alerts).toHaveLength(1);
+  expect(alerts[0]).toMatchObject({ kind: "stall", toolName: "Bash", reason: "Bash has been running for 60s (npm run dev)", idleSeconds: 60, outputIdleSeconds: 0 });
+
+  // Finished tool, then nothing at all
+  watchdog.recordEvent(tool("Bash", { command: "npm run dev" }));
+  advance(60_000);
+  watchdog.check();
+  expect(alerts[1]).toMatchObject({ kind: "stall", reason: "No hook event and no output for 60s" });
+
+  // A stopped worker is idle, not stalled
+  watchdog.recordEvent({ session_id: "s1", hook_event_name: "Stop", transcript_path: "/t.jsonl" });
+  advance(120_000);
+  watchdog.check();
+  expect(alerts).toHaveLength(2);
+});
+
+test("identical calls with identical results, and edit/revert round trips, are loops", () => {
+  const { watchdog, alerts } = setup({ loopThreshold: 3 });
+
+  // Reruns with a different result are progress
+  watchdog.recordEvent(tool("Bash", { command: "bun test" }, "", "2 failed"));
+  watchdog.recordEvent(tool("Bash", { command: "bun test" }, "", "1 failed"));
+  watchdog.recordEvent(tool("Bash", { command: "bun test" }, "", "1 failed"));
+  expect(alerts).toEqual([]);
+  watchdog.recordEvent(tool("Bash", { command: "bun test" }, "", "1 failed"));
+  expect(alerts[0]).toMatchObject({ kind: "loop", toolName: "Bash" });
+
+  const edit = (from: string, to: string) =>
+    watchdog.recordEvent(tool("Edit", { file_path: "src/a.ts", old_string: from, new_string: to }, "ok"));
+  edit("let x = 1", "const x = 1");
+  edit("const x = 1", "let x = 1");
+  expect(alerts).toHaveLength(1);
+  edit("let x = 1", "const x = 1");
+  expect(alerts[1]).toMatchObject({ kind: "loop", filePath: "src/a.ts", reason: "src/a.ts was edited back to an earlier state 2 times" });
+});
@@ -0,0 +1,252 @@
+/**
+ * Worker Watchdog
+ *
+ * The controller only acts on Stop events, so a worker that hangs mid-tool,
+ * repeats the same failing call or goes quiet never reaches the supervisor.
+ * The watchdog watches hook events and PTY output and raises:
+ * - stall: no hook event and no output for the stall timeout, or one tool
+ *   call running that long
+ * - loop: the same tool call with the same result loopThreshold times, or a
+ *   file edited back to an earlier state loopThreshold - 1 times
+ * Each alert is raised once; it can fire again after new activity.
+ */
+
+import type { HookEvent, ToolHistoryEntry, WatchdogAlert } from "../hooks/types";
+
+/**
+ * What happens when the watchdog raises an alert
+ */
+export type WatchdogAction =
+  | 'escalate'   // Call the supervisor with the alert, without waiting for Stop
+  | 'interrupt'  // Send Esc to the worker first, then call the supervisor
+  | 'notify'     // Only broadcast the alert
+  | 'off';       // No watchdog
+
+export const WATCHDOG_ACTIONS: WatchdogAction[] = ['escalate', 'interrupt', 'notify', 'off'];
+
+/** How often stalls are checked for */
+const CHECK_INTERVAL_MS = 5000;
+
+/** Tool calls kept for loop detection */
+const LOOP_WINDOW = 20;
+
+export interface WatchdogOptions {
+  /** Quiet period (or single tool call duration) that counts as a stall */
+  stallTimeoutMs: number;
+  /** Identical calls (or edit/revert round trips + 1) that count as a loop */
+  loopThreshold: number;
+  /** Called once per stall or loop */
+  onAlert: (alert: WatchdogAlert) => void;
+  /** Clock, for tests (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * A file change that can be undone by a later one
+ */
+interface FileChange {
+  filePath: string;
+  from: string;
+  to: string;
+}
+
+export class Watchdog {
+  private options: WatchdogOptions;
+  private now: () => number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  /** Between a prompt or tool event and the next Stop (only then can the worker stall) */
+  private working = false;
+  private lastEventAt: number;
+  private lastOutputAt: number;
+  private runningTool: { name: string; input: Record<string, unknown>; since: number } | null = null;
+  private stallRaised = false;
+  private recentTools: ToolHistoryEntry[] = [];
+  private changes: FileChange[] = [];
+  /** Last content written per file, to see Write reverts */
+  private written = new Map<string, string>();
+
+  constructor(options: WatchdogOptions) {
+    this.options = options;
+    this.now = options.now ?? Date.now;
+    this.lastEventAt = this.lastOutputAt = this.now();
+  }
+
+  /**
+   * Feed every hook event received for the watched session
+   */
+  recordEvent(event: HookEvent): void {
+    this.lastEventAt = this.now();
+    this.stallRaised = false;
+
+    switch (event.hook_event_name) {
+      case 'UserPromptSubmit':
+        this.working = true;
+        break;
+      case 'PreToolUse':
+        this.working = true;
+        this.runningTool = { name: event.tool_name, input: event.tool_input, since: this.lastEventAt };
+        break;
+      case 'PostToolUse':
+        this.working = true;
+        this.runningTool = null;
+        this.recordTool({
+          timestamp: new Date(this.lastEventAt),
+          toolName: event.tool_name,
+          input: event.tool_input,
+          output: event.tool_response.output,
+          error: event.tool_response.error,
+        });
+        break;
+      case 'Stop':
+      case 'Notification':  // Waiting on a human is a block, not a stall
+      case 'SessionEnd':
+        this.working = false;
+        this.runningTool = null;
+        break;
+    }
+  }
+
+  /**
+   * Note worker PTY output (a frozen worker prints nothing, not even its spinner)
+   */
+  recordOutput(): void {
+    this.lastOutputAt = this.now();
+  }
+
+  /**
+   * Note a command typed into the worker (it starts working again)
+   */
+  recordInput(): void {
+    this.working = true;
+    this.lastEventAt = this.now();
+    this.stallRaised = false;
+  }
+
+  /**
+   * Check a finished tool call for loops
+   */
+  recordTool(entry: ToolHistoryEntry): void {
+    this.recentTools.push(entry);
+    if (this.recentTools.length > LOOP_WINDOW) this.recentTools.shift();
+
+    const key = callKey(entry);
+    const repeats = this.recentTools.filter((t) => callKey(t) === key);
+    if (repeats.length >= this.options.loopThreshold) {
+      this.recentTools = this.recentTools.filter((t) => callKey(t) !== key);
+      this.raise('loop', `${entry.toolName} called ${repeats.length} times with the same input and the same result`, {
+        toolName: entry.toolName,
+      });
+      return;
+    }
+
+    const change = entry.error ? null : this.fileChange(entry);
+    if (!change || change.from === change.to) return;
+    this.changes.push(change);
+    if (this.changes.length > LOOP_WINDOW) this.changes.shift();
+
+    const sameFile = this.changes.filter((c) => c.filePath === change.filePath);
+    const reverts = sameFile.filter((c, i) => sameFile.slice(0, i).some((p) => p.from === c.to && p.to === c.from));
+    if (reverts.length >= Math.max(1, this.options.loopThreshold - 1)) {
+      this.changes = this.changes.filter((c) => c.filePath !== change.filePath);
+      this.raise('loop', `${change.filePath} was edited back to an earlier state ${reverts.length} times`, {
+        toolName: entry.toolName,
+        filePath: change.filePath,
+      });
+    }
+  }
+
+  /**
+   * Raise a stall if the worker has been quiet or stuck in one tool too long
+   */
+  check(): void {
+    if (!this.working || this.stallRaised) return;
+
+    const now = this.now();
+    const timeout = this.options.stallTimeoutMs;
+    const tool = this.runningTool;
+    if (tool && now - tool.since >= timeout) {
+      this.raise('stall', `${tool.name} has been running for ${seconds(now - tool.since)}s${describeInput(tool.input)}`, {
+        toolName: tool.name,
+      });
+    } else if (now - this.lastEventAt >= timeout && now - this.lastOutputAt >= timeout) {
+      this.raise('stall', `No hook event and no output for ${seconds(now - Math.max(this.lastEventAt, this.lastOutputAt))}s`);
+    }
+  }
+
+  /**
+   * Start checking for stalls
+   */
+  start(): void {
+    if (!this.timer) {
+      this.timer = setInterval(() => this.check(), Math.min(CHECK_INTERVAL_MS, this.options.stallTimeoutMs));
+    }
+  }
+
+  /**
+   * Start watching a new run
+   */
+  reset(): void {
+    this.working = false;
+    this.runningTool = null;
+    this.stallRaised = false;
+    this.recentTools = [];
+    this.changes = [];
+    this.written.clear();
+    this.lastEventAt = this.lastOutputAt = this.now();
+  }
+
+  /**
+   * Stop checking (e.g. when the controller stops)
+   */
+  dispose(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private raise(kind: WatchdogAlert['kind'], reason: string, details: Pick<WatchdogAlert, 'toolName' | 'filePath'> = {}): void {
+    if (kind === 'stall') this.stallRaised = true;
+    const now = this.now();
+    this.options.onAlert({
+      kind,
+      reason,
+      ...details,
+      idleSeconds: seconds(now - this.lastEventAt),
+      outputIdleSeconds: seconds(now - this.lastOutputAt),
+      timestamp: new Date(now).toISOString(),
+    });
+  }
+
+  private fileChange(entry: ToolHistoryEntry): FileChange | null {
+    const filePath = entry.input.file_path;
+    if (typeof filePath !== "string") return null;
+
+    if (entry.toolName === "Edit") {
+      const { old_string: from, new_string: to } = entry.input;
+      return typeof from === "string" && typeof to === "string" ? { filePath, from, to } : null;
+    }
+    if (entry.toolName === "Write" && typeof entry.input.content === "string") {
+      const from = this.written.get(filePath);
+      this.written.set(filePath, entry.input.content);
+      return from !== undefined ? { filePath, from, to: entry.input.content } : null;
+    }
+    return null;
+  }
+}
+
+/**
+ * Identity of a call and its outcome: a retry that gets a different result is progress
+ */
+function callKey(entry: ToolHistoryEntry): string {
+  return JSON.stringify([entry.toolName, entry.input, entry.error ?? entry.output]);
+}
+
+function describeInput(input: Record<string, unknown>): string {
+  const subject = input.command ?? input.file_path ?? input.pattern ?? input.url;
+  return typeof subject === "string" ? ` (${subject.slice(0, 120)})` : "";
+}
+
+function seconds(ms: number): number {
+  return Math.round(ms / 1000);
+}
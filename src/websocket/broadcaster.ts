@@ -7,6 +7,8 @@
 
 import type { Server, ServerWebSocket } from "bun";
 import stripAnsi from "strip-ansi";
+import { TerminalScreen, DEFAULT_COLS, DEFAULT_ROWS, type TerminalSnapshot } from "../pty";
+import { ReplayLog, replayChannel, TERMINAL_CHANNELS } from "./replay";
 
 /**
  * Strip all terminal control sequences beyond what strip-ansi handles.
@@ -129,10 +131,27 @@ import type {
   ToolEvent,
   SessionStartEvent,
   SessionEndEvent,
+  PreToolUseEvent,
+  UserPromptSubmitEvent,
+  NotificationEvent,
+  SubagentStopEvent,
+  PreCompactEvent,
+  WorkerBlock,
   SupervisorDecision,
   ToolHistoryEntry,
+  VerificationResult,
+  Checkpoint,
+  RunUsage,
+  PolicyVerdict,
+  PendingDecision,
+  ApprovalOutcome,
+  WatchdogAlert,
+  SteeringOp,
 } from "../hooks/types";
 import type { SessionState, SessionMetadata } from "../session/types";
+import type { QueuedTask } from "../queue/types";
+import type { TranscriptRecord } from "../transcript/types";
+import type { WatchdogAction } from "../watchdog/watchdog";
 
 /**
  * WebSocket message types for the monitoring UI
@@ -141,12 +160,22 @@ export type WSMessageType =
   | "session_state"
   | "pty_output"
   | "supervisor_pty_output"
+  | "terminal_snapshot"
   | "hook_event"
   | "supervisor_call"
   | "supervisor_decision"
   | "supervisor_state"
   | "command_inject"
   | "iteration_update"
+  | "queue_update"
+  | "verification_result"
+  | "checkpoint"
+  | "policy_verdict"
+  | "approval"
+  | "transcript_entry"
+  | "watchdog"
+  | "steer"
+  | "ack"
   | "error"
   | "connected";
 
@@ -157,6 +186,25 @@ export interface WSMessage {
   type: WSMessageType;
   timestamp: string;
   data: unknown;
+  /** Pool worker that produced the message (absent for the primary worker) */
+  workerId?: string;
+  /** Position in the broadcast stream (absent for replies to one client) */
+  seq?: number;
+}
+
+/**
+ * Connected message data (first message on every connection)
+ */
+export interface ConnectedData {
+  message: string;
+  /** Seq of the latest broadcast message */
+  seq: number;
+  /**
+   * True if the connection asked for ?since=<seq> and is replayed exactly the
+   * messages after it; otherwise every kept message is replayed and the
+   * client should start over
+   */
+  resumed: boolean;
 }
 
 /**
@@ -167,26 +215,70 @@ export interface SessionStateData {
   metadata: SessionMetadata | null;
   controllerState: HooksControllerState;
   stats: HooksStats;
+  /** Prompt the worker is waiting on, if any */
+  blocked?: WorkerBlock | null;
+  /** Supervisor decision awaiting human approval, if any */
+  pendingDecision?: PendingDecision | null;
+  /** Worker and supervisor tokens and cost (when usage tracking is on) */
+  usage?: RunUsage | null;
   decoupled?: boolean;
   claudeRunning?: boolean;
+  /** Supervisor calls paused from the UI */
+  paused?: boolean;
 }
 
 /**
  * PTY output message data
  */
 export interface PTYOutputData {
-  /** Clean text output (ANSI stripped) */
+  /** Clean text output (ANSI stripped, empty if the chunk was only terminal noise) */
   output: string;
   /** Raw output for terminal rendering (base64 encoded) */
-  raw?: string;
+  raw: string;
+}
+
+/**
+ * PTY a terminal screen belongs to
+ */
+export type TerminalChannel = "worker" | "supervisor";
+
+/**
+ * Terminal snapshot message data: sent on connect, when the PTY is
+ * (re)spawned and after a resize. Clients reset their terminal to cols x rows
+ * and write data, then apply raw output as it arrives.
+ */
+export interface TerminalSnapshotData extends TerminalSnapshot {
+  channel: TerminalChannel;
 }
 
 /**
  * Hook event message data
  */
 export interface HookEventData {
-  eventType: "stop" | "tool" | "session-start" | "session-end";
-  event: StopEvent | ToolEvent | SessionStartEvent | SessionEndEvent;
+  eventType:
+    | "stop"
+    | "tool"
+    | "session-start"
+    | "session-end"
+    | "pre-tool"
+    | "prompt-submit"
+    | "notification"
+    | "subagent-stop"
+    | "pre-compact";
+  event:
+    | StopEvent
+    | ToolEvent
+    | SessionStartEvent
+    | SessionEndEvent
+    | PreToolUseEvent
+    | UserPromptSubmitEvent
+    | NotificationEvent
+    | SubagentStopEvent
+    | PreCompactEvent;
+  /** What the worker is now blocked on (notification only) */
+  block?: WorkerBlock;
+  /** Where the context was saved (pre-compact only) */
+  snapshotPath?: string | null;
 }
 
 /**
@@ -225,6 +317,78 @@ export interface IterationUpdateData {
   consecutiveFailures: number;
 }
 
+/**
+ * Task queue message data
+ */
+export interface QueueUpdateData {
+  tasks: QueuedTask[];
+}
+
+/**
+ * Verification gates message data
+ */
+export interface VerificationResultData {
+  result: VerificationResult;
+}
+
+/**
+ * Checkpoint message data
+ */
+export interface CheckpointData {
+  /** "created" after a snapshot, "restored" after a rollback */
+  event: "created" | "restored";
+  checkpoint: Checkpoint;
+  /** Snapshot taken just before restoring (restored only) */
+  safety?: Checkpoint;
+}
+
+/**
+ * Policy verdict message data
+ */
+export interface PolicyVerdictData {
+  toolName: string;
+  input: Record<string, unknown>;
+  verdict: PolicyVerdict;
+}
+
+/**
+ * Approval message data
+ */
+export interface ApprovalData {
+  /** "pending" when a decision is parked, otherwise how it was resolved */
+  event: "pending" | ApprovalOutcome;
+  pending: PendingDecision;
+  /** Decision actually applied (resolved events; null when rejected) */
+  applied?: SupervisorDecision | null;
+}
+
+/**
+ * Transcript entry message data (one per new line of a watched transcript)
+ */
+export interface TranscriptEntryData {
+  /** Session the transcript belongs to */
+  sessionId: string;
+  /** Transcript file the entry was appended to */
+  path: string;
+  entry: TranscriptRecord;
+}
+
+/**
+ * Watchdog message data
+ */
+export interface WatchdogData {
+  alert: WatchdogAlert;
+  /** What CCO does about it */
+  action: Exclude<WatchdogAction, 'off'>;
+}
+
+/**
+ * Steering message data
+ */
+export interface SteerData {
+  op: SteeringOp;
+}
+
 /**
  * Supervisor state message data
  */
@@ -237,8 +401,10 @@ export interface SupervisorStateData {
  * Supervisor PTY output message data
  */
 export interface SupervisorPTYOutputData {
-  /** Clean text output (ANSI stripped) */
+  /** Clean text output (ANSI stripped, empty if the chunk was only terminal noise) */
   output: string;
+  /** Raw output for terminal rendering (base64 encoded) */
+  raw: string;
 }
 
 /**
@@ -246,6 +412,8 @@ export interface SupervisorPTYOutputData {
  */
 interface WSData {
   connectedAt: Date;
+  /** Last seq the client saw before reconnecting (?since=) */
+  since: number | null;
 }
 
 /**
@@ -255,6 +423,41 @@ export class EventBroadcaster {
   private server: Server<WSData> | null = null;
   private connections = new Set<ServerWebSocket<WSData>>();
   private previousLines: string[] = []; // Track recent lines for spinner deduplication
+  private workerBroadcasters = new Map<string, EventBroadcaster>();
+  private listeners = new Set<(message: WSMessage) => void>();
+  /** Latest session_state per worker ("" for the primary), sent to new clients */
+  private lastStates = new Map<string, WSMessage>();
+  /** Screens of this worker's PTYs, sent to new clients */
+  private screens = new Map<TerminalChannel, TerminalScreen>();
+  /** Recent messages, replayed to new clients */
+  private replay = new ReplayLog();
+  private seq = 0;
+  /** Pool worker this broadcaster tags messages with (undefined for the root) */
+  readonly workerId: string | undefined;
+  private readonly parent: EventBroadcaster | null;
+
+  /**
+   * @param workerId - Tag applied to every message (scoped broadcasters only)
+   * @param parent - Root broadcaster that owns the connections
+   */
+  constructor(workerId?: string, parent?: EventBroadcaster) {
+    this.workerId = workerId;
+    this.parent = parent ?? null;
+  }
+
+  /**
+   * Get a broadcaster whose messages are tagged with a pool worker id.
+   * Scoped broadcasters share the root's connections.
+   */
+  forWorker(workerId: string): EventBroadcaster {
+    const root = this.parent ?? this;
+    let scoped = root.workerBroadcasters.get(workerId);
+    if (!scoped) {
+      scoped = new EventBroadcaster(workerId, root);
+      root.workerBroadcasters.set(workerId, scoped);
+    }
+    return scoped;
+  }
 
   /**
    * Set the server reference for WebSocket broadcasting
@@ -269,16 +472,47 @@ export class EventBroadcaster {
   onOpen(ws: ServerWebSocket<WSData>): void {
     this.connections.add(ws);
 
+    // A seq from before a restart cannot be resumed from
+    const since = ws.data.since !== null && ws.data.since <= this.seq ? ws.data.since : null;
+    const replayed = this.replay.since(since);
+    const resumed = since !== null && replayed.complete;
+
+    // A client that is not resumed gets each terminal as a snapshot instead of its output
+    const messages = resumed
+      ? replayed.messages
+      : replayed.messages.filter((m) => {
+          const channel = replayChannel(m);
+          return !channel || !TERMINAL_CHANNELS.includes(channel);
+        });
+
     // Send connected confirmation
     this.sendTo(ws, {
       type: "connected",
       timestamp: new Date().toISOString(),
-      data: { message: "Connected to CCO monitor" },
+      data: { message: "Connected to CCO monitor", seq: this.seq, resumed } satisfies ConnectedData,
     });
+
+    for (const message of messages) {
+      this.sendTo(ws, message);
+    }
+
+    // State is only pushed on change, so catch the new client up
+    for (const message of this.lastStates.values()) {
+      this.sendTo(ws, message);
+    }
+
+    // A resumed client's screen is already current
+    if (!resumed) {
+      for (const broadcaster of [this, ...this.workerBroadcasters.values()]) {
+        for (const channel of broadcaster.screens.keys()) {
+          this.sendTo(ws, { ...broadcaster.snapshotMessage(channel), workerId: broadcaster.workerId });
+        }
+      }
+    }
   }
 
   /**
-   * Handle WebSocket message (ping/pong or future commands)
+   * Handle WebSocket keepalive (requests are handled by the server, see protocol.ts)
    */
   onMessage(ws: ServerWebSocket<WSData>, message: string | Buffer): void {
     // Currently just echo for keepalive
@@ -294,6 +528,29 @@ export class EventBroadcaster {
     this.connections.delete(ws);
   }
 
+  /**
+   * Receive every broadcast message in-process (e.g. the headless event stream)
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (message: WSMessage) => void): () => void {
+    const root = this.parent ?? this;
+    root.listeners.add(listener);
+    return () => root.listeners.delete(listener);
+  }
+
+  /**
+   * Stop sending this worker's last state, screens and messages to new clients (e.g. once it is removed)
+   */
+  forget(): void {
+    const root = this.parent ?? this;
+    root.lastStates.delete(this.workerId ?? "");
+    if (this.workerId) root.replay.forget(this.workerId);
+    for (const screen of this.screens.values()) {
+      screen.dispose();
+    }
+    this.screens.clear();
+  }
+
   /**
    * Get number of connected clients
    */
@@ -305,6 +562,21 @@ export class EventBroadcaster {
    * Broadcast a message to all connected clients
    */
   broadcast(message: WSMessage): void {
+    if (this.parent) {
+      this.parent.broadcast({ ...message, workerId: this.workerId });
+      return;
+    }
+
+    // Cached without a seq: resent to new clients, it is not part of the stream
+    if (message.type === "session_state") {
+      this.lastStates.set(message.workerId ?? "", message);
+    }
+    message = { ...message, seq: ++this.seq };
+    this.replay.record(message);
+    for (const listener of this.listeners) {
+      listener(message);
+    }
+
     const json = JSON.stringify(message);
     for (const ws of this.connections) {
       try {
@@ -339,9 +611,46 @@ export class EventBroadcaster {
   }
 
   /**
-   * Broadcast PTY output (ANSI stripped and spinner-deduplicated for orchestrator readability)
+   * Start a new screen for a PTY (when it is spawned)
+   */
+  resetTerminal(channel: TerminalChannel, cols: number, rows: number): void {
+    this.screens.get(channel)?.dispose();
+    this.screens.set(channel, new TerminalScreen(cols, rows));
+    this.broadcast(this.snapshotMessage(channel));
+  }
+
+  /**
+   * Follow a PTY resize
+   */
+  resizeTerminal(channel: TerminalChannel, cols: number, rows: number): void {
+    this.screen(channel).resize(cols, rows);
+    this.broadcast(this.snapshotMessage(channel));
+  }
+
+  private screen(channel: TerminalChannel): TerminalScreen {
+    let screen = this.screens.get(channel);
+    if (!screen) {
+      screen = new TerminalScreen(DEFAULT_COLS, DEFAULT_ROWS);
+      this.screens.set(channel, screen);
+    }
+    return screen;
+  }
+
+  private snapshotMessage(channel: TerminalChannel): WSMessage {
+    return {
+      type: "terminal_snapshot",
+      timestamp: new Date().toISOString(),
+      data: { channel, ...this.screen(channel).snapshot() } satisfies TerminalSnapshotData,
+    };
+  }
+
+  /**
+   * Broadcast PTY output: raw for terminal rendering, plus ANSI stripped and
+   * spinner-deduplicated text for orchestrator readability
    */
   broadcastPTYOutput(output: Uint8Array): void {
+    this.screen("worker").write(output);
+
     const decoder = new TextDecoder();
     const rawText = decoder.decode(output);
     // Strip all terminal control sequences
@@ -351,16 +660,11 @@ export class EventBroadcaster {
     const { filtered, newLines } = filterPTYOutput(cleanText, this.previousLines);
     this.previousLines = newLines;
 
-    // Only broadcast if there's meaningful content
-    if (filtered.trim() === "") {
-      return;
-    }
-
     this.broadcast({
       type: "pty_output",
       timestamp: new Date().toISOString(),
       data: {
-        output: filtered,
+        output: filtered.trim() === "" ? "" : filtered,
         raw: Buffer.from(output).toString("base64"),
       } satisfies PTYOutputData,
     });
@@ -371,12 +675,13 @@ export class EventBroadcaster {
    */
   broadcastHookEvent(
     eventType: HookEventData["eventType"],
-    event: HookEventData["event"]
+    event: HookEventData["event"],
+    details: Pick<HookEventData, "block" | "snapshotPath"> = {}
   ): void {
     this.broadcast({
       type: "hook_event",
       timestamp: new Date().toISOString(),
-      data: { eventType, event } satisfies HookEventData,
+      data: { eventType, event, ...details } satisfies HookEventData,
     });
   }
 
@@ -438,6 +743,96 @@ export class EventBroadcaster {
     });
   }
 
+  /**
+   * Broadcast the task queue after a change
+   */
+  broadcastQueueUpdate(tasks: QueuedTask[]): void {
+    this.broadcast({
+      type: "queue_update",
+      timestamp: new Date().toISOString(),
+      data: { tasks } satisfies QueueUpdateData,
+    });
+  }
+
+  /**
+   * Broadcast the outcome of the verification gates on a stop decision
+   */
+  broadcastVerificationResult(result: VerificationResult): void {
+    this.broadcast({
+      type: "verification_result",
+      timestamp: new Date().toISOString(),
+      data: { result } satisfies VerificationResultData,
+    });
+  }
+
+  /**
+   * Broadcast a checkpoint being taken or restored
+   */
+  broadcastCheckpoint(event: CheckpointData["event"], checkpoint: Checkpoint, safety?: Checkpoint): void {
+    this.broadcast({
+      type: "checkpoint",
+      timestamp: new Date().toISOString(),
+      data: { event, checkpoint, ...(safety && { safety }) } satisfies CheckpointData,
+    });
+  }
+
+  /**
+   * Broadcast the tool policy verdict for a tool call about to run
+   */
+  broadcastPolicyVerdict(toolName: string, input: Record<string, unknown>, verdict: PolicyVerdict): void {
+    this.broadcast({
+      type: "policy_verdict",
+      timestamp: new Date().toISOString(),
+      data: { toolName, input, verdict } satisfies PolicyVerdictData,
+    });
+  }
+
+  /**
+   * Broadcast a decision being parked for approval or resolved
+   */
+  broadcastApproval(event: ApprovalData["event"], pending: PendingDecision, applied?: SupervisorDecision | null): void {
+    this.broadcast({
+      type: "approval",
+      timestamp: new Date().toISOString(),
+      data: { event, pending, ...(applied !== undefined && { applied }) } satisfies ApprovalData,
+    });
+  }
+
+  /**
+   * Broadcast entries appended to a watched transcript
+   */
+  broadcastTranscriptEntries(sessionId: string, path: string, entries: TranscriptRecord[]): void {
+    for (const entry of entries) {
+      this.broadcast({
+        type: "transcript_entry",
+        timestamp: new Date().toISOString(),
+        data: { sessionId, path, entry } satisfies TranscriptEntryData,
+      });
+    }
+  }
+
+  /**
+   * Broadcast a stall or loop raised by the watchdog
+   */
+  broadcastWatchdog(alert: WatchdogAlert, action: WatchdogData["action"]): void {
+    this.broadcast({
+      type: "watchdog",
+      timestamp: new Date().toISOString(),
+      data: { alert, action } satisfies WatchdogData,
+    });
+  }
+
+  /**
+   * Broadcast a steering operation applied to the worker
+   */
+  broadcastSteer(op: SteeringOp): void {
+    this.broadcast({
+      type: "steer",
+      timestamp: new Date().toISOString(),
+      data: { op } satisfies SteerData,
+    });
+  }
+
   /**
    * Broadcast supervisor state change (for interactive supervisor)
    */
@@ -453,21 +848,22 @@ export class EventBroadcaster {
    * Broadcast supervisor PTY output (for monitoring supervisor Claude)
    */
   broadcastSupervisorPTYOutput(output: string): void {
+    const raw = Buffer.from(output);
+    this.screen("supervisor").write(raw);
+
     // Strip control sequences for clean output
     const cleanText = stripAllControlSequences(output);
 
     // Filter out spinner/noise
     const { filtered } = filterPTYOutput(cleanText, []);
 
-    // Only broadcast if there's meaningful content
-    if (filtered.trim() === "") {
-      return;
-    }
-
     this.broadcast({
       type: "supervisor_pty_output",
       timestamp: new Date().toISOString(),
-      data: { output: filtered } satisfies SupervisorPTYOutputData,
+      data: {
+        output: filtered.trim() === "" ? "" : filtered,
+        raw: raw.toString("base64"),
+      } satisfies SupervisorPTYOutputData,
     });
   }
 }
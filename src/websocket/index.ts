@@ -5,14 +5,30 @@
  */
 
 export { EventBroadcaster, eventBroadcaster } from "./broadcaster";
+export { StatePublisher } from "./state";
+export { parseRequest, WS_REQUEST_TYPES } from "./protocol";
+export { ReplayLog, RingBuffer, REPLAY_CAPACITY, TERMINAL_CHANNELS } from "./replay";
+export type { ReplayChannel } from "./replay";
+export type { WSRequest, WSRequestType, AckData } from "./protocol";
 export type {
   WSMessageType,
   WSMessage,
+  ConnectedData,
   SessionStateData,
   PTYOutputData,
+  TerminalChannel,
+  TerminalSnapshotData,
   SupervisorPTYOutputData,
   HookEventData,
   SupervisorCallData,
   SupervisorDecisionData,
   CommandInjectData,
+  QueueUpdateData,
+  VerificationResultData,
+  CheckpointData,
+  PolicyVerdictData,
+  ApprovalData,
+  TranscriptEntryData,
+  WatchdogData,
+  SteerData,
 } from "./broadcaster";
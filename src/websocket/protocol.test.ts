@@ -0,0 +1,16 @@
+import { test, expect } from "bun:test";
+import { parseRequest } from "./protocol";
+
+test("requests need an id and a known type; other messages are not requests", () => {
+  expect(parseRequest('{"id":"1","type":"inject","command":"go","workerId":"api"}'))
+    .toEqual({ id: "1", type: "inject", command: "go", workerId: "api" });
+  expect(parseRequest('{"id":"2","type":"resize","cols":120,"rows":40}'))
+    .toEqual({ id: "2", type: "resize", cols: 120, rows: 40 });
+
+  expect(parseRequest('{"type":"pause"}')).toEqual({ id: null, error: "Request id required" });
+  expect(parseRequest('{"id":"3","type":"reboot"}')).toMatchObject({ id: "3", error: expect.stringContaining('Unknown request type "reboot"') });
+  expect(parseRequest('{"id":"4","type":"stop","workerId":7}')).toEqual({ id: "4", error: "workerId must be a string" });
+
+  expect(parseRequest("ping")).toBeNull();
+  expect(parseRequest("[1,2]")).toBeNull();
+});
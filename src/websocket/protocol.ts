@@ -0,0 +1,75 @@
+/**
+ * WebSocket Control Protocol
+ *
+ * Requests the monitor UI sends over /ws instead of separate REST calls.
+ * Each request carries a client-chosen id, and the server answers every one
+ * with exactly one "ack" message echoing that id. Requests without a
+ * workerId go to the primary worker.
+ *
+ *   → { "id": "7", "type": "inject", "command": "run the tests" }
+ *   ← { "type": "ack", "data": { "id": "7", "ok": true, "result": { ... } } }
+ *   ← { "type": "ack", "data": { "id": "8", "ok": false, "status": 409, "error": "..." } }
+ *
+ * The plain "ping" keepalive is not a request and is answered with "pong".
+ */
+
+/**
+ * Request sent by a client
+ */
+export type WSRequest = { id: string; workerId?: string } & (
+  | { type: "inject"; command: string }                     // Type and submit a command
+  | { type: "interrupt-inject"; command: string }           // Esc, then submit a command
+  | { type: "interrupt" }                                   // Esc
+  | { type: "cancel" }                                      // Ctrl-C
+  | { type: "keys"; keys?: string[]; data?: string }        // Named keys or raw input
+  | { type: "paste"; text: string; submit?: boolean }       // Bracketed paste
+  | { type: "resize"; cols: number; rows: number }          // Resize the worker's terminal
+  | { type: "pause" }                                       // Pause supervisor calls
+  | { type: "resume" }                                      // Resume supervisor calls
+  | { type: "stop" }                                        // Stop the controller
+  | { type: "launch"; task?: string }                       // Launch Claude (decoupled mode or pool workers)
+);
+
+export type WSRequestType = WSRequest["type"];
+
+export const WS_REQUEST_TYPES: WSRequestType[] = [
+  "inject", "interrupt-inject", "interrupt", "cancel", "keys", "paste", "resize",
+  "pause", "resume", "stop", "launch",
+];
+
+/**
+ * Acknowledgement message data
+ */
+export type AckData =
+  | { id: string; ok: true; result: Record<string, unknown> }
+  | { id: string; ok: false; error: string; status: number };
+
+/**
+ * Read the envelope of a client message. Fields beyond id, type and workerId
+ * are checked by the handler of each request type.
+ * @returns The request, an error to acknowledge (id is null if it could not
+ * be read), or null if the message is not a request (e.g. "ping")
+ */
+export function parseRequest(message: string): WSRequest | { id: string | null; error: string } | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(message);
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return null;
+  }
+
+  const request = parsed as Record<string, unknown>;
+  if (typeof request.id !== "string" || !request.id) {
+    return { id: null, error: "Request id required" };
+  }
+  if (!WS_REQUEST_TYPES.includes(request.type as WSRequestType)) {
+    return { id: request.id, error: `Unknown request type "${String(request.type)}" (available: ${WS_REQUEST_TYPES.join(", ")})` };
+  }
+  if (request.workerId !== undefined && typeof request.workerId !== "string") {
+    return { id: request.id, error: "workerId must be a string" };
+  }
+  return request as WSRequest;
+}
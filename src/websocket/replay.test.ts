@@ -0,0 +1,72 @@
+import { test, expect } from "bun:test";
+import type { ServerWebSocket } from "bun";
+import { EventBroadcaster, type WSMessage } from "./broadcaster";
+import { ReplayLog, REPLAY_CAPACITY } from "./replay";
+
+const message = (seq: number, type: WSMessage["type"], workerId?: string): WSMessage =>
+  ({ type, timestamp: "", data: {}, seq, ...(workerId && { workerId }) });
+
+test("each channel keeps its latest messages; a since older than what was dropped is not complete", () => {
+  const log = new ReplayLog();
+  log.record(message(1, "supervisor_decision"));
+  for (let seq = 2; seq <= REPLAY_CAPACITY.events + 11; seq++) {
+    log.record(message(seq, "hook_event"));
+  }
+  const last = REPLAY_CAPACITY.events + 11;
+  log.record(message(last + 1, "command_inject", "api"));
+  log.record(message(last + 2, "session_state"));
+
+  const all = log.since(null);
+  expect(all.messages).toHaveLength(1 + REPLAY_CAPACITY.events + 1);
+  expect(all.messages[0]?.seq).toBe(1);
+  expect(all.messages[1]?.seq).toBe(12);
+  expect(all.complete).toBe(false);
+
+  expect(log.since(11)).toMatchObject({ complete: true });
+  expect(log.since(last).messages.map((m) => [m.seq, m.workerId])).toEqual([[last + 1, "api"]]);
+
+  log.forget("api");
+  expect(log.since(last).messages).toEqual([]);
+});
+
+test("new clients are replayed recent events and terminal snapshots; reconnecting clients only what they missed", () => {
+  const broadcaster = new EventBroadcaster();
+  const connect = (since: number | null) => {
+    const received: WSMessage[] = [];
+    const ws = { data: { connectedAt: new Date(), since }, send: (json: string) => received.push(JSON.parse(json)) };
+    broadcaster.onOpen(ws as unknown as ServerWebSocket<{ connectedAt: Date; since: number | null }>);
+    return received;
+  };
+
+  broadcaster.broadcastPTYOutput(new TextEncoder().encode("building"));
+  broadcaster.broadcastCommandInject("run the tests");
+  broadcaster.broadcastSessionState({
+    sessionState: { status: "idle" },
+    metadata: null,
+    controllerState: "monitoring",
+    stats: { stopEvents: 0, toolCalls: 0, supervisorCalls: 0, commandsInjected: 1, errorsDetected: 0, toolsBlocked: 0, startTime: new Date(0), endTime: null },
+  });
+
+  const fresh = connect(null);
+  expect(fresh.map((m) => [m.type, m.seq])).toEqual([
+    ["connected", undefined],
+    ["command_inject", 2],
+    ["session_state", undefined],
+    ["terminal_snapshot", undefined],
+  ]);
+  expect(fresh[0]?.data).toMatchObject({ seq: 3, resumed: false });
+
+  broadcaster.broadcastCommandInject("fix the failure");
+  broadcaster.broadcastPTYOutput(new TextEncoder().encode(" done"));
+  const resumed = connect(2);
+  expect(resumed.map((m) => [m.type, m.seq])).toEqual([
+    ["connected", undefined],
+    ["command_inject", 4],
+    ["pty_output", 5],
+    ["session_state", undefined],
+  ]);
+  expect(resumed[0]?.data).toMatchObject({ seq: 5, resumed: true });
+
+  // A seq from before a server restart replays everything
+  expect(connect(99)[0]?.data).toMatchObject({ resumed: false });
+});
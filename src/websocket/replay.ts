@@ -0,0 +1,157 @@
+/**
+ * Message Replay Log
+ *
+ * Keeps the most recent broadcast messages in bounded ring buffers, one per
+ * channel and worker, so a monitor that connects late sees recent events,
+ * and one that reconnects with ?since=<seq> gets exactly what it missed
+ * (including terminal output; new clients get terminal snapshots instead).
+ * Session state is not kept here: the broadcaster caches the latest one per
+ * worker instead.
+ */
+
+import type { WSMessage, TerminalSnapshotData } from "./broadcaster";
+
+/**
+ * Group of messages sharing a ring buffer
+ */
+export type ReplayChannel =
+  | "worker_pty"      // Worker PTY output and screen resets
+  | "supervisor_pty"  // Supervisor PTY output and screen resets
+  | "decisions"       // Supervisor calls, decisions, approvals and verification
+  | "events";         // Everything else (hook events, injections, alerts, ...)
+
+/** Channels a new client gets as terminal snapshots rather than replayed */
+export const TERMINAL_CHANNELS: ReplayChannel[] = ["worker_pty", "supervisor_pty"];
+
+/** Messages kept per channel and worker */
+export const REPLAY_CAPACITY: Record<ReplayChannel, number> = {
+  worker_pty: 1000,
+  supervisor_pty: 500,
+  decisions: 200,
+  events: 500,
+};
+
+/**
+ * Fixed-size buffer that drops its oldest item when full
+ */
+export class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start = 0;
+  private count = 0;
+
+  constructor(readonly capacity: number) {
+    this.items = new Array(capacity);
+  }
+
+  /**
+   * Append an item
+   * @returns The item dropped to make room, if any
+   */
+  push(item: T): T | undefined {
+    const index = (this.start + this.count) % this.capacity;
+    if (this.count < this.capacity) {
+      this.items[index] = item;
+      this.count++;
+      return undefined;
+    }
+    const dropped = this.items[this.start];
+    this.items[this.start] = item;
+    this.start = (this.start + 1) % this.capacity;
+    return dropped;
+  }
+
+  /**
+   * Items, oldest first
+   */
+  toArray(): T[] {
+    return Array.from({ length: this.count }, (_, i) => this.items[(this.start + i) % this.capacity] as T);
+  }
+
+  get size(): number {
+    return this.count;
+  }
+}
+
+/**
+ * Buffer a message is kept in (null for messages that are not replayed)
+ */
+export function replayChannel(message: WSMessage): ReplayChannel | null {
+  switch (message.type) {
+    case "session_state":
+    case "connected":
+    case "ack":
+      return null;
+    case "pty_output":
+      return "worker_pty";
+    case "supervisor_pty_output":
+      return "supervisor_pty";
+    case "terminal_snapshot":
+      return (message.data as TerminalSnapshotData).channel === "supervisor" ? "supervisor_pty" : "worker_pty";
+    case "supervisor_call":
+    case "supervisor_decision":
+    case "supervisor_state":
+    case "iteration_update":
+    case "verification_result":
+    case "approval":
+      return "decisions";
+    default:
+      return "events";
+  }
+}
+
+interface ChannelLog {
+  messages: RingBuffer<WSMessage>;
+  /** Seq of the newest message dropped from the buffer (0 if none) */
+  droppedThrough: number;
+}
+
+export class ReplayLog {
+  private logs = new Map<string, ChannelLog>();
+
+  /**
+   * Keep a broadcast message (it must already carry its seq)
+   */
+  record(message: WSMessage): void {
+    const channel = replayChannel(message);
+    if (!channel || message.seq === undefined) return;
+
+    const key = `${message.workerId ?? ""}:${channel}`;
+    let log = this.logs.get(key);
+    if (!log) {
+      log = { messages: new RingBuffer(REPLAY_CAPACITY[channel]), droppedThrough: 0 };
+      this.logs.set(key, log);
+    }
+    const dropped = log.messages.push(message);
+    if (dropped?.seq !== undefined) {
+      log.droppedThrough = dropped.seq;
+    }
+  }
+
+  /**
+   * Messages after a seq, across all channels and workers, in broadcast order
+   * @param since - Last seq the client saw (null for everything kept)
+   * @returns complete is false if a message after since was already dropped
+   */
+  since(since: number | null): { messages: WSMessage[]; complete: boolean } {
+    const after = since ?? 0;
+    const messages: WSMessage[] = [];
+    let complete = true;
+    for (const log of this.logs.values()) {
+      if (log.droppedThrough > after) complete = false;
+      for (const message of log.messages.toArray()) {
+        if ((message.seq ?? 0) > after) messages.push(message);
+      }
+    }
+    messages.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+    return { messages, complete };
+  }
+
+  /**
+   * Drop a pool worker's messages (once it is removed)
+   */
+  forget(workerId: string): void {
+    for (const key of this.logs.keys()) {
+      if (key.startsWith(`${workerId}:`)) this.logs.delete(key);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { test, expect } from "bun:test";
+import { EventBroadcaster, type SessionStateData, type WSMessage } from "./broadcaster";
+import { StatePublisher } from "./state";
+
+test("state is pushed once per burst of changes, and only when it differs", async () => {
+  const root = new EventBroadcaster();
+  const sent: WSMessage[] = [];
+  root.subscribe((message) => {
+    if (message.type === "session_state") sent.push(message);
+  });
+
+  const state: SessionStateData = {
+    sessionState: { status: "idle" },
+    metadata: null,
+    controllerState: "idle",
+    stats: { stopEvents: 0, toolCalls: 0, supervisorCalls: 0, commandsInjected: 0, errorsDetected: 0, toolsBlocked: 0, startTime: new Date(0), endTime: null },
+  };
+  const publisher = new StatePublisher(root.forWorker("api"), () => state);
+
+  publisher.notify();
+  state.controllerState = "monitoring";
+  publisher.notify();
+  await Bun.sleep(80);
+  expect(sent).toHaveLength(1);
+  expect(sent[0]).toMatchObject({ workerId: "api", data: { controllerState: "monitoring" } });
+
+  // Events of other workers and unchanged state send nothing
+  root.forWorker("web").broadcastCommandInject("ls");
+  root.forWorker("api").broadcastCommandInject("ls");
+  await Bun.sleep(80);
+  expect(sent).toHaveLength(1);
+
+  state.stats.commandsInjected = 1;
+  root.forWorker("api").broadcastCommandInject("ls");
+  await Bun.sleep(80);
+  expect(sent).toHaveLength(2);
+  publisher.dispose();
+});
@@ -0,0 +1,74 @@
+/**
+ * Session State Publisher
+ *
+ * Pushes a worker's session_state when it changes rather than on a timer.
+ * Controller transitions and PTY/session changes call notify() directly;
+ * any other message broadcast for the same worker (hook events, decisions,
+ * injections) also triggers a publish, since those move stats and blocks.
+ * Bursts are coalesced and an unchanged state is not sent again.
+ */
+
+import type { EventBroadcaster, SessionStateData, WSMessage, WSMessageType } from "./broadcaster";
+
+/** Coalescing window for bursts of changes (e.g. a tool event and a state transition) */
+const PUBLISH_DELAY_MS = 50;
+
+/** Messages that never change the session state */
+const IGNORED_TYPES: WSMessageType[] = ["session_state", "pty_output", "supervisor_pty_output", "terminal_snapshot", "transcript_entry", "ack"];
+
+export class StatePublisher {
+  private broadcaster: EventBroadcaster;
+  private read: () => SessionStateData;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private lastSent: string | null = null;
+  private unsubscribe: () => void;
+
+  /**
+   * @param broadcaster - Broadcaster of the worker the state belongs to
+   * @param read - Current state snapshot
+   */
+  constructor(broadcaster: EventBroadcaster, read: () => SessionStateData) {
+    this.broadcaster = broadcaster;
+    this.read = read;
+    this.unsubscribe = broadcaster.subscribe((message: WSMessage) => {
+      if (message.workerId === broadcaster.workerId && !IGNORED_TYPES.includes(message.type)) {
+        this.notify();
+      }
+    });
+  }
+
+  /**
+   * Publish the state shortly (several calls in a burst publish once)
+   */
+  notify(): void {
+    if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.publish();
+      }, PUBLISH_DELAY_MS);
+    }
+  }
+
+  /**
+   * Publish the state now if it differs from the last one sent
+   */
+  publish(): void {
+    const data = this.read();
+    // Runtime moves every millisecond; clients derive it from metadata.startTime
+    const key = JSON.stringify({ ...data, metadata: data.metadata && { ...data.metadata, runtime: 0 } });
+    if (key === this.lastSent) return;
+    this.lastSent = key;
+    this.broadcaster.broadcastSessionState(data);
+  }
+
+  /**
+   * Stop publishing
+   */
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.unsubscribe();
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Workers Module
+ *
+ * Multi-worker orchestration: several named Claude workers under one server.
+ */
+
+export { Worker } from "./worker";
+export { WorkerPool } from "./pool";
+export type {
+  WorkerStatus,
+  WorkerConfig,
+  WorkerPoolOptions,
+  WorkerInfo,
+} from "./types";
@@ -0,0 +1,74 @@
+import { test, expect } from "bun:test";
+import { tmpdir } from "node:os";
+import { WorkerPool } from "./pool";
+import { EventBroadcaster } from "../websocket";
+
+function createPool(options: { command?: string[]; primaryCwd?: string } = {}): WorkerPool {
+  return new WorkerPool({
+    command: ["claude"],
+    broadcaster: new EventBroadcaster(),
+    ...options,
+  });
+}
+
+test("add registers workers with resolved cwd", () => {
+  const pool = createPool();
+
+  const worker = pool.add({ id: "api", cwd: "./api" });
+
+  expect(pool.get("api")).toBe(worker);
+  expect(worker.cwd).toBe(`${process.cwd()}/api`);
+  expect(pool.size).toBe(1);
+});
+
+test("add rejects duplicate and invalid ids", () => {
+  const pool = createPool();
+  pool.add({ id: "api", cwd: "." });
+
+  expect(() => pool.add({ id: "api", cwd: "." })).toThrow(/already exists/);
+  expect(() => pool.add({ id: "bad/id", cwd: "." })).toThrow(/Invalid worker id/);
+});
+
+test("resolve routes hook events by session id", async () => {
+  const pool = createPool();
+  const api = pool.add({ id: "api", cwd: "./api" });
+  pool.add({ id: "web", cwd: "./web" });
+
+  await api.controller.onSessionStart({
+    session_id: "session-api",
+    cwd: api.cwd,
+    source: "startup",
+    hook_event_name: "SessionStart",
+  });
+
+  expect(pool.resolve({ session_id: "session-api" })).toBe(api);
+  expect(pool.resolve({ session_id: "unknown" })).toBeUndefined();
+});
+
+test("resolve falls back to cwd only when one pool worker owns it", async () => {
+  // "sleep" stands in for Claude; the session id and task become its $0 and $1
+  const pool = createPool({ command: ["sh", "-c", "sleep 5"], primaryCwd: process.cwd() });
+  const api = pool.add({ id: "api", cwd: tmpdir() });
+  const shared = pool.add({ id: "shared", cwd: process.cwd() });
+  try {
+    await api.launch();
+    await shared.launch();
+    await api.controller.onUserPromptSubmit({
+      session_id: "session-api",
+      transcript_path: "/tmp/session-api.jsonl",
+      prompt: "go",
+      hook_event_name: "UserPromptSubmit",
+    });
+
+    expect(pool.resolve({ session_id: "after-clear", transcript_path: "/tmp/session-api.jsonl" })).toBe(api);
+    expect(pool.resolve({ session_id: "after-clear", cwd: tmpdir() })).toBe(api);
+    // The primary works in this cwd too, so its events stay with the primary
+    expect(pool.resolve({ session_id: "primary", cwd: process.cwd() })).toBeUndefined();
+
+    pool.add({ id: "api-2", cwd: tmpdir() });
+    await pool.get("api-2")!.launch();
+    expect(pool.resolve({ session_id: "unknown", cwd: tmpdir() })).toBeUndefined();
+  } finally {
+    await pool.stopAll("test done");
+  }
+});
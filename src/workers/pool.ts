@@ -0,0 +1,106 @@
+/**
+ * Worker Pool
+ *
+ * Registry of named Claude workers running under one CCO server.
+ * Resolves incoming hook events to the worker that produced them.
+ */
+
+import { resolve } from "node:path";
+import { Worker } from "./worker";
+import type { WorkerConfig, WorkerInfo, WorkerPoolOptions } from "./types";
+
+/** Worker ids are used in URLs, so keep them simple */
+const WORKER_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+export class WorkerPool {
+  private workers = new Map<string, Worker>();
+  private options: WorkerPoolOptions;
+
+  constructor(options: WorkerPoolOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Register a new worker (Claude is not launched until worker.launch())
+   * @throws Error if the id is invalid or already taken
+   */
+  add(config: WorkerConfig): Worker {
+    if (!WORKER_ID_PATTERN.test(config.id)) {
+      throw new Error(`Invalid worker id: ${config.id} (use letters, digits, - and _)`);
+    }
+    if (this.workers.has(config.id)) {
+      throw new Error(`Worker already exists: ${config.id}`);
+    }
+
+    const worker = new Worker({ ...config, cwd: resolve(config.cwd) }, this.options);
+    this.workers.set(config.id, worker);
+    return worker;
+  }
+
+  /**
+   * Get a worker by id
+   */
+  get(id: string): Worker | undefined {
+    return this.workers.get(id);
+  }
+
+  /**
+   * Find the worker that owns a hook event.
+   * Matches on session id, then transcript path, then on cwd (a /clear or
+   * compact starts a new session the pool has not seen yet). The cwd is only
+   * used when exactly one running worker, and not the primary, works there.
+   */
+  resolve(event: { session_id?: string; transcript_path?: string; cwd?: string }): Worker | undefined {
+    const workers = [...this.workers.values()];
+    const bySession = event.session_id && workers.find((worker) => worker.ownsSession(event.session_id!));
+    if (bySession) return bySession;
+
+    const byTranscript = event.transcript_path &&
+      workers.find((worker) => worker.controller.ownsTranscript(event.transcript_path!));
+    if (byTranscript) return byTranscript;
+
+    if (!event.cwd) return undefined;
+    const cwd = resolve(event.cwd);
+    if (this.options.primaryCwd && resolve(this.options.primaryCwd) === cwd) return undefined;
+    const byCwd = workers.filter((worker) => worker.getInfo().status === "running" && worker.cwd === cwd);
+    return byCwd.length === 1 ? byCwd[0] : undefined;
+  }
+
+  /**
+   * All workers, in registration order
+   */
+  list(): Worker[] {
+    return [...this.workers.values()];
+  }
+
+  /**
+   * Snapshot of all workers for API responses
+   */
+  getInfo(): WorkerInfo[] {
+    return this.list().map((worker) => worker.getInfo());
+  }
+
+  /**
+   * Stop and unregister a worker
+   */
+  async remove(id: string): Promise<boolean> {
+    const worker = this.workers.get(id);
+    if (!worker) return false;
+    await worker.stop("Worker removed");
+    worker.dispose();
+    this.workers.delete(id);
+    return true;
+  }
+
+  /**
+   * Stop every worker (used on shutdown)
+   */
+  async stopAll(reason: string): Promise<void> {
+    await Promise.all(this.list().map((worker) => worker.stop(reason)));
+  }
+
+  get size(): number {
+    return this.workers.size;
+  }
+}
+
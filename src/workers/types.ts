@@ -0,0 +1,86 @@
+/**
+ * Worker Pool Types
+ *
+ * Type definitions for running several named Claude workers under one server.
+ */
+
+import type { ApprovalConfig, HooksControllerState, HooksStats, SupervisorFn } from "../hooks";
+import type { ResolvedConfig } from "../config";
+import type { RunHistoryStore } from "../history";
+import type { ToolPolicyConfig } from "../policy";
+import type { PriceTable } from "../usage";
+import type { EventBroadcaster } from "../websocket";
+import type { WatchdogAction, WatchdogOptions } from "../watchdog";
+
+/**
+ * Worker lifecycle status
+ */
+export type WorkerStatus =
+  | 'idle'      // Registered, Claude not launched yet
+  | 'running'   // Claude PTY is running
+  | 'exited';   // Claude PTY exited
+
+/**
+ * Per-worker configuration
+ */
+export interface WorkerConfig {
+  /** Unique worker name (used in hook URLs and WS messages) */
+  id: string;
+  /** Working directory for this worker's Claude instance */
+  cwd: string;
+}
+
+/**
+ * Options shared by every worker in a pool
+ */
+export interface WorkerPoolOptions {
+  /** Claude command prefix (binary and flags); the task is appended */
+  command: string[];
+  /** Environment for spawned Claude processes */
+  env?: Record<string, string | undefined>;
+  /** Root broadcaster; each worker gets a scoped broadcaster from it */
+  broadcaster: EventBroadcaster;
+  /** Primary worker's cwd: hook events from it are never routed to a pool worker by cwd */
+  primaryCwd?: string;
+  /** Run history store (each worker launch is recorded as a run) */
+  history?: RunHistoryStore;
+  /** Create a dedicated supervisor for a worker */
+  createSupervisor?: (workerId: string, cwd: string) => SupervisorFn;
+  /** Flag a missing Stop hook this long after a worker's first tool event */
+  stopHookTimeoutMs?: number;
+  /** Stall and loop detection for each worker (absent = off) */
+  watchdog?: Pick<WatchdogOptions, 'stallTimeoutMs' | 'loopThreshold'> & { action: Exclude<WatchdogAction, 'off'> };
+  /** Verification gate commands run in each worker's cwd before stopping */
+  verifyCommands?: string[];
+  /** Per-command verification timeout in ms */
+  verifyTimeoutMs?: number;
+  /** Snapshot each worker's cwd after every Stop event (enables rollback) */
+  checkpoints?: boolean;
+  /** Paths left out of checkpoints (CCO's state directory) */
+  checkpointExclude?: string[];
+  /** Price table for token cost accounting (default: built-in prices) */
+  prices?: PriceTable;
+  /** Per-worker cost budget in USD; exceeding it aborts the worker's run */
+  maxCostUsd?: number | null;
+  /** When supervisor decisions wait for human approval (default: never) */
+  approval?: ApprovalConfig | null;
+  /** Tool policy applied to every worker (default: built-in deny-list) */
+  toolPolicy?: ToolPolicyConfig;
+  /** Settings recorded with every worker run */
+  config?: ResolvedConfig;
+}
+
+/**
+ * Worker snapshot for API responses
+ */
+export interface WorkerInfo {
+  id: string;
+  cwd: string;
+  status: WorkerStatus;
+  task: string | null;
+  sessionId: string | null;
+  runId: string | null;
+  controllerState: HooksControllerState;
+  stats: HooksStats;
+  exitCode: number | null;
+}
@@ -0,0 +1,349 @@
+/**
+ * Worker
+ *
+ * A named Claude Code worker with its own PTY, hooks controller, session state
+ * and working directory. Events are broadcast through a worker-scoped
+ * broadcaster so the monitor UI can tell workers apart.
+ */
+
+import { PTYManager, DEFAULT_COLS, DEFAULT_ROWS } from "../pty";
+import { SessionManager, SessionStore } from "../session";
+import { join } from "node:path";
+import {
+  HooksController,
+  HookHealthMonitor,
+  createContextSnapshotter,
+  DEFAULT_SNAPSHOT_DIR,
+  type HookEvent,
+  type SupervisorAction,
+} from "../hooks";
+import { createVerifier } from "../verification";
+import { createToolPolicy } from "../policy";
+import { GitCheckpoints } from "../checkpoints";
+import { UsageTracker } from "../usage";
+import { Watchdog } from "../watchdog";
+import type { RunHistoryStore } from "../history";
+import { StatePublisher, type EventBroadcaster, type SessionStateData } from "../websocket";
+import type { WorkerConfig, WorkerInfo, WorkerPoolOptions, WorkerStatus } from "./types";
+
+export class Worker {
+  readonly id: string;
+  readonly cwd: string;
+  readonly pty = new PTYManager();
+  readonly session = new SessionManager(new SessionStore());
+  readonly controller: HooksController;
+  /** Checkpoint store for this worker's cwd (null unless enabled) */
+  readonly checkpoints: GitCheckpoints | null;
+
+  private options: WorkerPoolOptions;
+  private broadcaster: EventBroadcaster;
+  private history: RunHistoryStore | null;
+  private status: WorkerStatus = "idle";
+  private task: string | null = null;
+  private runId: string | null = null;
+  private launchSessionId: string | null = null;
+  private lastDecisionAction: SupervisorAction | null = null;
+  private hookHealth: HookHealthMonitor | null = null;
+  private watchdog: Watchdog | null = null;
+  private statePublisher: StatePublisher;
+
+  constructor(config: WorkerConfig, options: WorkerPoolOptions) {
+    this.id = config.id;
+    this.cwd = config.cwd;
+    this.options = options;
+    this.broadcaster = options.broadcaster.forWorker(config.id);
+    this.history = options.history ?? null;
+    this.statePublisher = new StatePublisher(this.broadcaster, () => this.getSessionStateData());
+
+    this.controller = new HooksController({
+      onStop: (event) => {
+        this.hookHealth?.recordEvent(event);
+        this.watchdog?.recordEvent(event);
+        this.recordHook(event);
+        this.broadcaster.broadcastHookEvent("stop", event);
+      },
+      onTool: (event) => {
+        this.hookHealth?.recordEvent(event);
+        this.watchdog?.recordEvent(event);
+        this.recordHook(event);
+        this.broadcaster.broadcastHookEvent("tool", event);
+      },
+      onSessionStart: (event) => {
+        this.recordHook(event);
+        this.broadcaster.broadcastHookEvent("session-start", event);
+      },
+      onSessionEnd: (event) => {
+        this.watchdog?.recordEvent(event);
+        this.recordHook(event);
+        this.broadcaster.broadcastHookEvent("session-end", event);
+      },
+      onPreToolUse: (event) => {
+        this.watchdog?.recordEvent(event);
+        this.recordHook(event);
+        this.broadcaster.broadcastHookEvent("pre-tool", event);
+      },
+      onPolicyVerdict: (event, verdict) => {
+        if (this.runId) this.history?.recordPolicyVerdict(this.runId, event, verdict);
+        this.broadcaster.broadcastPolicyVerdict(event.tool_name, event.tool_input, verdict);
+      },
+      onUserPromptSubmit: (event) => {
+        this.watchdog?.recordEvent(event);
+        this.recordHook(event);
+        this.broadcaster.broadcastHookEvent("prompt-submit", event);
+      },
+      onNotification: (event, block) => {
+        this.watchdog?.recordEvent(event);
+        this.recordHook(event);
+        this.broadcaster.broadcastHookEvent("notification", event, { block });
+      },
+      onSubagentStop: (event) => {
+        this.recordHook(event);
+        this.broadcaster.broadcastHookEvent("subagent-stop", event);
+      },
+      onPreCompact: (event, snapshotPath) => {
+        this.recordHook(event);
+        this.broadcaster.broadcastHookEvent("pre-compact", event, { snapshotPath });
+      },
+      onSupervisorCall: ({ toolHistory }) => {
+        this.broadcaster.broadcastSupervisorCall(toolHistory);
+      },
+      onSupervisorDecision: (decision) => {
+        this.lastDecisionAction = decision.action;
+        if (this.runId) this.history?.recordDecision(this.runId, decision);
+        this.broadcaster.broadcastSupervisorDecision(decision);
+      },
+      onInject: (command) => {
+        this.watchdog?.recordInput();
+        if (this.runId) this.history?.recordInject(this.runId, command);
+        this.broadcaster.broadcastCommandInject(command);
+      },
+      onSteer: (op) => {
+        if (this.runId) this.history?.recordSteer(this.runId, op);
+        this.broadcaster.broadcastSteer(op);
+      },
+      onDecisionPending: (pending) => {
+        if (this.runId) this.history?.recordApproval(this.runId, "pending", pending);
+        this.broadcaster.broadcastApproval("pending", pending);
+      },
+      onDecisionResolved: (pending, outcome, applied) => {
+        if (this.runId) this.history?.recordApproval(this.runId, outcome, pending, applied);
+        this.broadcaster.broadcastApproval(outcome, pending, applied);
+      },
+      onVerification: (result) => {
+        if (this.runId) this.history?.recordVerification(this.runId, result);
+        this.broadcaster.broadcastVerificationResult(result);
+      },
+      onCheckpoint: (checkpoint) => {
+        if (this.runId) this.history?.recordCheckpoint(this.runId, "created", checkpoint);
+        this.broadcaster.broadcastCheckpoint("created", checkpoint);
+      },
+      onRollback: (checkpoint, safety) => {
+        if (this.runId) this.history?.recordCheckpoint(this.runId, "restored", checkpoint, safety);
+        this.broadcaster.broadcastCheckpoint("restored", checkpoint, safety);
+      },
+      onStateChange: () => {
+        this.statePublisher.notify();
+      },
+      onControllerStop: (reason) => {
+        this.hookHealth?.dispose();
+        this.watchdog?.dispose();
+        if (this.runId) {
+          const status = reason.startsWith("Aborted:")
+            ? "aborted"
+            : this.lastDecisionAction === "stop" ? "completed" : "stopped";
+          this.history?.finishRun(this.runId, status, reason);
+          this.runId = null;
+        }
+      },
+      onError: (err) => {
+        this.broadcaster.broadcastError(err);
+      },
+    });
+
+    this.controller.setOnInject((command) => {
+      if (this.pty.isRunning) {
+        this.pty.submit(command);
+      }
+    });
+    this.controller.setTerminal(this.pty);
+
+    if (options.stopHookTimeoutMs) {
+      this.hookHealth = new HookHealthMonitor({
+        stopTimeoutMs: options.stopHookTimeoutMs,
+        onMissingStop: (message) => this.broadcaster.broadcastError(new Error(message)),
+      });
+    }
+
+    const watchdog = options.watchdog;
+    if (watchdog) {
+      this.watchdog = new Watchdog({
+        ...watchdog,
+        onAlert: (alert) => {
+          if (this.runId) this.history?.recordWatchdog(this.runId, alert);
+          this.broadcaster.broadcastWatchdog(alert, watchdog.action);
+          if (watchdog.action !== "notify") {
+            this.controller.escalate(alert, { interrupt: watchdog.action === "interrupt" })
+              .catch((err) => this.broadcaster.broadcastError(err));
+          }
+        },
+      });
+    }
+
+    if (options.verifyCommands?.length) {
+      this.controller.setVerifier(createVerifier({
+        commands: options.verifyCommands,
+        cwd: config.cwd,
+        timeout: options.verifyTimeoutMs,
+      }));
+    }
+
+    this.checkpoints = options.checkpoints
+      ? new GitCheckpoints(config.cwd, { exclude: options.checkpointExclude })
+      : null;
+    this.controller.setCheckpointer(this.checkpoints);
+    this.controller.setApproval(options.approval ?? null);
+    this.controller.setToolPolicy(createToolPolicy(options.toolPolicy, { cwd: config.cwd }));
+    this.controller.setContextSnapshotter(createContextSnapshotter(join(config.cwd, DEFAULT_SNAPSHOT_DIR)));
+    this.controller.setUsageMeter(new UsageTracker({
+      prices: options.prices,
+      maxCostUsd: options.maxCostUsd,
+    }));
+
+    const supervisor = options.createSupervisor?.(config.id, config.cwd);
+    if (supervisor) {
+      this.controller.setSupervisor(supervisor);
+    }
+    this.statePublisher.notify();
+  }
+
+  /**
+   * Launch Claude in this worker's cwd
+   * @param task - Optional task description (interactive session if omitted)
+   * @throws Error if the worker is already running
+   */
+  async launch(task?: string): Promise<void> {
+    if (this.status === "running") {
+      throw new Error(`Worker ${this.id} is already running`);
+    }
+    if (this.status === "exited") {
+      // Release the previous PTY before relaunching
+      await this.pty.cleanup();
+    }
+
+    // Pre-assign the session id so hook events can be routed to this worker
+    // before any SessionStart has been seen
+    this.launchSessionId = crypto.randomUUID();
+    const command = [...this.options.command, "--session-id", this.launchSessionId];
+    if (task) {
+      command.push(task);
+    }
+
+    this.task = task || "interactive session";
+    if (this.session.getState().status !== "idle") {
+      this.session.setIdle();
+    }
+    this.session.startTask(this.task);
+    this.broadcaster.resetTerminal("worker", DEFAULT_COLS, DEFAULT_ROWS);
+
+    await this.pty.spawn({
+      command,
+      cwd: this.cwd,
+      env: this.options.env,
+      onData: (data) => {
+        this.watchdog?.recordOutput();
+        this.broadcaster.broadcastPTYOutput(data);
+      },
+      onResize: (cols, rows) => {
+        this.broadcaster.resizeTerminal("worker", cols, rows);
+      },
+      onExit: (exitCode) => {
+        this.status = "exited";
+        if (this.controller.isRunning()) {
+          this.controller.stop(`PTY exited with code ${exitCode}`);
+        }
+        this.session.setIdle();
+        this.statePublisher.notify();
+      },
+    });
+
+    this.status = "running";
+    this.statePublisher.notify();
+    this.lastDecisionAction = null;
+    this.hookHealth?.reset();
+    this.watchdog?.reset();
+    this.watchdog?.start();
+    this.runId = this.history?.startRun(this.task) ?? null;
+    if (this.runId && this.options.config) this.history?.recordConfig(this.runId, this.options.config);
+    this.controller.start(this.task);
+  }
+
+  /**
+   * Stop the controller and terminate the Claude PTY
+   */
+  async stop(reason: string = "Worker stopped"): Promise<void> {
+    if (this.controller.isRunning()) {
+      this.controller.stop(reason);
+    }
+    this.hookHealth?.dispose();
+    this.watchdog?.dispose();
+    await this.pty.cleanup();
+  }
+
+  /**
+   * Stop publishing state and drop the worker's screens (it was removed from the pool)
+   */
+  dispose(): void {
+    this.statePublisher.dispose();
+    this.broadcaster.forget();
+  }
+
+  /**
+   * Whether a hook event with this session id belongs to this worker
+   */
+  ownsSession(sessionId: string): boolean {
+    return sessionId !== "" && (
+      this.controller.getSessionId() === sessionId ||
+      this.launchSessionId === sessionId ||
+      this.controller.getTranscriptPath(sessionId) !== null
+    );
+  }
+
+  /**
+   * Session state snapshot in the same shape as the primary worker's
+   */
+  getSessionStateData(): SessionStateData {
+    const info = this.session.getInfo();
+    return {
+      sessionState: info.state,
+      metadata: info.metadata,
+      controllerState: this.controller.getState(),
+      stats: this.controller.getStats(),
+      blocked: this.controller.getBlock(),
+      pendingDecision: this.controller.getPendingDecision(),
+      usage: this.controller.getUsage(),
+      claudeRunning: this.status === "running",
+      paused: this.controller.isPaused(),
+    };
+  }
+
+  /**
+   * Worker snapshot for API responses
+   */
+  getInfo(): WorkerInfo {
+    return {
+      id: this.id,
+      cwd: this.cwd,
+      status: this.status,
+      task: this.task,
+      sessionId: this.controller.getSessionId() || this.launchSessionId,
+      runId: this.runId,
+      controllerState: this.controller.getState(),
+      stats: this.controller.getStats(),
+      exitCode: this.pty.exitCode,
+    };
+  }
+
+  private recordHook(event: HookEvent): void {
+    if (this.runId) this.history?.recordHookEvent(this.runId, event);
+  }
+}